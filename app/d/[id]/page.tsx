@@ -4,16 +4,23 @@ import React, { useEffect, useState, use } from "react";
 import { useRouter } from "next/navigation";
 import { useDiagramStore } from "@/lib/store/diagrams";
 import { usePrefsStore } from "@/lib/store/prefs";
+import { createSyncTransport, startSync } from "@/lib/store/sync";
+import { startServerSync } from "@/lib/store/server";
 import { Canvas } from "@/components/editor/Canvas";
 import { TopBar } from "@/components/editor/TopBar";
 import { Breadcrumb } from "@/components/editor/Breadcrumb";
 import { SettingsPanel } from "@/components/editor/SettingsPanel";
+import { LoopsPanel } from "@/components/editor/LoopsPanel";
+import { HistoryPanel } from "@/components/editor/HistoryPanel";
 import { QuickAddMenu } from "@/components/editor/QuickAddMenu";
 import { SearchPanel } from "@/components/editor/SearchPanel";
 import { Sidebar } from "@/components/layout/Sidebar";
 import { DatabaseView } from "@/components/editor/DatabaseView";
+import { SimulationView } from "@/components/editor/SimulationView";
 import { TabType } from "@/components/layout/TabBar";
 import { ImportExportModal } from "@/components/editor/ImportExportModal";
+import { SyncConflictBanner } from "@/components/editor/SyncConflictBanner";
+import { QuarantineNotice } from "@/components/editor/QuarantineNotice";
 
 interface PageProps {
   params: Promise<{ id: string }>;
@@ -37,6 +44,7 @@ export default function DiagramPage({ params }: PageProps) {
     loadDiagram,
     currentDiagram,
     createDiagram,
+    diagrams,
   } = useDiagramStore();
 
   const {
@@ -47,6 +55,8 @@ export default function DiagramPage({ params }: PageProps) {
   } = usePrefsStore();
 
   const [settingsOpen, setSettingsOpen] = useState(false);
+  const [loopsOpen, setLoopsOpen] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
   const [quickAddOpen, setQuickAddOpen] = useState(false);
   const [searchOpen, setSearchOpen] = useState(false);
   const [loading, setLoading] = useState(true);
@@ -66,6 +76,19 @@ export default function DiagramPage({ params }: PageProps) {
     initializePrefs();
   }, [initializeDiagrams, initializePrefs]);
 
+  // Merge edits made by other peers, in other tabs or over a relay server
+  useEffect(() => {
+    const transport = createSyncTransport();
+    return transport ? startSync(transport) : undefined;
+  }, []);
+
+  // Keep systems in step with the sync server, if one is set
+  const syncServerUrl = prefs.syncServerUrl;
+  useEffect(() => {
+    if (!diagramsInitialized || !syncServerUrl) return;
+    return startServerSync(syncServerUrl);
+  }, [diagramsInitialized, syncServerUrl]);
+
   // Load diagram when ID changes or after initialization
   useEffect(() => {
     if (!diagramsInitialized) return;
@@ -74,7 +97,8 @@ export default function DiagramPage({ params }: PageProps) {
       setLoading(true);
       const diagram = await loadDiagram(id);
 
-      if (!diagram) {
+      // A diagram that can't be read stays put, marked in the sidebar
+      if (!diagram && !useDiagramStore.getState().diagrams[id]?.quarantine) {
         // Diagram not found, create new or redirect
         const newId = createDiagram("New System");
         router.replace(`/d/${newId}`);
@@ -152,10 +176,34 @@ export default function DiagramPage({ params }: PageProps) {
         setActiveTab("database");
       }
 
+      // Cmd/Ctrl + 3: Simulation tab
+      if (hasModifier && e.key === "3") {
+        e.preventDefault();
+        setActiveTab("simulation");
+      }
+
       // Cmd/Ctrl + . : Toggle settings
       if (hasModifier && e.key === ".") {
         e.preventDefault();
         setSettingsOpen((prev) => !prev);
+        setLoopsOpen(false);
+        setHistoryOpen(false);
+      }
+
+      // Cmd/Ctrl + Shift + L: Toggle feedback loops panel (Cmd/Ctrl + L is the address bar)
+      if (e.shiftKey && hasModifier && e.key.toLowerCase() === "l") {
+        e.preventDefault();
+        setLoopsOpen((prev) => !prev);
+        setSettingsOpen(false);
+        setHistoryOpen(false);
+      }
+
+      // Cmd/Ctrl + Shift + H: Toggle history panel
+      if (e.shiftKey && hasModifier && e.key.toLowerCase() === "h") {
+        e.preventDefault();
+        setHistoryOpen((prev) => !prev);
+        setSettingsOpen(false);
+        setLoopsOpen(false);
       }
 
       // Cmd/Ctrl + E: Export (single tab, auto-copy)
@@ -179,6 +227,8 @@ export default function DiagramPage({ params }: PageProps) {
       // Escape: Close panels
       if (e.key === "Escape") {
         setSettingsOpen(false);
+        setLoopsOpen(false);
+        setHistoryOpen(false);
         setQuickAddOpen(false);
         setSearchOpen(false);
         setImportExportModalOpen(false);
@@ -211,6 +261,15 @@ export default function DiagramPage({ params }: PageProps) {
     );
   }
 
+  if (!currentDiagram && diagrams[id]?.quarantine) {
+    return (
+      <div className="flex h-screen">
+        <Sidebar onSearchOpen={() => setSearchOpen(true)} />
+        <QuarantineNotice diagramId={id} reason={diagrams[id].quarantine} />
+      </div>
+    );
+  }
+
   if (!currentDiagram) {
     return (
       <div className="flex h-screen items-center justify-center">
@@ -228,7 +287,23 @@ export default function DiagramPage({ params }: PageProps) {
       <div className="flex flex-1 flex-col overflow-hidden">
         <TopBar
           settingsOpen={settingsOpen}
-          onSettingsToggle={() => setSettingsOpen(!settingsOpen)}
+          onSettingsToggle={() => {
+            setSettingsOpen(!settingsOpen);
+            setLoopsOpen(false);
+            setHistoryOpen(false);
+          }}
+          loopsOpen={loopsOpen}
+          onLoopsToggle={() => {
+            setLoopsOpen(!loopsOpen);
+            setSettingsOpen(false);
+            setHistoryOpen(false);
+          }}
+          historyOpen={historyOpen}
+          onHistoryToggle={() => {
+            setHistoryOpen(!historyOpen);
+            setSettingsOpen(false);
+            setLoopsOpen(false);
+          }}
           activeTab={activeTab}
           onTabChange={setActiveTab}
           onExportClick={() => openModal({ defaultTab: "export", showTabs: false, autoCopy: true })}
@@ -240,16 +315,28 @@ export default function DiagramPage({ params }: PageProps) {
           {activeTab === "system" && <Breadcrumb />}
 
           <div className="relative flex-1 overflow-hidden">
-            {activeTab === "system" ? (
-              <Canvas />
-            ) : (
-              <DatabaseView />
+            {activeTab === "system" && <Canvas />}
+            {activeTab === "database" && <DatabaseView />}
+            {activeTab === "simulation" && (
+              <SimulationView onShowOnCanvas={() => setActiveTab("system")} />
             )}
 
             <SettingsPanel
               open={settingsOpen}
               onClose={() => setSettingsOpen(false)}
             />
+
+            <LoopsPanel
+              open={loopsOpen && activeTab === "system"}
+              onClose={() => setLoopsOpen(false)}
+            />
+
+            <HistoryPanel
+              open={historyOpen && activeTab === "system"}
+              onClose={() => setHistoryOpen(false)}
+            />
+
+            <SyncConflictBanner />
           </div>
         </div>
       </div>
@@ -3,8 +3,7 @@
 import React, { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import { ChevronRight, Home } from "lucide-react";
-import { useDiagramStore } from "@/lib/store/diagrams";
-import { get as idbGet } from "idb-keyval";
+import { useDiagramStore, readStoredDiagram } from "@/lib/store/diagrams";
 import { DiagramDoc } from "@/lib/model/schema";
 
 interface BreadcrumbItem {
@@ -15,8 +14,7 @@ interface BreadcrumbItem {
 
 async function fetchParentDiagram(parentId: string): Promise<DiagramDoc | null> {
   try {
-    const key = `diagram:${parentId}`;
-    const data = await idbGet<DiagramDoc>(key);
+    const data = await readStoredDiagram(parentId);
     return data || null;
   } catch {
     return null;
@@ -1,29 +1,55 @@
 "use client";
 
 import React, { useRef, useCallback, useState, useEffect, useMemo } from "react";
+import { useRouter } from "next/navigation";
 import { useDiagramStore } from "@/lib/store/diagrams";
 import { usePrefsStore } from "@/lib/store/prefs";
-import { Viewport, DEFAULT_NODE_WIDTH, DEFAULT_NODE_HEIGHT } from "@/lib/model/schema";
-import { clamp, calculateAllEdgeEndpoints } from "@/lib/layout/geometry";
+import { useSnapshotStore } from "@/lib/store/snapshots";
+import { useSyncStore } from "@/lib/store/sync";
+import { holdLivePhysics, provisionalRoutes, releaseLivePhysics, routeEdges } from "@/lib/store/layout";
+import { diffDiagrams, countDiff } from "@/lib/history/diff";
+import { DiagramDoc, Viewport, Frame, Note, DEFAULT_NODE_WIDTH, DEFAULT_NODE_HEIGHT } from "@/lib/model/schema";
+import { EdgeRoute, clamp, rectContains, rectsIntersect } from "@/lib/layout/geometry";
 import { NodeStock } from "./NodeStock";
+import { FrameRect, FrameHandle, MIN_FRAME_WIDTH, MIN_FRAME_HEIGHT } from "./FrameRect";
+import { NoteCard, MIN_NOTE_WIDTH, MIN_NOTE_HEIGHT } from "./NoteCard";
 import { EdgeFlow } from "./EdgeFlow";
+import { LoopMarker } from "./LoopMarker";
+import { DiffOverlay } from "./DiffOverlay";
+import { PeerOverlay } from "./PeerOverlay";
 import { SelectionRect } from "./SelectionRect";
 import { ColorPicker } from "./ColorPicker";
+import { EdgeLinkOptions } from "./EdgeLinkOptions";
+import { StockActions } from "./StockActions";
 import { Color } from "@/lib/model/schema";
 
 const MIN_ZOOM = 0.1;
 const MAX_ZOOM = 4;
 
 interface DragState {
-  type: "pan" | "node" | "selection" | "edge-create";
+  type:
+    | "pan"
+    | "node"
+    | "selection"
+    | "edge-create"
+    | "frame-move"
+    | "frame-resize"
+    | "note-move"
+    | "note-resize";
   startX: number;
   startY: number;
   startViewport?: Viewport;
   nodeStartPositions?: Record<string, { x: number; y: number }>;
   sourceNodeId?: string;
+  frameStartPositions?: Record<string, { x: number; y: number }>;
+  resizeFrame?: Frame;
+  resizeHandle?: FrameHandle;
+  noteStartPositions?: Record<string, { x: number; y: number }>;
+  resizeNote?: Note;
 }
 
 export function Canvas() {
+  const router = useRouter();
   const svgRef = useRef<SVGSVGElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
 
@@ -31,20 +57,35 @@ export function Canvas() {
     currentDiagram,
     selectedNodeIds,
     selectedEdgeIds,
+    selectedFrameIds,
+    selectedNoteIds,
     setSelectedNodeIds,
     setSelectedEdgeIds,
+    setSelectedFrameIds,
+    setSelectedNoteIds,
     clearSelection,
     addNode,
     updateNode,
     addEdge,
     updateEdge,
+    updateFrame,
+    updateNote,
     deleteSelected,
+    beginTransaction,
+    endTransaction,
+    expandStock,
+    resolveSubsystem,
     setViewport,
+    highlightedLoop,
   } = useDiagramStore();
 
   const { prefs } = usePrefsStore();
+  const { comparing, setComparing } = useSnapshotStore();
+  const { peers, updateCursor } = useSyncStore();
 
   const [dragState, setDragState] = useState<DragState | null>(null);
+  // Whether the current drag has opened an undo transaction
+  const dragTransactionRef = useRef(false);
   const [selectionRect, setSelectionRect] = useState<{
     x: number;
     y: number;
@@ -58,6 +99,8 @@ export function Canvas() {
   } | null>(null);
   const [editingNodeId, setEditingNodeId] = useState<string | null>(null);
   const [editingEdgeId, setEditingEdgeId] = useState<string | null>(null);
+  const [editingFrameId, setEditingFrameId] = useState<string | null>(null);
+  const [editingNoteId, setEditingNoteId] = useState<string | null>(null);
   const [spaceHeld, setSpaceHeld] = useState(false);
   const [colorPickerState, setColorPickerState] = useState<{
     type: "node" | "edge";
@@ -65,6 +108,28 @@ export function Canvas() {
     position: { x: number; y: number };
   } | null>(null);
 
+  // Edge routes, worked out off the main thread whenever stocks or flows
+  // change. Until they come back, edges are drawn from what's already known.
+  const [routed, setRouted] = useState<{
+    nodes: DiagramDoc["nodes"];
+    edges: DiagramDoc["edges"];
+    routes: Record<string, EdgeRoute>;
+  } | null>(null);
+  const diagramNodes = currentDiagram?.nodes;
+  const diagramEdges = currentDiagram?.edges;
+  useEffect(() => {
+    if (!diagramNodes || !diagramEdges) return;
+    routeEdges(Object.values(diagramEdges), diagramNodes).then((routes) => {
+      // Null when a newer request took its place
+      if (routes) setRouted({ nodes: diagramNodes, edges: diagramEdges, routes });
+    });
+  }, [diagramNodes, diagramEdges]);
+  const edgeEndpoints = useMemo(() => {
+    if (!diagramNodes || !diagramEdges) return {};
+    if (routed?.nodes === diagramNodes && routed.edges === diagramEdges) return routed.routes;
+    return provisionalRoutes(Object.values(diagramEdges), diagramNodes);
+  }, [diagramNodes, diagramEdges, routed]);
+
   const viewport = useMemo<Viewport>(
     () => currentDiagram?.viewport || { x: 0, y: 0, zoom: 1 },
     [currentDiagram?.viewport]
@@ -87,6 +152,7 @@ export function Canvas() {
   const handleDoubleClick = useCallback(
     (e: React.MouseEvent) => {
       if (e.target !== svgRef.current && (e.target as SVGElement).tagName !== "rect") return;
+      if ((e.target as SVGElement).closest("[data-frame-id], [data-note-id]")) return;
 
       const canvas = screenToCanvas(e.clientX, e.clientY);
       const nodeId = addNode({
@@ -148,6 +214,23 @@ export function Canvas() {
     [colorPickerState, updateNode, updateEdge]
   );
 
+  // Drill down into a stock's child diagram, creating it if needed
+  const expandSubsystem = useCallback(
+    async (stockId: string) => {
+      const childId = await expandStock(stockId);
+      if (childId) router.push(`/d/${childId}`);
+    },
+    [expandStock, router]
+  );
+
+  const openSubsystem = useCallback(
+    async (stockId: string) => {
+      const childId = await resolveSubsystem(stockId);
+      if (childId) router.push(`/d/${childId}`);
+    },
+    [resolveSubsystem, router]
+  );
+
   // Handle mouse down
   const handleMouseDown = useCallback(
     (e: React.MouseEvent) => {
@@ -157,6 +240,10 @@ export function Canvas() {
       const isOnNode = target.closest("[data-node-id]");
       const isOnEdge = target.closest("[data-edge-id]");
       const isOnHandle = target.closest("[data-handle]");
+      const isOnFrameHandle = target.closest("[data-frame-handle]");
+      const isOnFrame = target.closest("[data-frame-id]");
+      const isOnNoteHandle = target.closest("[data-note-handle]");
+      const isOnNote = target.closest("[data-note-id]");
 
       // Edge creation from handle
       if (isOnHandle) {
@@ -175,6 +262,123 @@ export function Canvas() {
         }
       }
 
+      // Note resize from corner handle
+      if (isOnNoteHandle && isOnNote && !spaceHeld) {
+        const noteId = isOnNote.getAttribute("data-note-id")!;
+        const note = currentDiagram?.notes?.[noteId];
+        if (note) {
+          setDragState({
+            type: "note-resize",
+            startX: e.clientX,
+            startY: e.clientY,
+            resizeNote: { ...note },
+          });
+          e.stopPropagation();
+          return;
+        }
+      }
+
+      // Note selection and drag
+      if (isOnNote && !spaceHeld) {
+        const noteId = isOnNote.getAttribute("data-note-id")!;
+
+        if (e.shiftKey) {
+          const newSelection = new Set(selectedNoteIds);
+          if (newSelection.has(noteId)) {
+            newSelection.delete(noteId);
+          } else {
+            newSelection.add(noteId);
+          }
+          setSelectedNoteIds(newSelection);
+        } else if (!selectedNoteIds.has(noteId)) {
+          clearSelection();
+          setSelectedNoteIds(new Set([noteId]));
+        }
+
+        const notesToMove = selectedNoteIds.has(noteId) ? selectedNoteIds : new Set([noteId]);
+        const noteStartPositions: Record<string, { x: number; y: number }> = {};
+        notesToMove.forEach((id) => {
+          const note = currentDiagram?.notes?.[id];
+          if (note) {
+            noteStartPositions[id] = { x: note.x, y: note.y };
+          }
+        });
+
+        setDragState({
+          type: "note-move",
+          startX: e.clientX,
+          startY: e.clientY,
+          noteStartPositions,
+        });
+        return;
+      }
+
+      // Frame resize from corner handle
+      if (isOnFrameHandle && isOnFrame && !spaceHeld) {
+        const frameId = isOnFrame.getAttribute("data-frame-id")!;
+        const frame = currentDiagram?.frames?.[frameId];
+        if (frame) {
+          setDragState({
+            type: "frame-resize",
+            startX: e.clientX,
+            startY: e.clientY,
+            resizeFrame: { ...frame },
+            resizeHandle: isOnFrameHandle.getAttribute("data-frame-handle") as FrameHandle,
+          });
+          e.stopPropagation();
+          return;
+        }
+      }
+
+      // Frame selection and drag, carrying the stocks inside along
+      if (isOnFrame && !spaceHeld) {
+        const frameId = isOnFrame.getAttribute("data-frame-id")!;
+        const frames = currentDiagram?.frames ?? {};
+
+        if (e.shiftKey) {
+          const newSelection = new Set(selectedFrameIds);
+          if (newSelection.has(frameId)) {
+            newSelection.delete(frameId);
+          } else {
+            newSelection.add(frameId);
+          }
+          setSelectedFrameIds(newSelection);
+        } else if (!selectedFrameIds.has(frameId)) {
+          clearSelection();
+          setSelectedFrameIds(new Set([frameId]));
+        }
+
+        const framesToMove = selectedFrameIds.has(frameId) ? selectedFrameIds : new Set([frameId]);
+        const frameStartPositions: Record<string, { x: number; y: number }> = {};
+        const nodeStartPositions: Record<string, { x: number; y: number }> = {};
+        const noteStartPositions: Record<string, { x: number; y: number }> = {};
+        framesToMove.forEach((id) => {
+          const frame = frames[id];
+          if (!frame) return;
+          frameStartPositions[id] = { x: frame.x, y: frame.y };
+          Object.values(currentDiagram!.nodes).forEach((node) => {
+            if (rectContains(frame, node)) {
+              nodeStartPositions[node.id] = { x: node.x, y: node.y };
+            }
+          });
+          Object.values(currentDiagram!.notes ?? {}).forEach((note) => {
+            if (rectContains(frame, note)) {
+              noteStartPositions[note.id] = { x: note.x, y: note.y };
+            }
+          });
+        });
+
+        setDragState({
+          type: "frame-move",
+          startX: e.clientX,
+          startY: e.clientY,
+          frameStartPositions,
+          nodeStartPositions,
+          noteStartPositions,
+        });
+        return;
+      }
+
       // Pan with space or on empty canvas
       if (spaceHeld || (!isOnNode && !isOnEdge)) {
         if (!isOnNode && !isOnEdge && !e.shiftKey) {
@@ -219,6 +423,8 @@ export function Canvas() {
           // Select only this node
           setSelectedNodeIds(new Set([nodeId]));
           setSelectedEdgeIds(new Set());
+          setSelectedFrameIds(new Set());
+          setSelectedNoteIds(new Set());
         }
 
         // Start drag
@@ -261,6 +467,8 @@ export function Canvas() {
         } else {
           setSelectedNodeIds(new Set());
           setSelectedEdgeIds(new Set([edgeId]));
+          setSelectedFrameIds(new Set());
+          setSelectedNoteIds(new Set());
         }
       }
     },
@@ -269,10 +477,14 @@ export function Canvas() {
       viewport,
       selectedNodeIds,
       selectedEdgeIds,
+      selectedFrameIds,
+      selectedNoteIds,
       currentDiagram,
       screenToCanvas,
       setSelectedNodeIds,
       setSelectedEdgeIds,
+      setSelectedFrameIds,
+      setSelectedNoteIds,
       clearSelection,
     ]
   );
@@ -280,14 +492,23 @@ export function Canvas() {
   // Handle mouse move
   const handleMouseMove = useCallback(
     (e: React.MouseEvent) => {
+      updateCursor(screenToCanvas(e.clientX, e.clientY));
       if (!dragState) return;
 
       const dx = e.clientX - dragState.startX;
       const dy = e.clientY - dragState.startY;
 
+      // Everything a drag changes undoes as one step
+      const openTransaction = () => {
+        if (dragTransactionRef.current) return;
+        beginTransaction();
+        dragTransactionRef.current = true;
+      };
+
       switch (dragState.type) {
         case "pan":
           if (dragState.startViewport) {
+            openTransaction();
             setViewport({
               x: dragState.startViewport.x + dx,
               y: dragState.startViewport.y + dy,
@@ -298,17 +519,68 @@ export function Canvas() {
 
         case "node":
           if (dragState.nodeStartPositions) {
+            openTransaction();
             const canvasDx = dx / viewport.zoom;
             const canvasDy = dy / viewport.zoom;
 
-            Object.entries(dragState.nodeStartPositions).forEach(([id, start]) => {
-              updateNode(id, {
-                x: start.x + canvasDx,
-                y: start.y + canvasDy,
-              });
+            const positions = Object.fromEntries(
+              Object.entries(dragState.nodeStartPositions).map(([id, start]) => [
+                id,
+                { x: start.x + canvasDx, y: start.y + canvasDy },
+              ])
+            );
+            Object.entries(positions).forEach(([id, position]) => {
+              updateNode(id, position);
+            });
+            holdLivePhysics(positions);
+          }
+          break;
+
+        case "frame-move":
+        case "frame-resize":
+        case "note-move":
+        case "note-resize": {
+          if (!dragTransactionRef.current && Math.abs(dx) <= 2 && Math.abs(dy) <= 2) break;
+          openTransaction();
+
+          const canvasDx = dx / viewport.zoom;
+          const canvasDy = dy / viewport.zoom;
+
+          if (dragState.type === "frame-move" || dragState.type === "note-move") {
+            Object.entries(dragState.frameStartPositions ?? {}).forEach(([id, start]) => {
+              updateFrame(id, { x: start.x + canvasDx, y: start.y + canvasDy });
+            });
+            Object.entries(dragState.nodeStartPositions ?? {}).forEach(([id, start]) => {
+              updateNode(id, { x: start.x + canvasDx, y: start.y + canvasDy });
+            });
+            Object.entries(dragState.noteStartPositions ?? {}).forEach(([id, start]) => {
+              updateNote(id, { x: start.x + canvasDx, y: start.y + canvasDy });
+            });
+          } else if (dragState.resizeNote) {
+            const start = dragState.resizeNote;
+            updateNote(start.id, {
+              width: Math.max(MIN_NOTE_WIDTH, start.width + canvasDx),
+              height: Math.max(MIN_NOTE_HEIGHT, start.height + canvasDy),
+            });
+          } else if (dragState.resizeFrame && dragState.resizeHandle) {
+            const start = dragState.resizeFrame;
+            const handle = dragState.resizeHandle;
+            const right = start.x + start.width;
+            const bottom = start.y + start.height;
+
+            // Dragging a west or north handle moves the frame's origin
+            const width = Math.max(MIN_FRAME_WIDTH, start.width + (handle.includes("w") ? -canvasDx : canvasDx));
+            const height = Math.max(MIN_FRAME_HEIGHT, start.height + (handle.includes("n") ? -canvasDy : canvasDy));
+
+            updateFrame(start.id, {
+              x: handle.includes("w") ? right - width : start.x,
+              y: handle.includes("n") ? bottom - height : start.y,
+              width,
+              height,
             });
           }
           break;
+        }
 
         case "selection":
           const canvas = screenToCanvas(e.clientX, e.clientY);
@@ -327,7 +599,7 @@ export function Canvas() {
           break;
       }
     },
-    [dragState, viewport, setViewport, updateNode, screenToCanvas]
+    [dragState, viewport, setViewport, updateNode, updateFrame, updateNote, beginTransaction, screenToCanvas, updateCursor]
   );
 
   // Handle mouse up
@@ -336,17 +608,6 @@ export function Canvas() {
       if (!dragState) return;
 
       switch (dragState.type) {
-        case "node":
-          // Push history after drag
-          if (dragState.nodeStartPositions) {
-            const dx = e.clientX - dragState.startX;
-            const dy = e.clientY - dragState.startY;
-            if (Math.abs(dx) > 2 || Math.abs(dy) > 2) {
-              // Moved significantly
-            }
-          }
-          break;
-
         case "selection":
           if (selectionRect && currentDiagram) {
             // Select nodes that intersect with selection rect
@@ -365,12 +626,8 @@ export function Canvas() {
 
             // Select edges that have their midpoint in selection rect
             const selectedEdges = new Set<string>();
-            const endpoints = calculateAllEdgeEndpoints(
-              Object.values(currentDiagram.edges),
-              currentDiagram.nodes
-            );
             Object.values(currentDiagram.edges).forEach((edge) => {
-              const ep = endpoints[edge.id];
+              const ep = edgeEndpoints[edge.id];
               if (ep) {
                 // Check if midpoint of edge is in selection rect
                 const midX = (ep.start.x + ep.end.x) / 2;
@@ -386,6 +643,24 @@ export function Canvas() {
               }
             });
             setSelectedEdgeIds(selectedEdges);
+
+            // Select frames that lie entirely within the selection rect
+            const selectedFrames = new Set<string>();
+            Object.values(currentDiagram.frames ?? {}).forEach((frame) => {
+              if (rectContains(selectionRect, frame)) {
+                selectedFrames.add(frame.id);
+              }
+            });
+            setSelectedFrameIds(selectedFrames);
+
+            // Select notes that intersect with selection rect
+            const selectedNotes = new Set<string>();
+            Object.values(currentDiagram.notes ?? {}).forEach((note) => {
+              if (rectsIntersect(selectionRect, note)) {
+                selectedNotes.add(note.id);
+              }
+            });
+            setSelectedNoteIds(selectedNotes);
           }
           setSelectionRect(null);
           break;
@@ -411,9 +686,33 @@ export function Canvas() {
           break;
       }
 
+      if (dragTransactionRef.current) {
+        // Stocks the user dragged stay where they were put by auto layout;
+        // ones carried along in a frame weren't placed by hand
+        if (dragState.type === "node") {
+          Object.keys(dragState.nodeStartPositions ?? {}).forEach((id) => {
+            if (!currentDiagram?.nodes[id]?.pinned) updateNode(id, { pinned: true });
+          });
+        }
+        endTransaction();
+        dragTransactionRef.current = false;
+      }
+      releaseLivePhysics();
       setDragState(null);
     },
-    [dragState, selectionRect, currentDiagram, tempEdge, setSelectedNodeIds, addEdge]
+    [
+      dragState,
+      selectionRect,
+      currentDiagram,
+      edgeEndpoints,
+      tempEdge,
+      setSelectedNodeIds,
+      setSelectedFrameIds,
+      setSelectedNoteIds,
+      addEdge,
+      updateNode,
+      endTransaction,
+    ]
   );
 
   // Handle wheel/trackpad for pan and zoom (Apple Maps style)
@@ -474,7 +773,7 @@ export function Canvas() {
         e.preventDefault();
       }
 
-      if (editingNodeId || editingEdgeId || isTyping) return;
+      if (editingNodeId || editingEdgeId || editingFrameId || editingNoteId || isTyping) return;
 
       if (e.key === "Delete" || e.key === "Backspace") {
         if (!editingNodeId && !editingEdgeId) {
@@ -487,6 +786,8 @@ export function Canvas() {
         clearSelection();
         setEditingNodeId(null);
         setEditingEdgeId(null);
+        setEditingFrameId(null);
+        setEditingNoteId(null);
       }
 
       if (e.key === "a" && (e.metaKey || e.ctrlKey)) {
@@ -517,15 +818,18 @@ export function Canvas() {
       window.removeEventListener("keydown", handleKeyDown);
       window.removeEventListener("keyup", handleKeyUp);
     };
-  }, [editingNodeId, editingEdgeId, deleteSelected, clearSelection]);
+  }, [editingNodeId, editingEdgeId, editingFrameId, editingNoteId, deleteSelected, clearSelection]);
 
-  // Calculate all edge endpoints with proper distribution to avoid overlaps
-  // Must be called before early return to satisfy hooks rules
-  const edgeEndpoints = useMemo(() => {
-    if (!currentDiagram) return {};
-    const edgeList = Object.values(currentDiagram.edges);
-    return calculateAllEdgeEndpoints(edgeList, currentDiagram.nodes);
-  }, [currentDiagram]);
+  // Differences from the named version being compared, if any
+  const compareDoc = comparing && comparing.diagramId === currentDiagram?.id ? comparing.doc : null;
+  const diff = useMemo(
+    () => (compareDoc && currentDiagram ? diffDiagrams(compareDoc, currentDiagram) : null),
+    [compareDoc, currentDiagram]
+  );
+  const diffCounts = diff ? countDiff(diff) : null;
+
+  // Other peers with this diagram open
+  const diagramPeers = Object.values(peers).filter((peer) => peer.diagramId === currentDiagram?.id);
 
   if (!currentDiagram) {
     return (
@@ -537,7 +841,11 @@ export function Canvas() {
 
   const nodes = Object.values(currentDiagram.nodes);
   const edges = Object.values(currentDiagram.edges);
+  const frames = Object.values(currentDiagram.frames ?? {});
+  const notes = Object.values(currentDiagram.notes ?? {});
   const labelMode = currentDiagram.ui?.labelMode || prefs.labelModeDefault;
+  const loopNodeIds = highlightedLoop ? new Set(highlightedLoop.nodeIds) : null;
+  const loopEdgeIds = highlightedLoop ? new Set(highlightedLoop.edgeIds) : null;
 
   return (
     <div
@@ -555,7 +863,10 @@ export function Canvas() {
         onMouseDown={handleMouseDown}
         onMouseMove={handleMouseMove}
         onMouseUp={handleMouseUp}
-        onMouseLeave={handleMouseUp}
+        onMouseLeave={(e) => {
+          updateCursor(null);
+          handleMouseUp(e);
+        }}
         onDoubleClick={handleDoubleClick}
         onContextMenu={handleContextMenu}
       >
@@ -564,6 +875,29 @@ export function Canvas() {
         </defs>
 
         <g transform={`translate(${viewport.x}, ${viewport.y}) scale(${viewport.zoom})`}>
+          {/* Frames (behind everything else) */}
+          {frames.map((frame) => (
+            <FrameRect
+              key={frame.id}
+              frame={frame}
+              selected={selectedFrameIds.has(frame.id)}
+              editing={editingFrameId === frame.id}
+              onEditStart={() => setEditingFrameId(frame.id)}
+              onEditEnd={() => setEditingFrameId(null)}
+            />
+          ))}
+
+          {/* Removed stocks and flows when comparing with a version */}
+          {diff && compareDoc && (
+            <DiffOverlay
+              diff={diff}
+              before={compareDoc}
+              current={currentDiagram}
+              edgeEndpoints={edgeEndpoints}
+              layer="ghosts"
+            />
+          )}
+
           {/* Edges */}
           {edges.map((edge) => (
             <EdgeFlow
@@ -575,6 +909,8 @@ export function Canvas() {
               selected={selectedEdgeIds.has(edge.id)}
               labelMode={labelMode}
               editing={editingEdgeId === edge.id}
+              dimmed={loopEdgeIds !== null && !loopEdgeIds.has(edge.id)}
+              highlighted={loopEdgeIds?.has(edge.id) ?? false}
               onEditStart={() => setEditingEdgeId(edge.id)}
               onEditEnd={() => setEditingEdgeId(null)}
             />
@@ -607,11 +943,55 @@ export function Canvas() {
               node={node}
               selected={selectedNodeIds.has(node.id)}
               editing={editingNodeId === node.id}
+              dimmed={loopNodeIds !== null && !loopNodeIds.has(node.id)}
               onEditStart={() => setEditingNodeId(node.id)}
               onEditEnd={() => setEditingNodeId(null)}
+              onOpenSubsystem={() => openSubsystem(node.id)}
             />
           ))}
 
+          {/* Added and changed stocks and flows when comparing with a version */}
+          {diff && compareDoc && (
+            <DiffOverlay
+              diff={diff}
+              before={compareDoc}
+              current={currentDiagram}
+              edgeEndpoints={edgeEndpoints}
+              layer="tints"
+            />
+          )}
+
+          {/* Sticky notes */}
+          {notes.map((note) => (
+            <NoteCard
+              key={note.id}
+              note={note}
+              selected={selectedNoteIds.has(note.id)}
+              editing={editingNoteId === note.id}
+              onEditStart={() => setEditingNoteId(note.id)}
+              onEditEnd={() => setEditingNoteId(null)}
+            />
+          ))}
+
+          {/* Highlighted feedback loop marker */}
+          {highlightedLoop && (
+            <LoopMarker
+              loop={highlightedLoop}
+              nodes={currentDiagram.nodes}
+              name={currentDiagram.loopNames?.[highlightedLoop.key]}
+            />
+          )}
+
+          {/* Other peers' selections and cursors */}
+          {diagramPeers.length > 0 && (
+            <PeerOverlay
+              peers={diagramPeers}
+              diagram={currentDiagram}
+              edgeEndpoints={edgeEndpoints}
+              zoom={viewport.zoom}
+            />
+          )}
+
           {/* Selection rectangle */}
           {selectionRect && (
             <SelectionRect
@@ -624,6 +1004,24 @@ export function Canvas() {
         </g>
       </svg>
 
+      {/* Version comparison summary */}
+      {diffCounts && comparing && (
+        <div
+          className="absolute left-1/2 top-3 flex -translate-x-1/2 items-center gap-3 rounded-md border border-border bg-background px-3 py-1.5 text-xs shadow-sm"
+          data-testid="diff-banner"
+        >
+          <span>
+            Comparing with <span className="font-medium">{comparing.name}</span>
+          </span>
+          <span className="text-muted-foreground">
+            {diffCounts.added} added · {diffCounts.removed} removed · {diffCounts.changed} changed
+          </span>
+          <button className="font-medium hover:underline" onClick={() => setComparing(null)}>
+            Done
+          </button>
+        </div>
+      )}
+
       {/* Color picker popup */}
       {colorPickerState && currentDiagram && (
         <ColorPicker
@@ -635,7 +1033,32 @@ export function Canvas() {
           onColorSelect={handleColorSelect}
           onClose={() => setColorPickerState(null)}
           position={colorPickerState.position}
-        />
+        >
+          {colorPickerState.type === "node" && currentDiagram.nodes[colorPickerState.id] && (
+            <StockActions
+              node={currentDiagram.nodes[colorPickerState.id]}
+              onTogglePin={() => {
+                const node = currentDiagram.nodes[colorPickerState.id];
+                updateNode(node.id, { pinned: node.pinned ? undefined : true });
+                setColorPickerState(null);
+              }}
+              onExpand={() => {
+                expandSubsystem(colorPickerState.id);
+                setColorPickerState(null);
+              }}
+              onOpen={() => {
+                openSubsystem(colorPickerState.id);
+                setColorPickerState(null);
+              }}
+            />
+          )}
+          {colorPickerState.type === "edge" && currentDiagram.edges[colorPickerState.id] && (
+            <EdgeLinkOptions
+              edge={currentDiagram.edges[colorPickerState.id]}
+              onChange={(updates) => updateEdge(colorPickerState.id, updates)}
+            />
+          )}
+        </ColorPicker>
       )}
     </div>
   );
@@ -9,6 +9,8 @@ interface ColorPickerProps {
   onColorSelect: (color: Color) => void;
   onClose: () => void;
   position: { x: number; y: number };
+  /** Extra options shown below the palette, e.g. edge kind and polarity. */
+  children?: React.ReactNode;
 }
 
 export function ColorPicker({
@@ -16,6 +18,7 @@ export function ColorPicker({
   onColorSelect,
   onClose,
   position,
+  children,
 }: ColorPickerProps) {
   const handleClick = (color: Color) => {
     onColorSelect(color);
@@ -65,6 +68,7 @@ export function ColorPicker({
             );
           })}
         </div>
+        {children && <div className="mt-2 border-t border-border pt-2">{children}</div>}
       </div>
     </>
   );
@@ -0,0 +1,138 @@
+"use client";
+
+import React, { useMemo } from "react";
+import { DiagramDoc, COLOR_PALETTE } from "@/lib/model/schema";
+import { DiagramDiff } from "@/lib/history/diff";
+import { EdgeRoute, calculateAllEdgeEndpoints, getCurvedEdgePath } from "@/lib/layout/geometry";
+
+export type DiffStatus = "added" | "removed" | "changed";
+
+export const DIFF_COLORS: Record<DiffStatus, string> = {
+  added: COLOR_PALETTE.green.stroke,
+  removed: COLOR_PALETTE.pink.stroke,
+  changed: COLOR_PALETTE.orange.stroke,
+};
+
+interface DiffOverlayProps {
+  diff: DiagramDiff;
+  /** The version being compared against. */
+  before: DiagramDoc;
+  current: DiagramDoc;
+  edgeEndpoints: Record<string, EdgeRoute>;
+  /** Ghosts go behind the diagram, tints on top of it. */
+  layer: "ghosts" | "tints";
+}
+
+const OUTLINE_GAP = 4;
+
+function routePath(route: EdgeRoute): string {
+  return getCurvedEdgePath(route.start, route.end, route.c1, route.c2);
+}
+
+/**
+ * Visual diff against a named version: removed stocks and flows are drawn as
+ * dashed ghosts where they were, and added or changed ones are tinted.
+ */
+export function DiffOverlay({ diff, before, current, edgeEndpoints, layer }: DiffOverlayProps) {
+  // Removed flows attach to where their stocks are now, if they still exist
+  const ghostRoutes = useMemo(() => {
+    if (layer !== "ghosts") return {};
+    const removed = diff.edges.removed.map((id) => before.edges[id]);
+    return calculateAllEdgeEndpoints(removed, { ...before.nodes, ...current.nodes });
+  }, [layer, diff, before, current.nodes]);
+
+  if (layer === "ghosts") {
+    const color = DIFF_COLORS.removed;
+    return (
+      <g className="pointer-events-none" data-testid="diff-ghosts">
+        {diff.edges.removed.map((id) =>
+          ghostRoutes[id] ? (
+            <path
+              key={id}
+              data-diff-edge-id={id}
+              data-diff-status="removed"
+              d={routePath(ghostRoutes[id])}
+              fill="none"
+              stroke={color}
+              strokeWidth={1.5}
+              strokeDasharray="4 4"
+              strokeOpacity={0.7}
+            />
+          ) : null
+        )}
+        {diff.nodes.removed.map((id) => {
+          const node = before.nodes[id];
+          return (
+            <g key={id} data-diff-node-id={id} data-diff-status="removed" transform={`translate(${node.x}, ${node.y})`}>
+              <rect
+                width={node.width}
+                height={node.height}
+                fill={COLOR_PALETTE.pink.fill}
+                fillOpacity={0.6}
+                stroke={color}
+                strokeWidth={1}
+                strokeDasharray="6 4"
+              />
+              <text
+                x={node.width / 2}
+                y={node.height / 2}
+                textAnchor="middle"
+                dominantBaseline="central"
+                style={{ fontSize: "13px", fill: color, textDecoration: "line-through" }}
+              >
+                {node.label || "Stock"}
+              </text>
+            </g>
+          );
+        })}
+      </g>
+    );
+  }
+
+  const tintedEdges: [string, DiffStatus][] = [
+    ...diff.edges.added.map((id): [string, DiffStatus] => [id, "added"]),
+    ...diff.edges.changed.map((change): [string, DiffStatus] => [change.id, "changed"]),
+  ];
+  const tintedNodes: [string, DiffStatus][] = [
+    ...diff.nodes.added.map((id): [string, DiffStatus] => [id, "added"]),
+    ...diff.nodes.changed.map((change): [string, DiffStatus] => [change.id, "changed"]),
+  ];
+
+  return (
+    <g className="pointer-events-none" data-testid="diff-tints">
+      {tintedEdges.map(([id, status]) =>
+        edgeEndpoints[id] ? (
+          <path
+            key={id}
+            data-diff-edge-id={id}
+            data-diff-status={status}
+            d={routePath(edgeEndpoints[id])}
+            fill="none"
+            stroke={DIFF_COLORS[status]}
+            strokeWidth={6}
+            strokeOpacity={0.35}
+            strokeLinecap="round"
+          />
+        ) : null
+      )}
+      {tintedNodes.map(([id, status]) => {
+        const node = current.nodes[id];
+        if (!node) return null;
+        return (
+          <rect
+            key={id}
+            data-diff-node-id={id}
+            data-diff-status={status}
+            x={node.x - OUTLINE_GAP}
+            y={node.y - OUTLINE_GAP}
+            width={node.width + OUTLINE_GAP * 2}
+            height={node.height + OUTLINE_GAP * 2}
+            fill="none"
+            stroke={DIFF_COLORS[status]}
+            strokeWidth={2}
+          />
+        );
+      })}
+    </g>
+  );
+}
@@ -1,12 +1,16 @@
 "use client";
 
-import React, { useState, useRef, useEffect } from "react";
+import React, { useState, useRef, useEffect, useMemo } from "react";
 import { Edge, Node, COLOR_PALETTE } from "@/lib/model/schema";
 import { useDiagramStore } from "@/lib/store/diagrams";
+import { checkFlowEquation } from "@/lib/simulation/check";
+import { EquationField } from "./EquationField";
 import {
   getEdgeEndpoints,
   getCurvedEdgePath,
   getBezierControlPoints,
+  getBezierPoint,
+  getBezierTangent,
   Point,
   EdgeRoute,
 } from "@/lib/layout/geometry";
@@ -19,6 +23,10 @@ interface EdgeFlowProps {
   selected: boolean;
   labelMode: "hover" | "always";
   editing: boolean;
+  /** Fade out, e.g. when a feedback loop that excludes this edge is highlighted. */
+  dimmed?: boolean;
+  /** Draw emphasized, e.g. as part of a highlighted feedback loop. */
+  highlighted?: boolean;
   onEditStart: () => void;
   onEditEnd: () => void;
 }
@@ -31,13 +39,23 @@ export function EdgeFlow({
   selected,
   labelMode,
   editing,
+  dimmed = false,
+  highlighted = false,
   onEditStart,
   onEditEnd,
 }: EdgeFlowProps) {
   const inputRef = useRef<HTMLInputElement>(null);
   const [editValue, setEditValue] = useState(edge.label);
+  const storedRate: string = edge.attributes?.simulation?.rate ?? "";
+  const [rateValue, setRateValue] = useState(storedRate);
   const [hovered, setHovered] = useState(false);
-  const { updateEdge } = useDiagramStore();
+  const { updateEdge, currentDiagram } = useDiagramStore();
+
+  const isFlow = !edge.kind || edge.kind === "flow";
+  const rateCheck = useMemo(() => {
+    if (!editing || !isFlow || !currentDiagram || !rateValue.trim()) return null;
+    return checkFlowEquation(rateValue, edge, currentDiagram);
+  }, [editing, isFlow, currentDiagram, rateValue, edge]);
 
   useEffect(() => {
     if (editing && inputRef.current) {
@@ -50,6 +68,10 @@ export function EdgeFlow({
     setEditValue(edge.label);
   }, [edge.label]);
 
+  useEffect(() => {
+    setRateValue(storedRate);
+  }, [storedRate]);
+
   if (!sourceNode || !targetNode) {
     return null;
   }
@@ -85,18 +107,24 @@ export function EdgeFlow({
 
   const path = getCurvedEdgePath(start, end, c1, c2);
 
-  // Calculate label position (midpoint of bezier)
-  const t = 0.5;
-  const labelX =
-    (1 - t) ** 3 * start.x +
-    3 * (1 - t) ** 2 * t * c1.x +
-    3 * (1 - t) * t ** 2 * c2.x +
-    t ** 3 * end.x;
-  const labelY =
-    (1 - t) ** 3 * start.y +
-    3 * (1 - t) ** 2 * t * c1.y +
-    3 * (1 - t) * t ** 2 * c2.y +
-    t ** 3 * end.y;
+  const isInfluence = edge.kind === "influence";
+  const isRelationship = edge.kind === "relationship";
+  const showDelay = isInfluence && edge.delay;
+
+  // Label sits at the midpoint of the bezier, moved aside when the delay
+  // mark occupies the midpoint
+  const midpoint = getBezierPoint(start, c1, c2, end, 0.5);
+  const midTangent = getBezierTangent(start, c1, c2, end, 0.5);
+  const labelOffset = showDelay ? 16 : 0;
+  const labelX = midpoint.x - midTangent.y * labelOffset;
+  const labelY = midpoint.y + midTangent.x * labelOffset;
+
+  // Polarity glyph near the arrowhead, on the left of the direction of travel
+  const glyphPoint = getBezierPoint(start, c1, c2, end, 0.88);
+  const glyphTangent = getBezierTangent(start, c1, c2, end, 0.88);
+  const glyphX = glyphPoint.x + glyphTangent.y * 10;
+  const glyphY = glyphPoint.y - glyphTangent.x * 10;
+  const polarityGlyph = edge.polarity === "positive" ? "+" : edge.polarity === "negative" ? "−" : "?";
 
   // Calculate arrow angle at the end point
   // Derivative of bezier at t=1 gives us tangent direction
@@ -106,6 +134,7 @@ export function EdgeFlow({
 
   const showLabel =
     labelMode === "always" || selected || hovered || editing || edge.label;
+  const strokeWidth = highlighted ? 2.5 : selected ? 1.5 : 1;
 
   const handleDoubleClick = (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -116,17 +145,32 @@ export function EdgeFlow({
     setEditValue(e.target.value);
   };
 
-  const handleInputBlur = () => {
-    updateEdge(edge.id, { label: editValue });
+  // Save the label and, for flows, the rate equation (merged into the
+  // existing attributes so property values are kept)
+  const commitEdit = () => {
+    const updates: Partial<Edge> = { label: editValue };
+    if (isFlow && rateValue.trim() !== storedRate.trim()) {
+      const { simulation, ...rest } = edge.attributes ?? {};
+      updates.attributes = rateValue.trim()
+        ? { ...rest, simulation: { ...simulation, rate: rateValue.trim() } }
+        : rest;
+    }
+    updateEdge(edge.id, updates);
     onEditEnd();
   };
 
+  const handleEditorBlur = (e: React.FocusEvent) => {
+    // Moving focus between the label and equation inputs keeps editing open
+    if (e.currentTarget.contains(e.relatedTarget as globalThis.Node | null)) return;
+    commitEdit();
+  };
+
   const handleInputKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === "Enter") {
-      updateEdge(edge.id, { label: editValue });
-      onEditEnd();
+      commitEdit();
     } else if (e.key === "Escape") {
       setEditValue(edge.label);
+      setRateValue(storedRate);
       onEditEnd();
     }
     e.stopPropagation();
@@ -135,6 +179,7 @@ export function EdgeFlow({
   return (
     <g
       data-edge-id={edge.id}
+      opacity={dimmed ? 0.25 : 1}
       onMouseEnter={() => setHovered(true)}
       onMouseLeave={() => setHovered(false)}
     >
@@ -147,27 +192,68 @@ export function EdgeFlow({
         className="cursor-pointer"
       />
 
-      {/* Animated dotted flow path */}
+      {/* Flows are animated dotted paths; influence links are dashed
+          causal arrows; relationships are plain lines */}
       <path
         d={path}
-        className="flow-animated"
+        className={isInfluence || isRelationship ? undefined : "flow-animated"}
         fill="none"
         stroke={strokeColor}
-        strokeWidth={selected ? 1.5 : 1}
+        strokeWidth={strokeWidth}
+        strokeDasharray={isInfluence ? "6 4" : undefined}
         strokeLinecap="round"
       />
 
       {/* Small arrowhead at end */}
-      <g transform={`translate(${end.x}, ${end.y}) rotate(${angle})`}>
-        <path
-          d="M -6 -3 L 0 0 L -6 3"
-          fill="none"
-          stroke={strokeColor}
-          strokeWidth={selected ? 1.5 : 1}
-          strokeLinecap="round"
-          strokeLinejoin="round"
-        />
-      </g>
+      {edge.directionality !== "undirected" && (
+        <g transform={`translate(${end.x}, ${end.y}) rotate(${angle})`}>
+          <path
+            d="M -6 -3 L 0 0 L -6 3"
+            fill="none"
+            stroke={strokeColor}
+            strokeWidth={strokeWidth}
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          />
+        </g>
+      )}
+
+      {/* Polarity glyph */}
+      {isInfluence && (
+        <text
+          x={glyphX}
+          y={glyphY}
+          textAnchor="middle"
+          dominantBaseline="central"
+          className="pointer-events-none select-none"
+          data-testid="edge-polarity"
+          style={{
+            fontSize: "13px",
+            fontWeight: 600,
+            fill: colorKey !== "default" ? palette.text : "currentColor",
+            opacity: edge.polarity ? 1 : 0.5,
+          }}
+        >
+          {polarityGlyph}
+        </text>
+      )}
+
+      {/* Delay mark: two short strokes across the curve */}
+      {showDelay && (
+        <g
+          transform={`translate(${midpoint.x}, ${midpoint.y}) rotate(${
+            Math.atan2(midTangent.y, midTangent.x) * (180 / Math.PI)
+          })`}
+          data-testid="edge-delay"
+        >
+          <path
+            d="M -2.5 -6 L -2.5 6 M 2.5 -6 L 2.5 6"
+            stroke={strokeColor}
+            strokeWidth={1.5}
+            strokeLinecap="round"
+          />
+        </g>
+      )}
 
       {/* Label */}
       {showLabel && (
@@ -188,17 +274,33 @@ export function EdgeFlow({
           />
 
           {editing ? (
-            <foreignObject x={-40} y={-10} width={80} height={20}>
-              <input
-                ref={inputRef}
-                type="text"
-                value={editValue}
-                onChange={handleInputChange}
-                onBlur={handleInputBlur}
-                onKeyDown={handleInputKeyDown}
-                className="inline-edit-input h-full text-xs"
-                style={{ fontSize: "11px" }}
-              />
+            <foreignObject
+              x={isFlow ? -110 : -40}
+              y={-10}
+              width={isFlow ? 220 : 80}
+              height={isFlow ? 160 : 20}
+              className="overflow-visible"
+            >
+              <div onBlur={handleEditorBlur} className="flex flex-col gap-1">
+                <input
+                  ref={inputRef}
+                  type="text"
+                  value={editValue}
+                  onChange={handleInputChange}
+                  onKeyDown={handleInputKeyDown}
+                  className="inline-edit-input mx-auto h-5 text-xs"
+                  style={{ fontSize: "11px", width: 80 }}
+                />
+                {isFlow && (
+                  <EquationField
+                    value={rateValue}
+                    onChange={setRateValue}
+                    diagnostics={rateCheck?.diagnostics ?? []}
+                    onKeyDown={handleInputKeyDown}
+                    placeholder="Rate, e.g. 0.1 * Source"
+                  />
+                )}
+              </div>
             </foreignObject>
           ) : (
             <text
@@ -211,7 +313,7 @@ export function EdgeFlow({
                 fill: colorKey !== "default" ? palette.text : "currentColor",
               }}
             >
-              {edge.label || "flow"}
+              {edge.label || (isFlow ? "flow" : edge.kind)}
             </text>
           )}
         </g>
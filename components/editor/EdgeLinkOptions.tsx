@@ -0,0 +1,95 @@
+"use client";
+
+import React from "react";
+import { Edge } from "@/lib/model/schema";
+import { cn } from "@/lib/utils";
+
+interface EdgeLinkOptionsProps {
+  edge: Edge;
+  onChange: (updates: Partial<Edge>) => void;
+}
+
+const KIND_OPTIONS: { value: NonNullable<Edge["kind"]>; label: string }[] = [
+  { value: "flow", label: "Flow" },
+  { value: "influence", label: "Influence" },
+  { value: "relationship", label: "Link" },
+];
+
+const POLARITY_OPTIONS: { value: Edge["polarity"]; label: string; title: string }[] = [
+  { value: "positive", label: "+", title: "Positive — moves in the same direction" },
+  { value: "negative", label: "−", title: "Negative — moves in the opposite direction" },
+  { value: undefined, label: "?", title: "Unknown polarity" },
+];
+
+function OptionButton({
+  active,
+  onClick,
+  title,
+  children,
+}: {
+  active: boolean;
+  onClick: () => void;
+  title?: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      title={title}
+      className={cn(
+        "flex-1 border px-1.5 py-0.5 text-xs transition-colors",
+        active ? "border-foreground bg-foreground text-background" : "border-border hover:bg-muted"
+      )}
+    >
+      {children}
+    </button>
+  );
+}
+
+/**
+ * Edge kind, polarity and delay controls, shown in the edge context menu.
+ */
+export function EdgeLinkOptions({ edge, onChange }: EdgeLinkOptionsProps) {
+  const kind = edge.kind ?? "flow";
+
+  return (
+    <div className="w-[156px] space-y-1.5" data-testid="edge-link-options">
+      <div className="flex gap-0.5">
+        {KIND_OPTIONS.map((option) => (
+          <OptionButton
+            key={option.value}
+            active={kind === option.value}
+            onClick={() => onChange({ kind: option.value })}
+          >
+            {option.label}
+          </OptionButton>
+        ))}
+      </div>
+
+      {kind === "influence" && (
+        <>
+          <div className="flex gap-0.5">
+            {POLARITY_OPTIONS.map((option) => (
+              <OptionButton
+                key={option.label}
+                active={edge.polarity === option.value}
+                onClick={() => onChange({ polarity: option.value })}
+                title={option.title}
+              >
+                {option.label}
+              </OptionButton>
+            ))}
+          </div>
+          <label className="flex items-center gap-1.5 text-xs">
+            <input
+              type="checkbox"
+              checked={edge.delay ?? false}
+              onChange={(e) => onChange({ delay: e.target.checked || undefined })}
+            />
+            Delayed effect
+          </label>
+        </>
+      )}
+    </div>
+  );
+}
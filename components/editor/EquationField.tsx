@@ -0,0 +1,81 @@
+"use client";
+
+import React, { forwardRef } from "react";
+import { EquationDiagnostic } from "@/lib/simulation/check";
+
+interface EquationFieldProps {
+  value: string;
+  onChange: (value: string) => void;
+  diagnostics: EquationDiagnostic[];
+  onKeyDown?: (e: React.KeyboardEvent<HTMLInputElement>) => void;
+  placeholder?: string;
+}
+
+/**
+ * Monospace equation input with inline diagnostics. Each diagnostic repeats
+ * the equation with the offending range underlined.
+ */
+export const EquationField = forwardRef<HTMLInputElement, EquationFieldProps>(
+  function EquationField({ value, onChange, diagnostics, onKeyDown, placeholder }, ref) {
+    const hasError = diagnostics.some((d) => d.severity === "error");
+
+    return (
+      <div className="flex flex-col gap-1">
+        <input
+          ref={ref}
+          type="text"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onKeyDown={onKeyDown}
+          placeholder={placeholder}
+          spellCheck={false}
+          aria-invalid={hasError}
+          className={`w-full rounded border bg-background px-1.5 py-0.5 font-mono text-[11px] outline-none focus:border-foreground ${
+            hasError ? "border-red-500" : "border-border"
+          }`}
+        />
+        {diagnostics.map((diagnostic, i) => (
+          <DiagnosticLine key={i} source={value} diagnostic={diagnostic} />
+        ))}
+      </div>
+    );
+  }
+);
+
+function DiagnosticLine({
+  source,
+  diagnostic,
+}: {
+  source: string;
+  diagnostic: EquationDiagnostic;
+}) {
+  const isError = diagnostic.severity === "error";
+  const start = Math.min(diagnostic.start, source.length);
+  // Zero-width ranges (e.g. "unexpected end") get a one-space marker
+  const end = Math.max(diagnostic.end, start + 1);
+  const marked = source.slice(start, end) || " ";
+
+  return (
+    <div
+      className={`rounded px-1.5 py-0.5 text-[10px] leading-snug ${
+        isError
+          ? "bg-red-50 text-red-700 dark:bg-red-950 dark:text-red-300"
+          : "bg-yellow-50 text-yellow-800 dark:bg-yellow-950 dark:text-yellow-300"
+      }`}
+    >
+      {source && (
+        <div className="truncate font-mono">
+          {source.slice(0, start)}
+          <span
+            className="underline decoration-wavy underline-offset-2"
+            style={{ whiteSpace: "pre" }}
+          >
+            {marked}
+          </span>
+          {source.slice(end)}
+        </div>
+      )}
+      <div>{diagnostic.message}</div>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+"use client";
+
+import React from "react";
+import { Frame } from "@/lib/model/schema";
+import { useDiagramStore } from "@/lib/store/diagrams";
+import { InlineTextEdit } from "./InlineTextEdit";
+
+export type FrameHandle = "nw" | "ne" | "sw" | "se";
+
+interface FrameRectProps {
+  frame: Frame;
+  selected: boolean;
+  editing: boolean;
+  onEditStart: () => void;
+  onEditEnd: () => void;
+}
+
+export const MIN_FRAME_WIDTH = 120;
+export const MIN_FRAME_HEIGHT = 80;
+
+const TITLE_HEIGHT = 24;
+const HANDLE_SIZE = 8;
+
+const HANDLE_CURSORS: Record<FrameHandle, string> = {
+  nw: "nwse-resize",
+  ne: "nesw-resize",
+  sw: "nesw-resize",
+  se: "nwse-resize",
+};
+
+/**
+ * A titled region drawn behind stocks. Only the title and border take
+ * pointer events, so marquee selection and double-click still work inside.
+ */
+export function FrameRect({ frame, selected, editing, onEditStart, onEditEnd }: FrameRectProps) {
+  const { updateFrame } = useDiagramStore();
+
+  const handles: { id: FrameHandle; x: number; y: number }[] = [
+    { id: "nw", x: 0, y: 0 },
+    { id: "ne", x: frame.width, y: 0 },
+    { id: "sw", x: 0, y: frame.height },
+    { id: "se", x: frame.width, y: frame.height },
+  ];
+
+  const handleTitleSave = (label: string) => {
+    if (label.trim() && label !== frame.label) {
+      updateFrame(frame.id, { label: label.trim() });
+    }
+    onEditEnd();
+  };
+
+  return (
+    <g
+      data-frame-id={frame.id}
+      data-testid="canvas-frame"
+      transform={`translate(${frame.x}, ${frame.y})`}
+    >
+      {/* Body (visual only) */}
+      <rect
+        width={frame.width}
+        height={frame.height}
+        className="pointer-events-none fill-muted"
+        fillOpacity={0.35}
+        stroke="currentColor"
+        strokeOpacity={selected ? 0.8 : 0.3}
+        strokeWidth={selected ? 1.5 : 1}
+        strokeDasharray={selected ? undefined : "6 4"}
+      />
+
+      {/* Border hit area for dragging */}
+      <rect
+        width={frame.width}
+        height={frame.height}
+        fill="none"
+        stroke="transparent"
+        strokeWidth={8}
+        className="cursor-move"
+        style={{ pointerEvents: "stroke" }}
+      />
+
+      {/* Title */}
+      <foreignObject
+        x={0}
+        y={-TITLE_HEIGHT}
+        width={Math.max(frame.width, MIN_FRAME_WIDTH)}
+        height={TITLE_HEIGHT}
+      >
+        {editing ? (
+          <InlineTextEdit
+            value={frame.label}
+            onSave={handleTitleSave}
+            onCancel={onEditEnd}
+            className="w-full bg-background px-1 text-xs font-medium"
+          />
+        ) : (
+          <div className="pointer-events-none flex h-full items-end pb-1">
+            <span
+              className="pointer-events-auto cursor-move truncate px-1 text-xs font-medium text-muted-foreground"
+              data-testid="frame-title"
+              onDoubleClick={(e) => {
+                e.stopPropagation();
+                onEditStart();
+              }}
+            >
+              {frame.label || "Frame"}
+            </span>
+          </div>
+        )}
+      </foreignObject>
+
+      {/* Resize handles */}
+      {selected &&
+        handles.map((handle) => (
+          <rect
+            key={handle.id}
+            data-frame-handle={handle.id}
+            x={handle.x - HANDLE_SIZE / 2}
+            y={handle.y - HANDLE_SIZE / 2}
+            width={HANDLE_SIZE}
+            height={HANDLE_SIZE}
+            className="fill-background"
+            stroke="currentColor"
+            strokeWidth={1}
+            style={{ cursor: HANDLE_CURSORS[handle.id] }}
+          />
+        ))}
+    </g>
+  );
+}
@@ -10,25 +10,35 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
-import { get as idbGet, set as idbSet, keys as idbKeys, del as idbDel } from "idb-keyval";
-import { DiagramDoc, DiagramDocSchema, UserPrefsSchema } from "@/lib/model/schema";
+import { DiagramDoc, DiagramIndexEntry, UserPrefs } from "@/lib/model/schema";
+import { migrateDiagram, migratePrefs } from "@/lib/model/migrations";
 import { usePrefsStore } from "@/lib/store/prefs";
-import { useDiagramStore } from "@/lib/store/diagrams";
+import { useDiagramStore, readStoredDiagram } from "@/lib/store/diagrams";
+import {
+  getStorage,
+  diagramKey,
+  DIAGRAMS_INDEX_KEY,
+  KEY_PREFIXES,
+  PREFS_KEY,
+} from "@/lib/storage/adapter";
 import { z } from "zod";
 
-const DIAGRAM_PREFIX = "diagram:";
-const DIAGRAMS_INDEX_KEY = "diagrams:index";
-const PREFS_KEY = "prefs";
-
-// Backup schema
+// Backup schema; preferences and diagrams are upgraded and checked one by
+// one (see lib/model/migrations.ts)
 const FullBackupSchema = z.object({
   version: z.literal(1),
   exportedAt: z.number(),
-  preferences: UserPrefsSchema,
-  diagrams: z.array(DiagramDocSchema),
+  preferences: z.unknown(),
+  diagrams: z.array(z.object({ id: z.string() }).passthrough()),
 });
 
-type FullBackup = z.infer<typeof FullBackupSchema>;
+interface FullBackup {
+  exportedAt: number;
+  preferences: UserPrefs;
+  diagrams: DiagramDoc[];
+  // Diagrams that can't be read, restored as they are and quarantined
+  quarantined: { id: string; title: string; data: unknown; reason: string }[];
+}
 
 interface FullBackupModalProps {
   open: boolean;
@@ -79,13 +89,13 @@ export function FullBackupModal({ open, onClose }: FullBackupModalProps) {
       // Fetch each diagram
       const diagramDocs: DiagramDoc[] = [];
       for (const id of diagramIds) {
-        const doc = await idbGet<DiagramDoc>(`${DIAGRAM_PREFIX}${id}`);
+        const doc = await readStoredDiagram(id);
         if (doc) {
           diagramDocs.push(doc);
         }
       }
 
-      const backup: FullBackup = {
+      const backup: z.input<typeof FullBackupSchema> = {
         version: 1,
         exportedAt: Date.now(),
         preferences: prefs,
@@ -127,7 +137,26 @@ export function FullBackupModal({ open, onClose }: FullBackupModalProps) {
     try {
       const json = JSON.parse(text);
       const validated = FullBackupSchema.parse(json);
-      return validated;
+
+      const preferences = migratePrefs(validated.preferences);
+      if (!preferences.ok) throw new Error(`Preferences: ${preferences.error}`);
+
+      const backup: FullBackup = {
+        exportedAt: validated.exportedAt,
+        preferences: preferences.value,
+        diagrams: [],
+        quarantined: [],
+      };
+      for (const data of validated.diagrams) {
+        const result = migrateDiagram(data);
+        if (result.ok) {
+          backup.diagrams.push(result.value);
+        } else {
+          const title = typeof data.title === "string" ? data.title : "Untitled system";
+          backup.quarantined.push({ id: data.id, title, data, reason: result.error });
+        }
+      }
+      return backup;
     } catch (err) {
       console.error("Failed to validate backup:", err);
       setError(
@@ -206,29 +235,33 @@ export function FullBackupModal({ open, onClose }: FullBackupModalProps) {
     setLoading(true);
     try {
       // Clear existing diagrams
-      const allKeys = await idbKeys();
-      for (const key of allKeys) {
-        if (typeof key === "string" && key.startsWith(DIAGRAM_PREFIX)) {
-          await idbDel(key);
+      const storage = getStorage();
+      for (const key of await storage.keys()) {
+        if (key.startsWith(KEY_PREFIXES.diagram)) {
+          await storage.del(key);
         }
       }
 
       // Restore preferences
-      await idbSet(PREFS_KEY, parsedBackup.preferences);
+      await storage.set(PREFS_KEY, parsedBackup.preferences);
 
       // Restore diagrams
-      const newIndex: Record<string, { id: string; title: string; updatedAt: number }> = {};
+      const newIndex: Record<string, DiagramIndexEntry> = {};
       for (const diagram of parsedBackup.diagrams) {
-        await idbSet(`${DIAGRAM_PREFIX}${diagram.id}`, diagram);
+        await storage.set(diagramKey(diagram.id), diagram);
         newIndex[diagram.id] = {
           id: diagram.id,
           title: diagram.title,
           updatedAt: diagram.updatedAt,
         };
       }
+      for (const { id, title, data, reason } of parsedBackup.quarantined) {
+        await storage.set(diagramKey(id), data);
+        newIndex[id] = { id, title, updatedAt: Date.now(), quarantine: reason };
+      }
 
       // Update diagrams index
-      await idbSet(DIAGRAMS_INDEX_KEY, newIndex);
+      await storage.set(DIAGRAMS_INDEX_KEY, newIndex);
 
       // Reload the page to apply changes
       window.location.reload();
@@ -349,7 +382,13 @@ export function FullBackupModal({ open, onClose }: FullBackupModalProps) {
 
               <div className="text-sm space-y-1">
                 <p><strong>Backup date:</strong> {new Date(parsedBackup.exportedAt).toLocaleString()}</p>
-                <p><strong>Diagrams:</strong> {parsedBackup.diagrams.length}</p>
+                <p><strong>Diagrams:</strong> {parsedBackup.diagrams.length + parsedBackup.quarantined.length}</p>
+                {parsedBackup.quarantined.length > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    {parsedBackup.quarantined.length} can&apos;t be read and will be restored as they are, marked in
+                    the sidebar.
+                  </p>
+                )}
               </div>
             </div>
 
@@ -0,0 +1,161 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Eye, EyeOff, Copy, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { useDiagramStore } from "@/lib/store/diagrams";
+import { useSnapshotStore } from "@/lib/store/snapshots";
+
+interface HistoryPanelProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const timeFormat = new Intl.DateTimeFormat(undefined, { hour: "numeric", minute: "2-digit" });
+const dateFormat = new Intl.DateTimeFormat(undefined, { dateStyle: "medium", timeStyle: "short" });
+
+/**
+ * Named versions of the open diagram, then every undo step, oldest first.
+ * Clicking a step undoes or redoes everything up to it; steps after the
+ * current one stay listed until a new edit replaces them.
+ */
+export function HistoryPanel({ open }: HistoryPanelProps) {
+  const router = useRouter();
+  const { currentDiagram, history, historyIndex, goToHistory } = useDiagramStore();
+  const { snapshots, comparing, loadSnapshots, createSnapshot, deleteSnapshot, restoreSnapshot, setComparing } =
+    useSnapshotStore();
+  const [name, setName] = useState("");
+
+  const diagramId = currentDiagram?.id;
+  useEffect(() => {
+    if (open && diagramId) loadSnapshots(diagramId);
+  }, [open, diagramId, loadSnapshots]);
+
+  if (!open || !currentDiagram) return null;
+
+  const handleSave = async () => {
+    await createSnapshot(name);
+    setName("");
+  };
+
+  const handleRestore = (id: string) => {
+    const newId = restoreSnapshot(id);
+    if (newId) router.push(`/d/${newId}`);
+  };
+
+  return (
+    <div
+      className="absolute right-0 top-0 bottom-0 z-10 flex w-72 flex-col border-l border-border bg-background shadow-lg"
+      data-testid="history-panel"
+    >
+      {/* Named versions */}
+      <div className="space-y-2 border-b border-border p-4">
+        <span className="text-sm font-medium">Versions</span>
+        <form
+          className="flex gap-1"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleSave();
+          }}
+        >
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g., Before workshop"
+            className="min-w-0 flex-1 rounded border border-border bg-background px-2 py-1 text-xs focus:outline-none focus:ring-1 focus:ring-foreground"
+            data-testid="snapshot-name-input"
+          />
+          <Button type="submit" size="sm" className="h-7" data-testid="save-snapshot-button">
+            Save
+          </Button>
+        </form>
+
+        {snapshots.length > 0 && (
+          <ul className="max-h-48 overflow-y-auto">
+            {snapshots.map((snapshot) => {
+              const isComparing = comparing?.id === snapshot.id;
+              return (
+                <li
+                  key={snapshot.id}
+                  data-testid="snapshot-item"
+                  className={cn("group flex items-center gap-1 rounded py-1 pl-2", isComparing && "bg-muted")}
+                >
+                  <div className="min-w-0 flex-1">
+                    <div className="truncate text-sm">{snapshot.name}</div>
+                    <div className="text-xs text-muted-foreground">{dateFormat.format(snapshot.createdAt)}</div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    title={isComparing ? "Stop comparing" : "Compare with the canvas"}
+                    onClick={() => setComparing(isComparing ? null : snapshot)}
+                    data-testid="snapshot-compare"
+                  >
+                    {isComparing ? <EyeOff className="h-3.5 w-3.5" /> : <Eye className="h-3.5 w-3.5" />}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    title="Restore as a new system"
+                    onClick={() => handleRestore(snapshot.id)}
+                    data-testid="snapshot-restore"
+                  >
+                    <Copy className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    title="Delete version"
+                    onClick={() => deleteSnapshot(snapshot.id)}
+                    data-testid="snapshot-delete"
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+
+      {/* Undo steps */}
+      <div className="flex items-baseline justify-between px-4 pt-4 pb-2">
+        <span className="text-sm font-medium">History</span>
+        <span className="text-xs text-muted-foreground">
+          {history.length} {history.length === 1 ? "step" : "steps"}
+        </span>
+      </div>
+
+      <ul className="flex-1 overflow-y-auto pb-1">
+        <li
+          data-testid="history-item"
+          className={cn("cursor-pointer px-4 py-2 text-sm hover:bg-muted", historyIndex === -1 && "bg-muted font-medium")}
+          onClick={() => goToHistory(-1)}
+        >
+          {history.length > 0 ? "Earliest saved state" : "No changes yet"}
+        </li>
+        {history.map((step, index) => (
+          <li
+            key={`${index}-${step.timestamp}`}
+            data-testid="history-item"
+            className={cn(
+              "flex cursor-pointer items-baseline justify-between gap-2 px-4 py-2 text-sm hover:bg-muted",
+              index === historyIndex && "bg-muted font-medium",
+              index > historyIndex && "opacity-50"
+            )}
+            onClick={() => goToHistory(index)}
+          >
+            <span className="truncate">{step.label}</span>
+            <span className="shrink-0 text-xs text-muted-foreground">{timeFormat.format(step.timestamp)}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
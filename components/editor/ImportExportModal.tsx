@@ -12,7 +12,7 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { useDiagramStore } from "@/lib/store/diagrams";
-import { DiagramDocSchema } from "@/lib/model/schema";
+import { migrateDiagram } from "@/lib/model/migrations";
 
 interface ImportExportModalProps {
   open: boolean;
@@ -90,7 +90,9 @@ export function ImportExportModal({
       setError(null);
       try {
         const parsed = JSON.parse(text);
-        const validated = DiagramDocSchema.parse(parsed);
+        const migrated = migrateDiagram(parsed);
+        if (!migrated.ok) throw new Error(migrated.error);
+        const validated = migrated.value;
 
         const newId = createDiagram(validated.title, undefined, {
           nodes: validated.nodes,
@@ -0,0 +1,60 @@
+"use client";
+
+import React from "react";
+import { Node, COLOR_PALETTE } from "@/lib/model/schema";
+import { FeedbackLoop, LoopPolarity } from "@/lib/analysis/loops";
+
+export const LOOP_COLORS: Record<LoopPolarity, string> = {
+  reinforcing: COLOR_PALETTE.blue.stroke,
+  balancing: COLOR_PALETTE.orange.stroke,
+  unknown: COLOR_PALETTE.gray.stroke,
+};
+
+interface LoopMarkerProps {
+  loop: FeedbackLoop;
+  nodes: Record<string, Node>;
+  name?: string;
+}
+
+/**
+ * Loop label ("R1", "B2") drawn at the centroid of the loop's stocks, with a
+ * circular arrow around it, as in causal loop diagrams.
+ */
+export function LoopMarker({ loop, nodes, name }: LoopMarkerProps) {
+  const loopNodes = loop.nodeIds.map((id) => nodes[id]).filter(Boolean);
+  if (loopNodes.length === 0) return null;
+
+  const cx = loopNodes.reduce((sum, n) => sum + n.x + n.width / 2, 0) / loopNodes.length;
+  let cy = loopNodes.reduce((sum, n) => sum + n.y + n.height / 2, 0) / loopNodes.length;
+
+  // A one- or two-stock loop's centroid sits on the stocks; move below them
+  if (loopNodes.length <= 2) {
+    cy = Math.max(...loopNodes.map((n) => n.y + n.height)) + 32;
+  }
+
+  const color = LOOP_COLORS[loop.polarity];
+
+  return (
+    <g transform={`translate(${cx}, ${cy})`} className="pointer-events-none" data-testid="loop-marker">
+      <circle r={16} className="fill-background" stroke={color} strokeWidth={1.5} strokeDasharray="70 30" />
+      <path d="M 13 -9 L 16 -3 L 10 -3" fill="none" stroke={color} strokeWidth={1.5} strokeLinejoin="round" />
+      <text
+        textAnchor="middle"
+        dominantBaseline="central"
+        style={{ fontSize: "12px", fontWeight: 600, fill: color }}
+      >
+        {loop.label}
+      </text>
+      {name && (
+        <text
+          y={28}
+          textAnchor="middle"
+          dominantBaseline="central"
+          style={{ fontSize: "11px", fill: color }}
+        >
+          {name}
+        </text>
+      )}
+    </g>
+  );
+}
@@ -0,0 +1,171 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { useDiagramStore } from "@/lib/store/diagrams";
+import { findFeedbackLoops, FeedbackLoop, LoopPolarity } from "@/lib/analysis/loops";
+import { InlineTextEdit } from "./InlineTextEdit";
+import { LOOP_COLORS } from "./LoopMarker";
+
+interface LoopsPanelProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+type LoopFilter = "all" | LoopPolarity;
+
+const FILTER_LABELS: Record<LoopFilter, string> = {
+  all: "All",
+  reinforcing: "Reinforcing",
+  balancing: "Balancing",
+  unknown: "Unknown",
+};
+
+export function LoopsPanel({ open }: LoopsPanelProps) {
+  const { currentDiagram, updateDiagram, highlightedLoop, setHighlightedLoop } = useDiagramStore();
+  const [filter, setFilter] = useState<LoopFilter>("all");
+  const [pinnedKey, setPinnedKey] = useState<string | null>(null);
+  const [editingKey, setEditingKey] = useState<string | null>(null);
+
+  const nodes = currentDiagram?.nodes;
+  const edges = currentDiagram?.edges;
+
+  const analysis = useMemo(() => {
+    if (!open || !nodes || !edges) return null;
+    return findFeedbackLoops({ nodes, edges });
+  }, [open, nodes, edges]);
+
+  // Keep the highlight in sync with the latest analysis, and clear it when
+  // the panel closes or the loop no longer exists
+  useEffect(() => {
+    const current = useDiagramStore.getState().highlightedLoop;
+    if (!current) return;
+    const fresh = analysis?.loops.find((loop) => loop.key === current.key) ?? null;
+    if (fresh !== current) setHighlightedLoop(fresh);
+    if (!fresh) setPinnedKey(null);
+  }, [analysis, setHighlightedLoop]);
+
+  if (!open || !currentDiagram || !analysis) return null;
+
+  const loopNames = currentDiagram.loopNames ?? {};
+  const visibleLoops = analysis.loops.filter((loop) => filter === "all" || loop.polarity === filter);
+  const counts = analysis.loops.reduce(
+    (acc, loop) => ({ ...acc, [loop.polarity]: acc[loop.polarity] + 1 }),
+    { reinforcing: 0, balancing: 0, unknown: 0 } as Record<LoopPolarity, number>
+  );
+
+  const pinnedLoop = analysis.loops.find((loop) => loop.key === pinnedKey) ?? null;
+
+  const handleClick = (loop: FeedbackLoop) => {
+    const next = pinnedKey === loop.key ? null : loop;
+    setPinnedKey(next?.key ?? null);
+    setHighlightedLoop(next);
+  };
+
+  const handleRename = (loop: FeedbackLoop, name: string) => {
+    const next = { ...loopNames };
+    delete next[loop.key];
+    if (name.trim()) next[loop.key] = name.trim();
+    updateDiagram(currentDiagram.id, { loopNames: next });
+    setEditingKey(null);
+  };
+
+  const describePath = (loop: FeedbackLoop) =>
+    [...loop.nodeIds, loop.nodeIds[0]]
+      .map((id) => currentDiagram.nodes[id]?.label || "Untitled")
+      .join(" → ");
+
+  return (
+    <div
+      className="absolute right-0 top-0 bottom-0 z-10 flex w-72 flex-col border-l border-border bg-background shadow-lg"
+      data-testid="loops-panel"
+    >
+      <div className="space-y-2 border-b border-border p-4">
+        <div className="flex items-baseline justify-between">
+          <span className="text-sm font-medium">Feedback Loops</span>
+          <span className="text-xs text-muted-foreground">
+            {counts.reinforcing} R · {counts.balancing} B
+            {counts.unknown > 0 && ` · ${counts.unknown} ?`}
+          </span>
+        </div>
+        <div className="flex flex-wrap gap-1">
+          {(Object.keys(FILTER_LABELS) as LoopFilter[])
+            .filter((key) => key !== "unknown" || counts.unknown > 0)
+            .map((key) => (
+              <Button
+                key={key}
+                variant={filter === key ? "default" : "outline"}
+                size="sm"
+                className="h-7"
+                onClick={() => setFilter(key)}
+              >
+                {FILTER_LABELS[key]}
+              </Button>
+            ))}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {analysis.loops.length === 0 ? (
+          <p className="p-4 text-xs text-muted-foreground">
+            No feedback loops. Loops appear when flows or influence links form a cycle.
+          </p>
+        ) : (
+          <ul className="py-1">
+            {visibleLoops.map((loop) => (
+              <li
+                key={loop.key}
+                data-testid="loop-item"
+                className={cn(
+                  "cursor-pointer px-4 py-2 hover:bg-muted",
+                  highlightedLoop?.key === loop.key && "bg-muted"
+                )}
+                onClick={() => handleClick(loop)}
+                onMouseEnter={() => setHighlightedLoop(loop)}
+                onMouseLeave={() => setHighlightedLoop(pinnedLoop)}
+              >
+                <div className="flex items-center gap-2">
+                  <span
+                    className="min-w-[2rem] rounded border px-1 text-center text-xs font-semibold"
+                    style={{ color: LOOP_COLORS[loop.polarity], borderColor: LOOP_COLORS[loop.polarity] }}
+                  >
+                    {loop.label}
+                  </span>
+                  {editingKey === loop.key ? (
+                    <InlineTextEdit
+                      value={loopNames[loop.key] ?? ""}
+                      onSave={(name) => handleRename(loop, name)}
+                      onCancel={() => setEditingKey(null)}
+                      className="flex-1 text-left text-sm"
+                    />
+                  ) : (
+                    <span
+                      className={cn("flex-1 truncate text-sm", !loopNames[loop.key] && "text-muted-foreground")}
+                      title="Double-click to name this loop"
+                      onDoubleClick={(e) => {
+                        e.stopPropagation();
+                        setEditingKey(loop.key);
+                      }}
+                    >
+                      {loopNames[loop.key] || "Unnamed loop"}
+                    </span>
+                  )}
+                </div>
+                <div className="mt-1 truncate text-xs text-muted-foreground" title={describePath(loop)}>
+                  {describePath(loop)}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {analysis.truncated && (
+          <p className="p-4 text-xs text-muted-foreground">
+            Showing the first {analysis.loops.length} loops. This system has too many to list them all.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -8,8 +8,12 @@ interface NodeStockProps {
   node: Node;
   selected: boolean;
   editing: boolean;
+  /** Fade out, e.g. when a feedback loop that excludes this node is highlighted. */
+  dimmed?: boolean;
   onEditStart: () => void;
   onEditEnd: () => void;
+  /** Navigate into the child diagram, for stocks expanded into a subsystem. */
+  onOpenSubsystem?: () => void;
 }
 
 const MIN_NODE_WIDTH = DEFAULT_NODE_WIDTH;
@@ -22,8 +26,10 @@ export function NodeStock({
   node,
   selected,
   editing,
+  dimmed = false,
   onEditStart,
   onEditEnd,
+  onOpenSubsystem,
 }: NodeStockProps) {
   const inputRef = useRef<HTMLTextAreaElement>(null);
   const [editValue, setEditValue] = useState(node.label);
@@ -78,6 +84,8 @@ export function NodeStock({
 
   const handleDoubleClick = (e: React.MouseEvent) => {
     e.stopPropagation();
+    // Boundary stocks take their label from the parent diagram
+    if (node.boundary) return;
     onEditStart();
   };
 
@@ -118,9 +126,17 @@ export function NodeStock({
       data-node-id={node.id}
       transform={`translate(${node.x}, ${node.y})`}
       className="cursor-move"
+      opacity={dimmed ? 0.25 : 1}
       onMouseEnter={() => setHovered(true)}
       onMouseLeave={() => setHovered(false)}
     >
+      {node.boundary && (
+        <title>
+          {node.boundary.direction === "in" ? "Flows in from" : "Flows out to"} {node.label} in the parent
+          diagram
+        </title>
+      )}
+
       {/* Node rectangle */}
       <rect
         width={node.width}
@@ -201,9 +217,28 @@ export function NodeStock({
         />
       ))}
 
+      {/* Pinned indicator */}
+      {node.pinned && (
+        <g transform="translate(4, 4)" data-testid="pin-indicator">
+          <title>Pinned: auto layout leaves this stock in place</title>
+          <circle cx={4} cy={3} r={2.5} className="fill-current" />
+          <path d="M4 5.5v4.5" stroke="currentColor" strokeWidth="1" />
+        </g>
+      )}
+
       {/* Child diagram indicator */}
       {node.childDiagramId && (
-        <g transform={`translate(${node.width - 16}, 4)`}>
+        <g
+          transform={`translate(${node.width - 16}, 4)`}
+          className="cursor-pointer"
+          data-testid="subsystem-indicator"
+          onMouseDown={(e) => e.stopPropagation()}
+          onClick={(e) => {
+            e.stopPropagation();
+            onOpenSubsystem?.();
+          }}
+        >
+          <title>Open subsystem</title>
           <rect
             width={12}
             height={12}
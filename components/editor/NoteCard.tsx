@@ -0,0 +1,190 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { Note, COLOR_PALETTE } from "@/lib/model/schema";
+import { useDiagramStore } from "@/lib/store/diagrams";
+import { parseMarkdown, MarkdownBlock, MarkdownInline } from "@/lib/notes/markdown";
+
+interface NoteCardProps {
+  note: Note;
+  selected: boolean;
+  editing: boolean;
+  onEditStart: () => void;
+  onEditEnd: () => void;
+}
+
+export const MIN_NOTE_WIDTH = 120;
+export const MIN_NOTE_HEIGHT = 60;
+
+const PADDING = 10;
+const HANDLE_SIZE = 10;
+const palette = COLOR_PALETTE.yellow;
+
+function renderInline(nodes: MarkdownInline[]): React.ReactNode[] {
+  return nodes.map((node, i) => {
+    switch (node.type) {
+      case "text":
+        return <React.Fragment key={i}>{node.text}</React.Fragment>;
+      case "strong":
+        return <strong key={i}>{renderInline(node.children)}</strong>;
+      case "emphasis":
+        return <em key={i}>{renderInline(node.children)}</em>;
+      case "code":
+        return (
+          <code key={i} className="rounded bg-black/5 px-0.5 font-mono text-[0.9em]">
+            {node.text}
+          </code>
+        );
+      case "link":
+        return (
+          <a
+            key={i}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="underline"
+            onMouseDown={(e) => e.stopPropagation()}
+          >
+            {renderInline(node.children)}
+          </a>
+        );
+      case "break":
+        return <br key={i} />;
+    }
+  });
+}
+
+const HEADING_CLASSES: Record<1 | 2 | 3, string> = {
+  1: "text-base font-semibold",
+  2: "text-sm font-semibold",
+  3: "text-sm font-medium",
+};
+
+function renderBlock(block: MarkdownBlock, index: number): React.ReactNode {
+  switch (block.type) {
+    case "heading":
+      return (
+        <div key={index} className={HEADING_CLASSES[block.level]}>
+          {renderInline(block.children)}
+        </div>
+      );
+    case "paragraph":
+      return <p key={index}>{renderInline(block.children)}</p>;
+    case "list": {
+      const List = block.ordered ? "ol" : "ul";
+      return (
+        <List key={index} className={block.ordered ? "list-decimal pl-5" : "list-disc pl-5"}>
+          {block.items.map((item, i) => (
+            <li key={i}>{renderInline(item)}</li>
+          ))}
+        </List>
+      );
+    }
+  }
+}
+
+/**
+ * Free-floating sticky note with markdown content. Notes aren't part of the
+ * system: they have no connector handles and are ignored by auto-layout.
+ */
+export function NoteCard({ note, selected, editing, onEditStart, onEditEnd }: NoteCardProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [editValue, setEditValue] = useState(note.content);
+  const { updateNote } = useDiagramStore();
+
+  const blocks = useMemo(() => parseMarkdown(note.content), [note.content]);
+
+  useEffect(() => {
+    setEditValue(note.content);
+  }, [note.content]);
+
+  useEffect(() => {
+    if (editing && textareaRef.current) {
+      textareaRef.current.focus();
+      textareaRef.current.select();
+    }
+  }, [editing]);
+
+  const commitEdit = () => {
+    if (editValue !== note.content) {
+      updateNote(note.id, { content: editValue });
+    }
+    onEditEnd();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // Enter adds a line; ⌘Enter or Escape finishes
+    if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      commitEdit();
+    } else if (e.key === "Escape") {
+      setEditValue(note.content);
+      onEditEnd();
+    }
+    e.stopPropagation();
+  };
+
+  return (
+    <g
+      data-note-id={note.id}
+      data-testid="canvas-note"
+      transform={`translate(${note.x}, ${note.y})`}
+      className="cursor-move"
+    >
+      <rect
+        width={note.width}
+        height={note.height}
+        style={{
+          fill: palette.fill,
+          stroke: palette.stroke,
+          strokeWidth: selected ? 1.5 : 0.5,
+          filter: "drop-shadow(0 1px 2px rgb(0 0 0 / 0.12))",
+        }}
+      />
+
+      <foreignObject
+        x={PADDING}
+        y={PADDING}
+        width={Math.max(0, note.width - PADDING * 2)}
+        height={Math.max(0, note.height - PADDING * 2)}
+      >
+        {editing ? (
+          <textarea
+            ref={textareaRef}
+            value={editValue}
+            onChange={(e) => setEditValue(e.target.value)}
+            onBlur={commitEdit}
+            onKeyDown={handleKeyDown}
+            onMouseDown={(e) => e.stopPropagation()}
+            className="inline-edit-input h-full w-full resize-none border-none bg-transparent p-0 font-mono text-xs outline-none"
+            placeholder="Write a note… (markdown)"
+          />
+        ) : (
+          <div
+            className="h-full w-full space-y-1 overflow-hidden text-xs leading-snug"
+            style={{ wordWrap: "break-word", overflowWrap: "break-word" }}
+            onDoubleClick={(e) => {
+              e.stopPropagation();
+              onEditStart();
+            }}
+          >
+            {blocks.length > 0 ? (
+              blocks.map(renderBlock)
+            ) : (
+              <p className="text-muted-foreground">Double-click to write</p>
+            )}
+          </div>
+        )}
+      </foreignObject>
+
+      {/* Resize handle */}
+      {selected && !editing && (
+        <path
+          data-note-handle="se"
+          d={`M ${note.width} ${note.height - HANDLE_SIZE} L ${note.width} ${note.height} L ${note.width - HANDLE_SIZE} ${note.height} Z`}
+          style={{ fill: palette.stroke, cursor: "nwse-resize" }}
+        />
+      )}
+    </g>
+  );
+}
@@ -0,0 +1,81 @@
+"use client";
+
+import React from "react";
+import { DiagramDoc, COLOR_PALETTE } from "@/lib/model/schema";
+import { EdgeRoute, getCurvedEdgePath } from "@/lib/layout/geometry";
+import { PeerPresence, peerColor } from "@/lib/store/sync";
+
+interface PeerOverlayProps {
+  peers: PeerPresence[];
+  diagram: DiagramDoc;
+  edgeEndpoints: Record<string, EdgeRoute>;
+  /** Cursors and labels keep their size on screen whatever the zoom. */
+  zoom: number;
+}
+
+const OUTLINE_GAP = 6;
+
+/**
+ * Other peers on this diagram: an outline around whatever each has selected,
+ * and their pointer, in a color of their own.
+ */
+export function PeerOverlay({ peers, diagram, edgeEndpoints, zoom }: PeerOverlayProps) {
+  const scale = 1 / zoom;
+
+  return (
+    <g className="pointer-events-none" data-testid="peer-overlay">
+      {peers.map(({ peer, cursor, selection }) => {
+        const color = COLOR_PALETTE[peerColor(peer)].stroke;
+        const boxes = [
+          ...selection.nodeIds.map((id) => diagram.nodes[id]),
+          ...selection.frameIds.map((id) => diagram.frames?.[id]),
+          ...selection.noteIds.map((id) => diagram.notes?.[id]),
+        ].filter((box) => box !== undefined);
+
+        return (
+          <g key={peer} data-peer-id={peer}>
+            {boxes.map((box) => (
+              <rect
+                key={box.id}
+                data-peer-selection={box.id}
+                x={box.x - OUTLINE_GAP}
+                y={box.y - OUTLINE_GAP}
+                width={box.width + OUTLINE_GAP * 2}
+                height={box.height + OUTLINE_GAP * 2}
+                fill="none"
+                stroke={color}
+                strokeWidth={2 * scale}
+                rx={4}
+              />
+            ))}
+            {selection.edgeIds.map((id) => {
+              const route = edgeEndpoints[id];
+              if (!route) return null;
+              return (
+                <path
+                  key={id}
+                  data-peer-selection={id}
+                  d={getCurvedEdgePath(route.start, route.end, route.c1, route.c2)}
+                  fill="none"
+                  stroke={color}
+                  strokeWidth={6 * scale}
+                  strokeOpacity={0.4}
+                  strokeLinecap="round"
+                />
+              );
+            })}
+            {cursor && (
+              <g data-peer-cursor={peer} transform={`translate(${cursor.x}, ${cursor.y}) scale(${scale})`}>
+                <path d="M0 0 L0 16 L4.5 12 L8 19 L10.5 18 L7 11 L13 11 Z" fill={color} stroke="white" strokeWidth={1} />
+                <rect x={12} y={18} width={46} height={16} rx={3} fill={color} />
+                <text x={35} y={26} textAnchor="middle" dominantBaseline="central" style={{ fontSize: "10px", fill: "white" }}>
+                  {peer.slice(0, 6)}
+                </text>
+              </g>
+            )}
+          </g>
+        );
+      })}
+    </g>
+  );
+}
@@ -0,0 +1,233 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { AlertTriangle, Download, Wrench } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useDiagramStore, readStoredData, readStoredDiagram } from "@/lib/store/diagrams";
+import { migrateDiagram } from "@/lib/model/migrations";
+import { repairDiagram } from "@/lib/model/repair";
+import { DiagramDoc, COLOR_PALETTE } from "@/lib/model/schema";
+import { getNodesBoundingBox } from "@/lib/layout/geometry";
+
+interface QuarantineNoticeProps {
+  diagramId: string;
+  reason: string;
+}
+
+const PREVIEW_PADDING = 40;
+
+/**
+ * The repaired diagram in miniature: frames, notes, stocks and straight
+ * lines for flows.
+ */
+function RepairPreview({ doc }: { doc: DiagramDoc }) {
+  const frames = Object.values(doc.frames ?? {});
+  const notes = Object.values(doc.notes ?? {});
+  const nodes = Object.values(doc.nodes);
+  const bounds = getNodesBoundingBox([...frames, ...notes, ...nodes]);
+
+  if (!bounds) {
+    return <div className="py-8 text-center text-xs text-muted-foreground">Nothing left to show</div>;
+  }
+
+  const viewBox = [
+    bounds.x - PREVIEW_PADDING,
+    bounds.y - PREVIEW_PADDING,
+    bounds.width + PREVIEW_PADDING * 2,
+    bounds.height + PREVIEW_PADDING * 2,
+  ].join(" ");
+
+  return (
+    <svg viewBox={viewBox} className="h-48 w-full" data-testid="repair-preview">
+      {frames.map((frame) => (
+        <rect
+          key={frame.id}
+          x={frame.x}
+          y={frame.y}
+          width={frame.width}
+          height={frame.height}
+          fill="none"
+          stroke="currentColor"
+          strokeOpacity={0.3}
+          strokeDasharray="6 4"
+        />
+      ))}
+      {notes.map((note) => (
+        <rect key={note.id} x={note.x} y={note.y} width={note.width} height={note.height} fill="#FBF3DB" />
+      ))}
+      {Object.values(doc.edges).map((edge) => {
+        const source = doc.nodes[edge.sourceId];
+        const target = doc.nodes[edge.targetId];
+        return (
+          <line
+            key={edge.id}
+            x1={source.x + source.width / 2}
+            y1={source.y + source.height / 2}
+            x2={target.x + target.width / 2}
+            y2={target.y + target.height / 2}
+            stroke="currentColor"
+            strokeOpacity={0.5}
+            strokeWidth={2}
+          />
+        );
+      })}
+      {nodes.map((node) => {
+        const palette = COLOR_PALETTE[node.color ?? "default"];
+        return (
+          <g key={node.id} data-preview-node-id={node.id}>
+            <rect
+              x={node.x}
+              y={node.y}
+              width={node.width}
+              height={node.height}
+              rx={4}
+              fill={palette.fill}
+              stroke={palette.stroke}
+              strokeWidth={2}
+            />
+            <text
+              x={node.x + node.width / 2}
+              y={node.y + node.height / 2}
+              textAnchor="middle"
+              dominantBaseline="central"
+              fill={palette.text}
+              style={{ fontSize: "14px" }}
+            >
+              {node.label}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+/**
+ * Shown in place of the editor for a stored diagram that fails validation.
+ * Lists what's wrong and previews a repaired copy, which can be saved over
+ * the stored data. The stored data can be exported as it is first.
+ */
+export function QuarantineNotice({ diagramId, reason }: QuarantineNoticeProps) {
+  const { diagrams, saveRepairedDiagram } = useDiagramStore();
+  const title = diagrams[diagramId]?.title;
+
+  const [stored, setStored] = useState<{ raw: unknown; doc: unknown } | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([readStoredData(diagramId), readStoredDiagram(diagramId)]).then(([raw, doc]) => {
+      if (!cancelled) setStored({ raw, doc: doc ?? raw });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [diagramId]);
+
+  const issues = useMemo(() => {
+    if (!stored) return [];
+    const result = migrateDiagram(stored.doc);
+    return result.ok ? [] : result.issues;
+  }, [stored]);
+
+  const repair = useMemo(() => (stored ? repairDiagram(stored.doc, diagramId) : null), [stored, diagramId]);
+
+  const handleExport = () => {
+    if (!stored) return;
+
+    const blob = new Blob([JSON.stringify(stored.raw, null, 2)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${(title ?? diagramId).replace(/[^a-z0-9]/gi, "-").toLowerCase()}-raw.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleSave = async () => {
+    if (!repair?.ok) return;
+    setSaving(true);
+    setError(null);
+    const saved = await saveRepairedDiagram(diagramId, repair.doc);
+    if (!saved) {
+      setError("The repaired system still couldn't be opened.");
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-1 justify-center overflow-y-auto p-8" data-testid="quarantine-notice">
+      <div className="w-full max-w-xl space-y-4 text-sm">
+        <div className="flex items-center gap-2 font-medium">
+          <AlertTriangle className="h-4 w-4 text-orange-500" />
+          &ldquo;{title}&rdquo; can&apos;t be opened
+        </div>
+        <p className="text-muted-foreground">
+          Its saved data doesn&apos;t match what this version of the app expects, so it has been set aside
+          untouched instead of being opened.
+        </p>
+
+        {issues.length > 0 ? (
+          <ul className="space-y-1 rounded border border-border bg-muted p-2 font-mono text-xs" data-testid="quarantine-issues">
+            {issues.map((issue, i) => (
+              <li key={i}>
+                {issue.path.length > 0 && <span className="text-muted-foreground">{issue.path.join(".")}: </span>}
+                {issue.message}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <pre className="whitespace-pre-wrap rounded border border-border bg-muted p-2 font-mono text-xs">
+            {reason}
+          </pre>
+        )}
+
+        {repair?.ok && (
+          <div className="space-y-2" data-testid="repair-proposal">
+            <div className="font-medium">Repair</div>
+            {repair.fixes.length > 0 ? (
+              <ul className="list-disc space-y-0.5 pl-5 text-xs" data-testid="repair-fixes">
+                {repair.fixes.map((fix, i) => (
+                  <li key={i}>
+                    <span className="font-mono text-muted-foreground">{fix.path}</span> {fix.description}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-xs text-muted-foreground">Nothing needs changing; saving stores it afresh.</p>
+            )}
+            <div className="rounded border border-border">
+              <RepairPreview doc={repair.doc} />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {Object.keys(repair.doc.nodes).length} stocks and {Object.keys(repair.doc.edges).length} flows kept.
+              Saving replaces the stored data, so export it first if you may want it back.
+            </p>
+          </div>
+        )}
+
+        {repair && !repair.ok && (
+          <p className="text-xs text-muted-foreground">This can&apos;t be repaired here: {repair.error}</p>
+        )}
+
+        {error && <p className="text-xs text-red-600">{error}</p>}
+
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={handleExport} disabled={!stored} data-testid="quarantine-export">
+            <Download className="mr-2 h-4 w-4" />
+            Export raw JSON
+          </Button>
+          {repair?.ok && (
+            <Button size="sm" onClick={handleSave} disabled={saving} data-testid="quarantine-repair">
+              <Wrench className="mr-2 h-4 w-4" />
+              Save repaired system
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
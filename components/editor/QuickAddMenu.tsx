@@ -22,8 +22,16 @@ export function QuickAddMenu({ open, onClose }: QuickAddMenuProps) {
   const [query, setQuery] = useState("");
   const [selectedIndex, setSelectedIndex] = useState(0);
 
-  const { addNode, addFrame, currentDiagram, setSelectedNodeIds, clearSelection } =
-    useDiagramStore();
+  const {
+    addNode,
+    addFrame,
+    addNote,
+    currentDiagram,
+    setSelectedNodeIds,
+    setSelectedFrameIds,
+    setSelectedNoteIds,
+    clearSelection,
+  } = useDiagramStore();
 
   const filteredItems = MENU_ITEMS.filter((item) =>
     item.label.toLowerCase().includes(query.toLowerCase())
@@ -104,28 +112,27 @@ export function QuickAddMenu({ open, onClose }: QuickAddMenuProps) {
         break;
       }
       case "frame": {
-        addFrame({
+        const frameId = addFrame({
           label: "Frame",
           x: centerX - 200,
           y: centerY - 150,
           width: 400,
           height: 300,
         });
+        clearSelection();
+        setSelectedFrameIds(new Set([frameId]));
         break;
       }
       case "note": {
-        // Notes are optional in V1, just add as a stock with different styling
-        const nodeId = addNode({
-          type: "stock",
-          kind: "internal",
-          label: "Note",
+        const noteId = addNote({
+          content: "",
           x: centerX - 100,
-          y: centerY - 50,
+          y: centerY - 75,
           width: 200,
-          height: 100,
+          height: 150,
         });
         clearSelection();
-        setSelectedNodeIds(new Set([nodeId]));
+        setSelectedNoteIds(new Set([noteId]));
         break;
       }
     }
@@ -1,11 +1,14 @@
 "use client";
 
 import React, { useState } from "react";
-import { HardDrive } from "lucide-react";
+import { HardDrive, FolderOpen, RefreshCw } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { usePrefsStore } from "@/lib/store/prefs";
 import { useDiagramStore } from "@/lib/store/diagrams";
+import { useStorageStore, canUseFolders } from "@/lib/store/storage";
+import { useServerSyncStore } from "@/lib/store/server";
 import { FullBackupModal } from "./FullBackupModal";
+import { StorageDashboard } from "./StorageDashboard";
 
 interface SettingsPanelProps {
   open: boolean;
@@ -15,6 +18,8 @@ interface SettingsPanelProps {
 export function SettingsPanel({ open, onClose: _onClose }: SettingsPanelProps) {
   const { prefs, setLabelMode, setFontFamily, setGridStyle } = usePrefsStore();
   const { currentDiagram, updateDiagram } = useDiagramStore();
+  const { backend, folderName, needsPermission, chooseFolder, reconnectFolder, switchToBrowserStorage } =
+    useStorageStore();
   const [backupModalOpen, setBackupModalOpen] = useState(false);
 
   if (!open) return null;
@@ -143,6 +148,10 @@ export function SettingsPanel({ open, onClose: _onClose }: SettingsPanelProps) {
               <span>Redo</span>
               <span className="font-mono">⌘⇧Z</span>
             </div>
+            <div className="flex justify-between">
+              <span>History</span>
+              <span className="font-mono">⌘⇧H</span>
+            </div>
             <div className="flex justify-between">
               <span>Select all</span>
               <span className="font-mono">⌘A</span>
@@ -189,7 +198,39 @@ export function SettingsPanel({ open, onClose: _onClose }: SettingsPanelProps) {
           <p className="text-xs text-muted-foreground">
             Export or import all diagrams and settings
           </p>
+          <StorageDashboard />
+        </div>
+
+        {/* Storage backend */}
+        <div className="space-y-2" data-testid="storage-settings">
+          <label className="text-sm font-medium">Storage</label>
+          <p className="text-xs text-muted-foreground">
+            {backend === "folder" ? (
+              <>Systems are saved as JSON files in the folder <span className="font-mono">{folderName}</span></>
+            ) : (
+              "Systems are saved in this browser"
+            )}
+          </p>
+          {needsPermission && folderName && (
+            <Button variant="outline" size="sm" className="w-full" onClick={reconnectFolder}>
+              <FolderOpen className="mr-2 h-4 w-4" />
+              Reconnect {folderName}
+            </Button>
+          )}
+          {canUseFolders() && (
+            <Button variant="outline" size="sm" className="w-full" onClick={chooseFolder}>
+              <FolderOpen className="mr-2 h-4 w-4" />
+              {backend === "folder" ? "Use Another Folder" : "Save to a Folder"}
+            </Button>
+          )}
+          {folderName && (
+            <Button variant="ghost" size="sm" className="w-full" onClick={switchToBrowserStorage}>
+              Save in the Browser Instead
+            </Button>
+          )}
         </div>
+
+        <ServerSyncSettings />
       </div>
 
       <FullBackupModal
@@ -199,3 +240,82 @@ export function SettingsPanel({ open, onClose: _onClose }: SettingsPanelProps) {
     </div>
   );
 }
+
+const SYNC_STATUS_LABELS = {
+  off: "Not connected",
+  syncing: "Syncing…",
+  synced: "Up to date",
+  error: "Can't reach the server",
+};
+
+function isServerUrl(value: string): boolean {
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Connect to a sync server, which keeps a shared copy of every system.
+ */
+function ServerSyncSettings() {
+  const { prefs, updatePrefs } = usePrefsStore();
+  const { status, lastSyncedAt, error, syncNow } = useServerSyncStore();
+  const [draft, setDraft] = useState("");
+
+  const connect = () => {
+    const url = draft.trim();
+    if (!isServerUrl(url)) return;
+    updatePrefs({ syncServerUrl: url });
+    setDraft("");
+  };
+
+  return (
+    <div className="space-y-2" data-testid="server-sync-settings">
+      <label className="text-sm font-medium">Sync Server</label>
+      {prefs.syncServerUrl ? (
+        <>
+          <p className="text-xs text-muted-foreground">
+            Systems are kept in step with <span className="font-mono break-all">{prefs.syncServerUrl}</span>
+          </p>
+          <p className="text-xs text-muted-foreground" data-testid="server-sync-status" title={error ?? undefined}>
+            {SYNC_STATUS_LABELS[status]}
+            {status === "synced" && lastSyncedAt && ` as of ${new Date(lastSyncedAt).toLocaleTimeString()}`}
+          </p>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" className="flex-1" onClick={syncNow} disabled={status === "syncing"}>
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Sync Now
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => updatePrefs({ syncServerUrl: undefined })}>
+              Disconnect
+            </Button>
+          </div>
+        </>
+      ) : (
+        <>
+          <div className="flex gap-2">
+            <input
+              type="url"
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") connect();
+              }}
+              placeholder="http://localhost:4100"
+              className="min-w-0 flex-1 rounded border border-border bg-background px-2 py-1 text-xs focus:outline-none focus:ring-1 focus:ring-foreground"
+              data-testid="server-sync-url"
+            />
+            <Button variant="outline" size="sm" onClick={connect} disabled={!isServerUrl(draft.trim())}>
+              Connect
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Share systems through a server of your own; they&apos;re still saved here too
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+"use client";
+
+import React from "react";
+import { CircleAlert, TriangleAlert } from "lucide-react";
+import { SimulationIssue } from "@/lib/simulation/engine";
+
+interface IssueListProps {
+  issues: SimulationIssue[];
+  /** Display name for the element an issue belongs to. */
+  getElementLabel: (issue: SimulationIssue) => string;
+  onIssueClick: (issue: SimulationIssue) => void;
+}
+
+export function IssueList({ issues, getElementLabel, onIssueClick }: IssueListProps) {
+  return (
+    <ul className="divide-y divide-border text-sm">
+      {issues.map((issue, i) => {
+        const Icon = issue.severity === "error" ? CircleAlert : TriangleAlert;
+        return (
+          <li
+            key={`${issue.elementId}-${i}`}
+            className="flex cursor-pointer items-start gap-2 px-4 py-2 hover:bg-muted"
+            onClick={() => onIssueClick(issue)}
+          >
+            <Icon
+              className={`mt-0.5 h-4 w-4 flex-shrink-0 ${
+                issue.severity === "error" ? "text-red-600" : "text-yellow-600"
+              }`}
+            />
+            <div className="min-w-0">
+              <span className="font-medium">{getElementLabel(issue)}</span>
+              <span className="text-muted-foreground"> · {issue.message}</span>
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,62 @@
+"use client";
+
+import React from "react";
+import { LocateFixed } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { ChartSeries, formatValue } from "./TimeSeriesChart";
+
+interface SeriesLegendProps {
+  series: ChartSeries[];
+  selectedIds: Set<string>;
+  onSeriesClick: (id: string) => void;
+  onShowOnCanvas: (id: string) => void;
+}
+
+export function SeriesLegend({ series, selectedIds, onSeriesClick, onShowOnCanvas }: SeriesLegendProps) {
+  return (
+    <div className="flex w-60 flex-col border-l border-border">
+      <div className="border-b border-border px-3 py-2 text-xs font-medium text-muted-foreground">
+        Stocks
+      </div>
+      <div className="flex-1 overflow-auto py-1">
+        {series.map((s) => (
+          <div
+            key={s.id}
+            data-testid="simulation-legend-item"
+            className={cn(
+              "group flex cursor-pointer items-center gap-2 px-3 py-1 text-sm hover:bg-muted",
+              selectedIds.has(s.id) && "bg-muted"
+            )}
+            onClick={() => onSeriesClick(s.id)}
+          >
+            <svg width={16} height={8} className="flex-shrink-0">
+              <line
+                x1={0}
+                x2={16}
+                y1={4}
+                y2={4}
+                stroke={s.color}
+                strokeWidth={2}
+                strokeDasharray={s.dash}
+              />
+            </svg>
+            <span className="flex-1 truncate">{s.label || "Untitled"}</span>
+            <span className="text-xs tabular-nums text-muted-foreground">
+              {formatValue(s.values[s.values.length - 1])}
+            </span>
+            <button
+              className="opacity-0 text-muted-foreground hover:text-foreground group-hover:opacity-100"
+              title="Show on canvas"
+              onClick={(e) => {
+                e.stopPropagation();
+                onShowOnCanvas(s.id);
+              }}
+            >
+              <LocateFixed className="h-3.5 w-3.5" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { ChevronDown, Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { SimulationSettings } from "@/lib/model/schema";
+
+interface SimulationToolbarProps {
+  settings: SimulationSettings;
+  onSettingsChange: (updates: Partial<SimulationSettings>) => void;
+  onExportCsv: () => void;
+  canExport: boolean;
+  sampleCount: number;
+}
+
+const METHOD_LABELS: Record<SimulationSettings["method"], string> = {
+  euler: "Euler",
+  rk4: "Runge–Kutta 4",
+};
+
+/**
+ * Number input that commits on blur or Enter and reverts invalid values.
+ */
+function NumberSetting({
+  label,
+  value,
+  onCommit,
+  positive = false,
+}: {
+  label: string;
+  value: number;
+  onCommit: (value: number) => void;
+  positive?: boolean;
+}) {
+  const [draft, setDraft] = useState(String(value));
+
+  useEffect(() => {
+    setDraft(String(value));
+  }, [value]);
+
+  const commit = () => {
+    const parsed = Number(draft);
+    if (draft.trim() === "" || !Number.isFinite(parsed) || (positive && parsed <= 0)) {
+      setDraft(String(value));
+      return;
+    }
+    if (parsed !== value) onCommit(parsed);
+  };
+
+  return (
+    <label className="flex items-center gap-1.5 text-xs text-muted-foreground">
+      {label}
+      <input
+        type="number"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") commit();
+          if (e.key === "Escape") setDraft(String(value));
+        }}
+        className="h-8 w-20 rounded border border-border bg-background px-2 text-sm text-foreground focus:outline-none focus:ring-1 focus:ring-foreground"
+      />
+    </label>
+  );
+}
+
+export function SimulationToolbar({
+  settings,
+  onSettingsChange,
+  onExportCsv,
+  canExport,
+  sampleCount,
+}: SimulationToolbarProps) {
+  return (
+    <div className="flex items-center justify-between border-b border-border px-4 py-2">
+      <div className="flex items-center gap-4">
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="h-8">
+              {METHOD_LABELS[settings.method]}
+              <ChevronDown className="ml-2 h-3.5 w-3.5" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start">
+            <DropdownMenuItem onClick={() => onSettingsChange({ method: "euler" })}>
+              {METHOD_LABELS.euler}
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => onSettingsChange({ method: "rk4" })}>
+              {METHOD_LABELS.rk4}
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <NumberSetting
+          label="Start"
+          value={settings.startTime}
+          onCommit={(startTime) => onSettingsChange({ startTime })}
+        />
+        <NumberSetting
+          label="Horizon"
+          value={settings.horizon}
+          positive
+          onCommit={(horizon) => onSettingsChange({ horizon })}
+        />
+        <NumberSetting
+          label="dt"
+          value={settings.dt}
+          positive
+          onCommit={(dt) => onSettingsChange({ dt })}
+        />
+      </div>
+
+      <div className="flex items-center gap-3">
+        {canExport && (
+          <span className="text-xs text-muted-foreground">{sampleCount} steps</span>
+        )}
+        <Button variant="outline" size="sm" className="h-8" onClick={onExportCsv} disabled={!canExport}>
+          <Download className="mr-2 h-3.5 w-3.5" />
+          Export CSV
+        </Button>
+      </div>
+    </div>
+  );
+}
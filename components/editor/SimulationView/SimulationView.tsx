@@ -0,0 +1,178 @@
+"use client";
+
+import React, { useMemo } from "react";
+import { useDiagramStore } from "@/lib/store/diagrams";
+import { COLOR_PALETTE, DEFAULT_SIMULATION_SETTINGS, SimulationSettings } from "@/lib/model/schema";
+import { runSimulation, SimulationIssue } from "@/lib/simulation/engine";
+import { simulationResultToCsv } from "@/lib/simulation/csv";
+import { SimulationToolbar } from "./SimulationToolbar";
+import { TimeSeriesChart, ChartSeries } from "./TimeSeriesChart";
+import { SeriesLegend } from "./SeriesLegend";
+import { IssueList } from "./IssueList";
+
+// Dash patterns for series that share a color (the default color in particular)
+const DASH_PATTERNS = [undefined, "6 3", "2 3", "8 3 2 3"];
+
+interface SimulationViewProps {
+  /** Switch back to the canvas, e.g. after selecting a stock here. */
+  onShowOnCanvas: () => void;
+}
+
+export function SimulationView({ onShowOnCanvas }: SimulationViewProps) {
+  const {
+    currentDiagram,
+    selectedNodeIds,
+    setSelectedNodeIds,
+    setSelectedEdgeIds,
+    updateSimulationSettings,
+  } = useDiagramStore();
+
+  const nodes = currentDiagram?.nodes;
+  const edges = currentDiagram?.edges;
+  const simulation = currentDiagram?.simulation;
+
+  // Only re-run when the model changes, not on viewport or title edits
+  const run = useMemo(() => {
+    if (!nodes || !edges) return null;
+    return runSimulation({ nodes, edges, simulation });
+  }, [nodes, edges, simulation]);
+
+  const series = useMemo((): ChartSeries[] => {
+    if (!run?.success || !nodes) return [];
+
+    const usedPerColor = new Map<string, number>();
+    return Object.keys(run.result.stocks)
+      .filter((id) => nodes[id])
+      .map((id) => {
+        const node = nodes[id];
+        const colorKey = node.color || "default";
+        const palette = COLOR_PALETTE[colorKey] || COLOR_PALETTE.default;
+        const used = usedPerColor.get(colorKey) ?? 0;
+        usedPerColor.set(colorKey, used + 1);
+
+        return {
+          id,
+          label: node.label,
+          color: palette.stroke,
+          dash: DASH_PATTERNS[used % DASH_PATTERNS.length],
+          values: run.result.stocks[id],
+        };
+      });
+  }, [run, nodes]);
+
+  if (!currentDiagram || !run) {
+    return (
+      <div className="flex h-full items-center justify-center text-muted-foreground">
+        No system selected
+      </div>
+    );
+  }
+
+  const settings: SimulationSettings = { ...DEFAULT_SIMULATION_SETTINGS, ...simulation };
+
+  const selectNode = (id: string) => {
+    setSelectedNodeIds(new Set([id]));
+    setSelectedEdgeIds(new Set());
+  };
+
+  const handleIssueClick = (issue: SimulationIssue) => {
+    if (issue.elementType === "stock") {
+      selectNode(issue.elementId);
+      onShowOnCanvas();
+    } else if (issue.elementType === "flow") {
+      setSelectedEdgeIds(new Set([issue.elementId]));
+      setSelectedNodeIds(new Set());
+      onShowOnCanvas();
+    }
+  };
+
+  const getElementLabel = (issue: SimulationIssue) => {
+    if (issue.elementType === "stock") return currentDiagram.nodes[issue.elementId]?.label || "Stock";
+    if (issue.elementType === "flow") return currentDiagram.edges[issue.elementId]?.label || "Flow";
+    if (issue.elementType === "settings") return "Settings";
+    return settings.auxiliaries?.find((a) => a.id === issue.elementId)?.name || "Auxiliary";
+  };
+
+  const handleExportCsv = () => {
+    if (!run.success) return;
+
+    const csv = simulationResultToCsv(run.result, [
+      ...series.map((s) => ({ id: s.id, label: s.label, kind: "stock" as const })),
+      ...Object.keys(run.result.flows).map((id) => ({
+        id,
+        label: currentDiagram.edges[id]?.label || id,
+        kind: "flow" as const,
+      })),
+    ]);
+
+    const blob = new Blob([csv], { type: "text/csv" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${currentDiagram.title.replace(/[^a-z0-9]/gi, "-").toLowerCase()}-simulation.csv`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="flex h-full flex-col bg-background" data-testid="simulation-view">
+      <SimulationToolbar
+        settings={settings}
+        onSettingsChange={updateSimulationSettings}
+        onExportCsv={handleExportCsv}
+        canExport={run.success && series.length > 0}
+        sampleCount={run.success ? run.result.times.length - 1 : 0}
+      />
+
+      {!run.success ? (
+        <div className="flex-1 overflow-auto">
+          <div className="px-4 py-3 text-sm text-muted-foreground">
+            Fix these problems to run the simulation.
+          </div>
+          <IssueList
+            issues={run.issues}
+            getElementLabel={getElementLabel}
+            onIssueClick={handleIssueClick}
+          />
+        </div>
+      ) : series.length === 0 ? (
+        <div className="flex flex-1 items-center justify-center text-muted-foreground">
+          Add stocks to simulate this system
+        </div>
+      ) : (
+        <div className="flex flex-1 overflow-hidden">
+          <div className="flex flex-1 flex-col overflow-hidden">
+            <div className="flex-1 overflow-hidden p-4">
+              <TimeSeriesChart
+                times={run.result.times}
+                series={series}
+                selectedIds={selectedNodeIds}
+                onSeriesClick={selectNode}
+              />
+            </div>
+            {run.issues.length > 0 && (
+              <div className="max-h-40 overflow-auto border-t border-border">
+                <IssueList
+                  issues={run.issues}
+                  getElementLabel={getElementLabel}
+                  onIssueClick={handleIssueClick}
+                />
+              </div>
+            )}
+          </div>
+          <SeriesLegend
+            series={series}
+            selectedIds={selectedNodeIds}
+            onSeriesClick={selectNode}
+            onShowOnCanvas={(id) => {
+              selectNode(id);
+              onShowOnCanvas();
+            }}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,283 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from "react";
+
+export interface ChartSeries {
+  id: string;
+  label: string;
+  color: string;
+  /** SVG stroke-dasharray, used to tell apart series that share a color. */
+  dash?: string;
+  values: number[];
+}
+
+interface TimeSeriesChartProps {
+  times: number[];
+  series: ChartSeries[];
+  selectedIds: Set<string>;
+  onSeriesClick: (id: string) => void;
+}
+
+const MARGIN = { top: 16, right: 24, bottom: 32, left: 64 };
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Evenly spaced "round" tick values (1, 2 or 5 times a power of ten)
+ * covering [min, max].
+ */
+function niceTicks(min: number, max: number, count: number): number[] {
+  if (min === max) return [min];
+  const rawStep = (max - min) / Math.max(1, count);
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rawStep)));
+  const step =
+    [1, 2, 5, 10].map((m) => m * magnitude).find((s) => s >= rawStep) ?? 10 * magnitude;
+
+  const ticks: number[] = [];
+  for (let value = Math.ceil(min / step) * step; value <= max + step * 1e-9; value += step) {
+    // Avoid -0 and floating point noise like 0.30000000000000004
+    ticks.push(Number((value + 0).toPrecision(12)));
+  }
+  return ticks;
+}
+
+export function formatValue(value: number): string {
+  if (!Number.isFinite(value)) return String(value);
+  return new Intl.NumberFormat(undefined, { maximumSignificantDigits: 4 }).format(value);
+}
+
+/**
+ * Build an SVG path, breaking the line wherever a value isn't finite.
+ */
+function buildPath(values: number[], x: (i: number) => number, y: (v: number) => number): string {
+  let path = "";
+  let penDown = false;
+  for (let i = 0; i < values.length; i++) {
+    if (!Number.isFinite(values[i])) {
+      penDown = false;
+      continue;
+    }
+    path += `${penDown ? "L" : "M"}${x(i).toFixed(1)},${y(values[i]).toFixed(1)}`;
+    penDown = true;
+  }
+  return path;
+}
+
+function useElementSize<T extends HTMLElement>() {
+  const ref = useRef<T>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect;
+      setSize({ width, height });
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  return { ref, ...size };
+}
+
+// ============================================================================
+// CHART
+// ============================================================================
+
+export function TimeSeriesChart({ times, series, selectedIds, onSeriesClick }: TimeSeriesChartProps) {
+  const { ref, width, height } = useElementSize<HTMLDivElement>();
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+  const plotWidth = Math.max(0, width - MARGIN.left - MARGIN.right);
+  const plotHeight = Math.max(0, height - MARGIN.top - MARGIN.bottom);
+
+  const domain = useMemo(() => {
+    let min = Infinity;
+    let max = -Infinity;
+    for (const s of series) {
+      for (const value of s.values) {
+        if (!Number.isFinite(value)) continue;
+        if (value < min) min = value;
+        if (value > max) max = value;
+      }
+    }
+    if (min === Infinity) return { min: 0, max: 1 };
+    if (min === max) return { min: min - 1, max: max + 1 };
+    const padding = (max - min) * 0.05;
+    return { min: min - padding, max: max + padding };
+  }, [series]);
+
+  const t0 = times[0] ?? 0;
+  const t1 = times[times.length - 1] ?? 1;
+  const timeSpan = t1 - t0 || 1;
+
+  const xOfTime = (t: number) => MARGIN.left + ((t - t0) / timeSpan) * plotWidth;
+  const xOfIndex = (i: number) => xOfTime(times[i]);
+  const yOfValue = (v: number) =>
+    MARGIN.top + (1 - (v - domain.min) / (domain.max - domain.min)) * plotHeight;
+
+  const xTicks = niceTicks(t0, t1, Math.max(2, Math.floor(plotWidth / 80)));
+  const yTicks = niceTicks(domain.min, domain.max, Math.max(2, Math.floor(plotHeight / 48)));
+  const hasSelection = series.some((s) => selectedIds.has(s.id));
+
+  const handleMouseMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (times.length === 0 || plotWidth <= 0) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const fraction = (e.clientX - rect.left - MARGIN.left) / plotWidth;
+    if (fraction < 0 || fraction > 1) {
+      setHoverIndex(null);
+      return;
+    }
+    // Times are evenly spaced, so the nearest sample is a rounding away
+    setHoverIndex(Math.round(fraction * (times.length - 1)));
+  };
+
+  const hoverX = hoverIndex !== null ? xOfIndex(hoverIndex) : 0;
+  const tooltipOnLeft = hoverX > MARGIN.left + plotWidth / 2;
+
+  return (
+    <div ref={ref} className="relative h-full w-full" data-testid="simulation-chart">
+      {width > 0 && height > 0 && (
+        <svg
+          width={width}
+          height={height}
+          className="text-foreground"
+          onMouseMove={handleMouseMove}
+          onMouseLeave={() => setHoverIndex(null)}
+        >
+          {/* Grid and axes */}
+          <g className="text-muted-foreground" style={{ fontSize: "10px" }}>
+            {yTicks.map((tick) => (
+              <g key={`y-${tick}`}>
+                <line
+                  x1={MARGIN.left}
+                  x2={MARGIN.left + plotWidth}
+                  y1={yOfValue(tick)}
+                  y2={yOfValue(tick)}
+                  stroke="currentColor"
+                  strokeOpacity={0.15}
+                />
+                <text
+                  x={MARGIN.left - 8}
+                  y={yOfValue(tick)}
+                  textAnchor="end"
+                  dominantBaseline="central"
+                  fill="currentColor"
+                >
+                  {formatValue(tick)}
+                </text>
+              </g>
+            ))}
+            {xTicks.map((tick) => (
+              <text
+                key={`x-${tick}`}
+                x={xOfTime(tick)}
+                y={MARGIN.top + plotHeight + 16}
+                textAnchor="middle"
+                fill="currentColor"
+              >
+                {formatValue(tick)}
+              </text>
+            ))}
+            <line
+              x1={MARGIN.left}
+              x2={MARGIN.left + plotWidth}
+              y1={MARGIN.top + plotHeight}
+              y2={MARGIN.top + plotHeight}
+              stroke="currentColor"
+              strokeOpacity={0.4}
+            />
+          </g>
+
+          {/* Series */}
+          {series.map((s) => {
+            const path = buildPath(s.values, xOfIndex, yOfValue);
+            const selected = selectedIds.has(s.id);
+            return (
+              <g key={s.id} data-series-id={s.id}>
+                <path
+                  d={path}
+                  fill="none"
+                  stroke={s.color}
+                  strokeWidth={selected ? 2.5 : 1.5}
+                  strokeDasharray={s.dash}
+                  strokeOpacity={hasSelection && !selected ? 0.3 : 1}
+                  strokeLinejoin="round"
+                />
+                {/* Wider invisible path for easier clicking */}
+                <path
+                  d={path}
+                  fill="none"
+                  stroke="transparent"
+                  strokeWidth={10}
+                  className="cursor-pointer"
+                  onClick={() => onSeriesClick(s.id)}
+                >
+                  <title>{s.label}</title>
+                </path>
+              </g>
+            );
+          })}
+
+          {/* Crosshair */}
+          {hoverIndex !== null && (
+            <g className="pointer-events-none">
+              <line
+                x1={hoverX}
+                x2={hoverX}
+                y1={MARGIN.top}
+                y2={MARGIN.top + plotHeight}
+                stroke="currentColor"
+                strokeOpacity={0.4}
+                strokeDasharray="3 3"
+              />
+              {series.map((s) => {
+                const value = s.values[hoverIndex];
+                if (!Number.isFinite(value)) return null;
+                return (
+                  <circle
+                    key={s.id}
+                    cx={hoverX}
+                    cy={yOfValue(value)}
+                    r={3}
+                    fill={s.color}
+                    className="stroke-background"
+                    strokeWidth={1}
+                  />
+                );
+              })}
+            </g>
+          )}
+        </svg>
+      )}
+
+      {/* Crosshair readout */}
+      {hoverIndex !== null && series.length > 0 && (
+        <div
+          className="pointer-events-none absolute rounded border border-border bg-background px-2 py-1.5 text-xs shadow-sm"
+          style={{
+            top: MARGIN.top,
+            ...(tooltipOnLeft
+              ? { right: width - hoverX + 8 }
+              : { left: hoverX + 8 }),
+          }}
+        >
+          <div className="mb-1 font-medium">t = {formatValue(times[hoverIndex])}</div>
+          {[...series]
+            .sort((a, b) => (b.values[hoverIndex] ?? 0) - (a.values[hoverIndex] ?? 0))
+            .map((s) => (
+              <div key={s.id} className="flex items-center gap-2">
+                <span className="h-0.5 w-3" style={{ backgroundColor: s.color }} />
+                <span className="flex-1 truncate text-muted-foreground">{s.label}</span>
+                <span className="tabular-nums">{formatValue(s.values[hoverIndex])}</span>
+              </div>
+            ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,5 @@
+export { SimulationView } from "./SimulationView";
+export { SimulationToolbar } from "./SimulationToolbar";
+export { TimeSeriesChart } from "./TimeSeriesChart";
+export { SeriesLegend } from "./SeriesLegend";
+export { IssueList } from "./IssueList";
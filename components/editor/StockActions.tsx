@@ -0,0 +1,43 @@
+"use client";
+
+import React from "react";
+import { Layers, CornerDownRight, Pin, PinOff } from "lucide-react";
+import { Node } from "@/lib/model/schema";
+
+interface StockActionsProps {
+  node: Node;
+  onExpand: () => void;
+  onOpen: () => void;
+  onTogglePin: () => void;
+}
+
+const ACTION_CLASS = "flex w-full items-center gap-1.5 px-1 py-0.5 text-left text-xs hover:bg-muted";
+
+/**
+ * Subsystem and pinning actions for a stock, shown in the node context menu.
+ */
+export function StockActions({ node, onExpand, onOpen, onTogglePin }: StockActionsProps) {
+  const linked = Boolean(node.childDiagramId);
+
+  return (
+    <>
+      <button
+        onClick={linked ? onOpen : onExpand}
+        className={ACTION_CLASS}
+        data-testid="stock-subsystem-action"
+      >
+        {linked ? <CornerDownRight className="h-3 w-3" /> : <Layers className="h-3 w-3" />}
+        {linked ? "Open subsystem" : "Expand into subsystem"}
+      </button>
+      <button
+        onClick={onTogglePin}
+        className={ACTION_CLASS}
+        title="Pinned stocks stay where they are when auto layout runs"
+        data-testid="stock-pin-action"
+      >
+        {node.pinned ? <PinOff className="h-3 w-3" /> : <Pin className="h-3 w-3" />}
+        {node.pinned ? "Unpin position" : "Pin position"}
+      </button>
+    </>
+  );
+}
@@ -0,0 +1,176 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { AlertTriangle, Minimize2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useStorageStore } from "@/lib/store/storage";
+import {
+  CompactionPlan,
+  StorageUsage,
+  QUOTA_WARNING_RATIO,
+  compactStorage,
+  measureStorage,
+  planCompaction,
+} from "@/lib/store/usage";
+
+const UNITS = ["B", "KB", "MB", "GB", "TB"];
+
+function formatBytes(bytes: number): string {
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < UNITS.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${UNITS[unit]}`;
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+/**
+ * How much space each system takes, with a warning when the browser's quota
+ * is nearly used up, and compaction of what's stored for nothing.
+ */
+export function StorageDashboard() {
+  const { backend } = useStorageStore();
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [plan, setPlan] = useState<CompactionPlan | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      setUsage(await measureStorage());
+    } catch (error) {
+      console.error("Failed to measure storage:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handlePlan = async () => {
+    setBusy(true);
+    try {
+      setPlan(await planCompaction());
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCompact = async () => {
+    if (!plan) return;
+    setBusy(true);
+    try {
+      await compactStorage(plan);
+      setPlan(null);
+      await refresh();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // A folder isn't counted against the browser's quota
+  const estimate = backend === "indexeddb" ? usage?.estimate : null;
+  const nearQuota = estimate ? estimate.usage / estimate.quota >= QUOTA_WARNING_RATIO : false;
+  const changes = plan?.diagrams.flatMap((diagram) => diagram.changes) ?? [];
+  const changeCount = changes.length;
+  const changeDescriptions = changes.map((change) => change.description).join("\n");
+
+  return (
+    <div className="space-y-2" data-testid="storage-dashboard">
+      <div className="flex items-baseline justify-between text-xs text-muted-foreground">
+        <span>Space used</span>
+        <span data-testid="storage-total">
+          {usage ? formatBytes(usage.total) : "…"}
+          {estimate && ` (${formatBytes(estimate.usage)} of ${formatBytes(estimate.quota)} available)`}
+        </span>
+      </div>
+
+      {nearQuota && (
+        <div
+          className="flex gap-2 rounded border border-orange-300 p-2 text-xs"
+          data-testid="storage-quota-warning"
+        >
+          <AlertTriangle className="h-4 w-4 shrink-0 text-orange-500" />
+          <span>
+            Storage is nearly full. Compact, delete old versions or systems, or make a full backup before edits
+            stop being saved.
+          </span>
+        </div>
+      )}
+
+      {usage && usage.diagrams.length > 0 && (
+        <ul className="max-h-40 space-y-0.5 overflow-y-auto text-xs">
+          {usage.diagrams.map((diagram) => (
+            <li
+              key={diagram.id}
+              className="flex justify-between gap-2"
+              title={`System ${formatBytes(diagram.diagram)}, undo history ${formatBytes(diagram.history)}, versions ${formatBytes(diagram.snapshots)}`}
+              data-testid="storage-usage-row"
+            >
+              <span className="min-w-0 flex-1 truncate">{diagram.title}</span>
+              <span className="font-mono text-muted-foreground">{formatBytes(diagram.total)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {plan ? (
+        <div className="space-y-2 rounded border border-border p-2 text-xs" data-testid="compaction-plan">
+          {plan.orphans.length === 0 && changeCount === 0 ? (
+            <p className="text-muted-foreground">Nothing to compact</p>
+          ) : (
+            <>
+              {plan.orphans.length > 0 && (
+                <div>
+                  <p>Delete {plural(plan.orphans.length, "subsystem")} no longer linked from a parent:</p>
+                  <ul className="ml-3 list-disc">
+                    {plan.orphans.map((orphan) => (
+                      <li key={orphan.id} data-testid="compaction-orphan">{orphan.title}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {changeCount > 0 && (
+                <p title={changeDescriptions}>
+                  Remove empty maps and values of deleted properties from {plural(plan.diagrams.length, "system")}
+                </p>
+              )}
+            </>
+          )}
+          <div className="flex gap-2">
+            {(plan.orphans.length > 0 || changeCount > 0) && (
+              <Button
+                size="sm"
+                className="flex-1"
+                onClick={handleCompact}
+                disabled={busy}
+                data-testid="compaction-apply"
+              >
+                Compact
+              </Button>
+            )}
+            <Button variant="ghost" size="sm" onClick={() => setPlan(null)} disabled={busy}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full"
+          onClick={handlePlan}
+          disabled={busy}
+          data-testid="compaction-start"
+        >
+          <Minimize2 className="mr-2 h-4 w-4" />
+          Compact Storage…
+        </Button>
+      )}
+    </div>
+  );
+}
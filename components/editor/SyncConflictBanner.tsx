@@ -0,0 +1,72 @@
+"use client";
+
+import React from "react";
+import { useDiagramStore } from "@/lib/store/diagrams";
+import { useSyncStore, SyncConflict } from "@/lib/store/sync";
+import { describePatches, valueAt } from "@/lib/history/patches";
+import { DiagramDoc } from "@/lib/model/schema";
+
+// Conflicts listed before the rest are summarized as a count
+const MAX_LISTED = 3;
+
+function describeConflict(doc: DiagramDoc, conflict: SyncConflict): string {
+  const label = describePatches([{ path: conflict.path, value: conflict.remote }]);
+  const element = valueAt(doc, conflict.path.slice(0, 2)) ?? conflict.local;
+  const name =
+    typeof element === "object" && element !== null && "label" in element && typeof element.label === "string"
+      ? element.label
+      : "";
+  return name ? `${label} “${name}”` : label;
+}
+
+/**
+ * Edits of this tab's that another peer's concurrent edit replaced. Their
+ * value is already in place everywhere; "Keep mine" writes this tab's value
+ * again, which replaces it for every peer, and "Use theirs" accepts it.
+ */
+export function SyncConflictBanner() {
+  const { currentDiagram } = useDiagramStore();
+  const { conflicts, resolveConflict } = useSyncStore();
+
+  if (!currentDiagram || conflicts.length === 0) return null;
+
+  const listed = conflicts.slice(0, MAX_LISTED);
+  const resolveAll = (keep: "mine" | "theirs") => {
+    conflicts.forEach((conflict) => resolveConflict(conflict.id, keep));
+  };
+
+  return (
+    <div
+      className="absolute bottom-4 left-1/2 z-20 w-96 -translate-x-1/2 rounded-md border border-orange-300 bg-background p-3 text-xs shadow-lg"
+      data-testid="sync-conflict-banner"
+    >
+      <div className="mb-2 font-medium">
+        Also changed by someone else at the same time
+      </div>
+      <ul className="space-y-1">
+        {listed.map((conflict) => (
+          <li key={conflict.id} className="flex items-center gap-2" data-testid="sync-conflict">
+            <span className="min-w-0 flex-1 truncate">{describeConflict(currentDiagram, conflict)}</span>
+            <button className="font-medium hover:underline" onClick={() => resolveConflict(conflict.id, "mine")}>
+              Keep mine
+            </button>
+            <button className="font-medium hover:underline" onClick={() => resolveConflict(conflict.id, "theirs")}>
+              Use theirs
+            </button>
+          </li>
+        ))}
+      </ul>
+      {conflicts.length > MAX_LISTED && (
+        <div className="mt-2 flex items-center gap-2 border-t border-border pt-2">
+          <span className="flex-1 text-muted-foreground">{conflicts.length - MAX_LISTED} more</span>
+          <button className="font-medium hover:underline" onClick={() => resolveAll("mine")}>
+            Keep all mine
+          </button>
+          <button className="font-medium hover:underline" onClick={() => resolveAll("theirs")}>
+            Use all theirs
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
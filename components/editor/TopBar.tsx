@@ -1,23 +1,52 @@
 "use client";
 
-import React, { useCallback } from "react";
+import React from "react";
 import {
   Download,
   Upload,
   Settings,
   Layout,
+  ChevronDown,
   Maximize2,
+  Repeat,
+  History,
+  Square,
   X,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { TabBar, TabType } from "@/components/layout/TabBar";
 import { useDiagramStore } from "@/lib/store/diagrams";
-import { autoLayout } from "@/lib/layout/autolayout";
+import { cancelAutoLayout, runAutoLayout, stopLivePhysics, useLayoutStore } from "@/lib/store/layout";
+import { LayoutOptions } from "@/lib/layout/autolayout";
 import { calculateZoomToFit } from "@/lib/layout/geometry";
 
+const LAYOUT_CHOICES: Record<string, { label: string; options: LayoutOptions }> = {
+  force: { label: "Force-directed", options: { mode: "force" } },
+  "layered-top-down": { label: "Layered, top-down", options: { mode: "layered", direction: "top-down" } },
+  "layered-left-right": { label: "Layered, left-right", options: { mode: "layered", direction: "left-right" } },
+};
+
+function layoutChoice(options: LayoutOptions): string {
+  return options.mode === "layered" ? `layered-${options.direction ?? "top-down"}` : "force";
+}
+
 interface TopBarProps {
   settingsOpen: boolean;
   onSettingsToggle: () => void;
+  loopsOpen: boolean;
+  onLoopsToggle: () => void;
+  historyOpen: boolean;
+  onHistoryToggle: () => void;
   activeTab: TabType;
   onTabChange: (tab: TabType) => void;
   onExportClick: () => void;
@@ -27,37 +56,43 @@ interface TopBarProps {
 export function TopBar({
   settingsOpen,
   onSettingsToggle,
+  loopsOpen,
+  onLoopsToggle,
+  historyOpen,
+  onHistoryToggle,
   activeTab,
   onTabChange,
   onExportClick,
   onImportClick,
 }: TopBarProps) {
-  const { currentDiagram, updateDiagram, setViewport } = useDiagramStore();
-
-  const handleAutoLayout = useCallback(() => {
-    if (!currentDiagram) return;
+  const { currentDiagram, setViewport } = useDiagramStore();
+  const { livePhysics, simulating, layoutProgress, setLivePhysics } = useLayoutStore();
 
-    const nodes = currentDiagram.nodes;
-    const edges = Object.values(currentDiagram.edges);
+  // The mode the diagram was last laid out with, force-directed by default
+  const layoutOptions: LayoutOptions = {
+    mode: currentDiagram?.ui?.layoutMode ?? "force",
+    direction: currentDiagram?.ui?.layoutDirection,
+  };
 
-    const layout = autoLayout(nodes, edges);
+  const pinnedIds = Object.values(currentDiagram?.nodes ?? {})
+    .filter((node) => node.pinned)
+    .map((node) => node.id);
 
-    // Push history once before all updates (makes this a single undoable action)
-    useDiagramStore.getState().pushHistory();
+  // Layered layout would move pinned stocks, so it waits until they're unpinned
+  const layeredBlocked = pinnedIds.length > 0;
+  const layoutLabel =
+    layoutOptions.mode === "layered" && layeredBlocked
+      ? "Force-directed while stocks are pinned"
+      : LAYOUT_CHOICES[layoutChoice(layoutOptions)].label;
 
-    // Update each node position
+  const handleUnpinAll = () => {
     const store = useDiagramStore.getState();
-    for (const [nodeId, layoutNode] of Object.entries(layout.nodes)) {
-      store.updateNode(nodeId, { x: layoutNode.x, y: layoutNode.y });
-    }
-
-    updateDiagram(currentDiagram.id, {
-      ui: {
-        ...currentDiagram.ui,
-        hasRunInitialAutoLayout: true,
-      },
-    });
-  }, [currentDiagram, updateDiagram]);
+    store.transact(() => {
+      for (const nodeId of pinnedIds) {
+        store.updateNode(nodeId, { pinned: undefined });
+      }
+    }, "Unpin all stocks");
+  };
 
   const handleZoomToFit = () => {
     if (!currentDiagram) return;
@@ -84,22 +119,124 @@ export function TopBar({
           {/* Layout controls - only show on System tab */}
           {activeTab === "system" && (
             <>
+              <div className="flex items-center">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => runAutoLayout(layoutOptions)}
+                  title={`Auto Layout — Arrange nodes automatically (${layoutLabel})`}
+                >
+                  <Layout className="h-4 w-4" />
+                </Button>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="w-5"
+                      title="Layout Mode — Choose how nodes are arranged"
+                      data-testid="layout-mode-button"
+                    >
+                      <ChevronDown className="h-3 w-3" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuRadioGroup
+                      value={layoutChoice(layoutOptions)}
+                      onValueChange={(choice) => runAutoLayout(LAYOUT_CHOICES[choice].options)}
+                    >
+                      {Object.entries(LAYOUT_CHOICES).map(([choice, { label, options }]) => (
+                        <DropdownMenuRadioItem
+                          key={choice}
+                          value={choice}
+                          disabled={options.mode === "layered" && layeredBlocked}
+                          title={
+                            options.mode === "layered" && layeredBlocked
+                              ? "Unpin all stocks to lay out in layers"
+                              : undefined
+                          }
+                          data-testid={`layout-mode-${choice}`}
+                        >
+                          {label}
+                        </DropdownMenuRadioItem>
+                      ))}
+                    </DropdownMenuRadioGroup>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem
+                      onClick={handleUnpinAll}
+                      disabled={pinnedIds.length === 0}
+                      data-testid="layout-unpin-all"
+                    >
+                      Unpin All Stocks{pinnedIds.length > 0 && ` (${pinnedIds.length})`}
+                    </DropdownMenuItem>
+                    <DropdownMenuCheckboxItem
+                      checked={livePhysics}
+                      onCheckedChange={(checked) => setLivePhysics(checked === true)}
+                      data-testid="layout-live-physics"
+                    >
+                      Live Physics While Dragging
+                    </DropdownMenuCheckboxItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+                {layoutProgress !== null && (
+                  <div className="flex items-center" data-testid="layout-progress">
+                    <div
+                      className="ml-1 h-1 w-16 overflow-hidden rounded-full bg-muted"
+                      title={`Laying out — ${Math.round(layoutProgress * 100)}%`}
+                    >
+                      <div className="h-full bg-primary" style={{ width: `${layoutProgress * 100}%` }} />
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={cancelAutoLayout}
+                      title="Cancel — Stop laying out and leave stocks where they are"
+                      data-testid="layout-cancel"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+                {simulating && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={stopLivePhysics}
+                    title="Stop — Leave stocks where they are now"
+                    data-testid="live-physics-stop"
+                  >
+                    <Square className="h-4 w-4 fill-current" />
+                  </Button>
+                )}
+              </div>
+
               <Button
                 variant="ghost"
                 size="icon"
-                onClick={handleAutoLayout}
-                title="Auto Layout — Arrange nodes automatically"
+                onClick={handleZoomToFit}
+                title="Zoom to Fit — Show all nodes"
               >
-                <Layout className="h-4 w-4" />
+                <Maximize2 className="h-4 w-4" />
               </Button>
 
               <Button
-                variant="ghost"
+                variant={loopsOpen ? "secondary" : "ghost"}
                 size="icon"
-                onClick={handleZoomToFit}
-                title="Zoom to Fit — Show all nodes"
+                onClick={onLoopsToggle}
+                title="Feedback Loops — List and highlight loops (⌘⇧L)"
+                data-testid="loops-button"
               >
-                <Maximize2 className="h-4 w-4" />
+                <Repeat className="h-4 w-4" />
+              </Button>
+
+              <Button
+                variant={historyOpen ? "secondary" : "ghost"}
+                size="icon"
+                onClick={onHistoryToggle}
+                title="History — Undo steps, jump to any point (⌘⇧H)"
+                data-testid="history-button"
+              >
+                <History className="h-4 w-4" />
               </Button>
 
               <div className="mx-2 h-6 w-px bg-border" />
@@ -14,6 +14,7 @@ import { Button } from "@/components/ui/button";
 import { usePrefsStore } from "@/lib/store/prefs";
 import { useDiagramStore } from "@/lib/store/diagrams";
 import { SystemListItem } from "./SystemListItem";
+import { SystemTree } from "./SystemTree";
 import { SidebarTooltip } from "./SidebarTooltip";
 import { cn } from "@/lib/utils";
 
@@ -41,7 +42,6 @@ export function Sidebar({ className, onSearchOpen }: SidebarProps) {
   }, [diagrams]);
 
   const pinnedDiagrams = sortedDiagrams.filter((d) => d.pinned);
-  const unpinnedDiagrams = sortedDiagrams.filter((d) => !d.pinned);
 
   // Collapsed sidebar
   if (isCollapsed) {
@@ -181,19 +181,13 @@ export function Sidebar({ className, onSearchOpen }: SidebarProps) {
           </div>
         )}
 
-        {/* All systems */}
-        {pinnedDiagrams.length > 0 && unpinnedDiagrams.length > 0 && (
+        {/* All systems, nested by subsystem */}
+        {pinnedDiagrams.length > 0 && (
           <div className="px-3 py-1 text-xs font-medium text-muted-foreground">
             All Systems
           </div>
         )}
-        {unpinnedDiagrams.map((diagram) => (
-          <SystemListItem
-            key={diagram.id}
-            diagram={diagram}
-            isActive={diagram.id === currentDiagramId}
-          />
-        ))}
+        <SystemTree entries={sortedDiagrams} currentDiagramId={currentDiagramId} />
 
         {/* Empty state */}
         {sortedDiagrams.length === 0 && (
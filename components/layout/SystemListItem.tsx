@@ -2,7 +2,7 @@
 
 import React, { useState, useRef, useEffect } from "react";
 import { useRouter } from "next/navigation";
-import { Pencil, MoreHorizontal, Pin, PinOff, Copy, Trash2 } from "lucide-react";
+import { Pencil, MoreHorizontal, Pin, PinOff, Copy, Trash2, ChevronRight, AlertTriangle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   DropdownMenu,
@@ -20,11 +20,35 @@ interface SystemListItemProps {
     title: string;
     updatedAt: number;
     pinned?: boolean;
+    stockCount?: number;
+    /** Why the diagram can't be opened; it can only be pinned or deleted. */
+    quarantine?: string;
   };
   isActive: boolean;
+  /** Nesting level in the system tree; 0 for top-level systems. */
+  depth?: number;
+  /** Show a collapse toggle; only set for systems with subsystems. */
+  expandable?: boolean;
+  collapsed?: boolean;
+  onToggleCollapse?: () => void;
+  /** Highlight as the target of a drag-and-drop re-parent. */
+  isDropTarget?: boolean;
+  dragHandlers?: Pick<
+    React.HTMLAttributes<HTMLDivElement>,
+    "draggable" | "onDragStart" | "onDragEnd" | "onDragOver" | "onDragLeave" | "onDrop"
+  >;
 }
 
-export function SystemListItem({ diagram, isActive }: SystemListItemProps) {
+export function SystemListItem({
+  diagram,
+  isActive,
+  depth = 0,
+  expandable = false,
+  collapsed = false,
+  onToggleCollapse,
+  isDropTarget = false,
+  dragHandlers,
+}: SystemListItemProps) {
   const router = useRouter();
   const inputRef = useRef<HTMLInputElement>(null);
   const [isEditing, setIsEditing] = useState(false);
@@ -102,10 +126,30 @@ export function SystemListItem({ diagram, isActive }: SystemListItemProps) {
     <div
       className={cn(
         "group flex items-center gap-1 px-2 py-1 mx-1 rounded cursor-pointer",
-        isActive ? "bg-accent" : "hover:bg-muted"
+        isActive ? "bg-accent" : "hover:bg-muted",
+        isDropTarget && "ring-1 ring-foreground"
       )}
+      style={{ paddingLeft: 8 + depth * 12 }}
       onClick={handleClick}
+      data-testid="system-list-item"
+      {...dragHandlers}
     >
+      {expandable ? (
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onToggleCollapse?.();
+          }}
+          className="flex h-4 w-4 shrink-0 items-center justify-center text-muted-foreground hover:text-foreground"
+          title={collapsed ? "Expand" : "Collapse"}
+          data-testid="system-tree-toggle"
+        >
+          <ChevronRight className={cn("h-3 w-3 transition-transform", !collapsed && "rotate-90")} />
+        </button>
+      ) : (
+        <span className="w-4 shrink-0" />
+      )}
+
       {isEditing ? (
         <input
           ref={inputRef}
@@ -121,17 +165,34 @@ export function SystemListItem({ diagram, isActive }: SystemListItemProps) {
         <span className="flex-1 text-sm truncate">{diagram.title}</span>
       )}
 
+      {diagram.quarantine && (
+        <span title={`Can't be opened: ${diagram.quarantine}`} data-testid="system-quarantined">
+          <AlertTriangle className="h-3 w-3 text-orange-500" />
+        </span>
+      )}
+
+      {!isEditing && diagram.stockCount !== undefined && (
+        <span
+          className="text-xs tabular-nums text-muted-foreground group-hover:hidden"
+          title={`${diagram.stockCount} ${diagram.stockCount === 1 ? "stock" : "stocks"}`}
+        >
+          {diagram.stockCount}
+        </span>
+      )}
+
       {!isEditing && (
         <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
-          <Button
-            variant="ghost"
-            size="icon"
-            className="h-6 w-6"
-            onClick={handleStartEdit}
-            title="Rename"
-          >
-            <Pencil className="h-3 w-3" />
-          </Button>
+          {!diagram.quarantine && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              onClick={handleStartEdit}
+              title="Rename"
+            >
+              <Pencil className="h-3 w-3" />
+            </Button>
+          )}
 
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
@@ -158,10 +219,12 @@ export function SystemListItem({ diagram, isActive }: SystemListItemProps) {
                   </>
                 )}
               </DropdownMenuItem>
-              <DropdownMenuItem onClick={handleDuplicate}>
-                <Copy className="mr-2 h-4 w-4" />
-                Duplicate
-              </DropdownMenuItem>
+              {!diagram.quarantine && (
+                <DropdownMenuItem onClick={handleDuplicate}>
+                  <Copy className="mr-2 h-4 w-4" />
+                  Duplicate
+                </DropdownMenuItem>
+              )}
               <DropdownMenuSeparator />
               <DropdownMenuItem
                 onClick={handleDelete}
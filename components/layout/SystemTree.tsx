@@ -0,0 +1,105 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { useDiagramStore } from "@/lib/store/diagrams";
+import { usePrefsStore } from "@/lib/store/prefs";
+import { DiagramIndexEntry } from "@/lib/model/schema";
+import { buildDiagramTree, isDescendant, DiagramTreeNode } from "@/lib/model/hierarchy";
+import { cn } from "@/lib/utils";
+import { SystemListItem } from "./SystemListItem";
+
+interface SystemTreeProps {
+  entries: DiagramIndexEntry[];
+  currentDiagramId: string | null;
+}
+
+/**
+ * Systems nested under the diagrams they were expanded from. Dragging a
+ * system onto another makes it a subsystem there; dropping it on empty
+ * space makes it top-level.
+ */
+export function SystemTree({ entries, currentDiagramId }: SystemTreeProps) {
+  const { diagrams, reparentDiagram } = useDiagramStore();
+  const { prefs, toggleDiagramCollapsed } = usePrefsStore();
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+
+  const tree = useMemo(() => buildDiagramTree(entries), [entries]);
+  const collapsed = new Set(prefs.collapsedDiagramIds ?? []);
+
+  const canDropOn = (targetId: string | null) => {
+    if (!draggingId) return false;
+    if ((diagrams[draggingId]?.parentId ?? null) === targetId) return false;
+    return targetId === null || !isDescendant(diagrams, targetId, draggingId);
+  };
+
+  const handleDrop = (targetId: string | null) => {
+    if (draggingId && canDropOn(targetId)) {
+      reparentDiagram(draggingId, targetId);
+    }
+    setDraggingId(null);
+    setDropTargetId(null);
+  };
+
+  const renderNode = (node: DiagramTreeNode<DiagramIndexEntry>): React.ReactNode => {
+    const { id } = node.entry;
+    const isCollapsed = collapsed.has(id);
+
+    return (
+      <React.Fragment key={id}>
+        <SystemListItem
+          diagram={node.entry}
+          isActive={id === currentDiagramId}
+          depth={node.depth}
+          expandable={node.children.length > 0}
+          collapsed={isCollapsed}
+          onToggleCollapse={() => toggleDiagramCollapsed(id)}
+          isDropTarget={dropTargetId === id}
+          dragHandlers={{
+            draggable: true,
+            onDragStart: (e) => {
+              e.dataTransfer.effectAllowed = "move";
+              e.dataTransfer.setData("text/plain", id);
+              setDraggingId(id);
+            },
+            onDragEnd: () => {
+              setDraggingId(null);
+              setDropTargetId(null);
+            },
+            onDragOver: (e) => {
+              if (!canDropOn(id)) return;
+              e.preventDefault();
+              e.stopPropagation();
+              setDropTargetId(id);
+            },
+            onDragLeave: () => setDropTargetId((current) => (current === id ? null : current)),
+            onDrop: (e) => {
+              e.preventDefault();
+              e.stopPropagation();
+              handleDrop(id);
+            },
+          }}
+        />
+        {!isCollapsed && node.children.map(renderNode)}
+      </React.Fragment>
+    );
+  };
+
+  return (
+    <div
+      className={cn("min-h-8 pb-4", draggingId && canDropOn(null) && "bg-muted/30")}
+      data-testid="system-tree"
+      onDragOver={(e) => {
+        if (!canDropOn(null)) return;
+        e.preventDefault();
+        setDropTargetId(null);
+      }}
+      onDrop={(e) => {
+        e.preventDefault();
+        handleDrop(null);
+      }}
+    >
+      {tree.map(renderNode)}
+    </div>
+  );
+}
@@ -3,7 +3,7 @@
 import React from "react";
 import { cn } from "@/lib/utils";
 
-export type TabType = "system" | "database";
+export type TabType = "system" | "database" | "simulation";
 
 interface TabBarProps {
   activeTab: TabType;
@@ -35,6 +35,17 @@ export function TabBar({ activeTab, onTabChange }: TabBarProps) {
       >
         Database
       </button>
+      <button
+        className={cn(
+          "px-3 py-1.5 text-sm font-medium rounded transition-colors",
+          activeTab === "simulation"
+            ? "bg-foreground text-background"
+            : "text-muted-foreground hover:text-foreground hover:bg-muted"
+        )}
+        onClick={() => onTabChange("simulation")}
+      >
+        Simulation
+      </button>
     </div>
   );
 }
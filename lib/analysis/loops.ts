@@ -0,0 +1,265 @@
+import { DiagramDoc, Edge } from "@/lib/model/schema";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type LoopPolarity = "reinforcing" | "balancing" | "unknown";
+
+export interface FeedbackLoop {
+  /** Stable identity: the loop's edge IDs, rotated to start at the smallest. */
+  key: string;
+  /** Display label such as "R1" or "B2". Unknown loops are labelled "?1". */
+  label: string;
+  polarity: LoopPolarity;
+  /** Stocks in loop order; nodeIds[i] → nodeIds[i + 1] via edgeIds[i]. */
+  nodeIds: string[];
+  edgeIds: string[];
+}
+
+export interface LoopAnalysis {
+  loops: FeedbackLoop[];
+  /** True when enumeration stopped at the limit. */
+  truncated: boolean;
+}
+
+/** Enumeration stops after this many loops; dense graphs have exponentially many. */
+export const DEFAULT_LOOP_LIMIT = 500;
+
+// ============================================================================
+// JOHNSON'S ALGORITHM
+// ============================================================================
+
+/**
+ * Strongly connected component containing `start`, within the subgraph
+ * induced by `allowed` (Tarjan's algorithm).
+ */
+function componentOf(
+  start: string,
+  successors: Map<string, string[]>,
+  allowed: Set<string>
+): Set<string> {
+  const index = new Map<string, number>();
+  const lowlink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  let counter = 0;
+  let result = new Set<string>();
+
+  const strongConnect = (v: string) => {
+    index.set(v, counter);
+    lowlink.set(v, counter);
+    counter++;
+    stack.push(v);
+    onStack.add(v);
+
+    for (const w of successors.get(v) ?? []) {
+      if (!allowed.has(w)) continue;
+      if (!index.has(w)) {
+        strongConnect(w);
+        lowlink.set(v, Math.min(lowlink.get(v)!, lowlink.get(w)!));
+      } else if (onStack.has(w)) {
+        lowlink.set(v, Math.min(lowlink.get(v)!, index.get(w)!));
+      }
+    }
+
+    if (lowlink.get(v) === index.get(v)) {
+      const component = new Set<string>();
+      let w: string;
+      do {
+        w = stack.pop()!;
+        onStack.delete(w);
+        component.add(w);
+      } while (w !== v);
+      if (component.has(start)) result = component;
+    }
+  };
+
+  strongConnect(start);
+  return result;
+}
+
+/**
+ * Enumerate every elementary cycle of a directed graph (Johnson, 1975).
+ * Each cycle is returned once, as a node list starting at its smallest
+ * node in `nodeIds` order.
+ */
+export function findElementaryCycles(
+  nodeIds: string[],
+  successors: Map<string, string[]>,
+  limit: number = DEFAULT_LOOP_LIMIT
+): { cycles: string[][]; truncated: boolean } {
+  const cycles: string[][] = [];
+  let truncated = false;
+
+  for (let s = 0; s < nodeIds.length && !truncated; s++) {
+    const start = nodeIds[s];
+    const component = componentOf(start, successors, new Set(nodeIds.slice(s)));
+
+    const blocked = new Set<string>();
+    const blockedBy = new Map<string, Set<string>>();
+    const path: string[] = [];
+
+    const unblock = (v: string) => {
+      blocked.delete(v);
+      const dependents = blockedBy.get(v);
+      if (!dependents) return;
+      blockedBy.delete(v);
+      for (const w of dependents) {
+        if (blocked.has(w)) unblock(w);
+      }
+    };
+
+    const circuit = (v: string): boolean => {
+      let found = false;
+      path.push(v);
+      blocked.add(v);
+
+      for (const w of successors.get(v) ?? []) {
+        if (truncated) break;
+        if (!component.has(w)) continue;
+        if (w === start) {
+          cycles.push([...path]);
+          if (cycles.length >= limit) truncated = true;
+          found = true;
+        } else if (!blocked.has(w) && circuit(w)) {
+          found = true;
+        }
+      }
+
+      if (found) {
+        unblock(v);
+      } else {
+        for (const w of successors.get(v) ?? []) {
+          if (!component.has(w)) continue;
+          if (!blockedBy.has(w)) blockedBy.set(w, new Set());
+          blockedBy.get(w)!.add(v);
+        }
+      }
+
+      path.pop();
+      return found;
+    };
+
+    circuit(start);
+  }
+
+  return { cycles, truncated };
+}
+
+// ============================================================================
+// FEEDBACK LOOPS
+// ============================================================================
+
+/**
+ * Edges that carry causality: flows and influence links. Relationship and
+ * undirected edges don't take part in loops.
+ */
+export function isCausalEdge(edge: Edge): boolean {
+  if (edge.directionality === "undirected") return false;
+  return !edge.kind || edge.kind === "flow" || edge.kind === "influence";
+}
+
+/**
+ * An edge's polarity. Flows default to positive (more in the source, more
+ * moves to the target), since the editor only lets influence links set one;
+ * influence links without a polarity are unknown.
+ */
+export function getEdgePolarity(edge: Edge): "positive" | "negative" | undefined {
+  if (edge.polarity) return edge.polarity;
+  return !edge.kind || edge.kind === "flow" ? "positive" : undefined;
+}
+
+/**
+ * A loop is reinforcing with an even number of negative links and balancing
+ * with an odd number. Any link of unknown polarity makes the loop unknown.
+ */
+export function classifyLoop(edges: Edge[]): LoopPolarity {
+  let negatives = 0;
+  for (const edge of edges) {
+    const polarity = getEdgePolarity(edge);
+    if (!polarity) return "unknown";
+    if (polarity === "negative") negatives++;
+  }
+  return negatives % 2 === 0 ? "reinforcing" : "balancing";
+}
+
+function loopKey(edgeIds: string[]): string {
+  let best = 0;
+  for (let i = 1; i < edgeIds.length; i++) {
+    if (edgeIds[i] < edgeIds[best]) best = i;
+  }
+  return [...edgeIds.slice(best), ...edgeIds.slice(0, best)].join(">");
+}
+
+const LABEL_PREFIX: Record<LoopPolarity, string> = {
+  reinforcing: "R",
+  balancing: "B",
+  unknown: "?",
+};
+
+/**
+ * Find and classify every feedback loop in a diagram.
+ *
+ * Cycles are enumerated over stocks; parallel edges between the same two
+ * stocks each produce their own loop, since they may differ in polarity.
+ * Loops are numbered per polarity, shortest first.
+ */
+export function findFeedbackLoops(
+  doc: Pick<DiagramDoc, "nodes" | "edges">,
+  limit: number = DEFAULT_LOOP_LIMIT
+): LoopAnalysis {
+  const nodeIds = Object.keys(doc.nodes).sort();
+  const successors = new Map<string, string[]>();
+  const edgesBetween = new Map<string, Edge[]>();
+
+  for (const edge of Object.values(doc.edges).sort((a, b) => a.id.localeCompare(b.id))) {
+    if (!isCausalEdge(edge)) continue;
+    if (!doc.nodes[edge.sourceId] || !doc.nodes[edge.targetId]) continue;
+
+    const pair = `${edge.sourceId}\u0000${edge.targetId}`;
+    if (!edgesBetween.has(pair)) {
+      edgesBetween.set(pair, []);
+      successors.set(edge.sourceId, [...(successors.get(edge.sourceId) ?? []), edge.targetId]);
+    }
+    edgesBetween.get(pair)!.push(edge);
+  }
+
+  const { cycles, truncated: cyclesTruncated } = findElementaryCycles(nodeIds, successors, limit);
+  let truncated = cyclesTruncated;
+
+  // Expand each node cycle into one loop per combination of parallel edges.
+  // There can be exponentially many, so the limit is checked as they're made.
+  const found: Omit<FeedbackLoop, "label">[] = [];
+  const expand = (cycle: string[], edges: Edge[]) => {
+    if (found.length >= limit) {
+      truncated = true;
+      return;
+    }
+    if (edges.length === cycle.length) {
+      const edgeIds = edges.map((e) => e.id);
+      found.push({ key: loopKey(edgeIds), polarity: classifyLoop(edges), nodeIds: cycle, edgeIds });
+      return;
+    }
+
+    const i = edges.length;
+    for (const edge of edgesBetween.get(`${cycle[i]}\u0000${cycle[(i + 1) % cycle.length]}`)!) {
+      expand(cycle, [...edges, edge]);
+      if (truncated) return;
+    }
+  };
+  for (const cycle of cycles) {
+    if (truncated) break;
+    expand(cycle, []);
+  }
+
+  found.sort((a, b) => a.edgeIds.length - b.edgeIds.length || a.key.localeCompare(b.key));
+
+  const counters: Record<LoopPolarity, number> = { reinforcing: 0, balancing: 0, unknown: 0 };
+  const loops = found.map((loop) => ({
+    ...loop,
+    label: `${LABEL_PREFIX[loop.polarity]}${++counters[loop.polarity]}`,
+  }));
+
+  return { loops, truncated };
+}
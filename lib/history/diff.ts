@@ -0,0 +1,110 @@
+import { DiagramDoc } from "@/lib/model/schema";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** A property value (or other attribute) that differs, keyed by property ID. */
+export interface PropertyChange {
+  propertyId: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ElementChange {
+  id: string;
+  /** Fields other than `attributes` that differ, such as "label" or "x". */
+  fields: string[];
+  properties: PropertyChange[];
+}
+
+export interface CollectionDiff {
+  added: string[];
+  removed: string[];
+  changed: ElementChange[];
+}
+
+export interface DiagramDiff {
+  nodes: CollectionDiff;
+  edges: CollectionDiff;
+}
+
+type Content = Pick<DiagramDoc, "nodes" | "edges">;
+
+// ============================================================================
+// DIFF
+// ============================================================================
+
+/**
+ * Deep equality for JSON-like values.
+ */
+export function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const aRecord = a as Record<string, unknown>;
+  const bRecord = b as Record<string, unknown>;
+  const keys = new Set([...Object.keys(aRecord), ...Object.keys(bRecord)]);
+  for (const key of keys) {
+    if (!isEqual(aRecord[key], bRecord[key])) return false;
+  }
+  return true;
+}
+
+function diffElement(
+  id: string,
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): ElementChange | null {
+  const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])]
+    .filter((key) => key !== "attributes" && !isEqual(before[key], after[key]))
+    .sort();
+
+  const beforeAttributes = (before.attributes ?? {}) as Record<string, unknown>;
+  const afterAttributes = (after.attributes ?? {}) as Record<string, unknown>;
+  const properties = [...new Set([...Object.keys(beforeAttributes), ...Object.keys(afterAttributes)])]
+    .filter((key) => !isEqual(beforeAttributes[key], afterAttributes[key]))
+    .sort()
+    .map((propertyId) => ({ propertyId, before: beforeAttributes[propertyId], after: afterAttributes[propertyId] }));
+
+  return fields.length > 0 || properties.length > 0 ? { id, fields, properties } : null;
+}
+
+function diffCollection<T extends { id: string }>(
+  before: Record<string, T>,
+  after: Record<string, T>
+): CollectionDiff {
+  const added = Object.keys(after).filter((id) => !before[id]).sort();
+  const removed = Object.keys(before).filter((id) => !after[id]).sort();
+  const changed = Object.keys(after)
+    .filter((id) => before[id])
+    .sort()
+    .map((id) => diffElement(id, before[id], after[id]))
+    .filter((change): change is ElementChange => change !== null);
+
+  return { added, removed, changed };
+}
+
+/**
+ * Stocks and flows added, removed and changed between two versions of a
+ * diagram, matched by ID. Property values are compared one by one; every
+ * list is sorted by ID.
+ */
+export function diffDiagrams(before: Content, after: Content): DiagramDiff {
+  return {
+    nodes: diffCollection(before.nodes, after.nodes),
+    edges: diffCollection(before.edges, after.edges),
+  };
+}
+
+/**
+ * Totals across stocks and flows, for summaries.
+ */
+export function countDiff(diff: DiagramDiff): { added: number; removed: number; changed: number } {
+  return {
+    added: diff.nodes.added.length + diff.edges.added.length,
+    removed: diff.nodes.removed.length + diff.edges.removed.length,
+    changed: diff.nodes.changed.length + diff.edges.changed.length,
+  };
+}
@@ -0,0 +1,270 @@
+import { DiagramDoc } from "@/lib/model/schema";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Set the value at `path`, or delete it when `value` is absent. Values are
+ * shared with the document they came from, which is never mutated.
+ */
+export interface Patch {
+  path: string[];
+  value?: unknown;
+}
+
+/** One undoable step: the patches that redo it and those that undo it. */
+export interface HistoryStep {
+  label: string;
+  patches: Patch[];
+  inversePatches: Patch[];
+  timestamp: number;
+}
+
+type PlainObject = Record<string, unknown>;
+
+// Bookkeeping that changes with every edit, and the link to the parent
+// system, which has to stay in step with the parent's stock
+const HISTORY_IGNORED_KEYS = new Set(["updatedAt", "parent"]);
+
+// ============================================================================
+// DIFF
+// ============================================================================
+
+function isPlainObject(value: unknown): value is PlainObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function patchFor(path: string[], value: unknown): Patch {
+  return value === undefined ? { path } : { path, value };
+}
+
+function diffValue(
+  path: string[],
+  before: unknown,
+  after: unknown,
+  ignoredKeys: Set<string>,
+  patches: Patch[],
+  inverse: Patch[]
+) {
+  if (before === after) return;
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of keys) {
+      if (path.length === 0 && ignoredKeys.has(key)) continue;
+      diffValue([...path, key], before[key], after[key], ignoredKeys, patches, inverse);
+    }
+    return;
+  }
+
+  // Arrays and primitives are replaced whole
+  patches.push(patchFor(path, after));
+  inverse.push(patchFor(path, before));
+}
+
+/**
+ * Patches that turn `before` into `after`, and their inverses. Store updates
+ * copy only the objects they change, so unchanged subtrees are skipped by
+ * reference and a step costs memory in proportion to what it touched.
+ *
+ * Top-level `ignoredKeys` default to those that aren't undoable.
+ */
+export function diffDocs(
+  before: DiagramDoc,
+  after: DiagramDoc,
+  ignoredKeys: Set<string> = HISTORY_IGNORED_KEYS
+): { patches: Patch[]; inversePatches: Patch[] } {
+  const patches: Patch[] = [];
+  const inversePatches: Patch[] = [];
+  diffValue([], before, after, ignoredKeys, patches, inversePatches);
+  return { patches, inversePatches };
+}
+
+/**
+ * The value at `path`, or undefined if any part of it is missing.
+ */
+export function valueAt(doc: DiagramDoc, path: string[]): unknown {
+  let value: unknown = doc;
+  for (const key of path) {
+    if (!isPlainObject(value)) return undefined;
+    value = value[key];
+  }
+  return value;
+}
+
+// ============================================================================
+// APPLY
+// ============================================================================
+
+/**
+ * Apply patches without mutating `doc`. Each object on a patched path is
+ * copied at most once, however many patches go through it.
+ */
+export function applyPatches(doc: DiagramDoc, patches: Patch[]): DiagramDoc {
+  const copied = new Set<PlainObject>();
+  const copy = (value: unknown): PlainObject => {
+    const result = isPlainObject(value) ? { ...value } : {};
+    copied.add(result);
+    return result;
+  };
+
+  const root = copy(doc);
+  for (const { path, value } of patches) {
+    if (path.length === 0) continue;
+
+    let target = root;
+    for (const key of path.slice(0, -1)) {
+      let child = target[key];
+      if (!isPlainObject(child) || !copied.has(child)) {
+        child = copy(child);
+        target[key] = child;
+      }
+      target = child as PlainObject;
+    }
+
+    const last = path[path.length - 1];
+    if (value === undefined) {
+      delete target[last];
+    } else {
+      target[last] = value;
+    }
+  }
+
+  return root as DiagramDoc;
+}
+
+// ============================================================================
+// MERGE
+// ============================================================================
+
+/** A path as a single string, for use as a map key. */
+export const pathKey = (path: string[]) => path.join("\u0000");
+
+/**
+ * Fold `next` into `previous` so that a run of edits to the same values
+ * (typing, nudging, panning) undoes as one step. Returns null when `next`
+ * touches anything `previous` didn't.
+ */
+export function mergeSteps(previous: HistoryStep, next: HistoryStep): HistoryStep | null {
+  const patches = new Map(previous.patches.map((patch) => [pathKey(patch.path), patch]));
+  if (!next.patches.every((patch) => patches.has(pathKey(patch.path)))) return null;
+
+  // Later values win going forward; the originals are still what undo restores
+  for (const patch of next.patches) patches.set(pathKey(patch.path), patch);
+
+  return {
+    label: previous.label,
+    patches: [...patches.values()],
+    inversePatches: previous.inversePatches,
+    timestamp: next.timestamp,
+  };
+}
+
+// ============================================================================
+// LABELS
+// ============================================================================
+
+const COLLECTION_NOUNS: Record<string, [string, string]> = {
+  nodes: ["stock", "stocks"],
+  edges: ["flow", "flows"],
+  frames: ["frame", "frames"],
+  notes: ["note", "notes"],
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  title: "Rename system",
+  viewport: "Change view",
+  propertySchema: "Edit properties",
+  simulation: "Edit simulation settings",
+  loopNames: "Rename loop",
+  ui: "Change display settings",
+};
+
+const GEOMETRY_KEYS = new Set(["x", "y"]);
+
+/**
+ * A readable label for a step, such as "Move 3 stocks" or "Delete 2 items".
+ * Only used when the change wasn't given a label of its own.
+ */
+export function describePatches(patches: Patch[]): string {
+  const items = new Map<string, { collection: string; verbs: Set<string> }>();
+  const fields = new Set<string>();
+
+  for (const { path, value } of patches) {
+    const [root, id, field] = path;
+    if (!COLLECTION_NOUNS[root] || id === undefined) {
+      fields.add(root);
+      continue;
+    }
+
+    const verb =
+      path.length === 2 ? (value === undefined ? "Delete" : "Add") : GEOMETRY_KEYS.has(field) ? "Move" : "Edit";
+    const key = `${root}/${id}`;
+    const item = items.get(key) ?? { collection: root, verbs: new Set<string>() };
+    item.verbs.add(verb);
+    items.set(key, item);
+  }
+
+  if (items.size === 0) {
+    // Layout flags tag along with real edits, so only name them on their own
+    const named = [...fields].filter((field) => field !== "ui");
+    return FIELD_LABELS[named[0] ?? [...fields][0]] ?? "Edit system";
+  }
+
+  // An item that was both moved and edited counts as edited
+  const verbs = new Set([...items.values()].map(({ verbs }) => (verbs.size === 1 ? [...verbs][0] : "Edit")));
+  const verb = verbs.size === 1 ? [...verbs][0] : "Edit";
+
+  const collections = new Set([...items.values()].map((item) => item.collection));
+  const count = items.size;
+  if (collections.size === 1) {
+    const [singular, plural] = COLLECTION_NOUNS[[...collections][0]];
+    return count === 1 ? `${verb} ${singular}` : `${verb} ${count} ${plural}`;
+  }
+  return `${verb} ${count} items`;
+}
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+// Steps never change once recorded, so each is measured only once
+const stepSizes = new WeakMap<HistoryStep, number>();
+
+function stepSize(step: HistoryStep): number {
+  let size = stepSizes.get(step);
+  if (size === undefined) {
+    size = JSON.stringify(step).length;
+    stepSizes.set(step, size);
+  }
+  return size;
+}
+
+/**
+ * The steps around `index` (the last applied step) that fit in `maxSize`
+ * characters of JSON, with the index adjusted to match. Steps that can be
+ * undone are kept first, most recent first; redo steps only fill what's left.
+ */
+export function trimHistory(
+  steps: HistoryStep[],
+  index: number,
+  maxSize: number
+): { steps: HistoryStep[]; index: number } {
+  let remaining = maxSize;
+  let start = index + 1;
+  while (start > 0 && stepSize(steps[start - 1]) <= remaining) {
+    remaining -= stepSize(steps[start - 1]);
+    start--;
+  }
+
+  let end = index + 1;
+  if (start === 0) {
+    while (end < steps.length && stepSize(steps[end]) <= remaining) {
+      remaining -= stepSize(steps[end]);
+      end++;
+    }
+  }
+
+  return { steps: steps.slice(start, end), index: index - start };
+}
@@ -0,0 +1,99 @@
+import { Point, Rect, lerp } from "./geometry";
+
+// How long auto layout takes to move stocks to where they're going
+export const LAYOUT_TWEEN_MS = 400;
+
+export interface Tween {
+  /** Until it reaches the end or is cancelled. */
+  readonly running: boolean;
+  /** Jump to the end now, as if it had run its course. */
+  finish(): void;
+  /** Stop where it is, without reaching the end. */
+  cancel(): void;
+}
+
+/**
+ * Slow at both ends, so moves start and land gently.
+ */
+export function easeInOutCubic(t: number): number {
+  return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+}
+
+/**
+ * Positions `t` of the way from `from` to `to`, for everything in `to`.
+ * Anything missing from `from` is already where it's going.
+ */
+export function interpolatePositions(
+  from: Record<string, Point>,
+  to: Record<string, Point>,
+  t: number
+): Record<string, Point> {
+  return Object.fromEntries(
+    Object.entries(to).map(([id, end]) => {
+      const start = from[id] ?? end;
+      return [id, { x: lerp(start.x, end.x, t), y: lerp(start.y, end.y, t) }];
+    })
+  );
+}
+
+/**
+ * A rectangle `t` of the way from `from` to `to`, size included.
+ */
+export function interpolateRect(from: Rect, to: Rect, t: number): Rect {
+  return {
+    x: lerp(from.x, to.x, t),
+    y: lerp(from.y, to.y, t),
+    width: lerp(from.width, to.width, t),
+    height: lerp(from.height, to.height, t),
+  };
+}
+
+function prefersReducedMotion(): boolean {
+  return typeof window !== "undefined" && window.matchMedia?.("(prefers-reduced-motion: reduce)").matches;
+}
+
+/**
+ * Call `onFrame` with eased progress from 0 to 1 on each animation frame
+ * for `duration` milliseconds, then `onDone`. Without animation frames, or
+ * when the user prefers reduced motion, it goes straight to the end.
+ */
+export function tween(duration: number, onFrame: (t: number) => void, onDone: () => void): Tween {
+  let running = true;
+  let frame: number | null = null;
+
+  const end = () => {
+    if (!running) return;
+    running = false;
+    if (frame !== null) cancelAnimationFrame(frame);
+    onFrame(1);
+    onDone();
+  };
+
+  if (typeof requestAnimationFrame === "undefined" || prefersReducedMotion()) {
+    end();
+  } else {
+    const start = performance.now();
+    const tick = (now: number) => {
+      const progress = Math.min((now - start) / duration, 1);
+      if (progress >= 1) {
+        frame = null;
+        end();
+        return;
+      }
+      onFrame(easeInOutCubic(progress));
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+  }
+
+  return {
+    get running() {
+      return running;
+    },
+    finish: end,
+    cancel: () => {
+      running = false;
+      if (frame !== null) cancelAnimationFrame(frame);
+    },
+  };
+}
@@ -1,9 +1,11 @@
-import { Node, Edge } from "@/lib/model/schema";
+import { Node, Edge, Frame, Note, DiagramUI } from "@/lib/model/schema";
+import { Rect, rectContains } from "./geometry";
 
 // ============================================================================
 // CONFIGURATION
 // ============================================================================
 // v4: Spring-electrical model (force-directed layout)
+// v6: Layered (Sugiyama-style) mode alongside it
 // See /docs/auto-layout.md for principles
 
 // Exported type for config tuning UI
@@ -49,11 +51,66 @@ const LAYOUT_CONFIG: LayoutConfig = {
 // Mutable config for tuning UI
 let activeConfig: LayoutConfig = { ...LAYOUT_CONFIG };
 
+// Force iterations between progress reports
+const PROGRESS_INTERVAL = 10;
+
+// Layered mode (Sugiyama-style), for DAG-like pipelines
+const LAYERED_CONFIG = {
+  // Gap between consecutive layers
+  LAYER_SPACING: 80,
+  // Gap between neighbours within a layer
+  NODE_SPACING: 40,
+  // Gap between disconnected components, side by side
+  COMPONENT_SPACING: 80,
+  // Alternating down/up barycenter sweeps when ordering layers
+  ORDERING_SWEEPS: 12,
+  // Passes pulling nodes toward their neighbours once ordered
+  ALIGNMENT_PASSES: 8,
+};
+
+// Prefix for the placeholder nodes long edges get in each layer they cross
+const DUMMY_PREFIX = "\u0000dummy:";
+
+// Frames laid out as clusters
+const FRAME_CONFIG = {
+  // Space between a frame's border and its stocks
+  PADDING: 24,
+  // Height of a frame's title (TITLE_HEIGHT in components/editor/FrameRect.tsx)
+  TITLE_HEIGHT: 24,
+  // Smallest frame (MIN_FRAME_WIDTH and MIN_FRAME_HEIGHT)
+  MIN_WIDTH: 120,
+  MIN_HEIGHT: 80,
+  // Gap kept between a frame and anything else
+  SPACING: 40,
+  // Passes pushing overlapping blocks apart
+  OVERLAP_PASSES: 100,
+};
+
+// Prefix for the blocks frames become when laid out among other stocks
+const FRAME_PREFIX = "\u0000frame:";
+
+// Live physics while dragging
+const LIVE_CONFIG = {
+  // Temperature each drag stirs the simulation back up to
+  TEMPERATURE: 10,
+  // Temperature below which moves are too small to see, so it stops
+  SETTLED_TEMPERATURE: 0.5,
+};
+
 // ============================================================================
 // TYPES
 // ============================================================================
 
-interface LayoutNode {
+export type LayoutMode = NonNullable<DiagramUI["layoutMode"]>;
+export type LayoutDirection = NonNullable<DiagramUI["layoutDirection"]>;
+
+export interface LayoutOptions {
+  mode: LayoutMode;
+  /** Which way layers run in layered mode; ignored by force mode. */
+  direction?: LayoutDirection;
+}
+
+export interface LayoutNode {
   id: string;
   x: number;
   y: number;
@@ -61,19 +118,41 @@ interface LayoutNode {
   height: number;
 }
 
-interface LayoutResult {
+export interface LayoutResult {
   nodes: Record<string, LayoutNode>;
+  /** Frames with stocks in them, moved and fitted around their contents. */
+  frames?: Record<string, LayoutNode>;
 }
 
+/** Positions for `nodes` from one of the layout models, before framing. */
+type PlaceNodes = (nodes: Record<string, Node>, edges: Edge[]) => Map<string, Vector>;
+
 interface Vector {
   x: number;
   y: number;
 }
 
+/** Called with how far a layout has got, from 0 to 1. */
+export type LayoutProgress = (fraction: number) => void;
+
 // ============================================================================
 // UTILITY FUNCTIONS
 // ============================================================================
 
+// The running layout's progress, counted in nodes placed, when it's wanted
+let progress: { report: LayoutProgress; placed: number; total: number } | null = null;
+
+/**
+ * Count `count` more nodes placed, or, with `partial`, report part of the
+ * way through placing them without counting them yet.
+ */
+function reportProgress(count: number, partial = false) {
+  if (!progress) return;
+  const placed = progress.placed + count;
+  if (!partial) progress.placed = placed;
+  progress.report(Math.min(placed / progress.total, 1));
+}
+
 /**
  * Simple deterministic hash function for strings.
  * Returns a value between 0 and 1.
@@ -110,6 +189,27 @@ function direction(p1: Vector, p2: Vector): Vector {
   };
 }
 
+/**
+ * Final positions as a layout result, with each node's size.
+ */
+function toLayoutResult(
+  positions: Map<string, Vector>,
+  nodes: Record<string, Node>
+): LayoutResult {
+  const result: Record<string, LayoutNode> = {};
+  for (const [nodeId, pos] of positions) {
+    const node = nodes[nodeId];
+    result[nodeId] = {
+      id: nodeId,
+      x: pos.x,
+      y: pos.y,
+      width: node.width,
+      height: node.height,
+    };
+  }
+  return { nodes: result };
+}
+
 /**
  * Find connected components (treating edges as undirected).
  */
@@ -221,6 +321,55 @@ function initializePositions(
   return positions;
 }
 
+/**
+ * Start positions for a component with pinned nodes: each free node starts
+ * at the mean of its already placed neighbours, spreading out from the
+ * anchors breadth-first, with a hash-based nudge so they don't coincide.
+ */
+function initializeAroundAnchors(
+  nodeIds: string[],
+  edges: Edge[],
+  anchors: Map<string, Vector>
+): Map<string, Vector> {
+  const positions = new Map<string, Vector>();
+  const neighbors = new Map<string, string[]>();
+  for (const nodeId of nodeIds) {
+    neighbors.set(nodeId, []);
+  }
+  for (const edge of edges) {
+    neighbors.get(edge.sourceId)!.push(edge.targetId);
+    neighbors.get(edge.targetId)!.push(edge.sourceId);
+  }
+
+  const queue: string[] = [];
+  for (const nodeId of [...nodeIds].sort()) {
+    const anchor = anchors.get(nodeId);
+    if (anchor) {
+      positions.set(nodeId, { ...anchor });
+      queue.push(nodeId);
+    }
+  }
+
+  const nudge = activeConfig.OPTIMAL_DISTANCE;
+  while (queue.length > 0) {
+    const nodeId = queue.shift()!;
+    for (const neighbor of [...neighbors.get(nodeId)!].sort()) {
+      if (positions.has(neighbor)) continue;
+
+      const placed = neighbors.get(neighbor)!
+        .map((other) => positions.get(other))
+        .filter((pos): pos is Vector => pos !== undefined);
+      positions.set(neighbor, {
+        x: placed.reduce((sum, pos) => sum + pos.x, 0) / placed.length + (hashString(neighbor + "_x") - 0.5) * nudge,
+        y: placed.reduce((sum, pos) => sum + pos.y, 0) / placed.length + (hashString(neighbor + "_y") - 0.5) * nudge,
+      });
+      queue.push(neighbor);
+    }
+  }
+
+  return positions;
+}
+
 /**
  * Calculate repulsion force between two nodes.
  * F_repulsion ∝ k² / distance
@@ -263,30 +412,23 @@ function calculateAttraction(
 }
 
 /**
- * Run the spring-electrical simulation for a connected component.
+ * A component's nodes, sorted for a deterministic iteration order, with
+ * the edges between them and adjacency for quick neighbor lookup.
  */
-function simulateComponent(
-  nodeIds: string[],
-  edges: Edge[],
-  nodes: Record<string, Node>
-): Map<string, Vector> {
-  if (nodeIds.length === 0) {
-    return new Map();
-  }
-
-  if (nodeIds.length === 1) {
-    const positions = new Map<string, Vector>();
-    positions.set(nodeIds[0], { x: 0, y: 0 });
-    return positions;
-  }
+interface ForceGraph {
+  nodeIds: string[];
+  edges: Edge[];
+  outgoing: Map<string, string[]>;
+  incoming: Map<string, string[]>;
+}
 
+function buildForceGraph(nodeIds: string[], edges: Edge[]): ForceGraph {
   // Filter edges to this component
   const nodeSet = new Set(nodeIds);
   const componentEdges = edges.filter(
     e => nodeSet.has(e.sourceId) && nodeSet.has(e.targetId)
   );
 
-  // Build adjacency for quick neighbor lookup
   const outgoing = new Map<string, string[]>();
   const incoming = new Map<string, string[]>();
   for (const nodeId of nodeIds) {
@@ -298,102 +440,149 @@ function simulateComponent(
     incoming.get(edge.targetId)!.push(edge.sourceId);
   }
 
-  // Initialize positions
-  const positions = initializePositions(nodeIds, activeConfig.INITIAL_SPREAD);
+  return { nodeIds: [...nodeIds].sort(), edges: componentEdges, outgoing, incoming };
+}
 
-  // Simulation parameters
+/**
+ * One iteration of the spring-electrical model: every node not in
+ * `anchors` moves along its net force, by at most `temperature`. Returns
+ * the largest move.
+ */
+function stepForces(
+  graph: ForceGraph,
+  positions: Map<string, Vector>,
+  temperature: number,
+  anchors?: Map<string, Vector>
+): number {
   const k = activeConfig.OPTIMAL_DISTANCE;
-  let temperature = activeConfig.INITIAL_TEMPERATURE;
+  const forces = new Map<string, Vector>();
 
-  // Sort node IDs for deterministic iteration order
-  const sortedNodeIds = [...nodeIds].sort();
+  // Initialize forces to zero
+  for (const nodeId of graph.nodeIds) {
+    forces.set(nodeId, { x: 0, y: 0 });
+  }
 
-  // Run simulation
-  for (let iter = 0; iter < activeConfig.ITERATIONS; iter++) {
-    const forces = new Map<string, Vector>();
+  // Calculate repulsion forces (all pairs)
+  for (let i = 0; i < graph.nodeIds.length; i++) {
+    const nodeA = graph.nodeIds[i];
+    const posA = positions.get(nodeA)!;
+    const forceA = forces.get(nodeA)!;
+
+    for (let j = i + 1; j < graph.nodeIds.length; j++) {
+      const nodeB = graph.nodeIds[j];
+      const posB = positions.get(nodeB)!;
+      const forceB = forces.get(nodeB)!;
+
+      const repulsion = calculateRepulsion(posA, posB, k);
 
-    // Initialize forces to zero
-    for (const nodeId of sortedNodeIds) {
-      forces.set(nodeId, { x: 0, y: 0 });
+      // Apply equal and opposite forces
+      forceA.x += repulsion.x;
+      forceA.y += repulsion.y;
+      forceB.x -= repulsion.x;
+      forceB.y -= repulsion.y;
     }
+  }
 
-    // Calculate repulsion forces (all pairs)
-    for (let i = 0; i < sortedNodeIds.length; i++) {
-      const nodeA = sortedNodeIds[i];
-      const posA = positions.get(nodeA)!;
-      const forceA = forces.get(nodeA)!;
+  // Calculate attraction forces (connected pairs)
+  for (const edge of graph.edges) {
+    const posSource = positions.get(edge.sourceId)!;
+    const posTarget = positions.get(edge.targetId)!;
 
-      for (let j = i + 1; j < sortedNodeIds.length; j++) {
-        const nodeB = sortedNodeIds[j];
-        const posB = positions.get(nodeB)!;
-        const forceB = forces.get(nodeB)!;
+    const attraction = calculateAttraction(
+      posSource,
+      posTarget,
+      k,
+      activeConfig.ATTRACTION_STRENGTH
+    );
 
-        const repulsion = calculateRepulsion(posA, posB, k);
+    const forceSource = forces.get(edge.sourceId)!;
+    const forceTarget = forces.get(edge.targetId)!;
 
-        // Apply equal and opposite forces
-        forceA.x += repulsion.x;
-        forceA.y += repulsion.y;
-        forceB.x -= repulsion.x;
-        forceB.y -= repulsion.y;
-      }
-    }
+    // Source is pulled toward target
+    forceSource.x += attraction.x;
+    forceSource.y += attraction.y;
 
-    // Calculate attraction forces (connected pairs)
-    for (const edge of componentEdges) {
-      const posSource = positions.get(edge.sourceId)!;
-      const posTarget = positions.get(edge.targetId)!;
+    // Target is pulled toward source
+    forceTarget.x -= attraction.x;
+    forceTarget.y -= attraction.y;
+  }
 
-      const attraction = calculateAttraction(
-        posSource,
-        posTarget,
-        k,
-        activeConfig.ATTRACTION_STRENGTH
-      );
+  // Apply flow bias (edges prefer to point downward)
+  for (const nodeId of graph.nodeIds) {
+    const force = forces.get(nodeId)!;
+    const outCount = graph.outgoing.get(nodeId)!.length;
+    const inCount = graph.incoming.get(nodeId)!.length;
 
-      const forceSource = forces.get(edge.sourceId)!;
-      const forceTarget = forces.get(edge.targetId)!;
+    // Nodes with more outgoing edges move up, more incoming move down
+    force.y += (outCount - inCount) * activeConfig.FLOW_BIAS;
+  }
 
-      // Source is pulled toward target
-      forceSource.x += attraction.x;
-      forceSource.y += attraction.y;
+  // Apply forces with cooling
+  let largest = 0;
+  for (const nodeId of graph.nodeIds) {
+    if (anchors?.has(nodeId)) continue;
+    const pos = positions.get(nodeId)!;
+    const force = forces.get(nodeId)!;
 
-      // Target is pulled toward source
-      forceTarget.x -= attraction.x;
-      forceTarget.y -= attraction.y;
-    }
+    // Calculate displacement magnitude
+    const magnitude = Math.sqrt(force.x * force.x + force.y * force.y);
 
-    // Apply flow bias (edges prefer to point downward)
-    for (const nodeId of sortedNodeIds) {
-      const force = forces.get(nodeId)!;
-      const outCount = outgoing.get(nodeId)!.length;
-      const inCount = incoming.get(nodeId)!.length;
+    if (magnitude > 0) {
+      // Limit displacement by temperature
+      const displacement = Math.min(magnitude, temperature);
+      const ratio = displacement / magnitude;
 
-      // Nodes with more outgoing edges move up, more incoming move down
-      force.y += (outCount - inCount) * activeConfig.FLOW_BIAS;
+      pos.x += force.x * ratio;
+      pos.y += force.y * ratio;
+      largest = Math.max(largest, displacement);
     }
+  }
+
+  return largest;
+}
 
-    // Apply forces with cooling
-    for (const nodeId of sortedNodeIds) {
-      const pos = positions.get(nodeId)!;
-      const force = forces.get(nodeId)!;
+/**
+ * Run the spring-electrical simulation for a connected component. Nodes in
+ * `anchors` start there and stay there: they push and pull the others but
+ * aren't moved themselves.
+ */
+function simulateComponent(
+  nodeIds: string[],
+  edges: Edge[],
+  nodes: Record<string, Node>,
+  anchors?: Map<string, Vector>
+): Map<string, Vector> {
+  if (nodeIds.length === 0) {
+    return new Map();
+  }
+
+  if (nodeIds.length === 1) {
+    const positions = new Map<string, Vector>();
+    positions.set(nodeIds[0], { x: 0, y: 0 });
+    return positions;
+  }
 
-      // Calculate displacement magnitude
-      const magnitude = Math.sqrt(force.x * force.x + force.y * force.y);
+  const graph = buildForceGraph(nodeIds, edges);
 
-      if (magnitude > 0) {
-        // Limit displacement by temperature
-        const displacement = Math.min(magnitude, temperature);
-        const ratio = displacement / magnitude;
+  // Initialize positions
+  const positions = anchors
+    ? initializeAroundAnchors(nodeIds, graph.edges, anchors)
+    : initializePositions(nodeIds, activeConfig.INITIAL_SPREAD);
 
-        pos.x += force.x * ratio;
-        pos.y += force.y * ratio;
-      }
-    }
+  // Run simulation
+  let temperature = activeConfig.INITIAL_TEMPERATURE;
+  for (let iter = 0; iter < activeConfig.ITERATIONS; iter++) {
+    stepForces(graph, positions, temperature, anchors);
 
     // Cool down
     temperature *= activeConfig.COOLING_RATE;
+
+    if (iter % PROGRESS_INTERVAL === 0) {
+      reportProgress((nodeIds.length * iter) / activeConfig.ITERATIONS, true);
+    }
   }
 
+  reportProgress(nodeIds.length);
   return positions;
 }
 
@@ -500,6 +689,766 @@ function layoutIsolatedNodes(
   return positions;
 }
 
+// ============================================================================
+// PINNED NODES
+// ============================================================================
+
+/**
+ * Incremental layout: pinned nodes stay exactly where they are, and only
+ * the rest are placed. Free nodes connected to pinned ones are simulated
+ * around them as fixed anchors; components with nothing pinned, and
+ * isolated nodes, are laid out as usual and stacked below the rest.
+ *
+ * The simulation runs with x divided by HORIZONTAL_STRETCH and multiplies
+ * it back afterwards, so anchored nodes keep their exact positions and the
+ * free ones get the same wide spacing as a full layout.
+ */
+function layoutAroundPinned(
+  nodeIds: string[],
+  edges: Edge[],
+  nodes: Record<string, Node>,
+  pinned: Set<string>
+): Map<string, Vector> {
+  const stretch = activeConfig.HORIZONTAL_STRETCH;
+  const allPositions = new Map<string, Vector>();
+  for (const nodeId of pinned) {
+    allPositions.set(nodeId, { x: nodes[nodeId].x, y: nodes[nodeId].y });
+  }
+
+  const { connected, isolated } = separateIsolatedNodes(nodeIds, edges);
+  const floating: string[][] = [];
+
+  for (const component of findConnectedComponents(connected, edges)) {
+    const anchored = component.filter((nodeId) => pinned.has(nodeId));
+    if (anchored.length === component.length) continue;
+    if (anchored.length === 0) {
+      floating.push(component);
+      continue;
+    }
+
+    const anchors = new Map(
+      anchored.map((nodeId) => [nodeId, { x: nodes[nodeId].x / stretch, y: nodes[nodeId].y }])
+    );
+    const positions = simulateComponent(component, edges, nodes, anchors);
+    for (const [nodeId, pos] of positions) {
+      if (!pinned.has(nodeId)) allPositions.set(nodeId, { x: pos.x * stretch, y: pos.y });
+    }
+  }
+
+  // Everything else goes below what's placed, lined up on its left edge
+  const placed = getBoundingBox(allPositions, nodes);
+  let currentY = placed.maxY + activeConfig.COMPONENT_SPACING;
+
+  for (const component of floating) {
+    const positions = simulateComponent(component, edges, nodes);
+    for (const pos of positions.values()) {
+      pos.x *= stretch;
+    }
+    const bounds = getBoundingBox(positions, nodes);
+    for (const [nodeId, pos] of positions) {
+      allPositions.set(nodeId, {
+        x: pos.x - bounds.minX + placed.minX,
+        y: pos.y - bounds.minY + currentY,
+      });
+    }
+    currentY += bounds.height + activeConfig.COMPONENT_SPACING;
+  }
+
+  const free = isolated.filter((nodeId) => !pinned.has(nodeId));
+  for (const [nodeId, pos] of layoutIsolatedNodes(free, nodes, currentY)) {
+    allPositions.set(nodeId, { x: pos.x + placed.minX, y: pos.y });
+  }
+
+  return allPositions;
+}
+
+// ============================================================================
+// LIVE SIMULATION
+// ============================================================================
+
+/**
+ * The spring-electrical model stepped a frame at a time while stocks are
+ * dragged (see lib/layout/physics.worker.ts).
+ */
+export interface LiveSimulation {
+  /** Move the free nodes one step. False once they've settled. */
+  step(): boolean;
+  /**
+   * Hold nodes where they're dragged to, free the rest of their connected
+   * components and stir them up again. Held nodes stay held.
+   */
+  hold(positions: Record<string, { x: number; y: number }>): void;
+  /** Where the free nodes are now. */
+  positions(): Record<string, { x: number; y: number }>;
+}
+
+/**
+ * Start a live simulation from where `nodes` are now. Everything starts
+ * fixed; holding a node frees the rest of its component, apart from pinned
+ * nodes, while the nodes around it still push it away. Like
+ * `layoutAroundPinned`, it runs with x divided by HORIZONTAL_STRETCH.
+ */
+export function createLiveSimulation(nodes: Record<string, Node>, edges: Edge[]): LiveSimulation {
+  activeConfig = { ...LAYOUT_CONFIG };
+  const stretch = activeConfig.HORIZONTAL_STRETCH;
+  const nodeIds = Object.keys(nodes);
+  const graph = buildForceGraph(nodeIds, edges);
+  const components = findConnectedComponents(nodeIds, edges);
+
+  const positions = new Map(nodeIds.map((nodeId) => [nodeId, { x: nodes[nodeId].x / stretch, y: nodes[nodeId].y }]));
+  const anchors = new Map(positions);
+  const held = new Set<string>();
+  const free = new Set<string>();
+  let temperature = 0;
+
+  return {
+    step() {
+      if (temperature < LIVE_CONFIG.SETTLED_TEMPERATURE) return false;
+      stepForces(graph, positions, temperature, anchors);
+      temperature *= activeConfig.COOLING_RATE;
+      return temperature >= LIVE_CONFIG.SETTLED_TEMPERATURE;
+    },
+
+    hold(dragged) {
+      for (const [nodeId, pos] of Object.entries(dragged)) {
+        if (!positions.has(nodeId)) continue;
+        const scaled = { x: pos.x / stretch, y: pos.y };
+        positions.set(nodeId, scaled);
+        anchors.set(nodeId, scaled);
+        held.add(nodeId);
+        free.delete(nodeId);
+      }
+
+      for (const component of components) {
+        if (!component.some((nodeId) => held.has(nodeId))) continue;
+        for (const nodeId of component) {
+          if (held.has(nodeId) || nodes[nodeId].pinned) continue;
+          anchors.delete(nodeId);
+          free.add(nodeId);
+        }
+      }
+      temperature = LIVE_CONFIG.TEMPERATURE;
+    },
+
+    positions() {
+      return Object.fromEntries(
+        [...free].map((nodeId) => {
+          const pos = positions.get(nodeId)!;
+          return [nodeId, { x: pos.x * stretch, y: pos.y }];
+        })
+      );
+    },
+  };
+}
+
+// ============================================================================
+// LAYERED (SUGIYAMA) MODEL
+// ============================================================================
+
+/**
+ * Nodes of a component split into layers, with dummies where long edges
+ * cross a layer, and edges between adjacent layers in both directions.
+ */
+interface LayeredGraph {
+  layers: string[][];
+  successors: Map<string, string[]>;
+  predecessors: Map<string, string[]>;
+}
+
+function isDummy(id: string): boolean {
+  return id.startsWith(DUMMY_PREFIX);
+}
+
+/**
+ * Drop self-loops and duplicates, and reverse the edges that close a cycle
+ * so that what's left is acyclic. Back edges are found by depth-first
+ * search starting from sources, so in a pipeline with feedback it's the
+ * feedback that gets reversed rather than the pipeline.
+ */
+function breakCycles(nodeIds: string[], edges: Edge[]): [string, string][] {
+  const nodeSet = new Set(nodeIds);
+  const outgoing = new Map<string, Set<string>>();
+  const hasIncoming = new Set<string>();
+  for (const nodeId of nodeIds) {
+    outgoing.set(nodeId, new Set());
+  }
+  for (const edge of edges) {
+    if (edge.sourceId === edge.targetId) continue;
+    if (!nodeSet.has(edge.sourceId) || !nodeSet.has(edge.targetId)) continue;
+    outgoing.get(edge.sourceId)!.add(edge.targetId);
+    hasIncoming.add(edge.targetId);
+  }
+
+  const state = new Map<string, "active" | "done">();
+  const seen = new Set<string>();
+  const result: [string, string][] = [];
+
+  const add = (source: string, target: string) => {
+    const key = `${source}\u0000${target}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    result.push([source, target]);
+  };
+
+  const visit = (nodeId: string) => {
+    state.set(nodeId, "active");
+    for (const target of [...outgoing.get(nodeId)!].sort()) {
+      const targetState = state.get(target);
+      if (targetState === "active") {
+        // Back edge: reversing it breaks the cycle
+        add(target, nodeId);
+      } else {
+        add(nodeId, target);
+        if (!targetState) visit(target);
+      }
+    }
+    state.set(nodeId, "done");
+  };
+
+  const sorted = [...nodeIds].sort();
+  const sources = sorted.filter((nodeId) => !hasIncoming.has(nodeId));
+  for (const nodeId of [...sources, ...sorted]) {
+    if (!state.has(nodeId)) visit(nodeId);
+  }
+
+  return result;
+}
+
+/**
+ * Longest-path layering: every edge points at least one layer down. Sources
+ * are then moved down to sit just above their nearest successor, so a
+ * side input doesn't get stranded at the top.
+ */
+function assignLayers(nodeIds: string[], edges: [string, string][]): Map<string, number> {
+  const successors = new Map<string, string[]>();
+  const indegree = new Map<string, number>();
+  for (const nodeId of nodeIds) {
+    successors.set(nodeId, []);
+    indegree.set(nodeId, 0);
+  }
+  for (const [source, target] of edges) {
+    successors.get(source)!.push(target);
+    indegree.set(target, indegree.get(target)! + 1);
+  }
+
+  const layer = new Map<string, number>();
+  const queue = [...nodeIds].sort().filter((nodeId) => indegree.get(nodeId) === 0);
+  const sources = [...queue];
+  for (const nodeId of queue) {
+    layer.set(nodeId, 0);
+  }
+
+  while (queue.length > 0) {
+    const nodeId = queue.shift()!;
+    for (const target of successors.get(nodeId)!) {
+      layer.set(target, Math.max(layer.get(target) ?? 0, layer.get(nodeId)! + 1));
+      indegree.set(target, indegree.get(target)! - 1);
+      if (indegree.get(target) === 0) queue.push(target);
+    }
+  }
+
+  for (const nodeId of sources) {
+    const targets = successors.get(nodeId)!;
+    if (targets.length > 0) {
+      layer.set(nodeId, Math.min(...targets.map((target) => layer.get(target)!)) - 1);
+    }
+  }
+
+  return layer;
+}
+
+/**
+ * Split edges spanning more than one layer into a chain through dummy
+ * nodes, one per layer crossed.
+ */
+function buildLayeredGraph(
+  nodeIds: string[],
+  edges: [string, string][],
+  layer: Map<string, number>
+): LayeredGraph {
+  const depth = Math.max(...nodeIds.map((nodeId) => layer.get(nodeId)!)) + 1;
+  const layers: string[][] = Array.from({ length: depth }, () => []);
+  const successors = new Map<string, string[]>();
+  const predecessors = new Map<string, string[]>();
+
+  const addNode = (nodeId: string, index: number) => {
+    layers[index].push(nodeId);
+    successors.set(nodeId, []);
+    predecessors.set(nodeId, []);
+  };
+  const link = (source: string, target: string) => {
+    successors.get(source)!.push(target);
+    predecessors.get(target)!.push(source);
+  };
+
+  for (const nodeId of [...nodeIds].sort()) {
+    addNode(nodeId, layer.get(nodeId)!);
+  }
+
+  for (const [source, target] of edges) {
+    let previous = source;
+    for (let index = layer.get(source)! + 1; index < layer.get(target)!; index++) {
+      const dummy = `${DUMMY_PREFIX}${source}\u0000${target}\u0000${index}`;
+      addNode(dummy, index);
+      link(previous, dummy);
+      previous = dummy;
+    }
+    link(previous, target);
+  }
+
+  return { layers, successors, predecessors };
+}
+
+/**
+ * Edge crossings between two adjacent layers.
+ */
+function countCrossings(
+  upper: string[],
+  lower: string[],
+  successors: Map<string, string[]>
+): number {
+  const lowerIndex = new Map(lower.map((nodeId, index) => [nodeId, index]));
+  const links: [number, number][] = [];
+  upper.forEach((nodeId, index) => {
+    for (const target of successors.get(nodeId)!) {
+      links.push([index, lowerIndex.get(target)!]);
+    }
+  });
+
+  let crossings = 0;
+  for (let i = 0; i < links.length; i++) {
+    for (let j = i + 1; j < links.length; j++) {
+      if ((links[i][0] - links[j][0]) * (links[i][1] - links[j][1]) < 0) crossings++;
+    }
+  }
+  return crossings;
+}
+
+function totalCrossings(layers: string[][], successors: Map<string, string[]>): number {
+  let crossings = 0;
+  for (let index = 0; index < layers.length - 1; index++) {
+    crossings += countCrossings(layers[index], layers[index + 1], successors);
+  }
+  return crossings;
+}
+
+/**
+ * Reorder a layer by the mean position of each node's neighbours in the
+ * adjacent layer. Nodes without neighbours there keep their place.
+ */
+function orderByBarycenter(
+  layer: string[],
+  neighbours: Map<string, string[]>,
+  adjacent: string[]
+): string[] {
+  const position = new Map(adjacent.map((nodeId, index) => [nodeId, index]));
+  return layer
+    .map((nodeId, index) => {
+      const linked = neighbours.get(nodeId)!;
+      const barycenter = linked.length > 0
+        ? linked.reduce((sum, other) => sum + position.get(other)!, 0) / linked.length
+        : index;
+      return { nodeId, index, barycenter };
+    })
+    .sort((a, b) => a.barycenter - b.barycenter || a.index - b.index)
+    .map(({ nodeId }) => nodeId);
+}
+
+/**
+ * Crossing minimization: alternate sweeps down and up the layers, keeping
+ * the ordering with the fewest crossings seen.
+ */
+function minimizeCrossings(graph: LayeredGraph): string[][] {
+  const layers = graph.layers.map((layer) => [...layer]);
+  let best = layers.map((layer) => [...layer]);
+  let bestCrossings = totalCrossings(layers, graph.successors);
+
+  for (let sweep = 0; sweep < LAYERED_CONFIG.ORDERING_SWEEPS && bestCrossings > 0; sweep++) {
+    if (sweep % 2 === 0) {
+      for (let index = 1; index < layers.length; index++) {
+        layers[index] = orderByBarycenter(layers[index], graph.predecessors, layers[index - 1]);
+      }
+    } else {
+      for (let index = layers.length - 2; index >= 0; index--) {
+        layers[index] = orderByBarycenter(layers[index], graph.successors, layers[index + 1]);
+      }
+    }
+
+    const crossings = totalCrossings(layers, graph.successors);
+    if (crossings < bestCrossings) {
+      bestCrossings = crossings;
+      best = layers.map((layer) => [...layer]);
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Centers along a layer as close to `desired` as the order and spacing
+ * allow: the average of packing from the left and packing from the right.
+ */
+function placeInOrder(desired: number[], separation: number[]): number[] {
+  const count = desired.length;
+  const fromLeft = [...desired];
+  const fromRight = [...desired];
+  for (let i = 1; i < count; i++) {
+    fromLeft[i] = Math.max(desired[i], fromLeft[i - 1] + separation[i - 1]);
+  }
+  for (let i = count - 2; i >= 0; i--) {
+    fromRight[i] = Math.min(desired[i], fromRight[i + 1] - separation[i]);
+  }
+  return desired.map((_, i) => (fromLeft[i] + fromRight[i]) / 2);
+}
+
+/**
+ * Coordinate assignment for an ordered component. `breadth` is a node's
+ * size along its layer and `depth` its size across it, so the same code
+ * serves both directions; positions come back as (along, across) centers.
+ */
+function assignCoordinates(
+  graph: LayeredGraph,
+  layers: string[][],
+  breadth: (nodeId: string) => number,
+  depth: (nodeId: string) => number
+): Map<string, Vector> {
+  // Minimum center-to-center distance between neighbours in a layer
+  const separations = layers.map((layer) =>
+    layer.slice(1).map((nodeId, i) => {
+      const previous = layer[i];
+      const gap = isDummy(previous) || isDummy(nodeId)
+        ? LAYERED_CONFIG.NODE_SPACING / 2
+        : LAYERED_CONFIG.NODE_SPACING;
+      return (breadth(previous) + breadth(nodeId)) / 2 + gap;
+    })
+  );
+
+  // Start packed tightly, centered on zero
+  const along = new Map<string, number>();
+  layers.forEach((layer, index) => {
+    const centers = [0];
+    for (let i = 1; i < layer.length; i++) {
+      centers.push(centers[i - 1] + separations[index][i - 1]);
+    }
+    const shift = centers[centers.length - 1] / 2;
+    layer.forEach((nodeId, i) => along.set(nodeId, centers[i] - shift));
+  });
+
+  // Pull each node toward its neighbours, alternating down and up
+  for (let pass = 0; pass < LAYERED_CONFIG.ALIGNMENT_PASSES; pass++) {
+    const downward = pass % 2 === 0;
+    const neighbours = downward ? graph.predecessors : graph.successors;
+    const order = downward ? layers.map((_, i) => i) : layers.map((_, i) => layers.length - 1 - i);
+
+    for (const index of order) {
+      const layer = layers[index];
+      const desired = layer.map((nodeId) => {
+        const linked = neighbours.get(nodeId)!;
+        if (linked.length === 0) return along.get(nodeId)!;
+        return linked.reduce((sum, other) => sum + along.get(other)!, 0) / linked.length;
+      });
+      const centers = placeInOrder(desired, separations[index]);
+      layer.forEach((nodeId, i) => along.set(nodeId, centers[i]));
+    }
+  }
+
+  // Layers stack across, each as deep as its deepest node
+  const positions = new Map<string, Vector>();
+  let across = 0;
+  for (const layer of layers) {
+    const layerDepth = Math.max(0, ...layer.map(depth));
+    for (const nodeId of layer) {
+      positions.set(nodeId, { x: along.get(nodeId)!, y: across + layerDepth / 2 });
+    }
+    across += layerDepth + LAYERED_CONFIG.LAYER_SPACING;
+  }
+
+  return positions;
+}
+
+/**
+ * Layered layout for one connected component, as top-left positions.
+ */
+function layerComponent(
+  nodeIds: string[],
+  edges: Edge[],
+  nodes: Record<string, Node>,
+  direction: LayoutDirection
+): Map<string, Vector> {
+  const acyclic = breakCycles(nodeIds, edges);
+  const layer = assignLayers(nodeIds, acyclic);
+  const graph = buildLayeredGraph(nodeIds, acyclic, layer);
+  const layers = minimizeCrossings(graph);
+
+  const topDown = direction === "top-down";
+  const size = (nodeId: string) =>
+    isDummy(nodeId) ? { width: 0, height: 0 } : nodes[nodeId];
+  const centers = assignCoordinates(
+    graph,
+    layers,
+    (nodeId) => (topDown ? size(nodeId).width : size(nodeId).height),
+    (nodeId) => (topDown ? size(nodeId).height : size(nodeId).width)
+  );
+
+  const positions = new Map<string, Vector>();
+  for (const nodeId of nodeIds) {
+    const center = centers.get(nodeId)!;
+    const node = nodes[nodeId];
+    positions.set(
+      nodeId,
+      topDown
+        ? { x: center.x - node.width / 2, y: center.y - node.height / 2 }
+        : { x: center.y - node.width / 2, y: center.x - node.height / 2 }
+    );
+  }
+  return positions;
+}
+
+/**
+ * Layered (Sugiyama-style) layout for DAG-like diagrams such as process
+ * pipelines: cycle breaking, longest-path layering, crossing minimization
+ * and coordinate assignment. Layers run top-down or left-right, and
+ * disconnected components sit side by side across the flow. This is a
+ * full rearrangement that ignores pins, so `computeLayout` only runs it
+ * when nothing is pinned.
+ *
+ * Deterministic like `autoLayout`: every choice is ordered by node ID.
+ */
+export function layeredLayout(
+  nodes: Record<string, Node>,
+  edges: Edge[],
+  direction: LayoutDirection = "top-down",
+  frames?: Record<string, Frame>
+): LayoutResult {
+  const place: PlaceNodes = (subset, subsetEdges) => layeredPositions(subset, subsetEdges, direction);
+  if (frames && Object.keys(frames).length > 0) {
+    return layoutFramed(nodes, edges, frames, place, false);
+  }
+  return toLayoutResult(place(nodes, edges), nodes);
+}
+
+function layeredPositions(
+  nodes: Record<string, Node>,
+  edges: Edge[],
+  direction: LayoutDirection
+): Map<string, Vector> {
+  const nodeIds = Object.keys(nodes);
+  if (nodeIds.length === 0) {
+    return new Map();
+  }
+
+  const topDown = direction === "top-down";
+  const allPositions = new Map<string, Vector>();
+  let offset = 0;
+
+  for (const component of findConnectedComponents(nodeIds, edges)) {
+    const positions = layerComponent(component, edges, nodes, direction);
+    reportProgress(component.length);
+    const bounds = getBoundingBox(positions, nodes);
+
+    // Components line up at the start of the flow, side by side across it
+    for (const [nodeId, pos] of positions) {
+      allPositions.set(
+        nodeId,
+        topDown
+          ? { x: pos.x - bounds.minX + offset, y: pos.y - bounds.minY }
+          : { x: pos.x - bounds.minX, y: pos.y - bounds.minY + offset }
+      );
+    }
+    offset += (topDown ? bounds.width : bounds.height) + LAYERED_CONFIG.COMPONENT_SPACING;
+  }
+
+  centerPositions(allPositions, nodes);
+  return allPositions;
+}
+
+// ============================================================================
+// FRAMES
+// ============================================================================
+
+/**
+ * The frame each stock belongs to: the smallest one it lies entirely
+ * within, as when a frame is dragged. Stocks outside every frame are left out.
+ */
+function assignFrames(
+  nodes: Record<string, Node>,
+  frames: Record<string, Frame>
+): Map<string, string> {
+  const memberOf = new Map<string, string>();
+  const frameIds = Object.keys(frames).sort();
+
+  for (const node of Object.values(nodes)) {
+    let smallest: Frame | undefined;
+    for (const frameId of frameIds) {
+      const frame = frames[frameId];
+      if (!rectContains(frame, node)) continue;
+      if (!smallest || frame.width * frame.height < smallest.width * smallest.height) {
+        smallest = frame;
+      }
+    }
+    if (smallest) memberOf.set(node.id, smallest.id);
+  }
+
+  return memberOf;
+}
+
+/**
+ * The frame around laid-out contents: padded, with room for the title,
+ * and no smaller than a frame can be drawn.
+ */
+function fitFrame(bounds: ReturnType<typeof getBoundingBox>): Rect {
+  const width = Math.max(bounds.width + FRAME_CONFIG.PADDING * 2, FRAME_CONFIG.MIN_WIDTH);
+  const height = Math.max(
+    bounds.height + FRAME_CONFIG.PADDING * 2 + FRAME_CONFIG.TITLE_HEIGHT,
+    FRAME_CONFIG.MIN_HEIGHT
+  );
+  return {
+    x: bounds.minX - (width - bounds.width) / 2,
+    y: bounds.minY - FRAME_CONFIG.TITLE_HEIGHT - (height - FRAME_CONFIG.TITLE_HEIGHT - bounds.height) / 2,
+    width,
+    height,
+  };
+}
+
+/**
+ * Push overlapping blocks apart as rigid rectangles, each pair along the
+ * axis it overlaps least on. Fixed blocks don't move; the other one moves
+ * the whole way instead.
+ */
+function removeOverlaps(
+  positions: Map<string, Vector>,
+  blocks: Record<string, Node>,
+  fixed: Set<string>
+): void {
+  const ids = [...positions.keys()].sort();
+
+  for (let pass = 0; pass < FRAME_CONFIG.OVERLAP_PASSES; pass++) {
+    let moved = false;
+
+    for (let i = 0; i < ids.length; i++) {
+      for (let j = i + 1; j < ids.length; j++) {
+        const [idA, idB] = [ids[i], ids[j]];
+        if (fixed.has(idA) && fixed.has(idB)) continue;
+
+        const a = { ...positions.get(idA)!, width: blocks[idA].width, height: blocks[idA].height };
+        const b = { ...positions.get(idB)!, width: blocks[idB].width, height: blocks[idB].height };
+        const gap = idA.startsWith(FRAME_PREFIX) || idB.startsWith(FRAME_PREFIX) ? FRAME_CONFIG.SPACING : 0;
+        const overlapX = Math.min(a.x + a.width, b.x + b.width) + gap - Math.max(a.x, b.x);
+        const overlapY = Math.min(a.y + a.height, b.y + b.height) + gap - Math.max(a.y, b.y);
+        if (overlapX <= 0 || overlapY <= 0) continue;
+
+        const shareA = fixed.has(idA) ? 0 : fixed.has(idB) ? 1 : 0.5;
+        const shareB = 1 - shareA;
+        const posA = positions.get(idA)!;
+        const posB = positions.get(idB)!;
+
+        if (overlapX < overlapY) {
+          // A moves toward the side it's already on
+          const sign = a.x + a.width / 2 <= b.x + b.width / 2 ? -1 : 1;
+          posA.x += sign * overlapX * shareA;
+          posB.x -= sign * overlapX * shareB;
+        } else {
+          const sign = a.y + a.height / 2 <= b.y + b.height / 2 ? -1 : 1;
+          posA.y += sign * overlapY * shareA;
+          posB.y -= sign * overlapY * shareB;
+        }
+        moved = true;
+      }
+    }
+
+    if (!moved) break;
+  }
+}
+
+/**
+ * Layout with frames as clusters. Each frame's stocks are laid out on
+ * their own and the frame is fitted around them. Then each frame becomes
+ * one rigid block, laid out along with the stocks outside frames, pulled by
+ * the edges between them; overlaps left between blocks are pushed apart.
+ * Stocks keep their place within their frame's block.
+ *
+ * With `keepPinned`, a frame holding a pinned stock is pinned too. Frames
+ * with no stocks in them are left as they are.
+ */
+function layoutFramed(
+  nodes: Record<string, Node>,
+  edges: Edge[],
+  frames: Record<string, Frame>,
+  place: PlaceNodes,
+  keepPinned: boolean
+): LayoutResult {
+  const memberOf = assignFrames(nodes, frames);
+  if (memberOf.size === 0) {
+    return toLayoutResult(place(nodes, edges), nodes);
+  }
+  const blockOf = (nodeId: string) =>
+    memberOf.has(nodeId) ? FRAME_PREFIX + memberOf.get(nodeId) : nodeId;
+
+  // Inside each frame
+  const blocks: Record<string, Node> = {};
+  const innerPositions = new Map<string, Vector>();
+  for (const frameId of Object.keys(frames).sort()) {
+    const memberIds = Object.keys(nodes).filter((nodeId) => memberOf.get(nodeId) === frameId);
+    if (memberIds.length === 0) continue;
+
+    const members = Object.fromEntries(memberIds.map((nodeId) => [nodeId, nodes[nodeId]]));
+    const inner = place(
+      members,
+      edges.filter((edge) => memberOf.get(edge.sourceId) === frameId && memberOf.get(edge.targetId) === frameId)
+    );
+    const rect = fitFrame(getBoundingBox(inner, nodes));
+    for (const [nodeId, pos] of inner) {
+      innerPositions.set(nodeId, pos);
+    }
+
+    const blockId = FRAME_PREFIX + frameId;
+    blocks[blockId] = {
+      id: blockId,
+      type: "stock",
+      label: frames[frameId].label,
+      ...rect,
+      pinned: keepPinned && memberIds.some((nodeId) => nodes[nodeId].pinned),
+    };
+  }
+
+  // Between frames and the stocks outside them
+  for (const node of Object.values(nodes)) {
+    if (!memberOf.has(node.id)) blocks[node.id] = node;
+  }
+  const blockEdges = edges.flatMap((edge) => {
+    const sourceId = blockOf(edge.sourceId);
+    const targetId = blockOf(edge.targetId);
+    return sourceId === targetId ? [] : [{ ...edge, sourceId, targetId }];
+  });
+
+  const outer = place(blocks, blockEdges);
+  const fixed = new Set(keepPinned ? Object.keys(blocks).filter((blockId) => blocks[blockId].pinned) : []);
+  removeOverlaps(outer, blocks, fixed);
+
+  const positions = new Map<string, Vector>();
+  const laidOutFrames: Record<string, LayoutNode> = {};
+  for (const [blockId, pos] of outer) {
+    if (!blockId.startsWith(FRAME_PREFIX)) {
+      positions.set(blockId, pos);
+      continue;
+    }
+    const frameId = blockId.slice(FRAME_PREFIX.length);
+    const block = blocks[blockId];
+    laidOutFrames[frameId] = { id: frameId, x: pos.x, y: pos.y, width: block.width, height: block.height };
+  }
+  // Stocks move by as much as their frame did, so pinned ones stay exactly put
+  for (const [nodeId, pos] of innerPositions) {
+    const blockId = FRAME_PREFIX + memberOf.get(nodeId);
+    const moved = outer.get(blockId)!;
+    positions.set(nodeId, {
+      x: pos.x + (moved.x - blocks[blockId].x),
+      y: pos.y + (moved.y - blocks[blockId].y),
+    });
+  }
+
+  return { ...toLayoutResult(positions, nodes), frames: laidOutFrames };
+}
+
 // ============================================================================
 // MAIN ENTRY POINT
 // ============================================================================
@@ -515,34 +1464,45 @@ function layoutIsolatedNodes(
  * - Repulsion forces between all nodes (electrical)
  * - Flow bias for edge direction (gentle downward preference)
  * - Deterministic initialization via node ID hashing
+ *
+ * Pinned nodes keep their positions and only the rest are placed, around
+ * them (see `layoutAroundPinned`). Stocks in frames are laid out together
+ * inside them (see `layoutFramed`).
  */
 export function autoLayout(
   nodes: Record<string, Node>,
   edges: Edge[],
-  config?: Partial<LayoutConfig>
+  config?: Partial<LayoutConfig>,
+  frames?: Record<string, Frame>
 ): LayoutResult {
   // Merge custom config with defaults
   activeConfig = { ...LAYOUT_CONFIG, ...config };
+
+  if (frames && Object.keys(frames).length > 0) {
+    return layoutFramed(nodes, edges, frames, forcePositions, true);
+  }
+  return toLayoutResult(forcePositions(nodes, edges), nodes);
+}
+
+function forcePositions(
+  nodes: Record<string, Node>,
+  edges: Edge[]
+): Map<string, Vector> {
   const nodeIds = Object.keys(nodes);
 
   if (nodeIds.length === 0) {
-    return { nodes: {} };
+    return new Map();
+  }
+
+  // Pinned nodes stay put; only the rest are placed
+  const pinned = new Set(nodeIds.filter((nodeId) => nodes[nodeId].pinned));
+  if (pinned.size > 0) {
+    return layoutAroundPinned(nodeIds, edges, nodes, pinned);
   }
 
   if (nodeIds.length === 1) {
-    const nodeId = nodeIds[0];
-    const node = nodes[nodeId];
-    return {
-      nodes: {
-        [nodeId]: {
-          id: nodeId,
-          x: -node.width / 2,
-          y: -node.height / 2,
-          width: node.width,
-          height: node.height,
-        },
-      },
-    };
+    const node = nodes[nodeIds[0]];
+    return new Map([[nodeIds[0], { x: -node.width / 2, y: -node.height / 2 }]]);
   }
 
   // Separate isolated nodes from connected nodes
@@ -604,20 +1564,33 @@ export function autoLayout(
   // Re-center after stretch
   centerPositions(allPositions, nodes);
 
-  // Build final result
-  const result: Record<string, LayoutNode> = {};
-  for (const [nodeId, pos] of allPositions) {
-    const node = nodes[nodeId];
-    result[nodeId] = {
-      id: nodeId,
-      x: pos.x,
-      y: pos.y,
-      width: node.width,
-      height: node.height,
-    };
-  }
+  return allPositions;
+}
 
-  return { nodes: result };
+/**
+ * Lay out with whichever mode `options` picks; the result goes to `applyLayout`.
+ * Layered mode would move pinned stocks, so with anything pinned it's
+ * force-directed instead. `onProgress` hears how far it's got as it goes
+ * (see lib/layout/layout.worker.ts).
+ */
+export function computeLayout(
+  nodes: Record<string, Node>,
+  edges: Edge[],
+  options: LayoutOptions,
+  frames?: Record<string, Frame>,
+  onProgress?: LayoutProgress
+): LayoutResult {
+  // Frames are placed as blocks too
+  const total = Object.keys(nodes).length + Object.keys(frames ?? {}).length;
+  progress = onProgress && total > 0 ? { report: onProgress, placed: 0, total } : null;
+  try {
+    const layered = options.mode === "layered" && !Object.values(nodes).some((node) => node.pinned);
+    return layered
+      ? layeredLayout(nodes, edges, options.direction, frames)
+      : autoLayout(nodes, edges, undefined, frames);
+  } finally {
+    progress = null;
+  }
 }
 
 /**
@@ -644,3 +1617,36 @@ export function applyLayout(
 
   return result;
 }
+
+/**
+ * Apply layout results to frames, moving the notes inside each frame along
+ * with it. Only frames and notes that change are returned.
+ */
+export function applyFrameLayout(
+  frames: Record<string, Frame>,
+  notes: Record<string, Note>,
+  layout: LayoutResult
+): { frames: Record<string, Frame>; notes: Record<string, Note> } {
+  const movedFrames: Record<string, Frame> = {};
+  const movedNotes: Record<string, Note> = {};
+
+  for (const [frameId, layoutFrame] of Object.entries(layout.frames ?? {})) {
+    const frame = frames[frameId];
+    if (!frame) continue;
+
+    const dx = layoutFrame.x - frame.x;
+    const dy = layoutFrame.y - frame.y;
+    for (const note of Object.values(notes)) {
+      if (!movedNotes[note.id] && rectContains(frame, note) && (dx !== 0 || dy !== 0)) {
+        movedNotes[note.id] = { ...note, x: note.x + dx, y: note.y + dy };
+      }
+    }
+
+    const { x, y, width, height } = layoutFrame;
+    if (x !== frame.x || y !== frame.y || width !== frame.width || height !== frame.height) {
+      movedFrames[frameId] = { ...frame, x, y, width, height };
+    }
+  }
+
+  return { frames: movedFrames, notes: movedNotes };
+}
@@ -605,6 +605,21 @@ function assignNodeSides(
   return { inSide: bestPair[0], outSide: bestPair[1] };
 }
 
+/**
+ * A plain curve from `sourceNode` to `targetNode`, ignoring everything else
+ * in the way: quick enough to draw an edge with until it's been routed.
+ */
+export function getStraightEdgeRoute(sourceNode: Node, targetNode: Node): EdgeRoute {
+  const { start, end } = getEdgeEndpoints(sourceNode, targetNode);
+  return {
+    start,
+    end,
+    ...getBezierControlPoints(start, end),
+    sourceSide: getBestSide(sourceNode, getNodeCenter(targetNode)),
+    targetSide: getBestSide(targetNode, getNodeCenter(sourceNode)),
+  };
+}
+
 /**
  * Calculate all edge routes with proper bezier curves that:
  * - Connect at the exact midpoint of each side
@@ -781,6 +796,28 @@ export function getCurvedEdgePath(
   return `M ${start.x} ${start.y} C ${c1.x} ${c1.y}, ${c2.x} ${c2.y}, ${end.x} ${end.y}`;
 }
 
+/**
+ * Point on a cubic bezier at parameter t (0 = start, 1 = end)
+ */
+export function getBezierPoint(start: Point, c1: Point, c2: Point, end: Point, t: number): Point {
+  const u = 1 - t;
+  return {
+    x: u ** 3 * start.x + 3 * u ** 2 * t * c1.x + 3 * u * t ** 2 * c2.x + t ** 3 * end.x,
+    y: u ** 3 * start.y + 3 * u ** 2 * t * c1.y + 3 * u * t ** 2 * c2.y + t ** 3 * end.y,
+  };
+}
+
+/**
+ * Unit tangent of a cubic bezier at parameter t
+ */
+export function getBezierTangent(start: Point, c1: Point, c2: Point, end: Point, t: number): Point {
+  const u = 1 - t;
+  const x = 3 * u ** 2 * (c1.x - start.x) + 6 * u * t * (c2.x - c1.x) + 3 * t ** 2 * (end.x - c2.x);
+  const y = 3 * u ** 2 * (c1.y - start.y) + 6 * u * t * (c2.y - c1.y) + 3 * t ** 2 * (end.y - c2.y);
+  const length = Math.sqrt(x * x + y * y) || 1;
+  return { x: x / length, y: y / length };
+}
+
 /**
  * Check if a point is inside a rectangle
  */
@@ -806,9 +843,22 @@ export function rectsIntersect(a: Rect, b: Rect): boolean {
 }
 
 /**
- * Get bounding box of multiple nodes
+ * Check if `inner` lies entirely within `outer`
+ */
+export function rectContains(outer: Rect, inner: Rect): boolean {
+  return (
+    inner.x >= outer.x &&
+    inner.y >= outer.y &&
+    inner.x + inner.width <= outer.x + outer.width &&
+    inner.y + inner.height <= outer.y + outer.height
+  );
+}
+
+/**
+ * Get bounding box of multiple nodes, or of anything else with a position
+ * and size
  */
-export function getNodesBoundingBox(nodes: Node[]): Rect | null {
+export function getNodesBoundingBox(nodes: Rect[]): Rect | null {
   if (nodes.length === 0) return null;
 
   let minX = Infinity;
@@ -0,0 +1,34 @@
+import { Edge, Frame, Node } from "@/lib/model/schema";
+import { LayoutOptions, LayoutResult } from "./autolayout";
+import { EdgeRoute } from "./geometry";
+
+/**
+ * Messages between the editor and lib/layout/layout.worker.ts, which runs
+ * auto layout and edge routing off the main thread. Every request has an
+ * `id` its answer repeats. The editor cancels a layout by terminating the
+ * worker running it.
+ */
+
+/** To the worker. */
+export type LayoutRequest =
+  /** Lay out a diagram as `computeLayout` does, reporting progress. */
+  | {
+      type: "layout";
+      id: number;
+      nodes: Record<string, Node>;
+      edges: Edge[];
+      options: LayoutOptions;
+      frames?: Record<string, Frame>;
+    }
+  /** Route edges as `calculateAllEdgeEndpoints` does. A later request supersedes any still waiting. */
+  | { type: "routes"; id: number; edges: Edge[]; nodes: Record<string, Node> };
+
+/** From the worker. */
+export type LayoutResponse =
+  /** How far a layout has got, from 0 to 1. */
+  | { type: "progress"; id: number; fraction: number }
+  | { type: "layout"; id: number; layout: LayoutResult }
+  | { type: "routes"; id: number; routes: Record<string, EdgeRoute> }
+  /** A routing request dropped for a newer one, which answers instead. */
+  | { type: "superseded"; id: number }
+  | { type: "error"; id: number; message: string };
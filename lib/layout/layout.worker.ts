@@ -0,0 +1,66 @@
+import { Edge, Node } from "@/lib/model/schema";
+import { computeLayout } from "./autolayout";
+import { calculateAllEdgeEndpoints } from "./geometry";
+import { LayoutRequest, LayoutResponse } from "./layout-messages";
+
+const worker = self as unknown as Worker;
+
+// Least time between progress reports
+const PROGRESS_MS = 50;
+
+// The newest routing request not yet answered
+let pendingRoutes: { id: number; edges: Edge[]; nodes: Record<string, Node> } | null = null;
+
+function post(message: LayoutResponse) {
+  worker.postMessage(message);
+}
+
+function failed(id: number, error: unknown) {
+  post({ type: "error", id, message: error instanceof Error ? error.message : String(error) });
+}
+
+/**
+ * Route the newest request once the messages that arrived while the last
+ * one was being worked out have all been read, so a drag's stale positions
+ * are skipped rather than queued.
+ */
+function routeLatest() {
+  if (!pendingRoutes) return;
+  const { id, edges, nodes } = pendingRoutes;
+  pendingRoutes = null;
+
+  try {
+    post({ type: "routes", id, routes: calculateAllEdgeEndpoints(edges, nodes) });
+  } catch (error) {
+    failed(id, error);
+  }
+}
+
+worker.addEventListener("message", (event: MessageEvent<LayoutRequest>) => {
+  const message = event.data;
+  switch (message.type) {
+    case "layout": {
+      let reportedAt = 0;
+      try {
+        const layout = computeLayout(message.nodes, message.edges, message.options, message.frames, (fraction) => {
+          const now = performance.now();
+          if (now - reportedAt < PROGRESS_MS) return;
+          reportedAt = now;
+          post({ type: "progress", id: message.id, fraction });
+        });
+        post({ type: "layout", id: message.id, layout });
+      } catch (error) {
+        failed(message.id, error);
+      }
+      break;
+    }
+    case "routes":
+      if (pendingRoutes) {
+        post({ type: "superseded", id: pendingRoutes.id });
+      } else {
+        setTimeout(routeLatest, 0);
+      }
+      pendingRoutes = { id: message.id, edges: message.edges, nodes: message.nodes };
+      break;
+  }
+});
@@ -0,0 +1,22 @@
+import { Edge, Node } from "@/lib/model/schema";
+import { Point } from "./geometry";
+
+/**
+ * Messages between the editor and lib/layout/physics.worker.ts, which runs
+ * live physics off the main thread while stocks are dragged. The editor
+ * stops a run by terminating the worker.
+ */
+
+/** To the worker. */
+export type PhysicsRequest =
+  /** Start from the diagram as it is, with everything at rest. */
+  | { type: "start"; nodes: Record<string, Node>; edges: Edge[] }
+  /** Stocks being dragged, and where to: stirs up what they're connected to. */
+  | { type: "hold"; positions: Record<string, Point> };
+
+/** From the worker. */
+export type PhysicsResponse =
+  /** Where the stocks the simulation moves are after a step. */
+  | { type: "positions"; positions: Record<string, Point> }
+  /** Nothing is visibly moving any more. A later hold starts it up again. */
+  | { type: "settled" };
@@ -0,0 +1,40 @@
+import { LiveSimulation, createLiveSimulation } from "./autolayout";
+import { PhysicsRequest, PhysicsResponse } from "./physics-messages";
+
+const worker = self as unknown as Worker;
+
+// Time between steps, about one a frame
+const STEP_MS = 16;
+
+let simulation: LiveSimulation | null = null;
+let timer: ReturnType<typeof setTimeout> | null = null;
+
+function post(message: PhysicsResponse) {
+  worker.postMessage(message);
+}
+
+function run() {
+  timer = null;
+  if (!simulation) return;
+
+  const moving = simulation.step();
+  post({ type: "positions", positions: simulation.positions() });
+  if (moving) {
+    timer = setTimeout(run, STEP_MS);
+  } else {
+    post({ type: "settled" });
+  }
+}
+
+worker.addEventListener("message", (event: MessageEvent<PhysicsRequest>) => {
+  const message = event.data;
+  switch (message.type) {
+    case "start":
+      simulation = createLiveSimulation(message.nodes, message.edges);
+      break;
+    case "hold":
+      simulation?.hold(message.positions);
+      if (timer === null) run();
+      break;
+  }
+});
@@ -0,0 +1,127 @@
+import { DiagramDoc, Edge, Node, DEFAULT_NODE_WIDTH, DEFAULT_NODE_HEIGHT } from "./schema";
+import { generateNodeId } from "./ids";
+import { getNodesBoundingBox } from "@/lib/layout/geometry";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface BoundaryFlow {
+  edge: Edge;
+  /** "in" when the flow enters the expanded stock, "out" when it leaves. */
+  direction: "in" | "out";
+  /** Label of the stock at the other end of the flow. */
+  label: string;
+}
+
+type Content = Pick<DiagramDoc, "nodes" | "edges">;
+
+const COLUMN_GAP = 120;
+const ROW_GAP = 40;
+
+// ============================================================================
+// BOUNDARY FLOWS
+// ============================================================================
+
+/**
+ * Flows in the parent diagram that cross the boundary of `stockId`, in edge
+ * ID order. Influence and relationship links aren't flows and are skipped.
+ */
+export function getBoundaryFlows(parent: Content, stockId: string): BoundaryFlow[] {
+  return Object.values(parent.edges)
+    .filter((edge) => !edge.kind || edge.kind === "flow")
+    .filter((edge) => edge.sourceId !== edge.targetId)
+    .filter((edge) => edge.sourceId === stockId || edge.targetId === stockId)
+    .sort((a, b) => a.id.localeCompare(b.id))
+    .map((edge) => {
+      const direction = edge.targetId === stockId ? "in" : "out";
+      const other = parent.nodes[direction === "in" ? edge.sourceId : edge.targetId];
+      return { edge, direction, label: other?.label || "Outside" };
+    });
+}
+
+// ============================================================================
+// SYNC
+// ============================================================================
+
+/**
+ * Bring a child diagram's boundary stocks in line with the flows crossing
+ * `stockId` in the parent: add one external stock per new flow, relabel
+ * existing ones, and remove those whose flow is gone (with their edges).
+ *
+ * New inflows are stacked in a column left of the child's own stocks and
+ * outflows to the right. Returns null when nothing changed.
+ */
+export function syncBoundaryStocks(child: Content, parent: Content, stockId: string): Content | null {
+  const flows = getBoundaryFlows(parent, stockId);
+  const flowsByEdge = new Map(flows.map((flow) => [flow.edge.id, flow]));
+
+  const nodes = { ...child.nodes };
+  const edges = { ...child.edges };
+  let changed = false;
+
+  // Remove boundary stocks whose parent flow no longer crosses the boundary
+  for (const node of Object.values(child.nodes)) {
+    if (!node.boundary) continue;
+    const flow = flowsByEdge.get(node.boundary.parentEdgeId);
+    if (flow && flow.direction === node.boundary.direction) continue;
+
+    delete nodes[node.id];
+    for (const edge of Object.values(child.edges)) {
+      if (edge.sourceId === node.id || edge.targetId === node.id) delete edges[edge.id];
+    }
+    changed = true;
+  }
+
+  const existing = new Map(
+    Object.values(nodes)
+      .filter((node) => node.boundary)
+      .map((node) => [node.boundary!.parentEdgeId, node])
+  );
+
+  // Relabel the rest
+  for (const node of existing.values()) {
+    const flow = flowsByEdge.get(node.boundary!.parentEdgeId)!;
+    if (node.label !== flow.label || node.kind !== "external") {
+      nodes[node.id] = { ...node, label: flow.label, kind: "external" };
+      changed = true;
+    }
+  }
+
+  // Add stocks for new flows
+  const missing = flows.filter((flow) => !existing.has(flow.edge.id));
+  if (missing.length > 0) {
+    const interior = getNodesBoundingBox(Object.values(nodes).filter((node) => !node.boundary)) ?? {
+      x: DEFAULT_NODE_WIDTH + COLUMN_GAP,
+      y: 0,
+      width: DEFAULT_NODE_WIDTH,
+      height: DEFAULT_NODE_HEIGHT,
+    };
+    const columnX = {
+      in: interior.x - DEFAULT_NODE_WIDTH - COLUMN_GAP,
+      out: interior.x + interior.width + COLUMN_GAP,
+    };
+    const rows = {
+      in: [...existing.values()].filter((node) => node.boundary!.direction === "in").length,
+      out: [...existing.values()].filter((node) => node.boundary!.direction === "out").length,
+    };
+
+    for (const flow of missing) {
+      const node: Node = {
+        id: generateNodeId(),
+        type: "stock",
+        kind: "external",
+        label: flow.label,
+        x: columnX[flow.direction],
+        y: interior.y + rows[flow.direction]++ * (DEFAULT_NODE_HEIGHT + ROW_GAP),
+        width: DEFAULT_NODE_WIDTH,
+        height: DEFAULT_NODE_HEIGHT,
+        boundary: { parentEdgeId: flow.edge.id, direction: flow.direction },
+      };
+      nodes[node.id] = node;
+    }
+    changed = true;
+  }
+
+  return changed ? { nodes, edges } : null;
+}
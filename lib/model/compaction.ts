@@ -0,0 +1,136 @@
+import { DiagramDoc, Edge, Node } from "./schema";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** What compacting a diagram would remove, for showing before doing it. */
+export interface CompactionChange {
+  /** Dotted path of the field removed from, e.g. `nodes.n1.attributes`. */
+  path: string;
+  description: string;
+}
+
+export interface CompactionResult {
+  doc: DiagramDoc;
+  changes: CompactionChange[];
+}
+
+// Property values are kept in element attributes under the property's ID,
+// alongside other attributes such as `simulation`
+const PROPERTY_ID_PREFIX = "prop_";
+
+// ============================================================================
+// DIAGRAMS
+// ============================================================================
+
+function describeElement(noun: string, element: Node | Edge): string {
+  return element.label ? `${noun} “${element.label}”` : noun;
+}
+
+/**
+ * Values of properties deleted from the schema, which `deleteProperty`
+ * leaves on every stock and flow that had one.
+ */
+function pruneStaleValues<T extends Node | Edge>(
+  collection: "nodes" | "edges",
+  elements: Record<string, T>,
+  propertyIds: Set<string>,
+  changes: CompactionChange[]
+): Record<string, T> | null {
+  let pruned: Record<string, T> | null = null;
+
+  for (const [id, element] of Object.entries(elements)) {
+    const attributes = element.attributes;
+    if (!attributes) continue;
+
+    const stale = Object.keys(attributes).filter(
+      (key) => key.startsWith(PROPERTY_ID_PREFIX) && !propertyIds.has(key)
+    );
+    if (stale.length === 0) continue;
+
+    const kept = Object.fromEntries(Object.entries(attributes).filter(([key]) => !stale.includes(key)));
+    pruned ??= { ...elements };
+    pruned[id] = { ...element, attributes: Object.keys(kept).length > 0 ? kept : undefined };
+    changes.push({
+      path: `${collection}.${id}.attributes`,
+      description: `Removed ${stale.length === 1 ? "a value" : `${stale.length} values`} of deleted properties from ${describeElement(collection === "nodes" ? "stock" : "flow", element)}`,
+    });
+  }
+
+  return pruned;
+}
+
+/**
+ * `doc` without what it stores for nothing: empty `frames` and `notes`
+ * maps, and values of deleted properties. Null if there's nothing to remove.
+ */
+export function compactDiagram(doc: DiagramDoc): CompactionResult | null {
+  const changes: CompactionChange[] = [];
+  const compacted: DiagramDoc = { ...doc };
+
+  for (const key of ["frames", "notes"] as const) {
+    const map = compacted[key];
+    if (map && Object.keys(map).length === 0) {
+      delete compacted[key];
+      changes.push({ path: key, description: `Removed the empty ${key} map` });
+    }
+  }
+
+  const propertyIds = new Set(doc.propertySchema?.properties.map((property) => property.id) ?? []);
+  const nodes = pruneStaleValues("nodes", doc.nodes, propertyIds, changes);
+  if (nodes) compacted.nodes = nodes;
+  const edges = pruneStaleValues("edges", doc.edges, propertyIds, changes);
+  if (edges) compacted.edges = edges;
+
+  return changes.length > 0 ? { doc: compacted, changes } : null;
+}
+
+// ============================================================================
+// ORPHANS
+// ============================================================================
+
+/**
+ * Child diagrams no longer reachable from their parent: the parent is
+ * gone, or its stock no longer drills down into them. Subsystems of an
+ * orphan are orphans too, and come before it, so the list can be deleted
+ * in order. Deleting a diagram normally detaches its children instead
+ * (see docs/subsystems.md), so these are left behind when that didn't
+ * happen, e.g. a backup restored without the parent.
+ *
+ * `knownIds` are every diagram there is, including ones that can't be read
+ * into `docs`, such as quarantined ones. A parent that's known but
+ * unreadable may yet be repaired, so its children aren't orphans.
+ */
+export function findOrphanedDiagrams(
+  docs: DiagramDoc[],
+  knownIds: Iterable<string> = docs.map((doc) => doc.id)
+): string[] {
+  const byId = new Map(docs.map((doc) => [doc.id, doc]));
+  const known = new Set(knownIds);
+  const orphans = new Set<string>();
+
+  const isOrphan = (doc: DiagramDoc, visiting: Set<string>): boolean => {
+    if (!doc.parent) return false;
+    if (orphans.has(doc.id)) return true;
+    if (visiting.has(doc.id)) return false;
+    visiting.add(doc.id);
+
+    const parent = byId.get(doc.parent.diagramId);
+    const orphaned = parent
+      ? parent.nodes[doc.parent.viaStockId]?.childDiagramId !== doc.id || isOrphan(parent, visiting)
+      : !known.has(doc.parent.diagramId);
+    if (orphaned) orphans.add(doc.id);
+    return orphaned;
+  };
+
+  const depth = (id: string, seen = new Set<string>()): number => {
+    const parentId = byId.get(id)?.parent?.diagramId;
+    if (!parentId || !orphans.has(parentId) || seen.has(id)) return 0;
+    seen.add(id);
+    return depth(parentId, seen) + 1;
+  };
+
+  for (const doc of docs) isOrphan(doc, new Set());
+  return [...orphans].sort((a, b) => depth(b) - depth(a));
+}
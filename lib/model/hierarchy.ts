@@ -0,0 +1,73 @@
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface HierarchyEntry {
+  id: string;
+  updatedAt: number;
+  parentId?: string;
+}
+
+export interface DiagramTreeNode<T extends HierarchyEntry> {
+  entry: T;
+  depth: number;
+  children: DiagramTreeNode<T>[];
+}
+
+// ============================================================================
+// TREE
+// ============================================================================
+
+/**
+ * Nest index entries under their parents, most recently updated first at
+ * every level. Entries whose parent is missing from the index are roots.
+ * Nothing is dropped, even from a corrupted index with a parent cycle.
+ */
+export function buildDiagramTree<T extends HierarchyEntry>(entries: T[]): DiagramTreeNode<T>[] {
+  const ids = new Set(entries.map((entry) => entry.id));
+  const childrenOf = new Map<string | undefined, T[]>();
+
+  for (const entry of entries) {
+    const parentId = entry.parentId && ids.has(entry.parentId) ? entry.parentId : undefined;
+    childrenOf.set(parentId, [...(childrenOf.get(parentId) ?? []), entry]);
+  }
+
+  const visited = new Set<string>();
+  const build = (parentId: string | undefined, depth: number): DiagramTreeNode<T>[] =>
+    (childrenOf.get(parentId) ?? [])
+      .filter((entry) => !visited.has(entry.id))
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .map((entry) => {
+        visited.add(entry.id);
+        return { entry, depth, children: build(entry.id, depth + 1) };
+      });
+
+  const roots = build(undefined, 0);
+
+  // Entries caught in a cycle have no path to a root; list them as roots
+  for (const entry of [...entries].sort((a, b) => b.updatedAt - a.updatedAt)) {
+    if (visited.has(entry.id)) continue;
+    visited.add(entry.id);
+    roots.push({ entry, depth: 0, children: build(entry.id, 1) });
+  }
+
+  return roots;
+}
+
+/**
+ * True when `id` is `ancestorId` or lies somewhere beneath it.
+ */
+export function isDescendant(
+  index: Record<string, HierarchyEntry>,
+  id: string,
+  ancestorId: string
+): boolean {
+  const seen = new Set<string>();
+  let current: string | undefined = id;
+  while (current && !seen.has(current)) {
+    if (current === ancestorId) return true;
+    seen.add(current);
+    current = index[current]?.parentId;
+  }
+  return false;
+}
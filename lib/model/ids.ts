@@ -31,3 +31,11 @@ export function generatePropertyId(): string {
 export function generateOptionId(): string {
   return `opt_${nanoid(8)}`;
 }
+
+export function generateAuxiliaryId(): string {
+  return `aux_${nanoid(12)}`;
+}
+
+export function generateSnapshotId(): string {
+  return `snap_${nanoid(12)}`;
+}
@@ -0,0 +1,163 @@
+import { z } from "zod";
+import {
+  DiagramDoc,
+  DiagramDocSchema,
+  UserPrefs,
+  UserPrefsSchema,
+  DIAGRAM_VERSION,
+  PREFS_VERSION,
+} from "./schema";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type Data = Record<string, unknown>;
+
+/**
+ * One step up the version ladder: turns data at version `from` into data at
+ * `from + 1`. Migrations receive plain JSON and must not mutate it.
+ */
+export interface Migration {
+  from: number;
+  description: string;
+  up: (data: Data) => Data;
+}
+
+export type MigrationResult<T> =
+  | { ok: true; value: T; fromVersion: number }
+  | { ok: false; error: string; issues: z.ZodIssue[]; fromVersion?: number };
+
+// ============================================================================
+// MIGRATIONS
+// ============================================================================
+
+/** Diagram migrations, in order. Add one whenever `DIAGRAM_VERSION` goes up. */
+export const DIAGRAM_MIGRATIONS: Migration[] = [
+  {
+    from: 0,
+    description: "Version diagrams saved before documents were versioned",
+    up: (data) => {
+      const timestamp = typeof data.updatedAt === "number" ? data.updatedAt : Date.now();
+      return {
+        ...data,
+        version: 1,
+        createdAt: data.createdAt ?? timestamp,
+        updatedAt: timestamp,
+        nodes: data.nodes ?? {},
+        edges: data.edges ?? {},
+      };
+    },
+  },
+];
+
+/** Preference migrations, in order. Add one whenever `PREFS_VERSION` goes up. */
+export const PREFS_MIGRATIONS: Migration[] = [
+  {
+    from: 0,
+    description: "Version preferences saved before they were versioned",
+    up: (data) => ({ ...data, version: 1, theme: data.theme ?? {}, grid: data.grid ?? {} }),
+  },
+];
+
+// ============================================================================
+// PIPELINE
+// ============================================================================
+
+function isData(value: unknown): value is Data {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Upgrade `data` one migration at a time to `version`, then validate it.
+ * Data without a version is treated as version 0. Data from a newer version
+ * of the app, or with no migration path, is rejected rather than guessed at.
+ */
+export function runMigrations<T>(
+  data: unknown,
+  {
+    migrations,
+    schema,
+    version,
+  }: { migrations: Migration[]; schema: z.ZodType<T, z.ZodTypeDef, unknown>; version: number }
+): MigrationResult<T> {
+  if (!isData(data)) return { ok: false, error: "Not a JSON object", issues: [] };
+
+  const fromVersion = typeof data.version === "number" ? data.version : 0;
+  if (fromVersion > version) {
+    return {
+      ok: false,
+      error: `Saved by a newer version of the app (version ${fromVersion}, this one reads up to ${version})`,
+      issues: [],
+      fromVersion,
+    };
+  }
+
+  let current: Data = data;
+  for (let v = fromVersion; v < version; v++) {
+    const migration = migrations.find((m) => m.from === v);
+    if (!migration) {
+      return { ok: false, error: `No migration from version ${v}`, issues: [], fromVersion };
+    }
+    try {
+      current = migration.up(current);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { ok: false, error: `Migration from version ${v} failed: ${message}`, issues: [], fromVersion };
+    }
+  }
+
+  const parsed = schema.safeParse(current);
+  if (!parsed.success) return invalid(parsed.error.issues, fromVersion);
+
+  return { ok: true, value: parsed.data, fromVersion };
+}
+
+function invalid(issues: z.ZodIssue[], fromVersion: number): MigrationResult<never> {
+  const [first] = issues;
+  const where = first.path.length > 0 ? `${first.path.join(".")}: ` : "";
+  const more = issues.length > 1 ? ` (and ${issues.length - 1} more)` : "";
+  return { ok: false, error: `${where}${first.message}${more}`, issues, fromVersion };
+}
+
+/**
+ * References between elements of a valid diagram that lead nowhere, as
+ * validation issues. The schema can't express these.
+ */
+export function findBrokenReferences(doc: DiagramDoc): z.ZodIssue[] {
+  const issues: z.ZodIssue[] = [];
+  for (const [id, edge] of Object.entries(doc.edges)) {
+    for (const end of ["sourceId", "targetId"] as const) {
+      if (!doc.nodes[edge[end]]) {
+        issues.push({
+          code: z.ZodIssueCode.custom,
+          path: ["edges", id, end],
+          message: `No stock with ID "${edge[end]}"`,
+        });
+      }
+    }
+  }
+  return issues;
+}
+
+/**
+ * A diagram from storage, a file or a backup, upgraded to the current version.
+ */
+export function migrateDiagram(data: unknown): MigrationResult<DiagramDoc> {
+  const result = runMigrations(data, {
+    migrations: DIAGRAM_MIGRATIONS,
+    schema: DiagramDocSchema,
+    version: DIAGRAM_VERSION,
+  });
+  if (!result.ok) return result;
+
+  const broken = findBrokenReferences(result.value);
+  return broken.length > 0 ? invalid(broken, result.fromVersion) : result;
+}
+
+/**
+ * Preferences from storage or a backup, upgraded to the current version.
+ */
+export function migratePrefs(data: unknown): MigrationResult<UserPrefs> {
+  return runMigrations(data, { migrations: PREFS_MIGRATIONS, schema: UserPrefsSchema, version: PREFS_VERSION });
+}
@@ -0,0 +1,249 @@
+import { z } from "zod";
+import {
+  DiagramDoc,
+  DiagramDocSchema,
+  EdgeSchema,
+  FrameSchema,
+  NodeSchema,
+  NoteSchema,
+  PropertyDefinitionSchema,
+  PropertyOptionSchema,
+  ViewportSchema,
+  DEFAULT_VIEWPORT,
+  DIAGRAM_VERSION,
+} from "./schema";
+import { DIAGRAM_MIGRATIONS, runMigrations } from "./migrations";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type Data = Record<string, unknown>;
+
+/** One change made to get a diagram to validate. */
+export interface RepairFix {
+  /** Dotted path of the field or element changed, e.g. `edges.e1`. */
+  path: string;
+  description: string;
+}
+
+export type RepairResult =
+  | { ok: true; doc: DiagramDoc; fixes: RepairFix[] }
+  | { ok: false; error: string };
+
+const COLLECTIONS = [
+  { key: "nodes", schema: NodeSchema, noun: "stock", required: true },
+  { key: "edges", schema: EdgeSchema, noun: "flow", required: true },
+  { key: "frames", schema: FrameSchema, noun: "frame", required: false },
+  { key: "notes", schema: NoteSchema, noun: "note", required: false },
+] as const;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function isData(value: unknown): value is Data {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function describeValue(value: unknown): string {
+  return typeof value === "string" || typeof value === "number" || typeof value === "boolean"
+    ? ` ${JSON.stringify(value)}`
+    : "";
+}
+
+function describeElement(noun: string, element: Data): string {
+  const name = typeof element.label === "string" && element.label ? element.label : element.id;
+  return typeof name === "string" && name ? `${noun} “${name}”` : noun;
+}
+
+/**
+ * `value` with the optional fields `schema` rejects removed, or null if a
+ * required field is what's wrong.
+ */
+function stripInvalidFields(
+  value: Data,
+  schema: z.AnyZodObject,
+  path: string[],
+  fixes: RepairFix[]
+): { value: Data } | { error: string } {
+  const current = { ...value };
+
+  for (;;) {
+    const parsed = schema.safeParse(current);
+    if (parsed.success) return { value: current };
+
+    const optional = new Set<string>();
+    for (const issue of parsed.error.issues) {
+      const [key] = issue.path;
+      if (typeof key !== "string" || !(key in current)) continue;
+      if (schema.shape[key]?.isOptional()) {
+        optional.add(key);
+      } else {
+        return { error: `${issue.path.join(".")}: ${issue.message}` };
+      }
+    }
+    if (optional.size === 0) {
+      const [issue] = parsed.error.issues;
+      return { error: `${issue.path.join(".")}: ${issue.message}` };
+    }
+
+    for (const key of optional) {
+      fixes.push({ path: [...path, key].join("."), description: `Removed invalid ${key}${describeValue(current[key])}` });
+      delete current[key];
+    }
+  }
+}
+
+// ============================================================================
+// REPAIRS
+// ============================================================================
+
+function repairViewport(doc: Data, fixes: RepairFix[]) {
+  if (doc.viewport === undefined || ViewportSchema.safeParse(doc.viewport).success) return;
+
+  const viewport = isData(doc.viewport) ? doc.viewport : {};
+  const { x, y, zoom } = viewport;
+  if (typeof x === "number" && typeof y === "number" && typeof zoom === "number" && Number.isFinite(zoom)) {
+    const { minValue, maxValue } = ViewportSchema.shape.zoom;
+    const clamped = Math.min(Math.max(zoom, minValue ?? zoom), maxValue ?? zoom);
+    doc.viewport = { x, y, zoom: clamped };
+    fixes.push({ path: "viewport.zoom", description: `Changed zoom ${zoom} to ${clamped}` });
+  } else {
+    doc.viewport = DEFAULT_VIEWPORT;
+    fixes.push({ path: "viewport", description: "Reset the view" });
+  }
+}
+
+function repairCollections(doc: Data, fixes: RepairFix[]) {
+  for (const { key, schema, noun, required } of COLLECTIONS) {
+    if (doc[key] === undefined && !required) continue;
+    if (!isData(doc[key])) {
+      fixes.push({ path: key, description: `Replaced invalid ${key} with none` });
+      doc[key] = {};
+      continue;
+    }
+
+    const elements: Data = {};
+    for (const [id, element] of Object.entries(doc[key])) {
+      if (!isData(element)) {
+        fixes.push({ path: `${key}.${id}`, description: `Removed invalid ${noun}` });
+        continue;
+      }
+
+      const keyed = element.id === id ? element : { ...element, id };
+      if (keyed !== element) {
+        fixes.push({ path: `${key}.${id}.id`, description: `Changed ID${describeValue(element.id)} to match its key` });
+      }
+
+      const result = stripInvalidFields(keyed, schema, [key, id], fixes);
+      if ("error" in result) {
+        fixes.push({ path: `${key}.${id}`, description: `Removed ${describeElement(noun, keyed)} (${result.error})` });
+      } else {
+        elements[id] = result.value;
+      }
+    }
+    doc[key] = elements;
+  }
+}
+
+/** Drop flows whose stocks are gone. Runs after stocks are repaired. */
+function repairReferences(doc: Data, fixes: RepairFix[]) {
+  const nodes = doc.nodes as Data;
+  const edges: Data = {};
+
+  for (const [id, edge] of Object.entries(doc.edges as Record<string, Data>)) {
+    const missing = [edge.sourceId, edge.targetId].find((end) => !nodes[end as string]);
+    if (missing === undefined) {
+      edges[id] = edge;
+    } else {
+      fixes.push({
+        path: `edges.${id}`,
+        description: `Removed ${describeElement("flow", edge)} (no stock with ID "${missing}")`,
+      });
+    }
+  }
+  doc.edges = edges;
+}
+
+/** Keep property definitions whose options are all that's wrong. */
+function repairPropertySchema(doc: Data, fixes: RepairFix[]) {
+  const schema = doc.propertySchema;
+  if (!isData(schema) || !Array.isArray(schema.properties)) return;
+
+  const properties: unknown[] = [];
+  schema.properties.forEach((property: unknown, i) => {
+    const path = ["propertySchema", "properties", String(i)];
+    if (!isData(property) || !isData(property.propertyType)) {
+      fixes.push({ path: path.join("."), description: "Removed invalid property" });
+      return;
+    }
+
+    const { options } = property.propertyType;
+    const repaired = Array.isArray(options)
+      ? {
+          ...property,
+          propertyType: {
+            ...property.propertyType,
+            options: options.flatMap((option: unknown, j) => {
+              if (!isData(option)) return [];
+              const result = stripInvalidFields(option, PropertyOptionSchema, [...path, "options", String(j)], fixes);
+              return "error" in result ? [] : [result.value];
+            }),
+          },
+        }
+      : property;
+
+    if (PropertyDefinitionSchema.safeParse(repaired).success) {
+      properties.push(repaired);
+    } else {
+      const name = typeof property.name === "string" ? ` “${property.name}”` : "";
+      fixes.push({ path: path.join("."), description: `Removed invalid property${name}` });
+    }
+  });
+  doc.propertySchema = { ...schema, properties };
+}
+
+/**
+ * Make stored diagram data valid, changing as little as possible: invalid
+ * optional fields are removed, out-of-range zoom is clamped, and elements
+ * that can't be fixed are dropped along with flows that lead to them. Each
+ * change is listed. Fails only on data that isn't a diagram at all, or that
+ * comes from a newer version of the app.
+ */
+export function repairDiagram(data: unknown, id: string): RepairResult {
+  const upgraded = runMigrations(data, {
+    migrations: DIAGRAM_MIGRATIONS,
+    schema: z.record(z.unknown()),
+    version: DIAGRAM_VERSION,
+  });
+  if (!upgraded.ok) return { ok: false, error: upgraded.error };
+
+  const doc: Data = { ...upgraded.value, version: DIAGRAM_VERSION };
+  const fixes: RepairFix[] = [];
+
+  if (doc.id !== id) {
+    fixes.push({ path: "id", description: `Changed ID${describeValue(doc.id)} to ${id}` });
+    doc.id = id;
+  }
+  if (typeof doc.title !== "string") {
+    fixes.push({ path: "title", description: "Named it “Untitled system”" });
+    doc.title = "Untitled system";
+  }
+  for (const key of ["createdAt", "updatedAt"]) {
+    if (typeof doc[key] !== "number") {
+      fixes.push({ path: key, description: `Set ${key} to now` });
+      doc[key] = Date.now();
+    }
+  }
+
+  repairViewport(doc, fixes);
+  repairCollections(doc, fixes);
+  repairReferences(doc, fixes);
+  repairPropertySchema(doc, fixes);
+
+  const result = stripInvalidFields(doc, DiagramDocSchema, [], fixes);
+  if ("error" in result) return { ok: false, error: result.error };
+
+  return { ok: true, doc: DiagramDocSchema.parse(result.value), fixes };
+}
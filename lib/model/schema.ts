@@ -1,5 +1,10 @@
 import { z } from "zod";
 
+// Current versions of stored documents. Raising one needs a migration to
+// match in lib/model/migrations.ts
+export const DIAGRAM_VERSION = 1;
+export const PREFS_VERSION = 1;
+
 // Viewport schema
 export const ViewportSchema = z.object({
   x: z.number(),
@@ -98,6 +103,15 @@ export const COLOR_PALETTE: Record<string, { fill: string; stroke: string; text:
   pink: { fill: "#FBF2F5", stroke: "#B35588", text: "#AD1A72" },
 };
 
+// Boundary link: an external stock in a child diagram that mirrors a flow
+// entering ("in") or leaving ("out") the parent stock it was expanded from
+export const BoundarySchema = z.object({
+  parentEdgeId: z.string(),
+  direction: z.enum(["in", "out"]),
+});
+
+export type Boundary = z.infer<typeof BoundarySchema>;
+
 // Node schema
 export const NodeSchema = z.object({
   id: z.string(),
@@ -110,6 +124,9 @@ export const NodeSchema = z.object({
   height: z.number(),
   color: ColorSchema,
   childDiagramId: z.string().optional(),
+  boundary: BoundarySchema.optional(),
+  // Left where it is by auto layout: pinned from the context menu, or by dragging it
+  pinned: z.boolean().optional(),
   tags: z.array(z.string()).optional(),
   attributes: z.record(z.any()).optional(),
   ontology: OntologySchema.optional(),
@@ -129,6 +146,10 @@ export const EdgeSchema = z.object({
   curve: CurveSchema.optional(),
   directionality: z.enum(["directed", "undirected"]).optional(),
   relationshipType: z.string().optional(),
+  // Causal link polarity; unset means unknown
+  polarity: z.enum(["positive", "negative"]).optional(),
+  // Marks a causal link whose effect takes time to appear
+  delay: z.boolean().optional(),
   tags: z.array(z.string()).optional(),
   attributes: z.record(z.any()).optional(),
 });
@@ -165,10 +186,52 @@ export const DiagramUISchema = z.object({
   themeOverride: z.record(z.any()).optional(),
   hasRunInitialAutoLayout: z.boolean().optional(),
   hasManualLayoutEdits: z.boolean().optional(),
+  // How auto layout last arranged the diagram (see docs/auto-layout.md)
+  layoutMode: z.enum(["force", "layered"]).optional(),
+  layoutDirection: z.enum(["top-down", "left-right"]).optional(),
 });
 
 export type DiagramUI = z.infer<typeof DiagramUISchema>;
 
+// Simulation attributes for a stock (stored under node.attributes.simulation)
+export const StockSimulationSchema = z.object({
+  initialValue: z.number(),
+  nonNegative: z.boolean().optional(),
+  unit: z.string().optional(),
+});
+
+export type StockSimulation = z.infer<typeof StockSimulationSchema>;
+
+// Simulation attributes for a flow (stored under edge.attributes.simulation)
+export const FlowSimulationSchema = z.object({
+  rate: z.string(),
+  unit: z.string().optional(),
+});
+
+export type FlowSimulation = z.infer<typeof FlowSimulationSchema>;
+
+// Named helper equation that flows and other auxiliaries can reference
+export const AuxiliarySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  equation: z.string(),
+  unit: z.string().optional(),
+});
+
+export type Auxiliary = z.infer<typeof AuxiliarySchema>;
+
+// Integration settings and model-level equations per diagram
+export const SimulationSettingsSchema = z.object({
+  method: z.enum(["euler", "rk4"]),
+  dt: z.number().positive(),
+  startTime: z.number(),
+  horizon: z.number().positive(),
+  timeUnit: z.string().optional(),
+  auxiliaries: z.array(AuxiliarySchema).optional(),
+});
+
+export type SimulationSettings = z.infer<typeof SimulationSettingsSchema>;
+
 // Parent reference for drill-down
 export const ParentRefSchema = z.object({
   diagramId: z.string(),
@@ -179,7 +242,7 @@ export type ParentRef = z.infer<typeof ParentRefSchema>;
 
 // Full diagram document
 export const DiagramDocSchema = z.object({
-  version: z.literal(1),
+  version: z.literal(DIAGRAM_VERSION),
   id: z.string(),
   title: z.string(),
   createdAt: z.number(),
@@ -192,6 +255,9 @@ export const DiagramDocSchema = z.object({
   frames: z.record(FrameSchema).optional(),
   notes: z.record(NoteSchema).optional(),
   propertySchema: DiagramPropertySchemaSchema.optional(),
+  simulation: SimulationSettingsSchema.optional(),
+  // Custom feedback loop names, keyed by loop key (see lib/analysis/loops.ts)
+  loopNames: z.record(z.string()).optional(),
 });
 
 export type DiagramDoc = z.infer<typeof DiagramDocSchema>;
@@ -209,13 +275,17 @@ export const GridStyleSchema = z.enum(["lines", "dotted", "none"]);
 export type GridStyle = z.infer<typeof GridStyleSchema>;
 
 export const UserPrefsSchema = z.object({
-  version: z.literal(1),
+  version: z.literal(PREFS_VERSION),
   theme: ThemePrefsSchema,
   labelModeDefault: z.enum(["hover", "always"]).default("hover"),
   grid: z.object({
     style: GridStyleSchema.default("lines"),
   }),
   sidebarCollapsed: z.boolean().optional(),
+  /** Diagrams whose subtree is collapsed in the sidebar. */
+  collapsedDiagramIds: z.array(z.string()).optional(),
+  /** Sync server to keep systems in step with (see server/sync-server.mjs). */
+  syncServerUrl: z.string().url().optional(),
 });
 
 export type UserPrefs = z.infer<typeof UserPrefsSchema>;
@@ -227,10 +297,65 @@ export const DiagramIndexEntrySchema = z.object({
   updatedAt: z.number(),
   isRoot: z.boolean().optional(),
   pinned: z.boolean().optional(),
+  parentId: z.string().optional(),
+  stockCount: z.number().optional(),
+  /** Why the diagram couldn't be opened, while its stored data is kept as is. */
+  quarantine: z.string().optional(),
 });
 
 export type DiagramIndexEntry = z.infer<typeof DiagramIndexEntrySchema>;
 
+// Named version of a diagram, saved on request
+export const SnapshotSchema = z.object({
+  id: z.string(),
+  diagramId: z.string(),
+  name: z.string(),
+  createdAt: z.number(),
+  doc: DiagramDocSchema,
+});
+
+export type Snapshot = z.infer<typeof SnapshotSchema>;
+
+// Undo history persisted per diagram (see lib/history/patches.ts)
+export const PatchSchema = z.object({
+  path: z.array(z.string()),
+  value: z.unknown().optional(),
+});
+
+export const HistoryStepSchema = z.object({
+  label: z.string(),
+  patches: z.array(PatchSchema),
+  inversePatches: z.array(PatchSchema),
+  timestamp: z.number(),
+});
+
+export const StoredHistorySchema = z.object({
+  // The diagram's updatedAt when saved; history for any other version is stale
+  diagramUpdatedAt: z.number(),
+  steps: z.array(HistoryStepSchema),
+  index: z.number().int().min(-1),
+});
+
+export type StoredHistory = z.infer<typeof StoredHistorySchema>;
+
+// Diagram as stored: a CRDT document of registers (see lib/sync/crdt.ts)
+export const StampSchema = z.object({
+  clock: z.number(),
+  peer: z.string(),
+});
+
+export const RegisterSchema = z.object({
+  path: z.array(z.string()),
+  value: z.unknown().optional(),
+  stamp: StampSchema,
+});
+
+export const CrdtDocSchema = z.object({
+  format: z.literal("crdt"),
+  clock: z.number(),
+  registers: z.record(RegisterSchema),
+});
+
 // Default values
 export const DEFAULT_NODE_WIDTH = 160;
 export const DEFAULT_NODE_HEIGHT = 48;
@@ -241,8 +366,15 @@ export const DEFAULT_VIEWPORT: Viewport = {
   zoom: 1,
 };
 
+export const DEFAULT_SIMULATION_SETTINGS: SimulationSettings = {
+  method: "euler",
+  dt: 0.25,
+  startTime: 0,
+  horizon: 100,
+};
+
 export const DEFAULT_USER_PREFS: UserPrefs = {
-  version: 1,
+  version: PREFS_VERSION,
   theme: {
     fontFamily: "inter",
     accent: "mono",
@@ -0,0 +1,170 @@
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type MarkdownInline =
+  | { type: "text"; text: string }
+  | { type: "strong"; children: MarkdownInline[] }
+  | { type: "emphasis"; children: MarkdownInline[] }
+  | { type: "code"; text: string }
+  | { type: "link"; href: string; children: MarkdownInline[] }
+  | { type: "break" };
+
+export type MarkdownBlock =
+  | { type: "heading"; level: 1 | 2 | 3; children: MarkdownInline[] }
+  | { type: "paragraph"; children: MarkdownInline[] }
+  | { type: "list"; ordered: boolean; items: MarkdownInline[][] };
+
+// ============================================================================
+// INLINE
+// ============================================================================
+
+const LINK_PATTERN = /^\[([^\]]+)\]\(([^)\s]+)\)/;
+const SAFE_HREF = /^(https?:|mailto:)/i;
+const ESCAPABLE = "\\`*_[]()#-";
+
+/**
+ * Parse inline markup: **strong**, *emphasis* or _emphasis_, `code`,
+ * [links](https://…) and backslash escapes. Unmatched markers are literal.
+ */
+export function parseInline(source: string): MarkdownInline[] {
+  const result: MarkdownInline[] = [];
+  let text = "";
+
+  const flush = () => {
+    if (text) result.push({ type: "text", text });
+    text = "";
+  };
+
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (ch === "\\" && i + 1 < source.length && ESCAPABLE.includes(source[i + 1])) {
+      text += source[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (ch === "`") {
+      const close = source.indexOf("`", i + 1);
+      if (close > i + 1) {
+        flush();
+        result.push({ type: "code", text: source.slice(i + 1, close) });
+        i = close + 1;
+        continue;
+      }
+    }
+
+    if (source.startsWith("**", i)) {
+      const close = source.indexOf("**", i + 2);
+      if (close > i + 2) {
+        flush();
+        result.push({ type: "strong", children: parseInline(source.slice(i + 2, close)) });
+        i = close + 2;
+        continue;
+      }
+    }
+
+    if ((ch === "*" || ch === "_") && source[i + 1] !== " ") {
+      const close = source.indexOf(ch, i + 1);
+      if (close > i + 1) {
+        flush();
+        result.push({ type: "emphasis", children: parseInline(source.slice(i + 1, close)) });
+        i = close + 1;
+        continue;
+      }
+    }
+
+    if (ch === "[") {
+      const match = LINK_PATTERN.exec(source.slice(i));
+      if (match && SAFE_HREF.test(match[2])) {
+        flush();
+        result.push({ type: "link", href: match[2], children: parseInline(match[1]) });
+        i += match[0].length;
+        continue;
+      }
+    }
+
+    text += ch;
+    i++;
+  }
+
+  flush();
+  return result;
+}
+
+// ============================================================================
+// BLOCKS
+// ============================================================================
+
+const HEADING_PATTERN = /^(#{1,3})\s+(.*)$/;
+const BULLET_PATTERN = /^\s*[-*]\s+(.*)$/;
+const ORDERED_PATTERN = /^\s*\d+[.)]\s+(.*)$/;
+
+/**
+ * Parse the small markdown subset used by sticky notes: headings (# to ###),
+ * bulleted and numbered lists, and paragraphs. Line breaks inside a
+ * paragraph are kept, since notes are usually written line by line.
+ */
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let paragraph: string[] = [];
+  let list: { ordered: boolean; items: MarkdownInline[][] } | null = null;
+
+  const flushParagraph = () => {
+    if (paragraph.length === 0) return;
+    const children: MarkdownInline[] = [];
+    paragraph.forEach((line, index) => {
+      if (index > 0) children.push({ type: "break" });
+      children.push(...parseInline(line));
+    });
+    blocks.push({ type: "paragraph", children });
+    paragraph = [];
+  };
+
+  const flushList = () => {
+    if (!list) return;
+    blocks.push({ type: "list", ...list });
+    list = null;
+  };
+
+  for (const line of source.replace(/\r\n?/g, "\n").split("\n")) {
+    if (!line.trim()) {
+      flushParagraph();
+      flushList();
+      continue;
+    }
+
+    const heading = HEADING_PATTERN.exec(line);
+    if (heading) {
+      flushParagraph();
+      flushList();
+      blocks.push({
+        type: "heading",
+        level: heading[1].length as 1 | 2 | 3,
+        children: parseInline(heading[2]),
+      });
+      continue;
+    }
+
+    const bullet = BULLET_PATTERN.exec(line);
+    const ordered = bullet ? null : ORDERED_PATTERN.exec(line);
+    const item = bullet ?? ordered;
+    if (item) {
+      flushParagraph();
+      const isOrdered = ordered !== null;
+      if (list && list.ordered !== isOrdered) flushList();
+      if (!list) list = { ordered: isOrdered, items: [] };
+      list.items.push(parseInline(item[1]));
+      continue;
+    }
+
+    flushList();
+    paragraph.push(line);
+  }
+
+  flushParagraph();
+  flushList();
+  return blocks;
+}
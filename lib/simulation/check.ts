@@ -0,0 +1,373 @@
+import { DiagramDoc, Edge, DEFAULT_SIMULATION_SETTINGS } from "@/lib/model/schema";
+import {
+  Expr,
+  BUILTINS,
+  isComparison,
+  parseEquation,
+  collectReferences,
+} from "./equation";
+import {
+  Unit,
+  DIMENSIONLESS,
+  parseUnit,
+  formatUnit,
+  multiplyUnits,
+  powerUnit,
+  unitsEqual,
+} from "./units";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface EquationDiagnostic {
+  /** Errors block simulation; warnings are advisory. */
+  severity: "error" | "warning";
+  message: string;
+  start: number;
+  end: number;
+}
+
+/** Everything an equation may refer to. */
+export interface EquationScope {
+  stocks: { id: string; label: string; unit: Unit | null }[];
+  auxiliaries: { id: string; name: string; unit: Unit | null; expr: Expr | null }[];
+  timeUnit: Unit | null;
+}
+
+export interface CheckOptions {
+  /**
+   * For flow rates: stocks the flow is allowed to depend on. References to
+   * any other stock produce a warning.
+   */
+  connectedStockIds?: Set<string>;
+  /** Units the whole equation should evaluate to. */
+  expectedUnit?: Unit | null;
+  /** For auxiliaries: the auxiliary being checked, used to detect cycles. */
+  auxiliaryId?: string;
+}
+
+export interface EquationCheck {
+  expr: Expr | null;
+  diagnostics: EquationDiagnostic[];
+}
+
+export type ResolvedName =
+  | { kind: "time" }
+  | { kind: "auxiliary"; id: string }
+  | { kind: "stock"; id: string }
+  | { kind: "error"; message: string };
+
+/** Identifier that resolves to the current simulation time. */
+export const TIME_IDENTIFIER = "time";
+
+// ============================================================================
+// SCOPE
+// ============================================================================
+
+function readUnit(text: unknown): Unit | null {
+  return typeof text === "string" && text.trim() ? parseUnit(text) : null;
+}
+
+/**
+ * Build the equation scope for a diagram.
+ */
+export function createEquationScope(
+  doc: Pick<DiagramDoc, "nodes" | "simulation">
+): EquationScope {
+  const settings = { ...DEFAULT_SIMULATION_SETTINGS, ...doc.simulation };
+
+  return {
+    stocks: Object.values(doc.nodes).map((node) => ({
+      id: node.id,
+      label: node.label,
+      unit: readUnit(node.attributes?.simulation?.unit),
+    })),
+    auxiliaries: (settings.auxiliaries ?? []).map((aux) => {
+      const parsed = parseEquation(aux.equation);
+      return {
+        id: aux.id,
+        name: aux.name,
+        unit: readUnit(aux.unit),
+        expr: parsed.success ? parsed.expr : null,
+      };
+    }),
+    timeUnit: readUnit(settings.timeUnit),
+  };
+}
+
+/**
+ * Build a name lookup for a scope.
+ * `time` wins, then auxiliary names, then stock IDs, then stock labels
+ * (all case-insensitive except IDs).
+ */
+export function createNameResolver(scope: EquationScope): (name: string) => ResolvedName {
+  const auxByName = new Map<string, string>();
+  for (const aux of scope.auxiliaries) {
+    auxByName.set(aux.name.trim().toLowerCase(), aux.id);
+  }
+
+  const stockById = new Map(scope.stocks.map((s) => [s.id, s]));
+  const stocksByLabel = new Map<string, string[]>();
+  for (const stock of scope.stocks) {
+    const key = stock.label.trim().toLowerCase();
+    if (!key) continue;
+    stocksByLabel.set(key, [...(stocksByLabel.get(key) ?? []), stock.id]);
+  }
+
+  return (name: string) => {
+    const key = name.trim().toLowerCase();
+    if (key === TIME_IDENTIFIER) return { kind: "time" };
+
+    const auxId = auxByName.get(key);
+    if (auxId) return { kind: "auxiliary", id: auxId };
+
+    if (stockById.has(name)) return { kind: "stock", id: name };
+
+    const matches = stocksByLabel.get(key) ?? [];
+    if (matches.length === 1) return { kind: "stock", id: matches[0] };
+    if (matches.length > 1) {
+      return { kind: "error", message: `'${name}' matches ${matches.length} stocks; use the stock ID` };
+    }
+    return { kind: "error", message: `Unknown identifier '${name}'` };
+  };
+}
+
+/**
+ * Stocks a flow may read without a warning: its own endpoints, plus any
+ * stock linked to one of them by another edge (e.g. an influence arrow).
+ */
+export function getConnectedStockIds(
+  edge: Pick<Edge, "id" | "sourceId" | "targetId">,
+  edges: Record<string, Edge>
+): Set<string> {
+  const endpoints = new Set([edge.sourceId, edge.targetId]);
+  const connected = new Set(endpoints);
+  for (const other of Object.values(edges)) {
+    if (other.id === edge.id) continue;
+    if (endpoints.has(other.sourceId)) connected.add(other.targetId);
+    if (endpoints.has(other.targetId)) connected.add(other.sourceId);
+  }
+  return connected;
+}
+
+// ============================================================================
+// CHECKING
+// ============================================================================
+
+/**
+ * Find a path of auxiliary references from `fromId` back to `targetId`.
+ * Returns the auxiliary IDs along the path, or null if there is none.
+ */
+function findAuxiliaryPath(
+  fromId: string,
+  targetId: string,
+  scope: EquationScope,
+  resolve: (name: string) => ResolvedName,
+  visited: Set<string> = new Set()
+): string[] | null {
+  if (fromId === targetId) return [fromId];
+  if (visited.has(fromId)) return null;
+  visited.add(fromId);
+
+  const aux = scope.auxiliaries.find((a) => a.id === fromId);
+  if (!aux?.expr) return null;
+
+  for (const ref of collectReferences(aux.expr)) {
+    const resolved = resolve(ref.name);
+    if (resolved.kind !== "auxiliary") continue;
+    const path = findAuxiliaryPath(resolved.id, targetId, scope, resolve, visited);
+    if (path) return [fromId, ...path];
+  }
+  return null;
+}
+
+/**
+ * Check an equation against a scope: syntax, identifiers, function calls,
+ * connectivity, auxiliary cycles and units.
+ */
+export function checkEquation(
+  source: string,
+  scope: EquationScope,
+  options: CheckOptions = {}
+): EquationCheck {
+  const parsed = parseEquation(source);
+  if (!parsed.success) {
+    return { expr: null, diagnostics: [{ severity: "error", ...parsed.error }] };
+  }
+
+  const expr = parsed.expr;
+  const diagnostics: EquationDiagnostic[] = [];
+  const resolve = createNameResolver(scope);
+  const auxNames = new Map(scope.auxiliaries.map((a) => [a.id, a.name]));
+
+  const error = (message: string, span: { start: number; end: number }) =>
+    diagnostics.push({ severity: "error", message, start: span.start, end: span.end });
+  const warning = (message: string, span: { start: number; end: number }) =>
+    diagnostics.push({ severity: "warning", message, start: span.start, end: span.end });
+
+  // Returns the expression's unit, or null when it can't be determined
+  // (e.g. a literal without a unit annotation). Unknown units never warn.
+  const visit = (node: Expr): Unit | null => {
+    switch (node.type) {
+      case "number": {
+        if (node.unit === undefined) return null;
+        const unit = parseUnit(node.unit);
+        if (!unit) error(`Invalid unit '${node.unit}'`, node);
+        return unit;
+      }
+
+      case "ref": {
+        const resolved = resolve(node.name);
+        switch (resolved.kind) {
+          case "time":
+            return scope.timeUnit;
+          case "error":
+            error(resolved.message, node);
+            return null;
+          case "stock": {
+            if (options.connectedStockIds && !options.connectedStockIds.has(resolved.id)) {
+              warning(`'${node.name}' is not connected to this flow`, node);
+            }
+            return scope.stocks.find((s) => s.id === resolved.id)?.unit ?? null;
+          }
+          case "auxiliary": {
+            if (options.auxiliaryId) {
+              const path = findAuxiliaryPath(resolved.id, options.auxiliaryId, scope, resolve);
+              if (path) {
+                const names = [options.auxiliaryId, ...path].map((id) => auxNames.get(id) ?? id);
+                error(`Circular definition: ${names.join(" → ")}`, node);
+              }
+            }
+            return scope.auxiliaries.find((a) => a.id === resolved.id)?.unit ?? null;
+          }
+        }
+      }
+
+      case "unary":
+        return visit(node.operand);
+
+      case "binary": {
+        const left = visit(node.left);
+        const right = visit(node.right);
+
+        if (node.op === "+" || node.op === "-" || isComparison(node.op)) {
+          if (left && right && !unitsEqual(left, right)) {
+            const verb = isComparison(node.op) ? "compare" : node.op === "+" ? "add" : "subtract";
+            warning(`Cannot ${verb} ${formatUnit(left)} and ${formatUnit(right)}`, node);
+          }
+          return isComparison(node.op) ? DIMENSIONLESS : left ?? right;
+        }
+
+        if (node.op === "^") {
+          if (!left) return null;
+          if (node.right.type === "number" && Number.isInteger(node.right.value)) {
+            return powerUnit(left, node.right.value);
+          }
+          if (!unitsEqual(left, DIMENSIONLESS)) {
+            warning(`Exponent must be a whole number to raise ${formatUnit(left)}`, node.right);
+          }
+          return left;
+        }
+
+        if (!left || !right) return null;
+        return multiplyUnits(left, right, node.op === "/" ? -1 : 1);
+      }
+
+      case "call":
+        return visitCall(node);
+    }
+  };
+
+  const visitCall = (node: Extract<Expr, { type: "call" }>): Unit | null => {
+    const args = node.args.map(visit);
+    const name = node.name.toLowerCase();
+    const spec = BUILTINS[name];
+    const nameSpan = { start: node.start, end: node.nameEnd };
+
+    if (!spec) {
+      error(`Unknown function '${node.name}'`, nameSpan);
+      return null;
+    }
+    if (args.length < spec.minArgs || args.length > spec.maxArgs) {
+      error(`Expected ${spec.signature}`, node);
+      return null;
+    }
+
+    // Arguments that must share a unit, and the unit the call evaluates to
+    const sameUnit = (indices: number[]): Unit | null => {
+      let first: Unit | null = null;
+      for (const i of indices) {
+        const unit = args[i];
+        if (!unit) continue;
+        if (first && !unitsEqual(first, unit)) {
+          warning(`Expected ${formatUnit(first)}, got ${formatUnit(unit)}`, node.args[i]);
+        }
+        first ??= unit;
+      }
+      return first;
+    };
+
+    switch (name) {
+      case "min":
+      case "max":
+        return sameUnit(args.map((_, i) => i));
+      case "abs":
+        return args[0];
+      case "if":
+        return sameUnit([1, 2]);
+      case "delay":
+      case "smooth": {
+        const timeArg = args[1];
+        if (timeArg && scope.timeUnit && !unitsEqual(timeArg, scope.timeUnit)) {
+          warning(`Expected ${formatUnit(scope.timeUnit)}, got ${formatUnit(timeArg)}`, node.args[1]);
+        }
+        return sameUnit(args.length > 2 ? [0, 2] : [0]);
+      }
+    }
+    return null;
+  };
+
+  const unit = visit(expr);
+  if (unit && options.expectedUnit && !unitsEqual(unit, options.expectedUnit)) {
+    warning(
+      `Equation has units ${formatUnit(unit)}, expected ${formatUnit(options.expectedUnit)}`,
+      expr
+    );
+  }
+
+  return { expr, diagnostics };
+}
+
+/**
+ * The units a flow's rate should have: its declared unit, or its stocks'
+ * unit per time unit.
+ */
+export function getExpectedFlowUnit(
+  edge: Pick<Edge, "sourceId" | "targetId" | "attributes">,
+  scope: EquationScope
+): Unit | null {
+  const declared = readUnit(edge.attributes?.simulation?.unit);
+  if (declared) return declared;
+  if (!scope.timeUnit) return null;
+
+  const stockUnit =
+    scope.stocks.find((s) => s.id === edge.sourceId)?.unit ??
+    scope.stocks.find((s) => s.id === edge.targetId)?.unit;
+  return stockUnit ? multiplyUnits(stockUnit, scope.timeUnit, -1) : null;
+}
+
+/**
+ * Check a flow's rate equation with everything derived from the diagram.
+ */
+export function checkFlowEquation(
+  source: string,
+  edge: Edge,
+  doc: Pick<DiagramDoc, "nodes" | "edges" | "simulation">,
+  scope: EquationScope = createEquationScope(doc)
+): EquationCheck {
+  return checkEquation(source, scope, {
+    connectedStockIds: getConnectedStockIds(edge, doc.edges),
+    expectedUnit: getExpectedFlowUnit(edge, scope),
+  });
+}
@@ -0,0 +1,28 @@
+import { SimulationResult } from "./engine";
+
+export interface CsvColumn {
+  id: string;
+  label: string;
+  kind: "stock" | "flow";
+}
+
+function escapeCsv(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Serialize a run as CSV: one row per time step, a `time` column, then one
+ * column per stock and flow in the order given.
+ */
+export function simulationResultToCsv(result: SimulationResult, columns: CsvColumn[]): string {
+  const series = columns.map((column) =>
+    column.kind === "stock" ? result.stocks[column.id] : result.flows[column.id]
+  );
+
+  const header = ["time", ...columns.map((column) => column.label || column.id)];
+  const rows = result.times.map((time, i) =>
+    [time, ...series.map((values) => values?.[i] ?? "")].map(String)
+  );
+
+  return [header, ...rows].map((row) => row.map(escapeCsv).join(",")).join("\n") + "\n";
+}
@@ -0,0 +1,469 @@
+import {
+  DiagramDoc,
+  Node,
+  Edge,
+  SimulationSettings,
+  SimulationSettingsSchema,
+  StockSimulationSchema,
+  FlowSimulationSchema,
+  DEFAULT_SIMULATION_SETTINGS,
+} from "@/lib/model/schema";
+import { Expr, CompileContext, compileEquation } from "./equation";
+import {
+  EquationDiagnostic,
+  EquationScope,
+  createEquationScope,
+  createNameResolver,
+  checkEquation,
+  checkFlowEquation,
+  TIME_IDENTIFIER,
+} from "./check";
+import { parseUnit } from "./units";
+
+// Runs longer than this would hold up the editor and fill memory with samples
+export const MAX_SIMULATION_STEPS = 100_000;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SimulationStock {
+  id: string;
+  label: string;
+  initialValue: number;
+  nonNegative: boolean;
+  /** External stocks are clouds: infinite sources/sinks held at their initial value. */
+  external: boolean;
+}
+
+export interface SimulationFlow {
+  id: string;
+  label: string;
+  sourceId: string;
+  targetId: string;
+  rate: Expr;
+}
+
+export interface SimulationAuxiliary {
+  id: string;
+  name: string;
+  equation: Expr;
+}
+
+export interface SimulationModel {
+  stocks: SimulationStock[];
+  flows: SimulationFlow[];
+  auxiliaries: SimulationAuxiliary[];
+}
+
+export interface SimulationIssue {
+  /** The element's ID, or "settings" for the run's settings. */
+  elementId: string;
+  elementType: "stock" | "flow" | "auxiliary" | "settings";
+  /** Errors prevent the run; warnings are reported alongside the result. */
+  severity: "error" | "warning";
+  message: string;
+  /** Character range in the equation, when the issue comes from one. */
+  start?: number;
+  end?: number;
+}
+
+export interface SimulationResult {
+  settings: SimulationSettings;
+  times: number[];
+  /** Stock values over time, keyed by stock ID. */
+  stocks: Record<string, number[]>;
+  /** Flow rates over time, keyed by edge ID. */
+  flows: Record<string, number[]>;
+}
+
+export type SimulationRun =
+  | { success: true; result: SimulationResult; issues: SimulationIssue[] }
+  | { success: false; issues: SimulationIssue[] };
+
+// ============================================================================
+// MODEL CONSTRUCTION
+// ============================================================================
+
+function toIssues(
+  elementId: string,
+  elementType: SimulationIssue["elementType"],
+  diagnostics: EquationDiagnostic[]
+): SimulationIssue[] {
+  return diagnostics.map((d) => ({ elementId, elementType, ...d }));
+}
+
+/**
+ * Read a stock's simulation attributes.
+ * Stocks without attributes start at zero.
+ */
+function readStock(node: Node, issues: SimulationIssue[]): SimulationStock {
+  const raw = node.attributes?.simulation;
+  const stock: SimulationStock = {
+    id: node.id,
+    label: node.label,
+    initialValue: 0,
+    nonNegative: false,
+    external: node.kind === "external",
+  };
+
+  if (raw === undefined) return stock;
+
+  const parsed = StockSimulationSchema.safeParse(raw);
+  if (!parsed.success) {
+    issues.push({
+      elementId: node.id,
+      elementType: "stock",
+      severity: "error",
+      message: `Invalid simulation attributes: ${parsed.error.issues[0]?.message ?? "unknown error"}`,
+    });
+    return stock;
+  }
+
+  if (parsed.data.unit && !parseUnit(parsed.data.unit)) {
+    issues.push({
+      elementId: node.id,
+      elementType: "stock",
+      severity: "warning",
+      message: `Invalid unit '${parsed.data.unit}'`,
+    });
+  }
+
+  stock.initialValue = parsed.data.initialValue;
+  stock.nonNegative = parsed.data.nonNegative ?? false;
+  return stock;
+}
+
+/**
+ * Read and check a flow's rate equation.
+ * Flows without attributes carry nothing (rate 0).
+ */
+function readFlow(
+  edge: Edge,
+  doc: Pick<DiagramDoc, "nodes" | "edges" | "simulation">,
+  scope: EquationScope,
+  issues: SimulationIssue[]
+): SimulationFlow | null {
+  const raw = edge.attributes?.simulation;
+  const base = {
+    id: edge.id,
+    label: edge.label,
+    sourceId: edge.sourceId,
+    targetId: edge.targetId,
+  };
+
+  if (raw === undefined) {
+    return { ...base, rate: { type: "number", value: 0, start: 0, end: 0 } };
+  }
+
+  const parsed = FlowSimulationSchema.safeParse(raw);
+  if (!parsed.success) {
+    issues.push({
+      elementId: edge.id,
+      elementType: "flow",
+      severity: "error",
+      message: `Invalid simulation attributes: ${parsed.error.issues[0]?.message ?? "unknown error"}`,
+    });
+    return null;
+  }
+
+  const check = checkFlowEquation(parsed.data.rate, edge, doc, scope);
+  const flowIssues = toIssues(edge.id, "flow", check.diagnostics);
+  issues.push(...flowIssues);
+
+  if (!check.expr || flowIssues.some((i) => i.severity === "error")) return null;
+  return { ...base, rate: check.expr };
+}
+
+/**
+ * Validate a diagram's simulation attributes and equations and build a
+ * model from them.
+ */
+export function buildSimulationModel(
+  doc: Pick<DiagramDoc, "nodes" | "edges" | "simulation">
+): { model: SimulationModel; issues: SimulationIssue[] } {
+  const issues: SimulationIssue[] = [];
+  const scope = createEquationScope(doc);
+
+  const stocks = Object.values(doc.nodes)
+    .sort((a, b) => a.id.localeCompare(b.id))
+    .map((node) => readStock(node, issues));
+
+  const auxiliaries: SimulationAuxiliary[] = [];
+  const seenNames = new Set<string>();
+  for (const aux of doc.simulation?.auxiliaries ?? []) {
+    const key = aux.name.trim().toLowerCase();
+    if (!key || key === TIME_IDENTIFIER || seenNames.has(key)) {
+      issues.push({
+        elementId: aux.id,
+        elementType: "auxiliary",
+        severity: "error",
+        message: !key ? "Auxiliary needs a name" : `The name '${aux.name}' is already in use`,
+      });
+      continue;
+    }
+    seenNames.add(key);
+
+    const check = checkEquation(aux.equation, scope, {
+      auxiliaryId: aux.id,
+      expectedUnit: aux.unit ? parseUnit(aux.unit) : null,
+    });
+    const auxIssues = toIssues(aux.id, "auxiliary", check.diagnostics);
+    issues.push(...auxIssues);
+
+    if (check.expr && !auxIssues.some((i) => i.severity === "error")) {
+      auxiliaries.push({ id: aux.id, name: aux.name, equation: check.expr });
+    }
+  }
+
+  const flows: SimulationFlow[] = [];
+  for (const edge of Object.values(doc.edges).sort((a, b) => a.id.localeCompare(b.id))) {
+    if (!doc.nodes[edge.sourceId] || !doc.nodes[edge.targetId]) continue;
+    if (edge.kind && edge.kind !== "flow") continue;
+
+    const flow = readFlow(edge, doc, scope, issues);
+    if (flow) flows.push(flow);
+  }
+
+  return { model: { stocks, flows, auxiliaries }, issues };
+}
+
+// ============================================================================
+// INTEGRATION
+// ============================================================================
+
+/**
+ * Integrate a model over time.
+ *
+ * Each flow moves material from its source stock to its target stock at the
+ * rate given by its equation. Euler takes one derivative sample per step;
+ * RK4 takes four and is far more accurate for the same dt on smooth models.
+ *
+ * `smooth()` calls add hidden states that are integrated with the stocks;
+ * `delay()` calls record their input at every step and interpolate from it.
+ *
+ * It stops after MAX_SIMULATION_STEPS steps whatever the horizon;
+ * `runSimulation` refuses such runs instead.
+ */
+export function simulate(
+  model: SimulationModel,
+  settings: SimulationSettings = DEFAULT_SIMULATION_SETTINGS
+): SimulationResult {
+  const { dt, startTime, method } = settings;
+  const stockCount = model.stocks.length;
+  const indexById = new Map(model.stocks.map((s, i) => [s.id, i]));
+  const resolveName = createNameResolver({
+    stocks: model.stocks.map((s) => ({ id: s.id, label: s.label, unit: null })),
+    auxiliaries: model.auxiliaries.map((a) => ({ id: a.id, name: a.name, unit: null, expr: a.equation })),
+    timeUnit: null,
+  });
+
+  // Evaluation context shared by every compiled equation. The state vector
+  // holds the stocks followed by hidden smoothing states.
+  let values: number[] = [];
+  let time = startTime;
+
+  const states: { initial: () => number; derivative: (value: number) => number }[] = [];
+  const histories: {
+    input: () => number;
+    initial: () => number;
+    initialValue: number;
+    times: number[];
+    values: number[];
+  }[] = [];
+  const compiledAuxiliaries = new Map<string, () => number>();
+
+  const context: CompileContext = {
+    resolve: (name) => {
+      const resolved = resolveName(name);
+      switch (resolved.kind) {
+        case "time":
+          return () => time;
+        case "stock": {
+          const index = indexById.get(resolved.id)!;
+          return () => values[index];
+        }
+        case "auxiliary":
+          // Looked up lazily so auxiliaries can reference each other in any order
+          return () => compiledAuxiliaries.get(resolved.id)!();
+        default:
+          return () => 0;
+      }
+    },
+    addState: (initial, derivative) => {
+      const index = stockCount + states.length;
+      states.push({ initial, derivative });
+      return () => values[index];
+    },
+    addHistory: (input, initial) => {
+      const history = { input, initial, initialValue: 0, times: [] as number[], values: [] as number[] };
+      histories.push(history);
+      return (delay) => {
+        if (delay <= 0) return input();
+        const target = time - delay;
+        if (target < startTime) return history.initialValue;
+        return interpolate(history.times, history.values, target);
+      };
+    },
+  };
+
+  for (const aux of model.auxiliaries) {
+    compiledAuxiliaries.set(aux.id, compileEquation(aux.equation, context));
+  }
+  const compiledRates = model.flows.map((flow) => compileEquation(flow.rate, context));
+
+  const sourceIndex = model.flows.map((f) => indexById.get(f.sourceId)!);
+  const targetIndex = model.flows.map((f) => indexById.get(f.targetId)!);
+  const held = model.stocks.map((s) => s.external);
+
+  // Evaluate all flow rates and the resulting derivatives at (t, y)
+  const rates: number[] = new Array(model.flows.length).fill(0);
+  const derivative = (t: number, y: number[]): number[] => {
+    values = y;
+    time = t;
+    const dy: number[] = new Array(y.length).fill(0);
+    for (let f = 0; f < compiledRates.length; f++) {
+      const rate = compiledRates[f]();
+      rates[f] = rate;
+      if (!held[sourceIndex[f]]) dy[sourceIndex[f]] -= rate;
+      if (!held[targetIndex[f]]) dy[targetIndex[f]] += rate;
+    }
+    for (let k = 0; k < states.length; k++) {
+      dy[stockCount + k] = states[k].derivative(y[stockCount + k]);
+    }
+    return dy;
+  };
+
+  const axpy = (y: number[], a: number, x: number[]): number[] =>
+    y.map((value, i) => value + a * x[i]);
+
+  // Initial state: stocks first, then hidden states in creation order so a
+  // smooth of a smooth sees its input's initial value
+  let y = model.stocks.map((s) => s.initialValue);
+  values = y;
+  for (const state of states) {
+    y.push(state.initial());
+  }
+  for (const history of histories) {
+    history.initialValue = history.initial();
+  }
+
+  const steps = Math.min(simulationSteps(settings), MAX_SIMULATION_STEPS);
+  const times: number[] = [];
+  const stockSeries = model.stocks.map(() => [] as number[]);
+  const flowSeries = model.flows.map(() => [] as number[]);
+
+  for (let step = 0; step <= steps; step++) {
+    const t = startTime + step * dt;
+
+    // Sample flows at the current state so the series line up with stock values
+    const k1 = derivative(t, y);
+    times.push(t);
+    for (let i = 0; i < stockCount; i++) stockSeries[i].push(y[i]);
+    for (let f = 0; f < rates.length; f++) flowSeries[f].push(rates[f]);
+    for (const history of histories) {
+      history.times.push(t);
+      history.values.push(history.input());
+    }
+
+    if (step === steps) break;
+
+    if (method === "rk4") {
+      const k2 = derivative(t + dt / 2, axpy(y, dt / 2, k1));
+      const k3 = derivative(t + dt / 2, axpy(y, dt / 2, k2));
+      const k4 = derivative(t + dt, axpy(y, dt, k3));
+      y = y.map((value, i) => value + (dt / 6) * (k1[i] + 2 * k2[i] + 2 * k3[i] + k4[i]));
+    } else {
+      y = axpy(y, dt, k1);
+    }
+
+    for (let i = 0; i < stockCount; i++) {
+      if (model.stocks[i].nonNegative && y[i] < 0) y[i] = 0;
+    }
+  }
+
+  const result: SimulationResult = { settings, times, stocks: {}, flows: {} };
+  model.stocks.forEach((stock, i) => {
+    result.stocks[stock.id] = stockSeries[i];
+  });
+  model.flows.forEach((flow, f) => {
+    result.flows[flow.id] = flowSeries[f];
+  });
+  return result;
+}
+
+/**
+ * Linearly interpolate a recorded series at time `t`. Times past the last
+ * sample return the last value.
+ */
+function interpolate(times: number[], values: number[], t: number): number {
+  let lo = 0;
+  let hi = times.length - 1;
+  if (hi < 0) return 0;
+  if (t >= times[hi]) return values[hi];
+
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (times[mid] <= t) lo = mid;
+    else hi = mid;
+  }
+
+  const span = times[hi] - times[lo];
+  const fraction = span > 0 ? (t - times[lo]) / span : 0;
+  return values[lo] + fraction * (values[hi] - values[lo]);
+}
+
+// ============================================================================
+// MAIN ENTRY POINT
+// ============================================================================
+
+/**
+ * How many steps of `dt` a run over `horizon` takes.
+ */
+export function simulationSteps({ dt, horizon }: Pick<SimulationSettings, "dt" | "horizon">): number {
+  return Math.max(0, Math.round(horizon / dt));
+}
+
+/**
+ * Validate and simulate a diagram using its stored settings, with any
+ * `overrides` on top. Settings that don't pass SimulationSettingsSchema,
+ * and runs of more than MAX_SIMULATION_STEPS steps, are refused with an
+ * issue on the settings.
+ */
+export function runSimulation(
+  doc: Pick<DiagramDoc, "nodes" | "edges" | "simulation">,
+  overrides?: Partial<SimulationSettings>
+): SimulationRun {
+  const { model, issues } = buildSimulationModel(doc);
+  const settings = { ...DEFAULT_SIMULATION_SETTINGS, ...doc.simulation, ...overrides };
+
+  const parsed = SimulationSettingsSchema.safeParse(settings);
+  if (!parsed.success) {
+    for (const { path, message } of parsed.error.issues) {
+      issues.push({
+        elementId: "settings",
+        elementType: "settings",
+        severity: "error",
+        message: `Invalid ${path.join(".") || "settings"}: ${message}`,
+      });
+    }
+    return { success: false, issues };
+  }
+
+  const steps = simulationSteps(settings);
+  if (steps > MAX_SIMULATION_STEPS) {
+    issues.push({
+      elementId: "settings",
+      elementType: "settings",
+      severity: "error",
+      message:
+        `A horizon of ${settings.horizon} at dt ${settings.dt} takes ${steps.toLocaleString("en-US")} steps, ` +
+        `more than the ${MAX_SIMULATION_STEPS.toLocaleString("en-US")} allowed. Increase dt or shorten the horizon`,
+    });
+  }
+
+  if (issues.some((issue) => issue.severity === "error")) {
+    return { success: false, issues };
+  }
+  return { success: true, result: simulate(model, settings), issues };
+}
@@ -0,0 +1,442 @@
+// ============================================================================
+// EQUATION LANGUAGE
+// ============================================================================
+// Flow rates and auxiliaries are written as small expressions:
+//
+//   0.1 {1/month} * Population
+//   min([Water Tank] / 4, max_outflow)
+//   if(time > 10, smooth(demand, 3), 0)
+//
+// Identifiers refer to auxiliaries by name, or to stocks by ID or label.
+// Labels that contain spaces or punctuation are wrapped in square brackets.
+// `time` refers to the current simulation time. A number may carry a unit
+// in braces, which the checker uses for dimensional analysis.
+//
+// See /docs/simulation.md for the full language reference.
+
+export type ArithmeticOperator = "+" | "-" | "*" | "/" | "^";
+export type ComparisonOperator = "<" | "<=" | ">" | ">=" | "==" | "!=";
+export type BinaryOperator = ArithmeticOperator | ComparisonOperator;
+
+export interface Span {
+  start: number;
+  end: number;
+}
+
+export type Expr =
+  | ({ type: "number"; value: number; unit?: string } & Span)
+  | ({ type: "ref"; name: string } & Span)
+  | ({ type: "unary"; op: "-" | "+"; operand: Expr } & Span)
+  | ({ type: "binary"; op: BinaryOperator; left: Expr; right: Expr } & Span)
+  | ({ type: "call"; name: string; args: Expr[]; nameEnd: number } & Span);
+
+export interface EquationError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+export type ParseResult =
+  | { success: true; expr: Expr }
+  | { success: false; error: EquationError };
+
+// ============================================================================
+// BUILT-IN FUNCTIONS
+// ============================================================================
+
+export interface BuiltinSpec {
+  minArgs: number;
+  maxArgs: number;
+  signature: string;
+  description: string;
+}
+
+export const BUILTINS: Record<string, BuiltinSpec> = {
+  min: { minArgs: 1, maxArgs: Infinity, signature: "min(a, b, ...)", description: "Smallest argument" },
+  max: { minArgs: 1, maxArgs: Infinity, signature: "max(a, b, ...)", description: "Largest argument" },
+  abs: { minArgs: 1, maxArgs: 1, signature: "abs(x)", description: "Absolute value" },
+  if: { minArgs: 3, maxArgs: 3, signature: "if(condition, then, else)", description: "Choose by a condition (non-zero is true)" },
+  delay: {
+    minArgs: 2,
+    maxArgs: 3,
+    signature: "delay(input, delayTime, initial?)",
+    description: "Input as it was delayTime ago",
+  },
+  smooth: {
+    minArgs: 2,
+    maxArgs: 3,
+    signature: "smooth(input, smoothTime, initial?)",
+    description: "First-order exponential smoothing of input",
+  },
+};
+
+// ============================================================================
+// TOKENIZER
+// ============================================================================
+
+type Token =
+  | ({ kind: "number"; value: number } & Span)
+  | ({ kind: "unit"; unit: string } & Span)
+  | ({ kind: "ident"; name: string; bracketed: boolean } & Span)
+  | ({ kind: "op"; op: BinaryOperator } & Span)
+  | ({ kind: "lparen" } & Span)
+  | ({ kind: "rparen" } & Span)
+  | ({ kind: "comma" } & Span)
+  | ({ kind: "eof" } & Span);
+
+const NUMBER_PATTERN = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/;
+const IDENT_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*/;
+const COMPARISON_PATTERN = /^(<=|>=|==|!=|<|>)/;
+
+function tokenize(source: string): Token[] | EquationError {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  // Find the matching close character, reporting an error at the opener
+  const readEnclosed = (open: string, close: string, label: string): { text: string; end: number } | EquationError => {
+    const closeIndex = source.indexOf(close, i + 1);
+    if (closeIndex === -1) {
+      return { message: `Unclosed '${open}'`, start: i, end: source.length };
+    }
+    const text = source.slice(i + 1, closeIndex).trim();
+    if (!text) {
+      return { message: `Empty ${label}`, start: i, end: closeIndex + 1 };
+    }
+    return { text, end: closeIndex + 1 };
+  };
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const rest = source.slice(i);
+
+    const numberMatch = rest.match(NUMBER_PATTERN);
+    if (numberMatch) {
+      const text = numberMatch[0];
+      tokens.push({ kind: "number", value: parseFloat(text), start: i, end: i + text.length });
+      i += text.length;
+      continue;
+    }
+
+    const identMatch = rest.match(IDENT_PATTERN);
+    if (identMatch) {
+      const text = identMatch[0];
+      tokens.push({ kind: "ident", name: text, bracketed: false, start: i, end: i + text.length });
+      i += text.length;
+      continue;
+    }
+
+    if (char === "[") {
+      const enclosed = readEnclosed("[", "]", "reference");
+      if ("message" in enclosed) return enclosed;
+      tokens.push({ kind: "ident", name: enclosed.text, bracketed: true, start: i, end: enclosed.end });
+      i = enclosed.end;
+      continue;
+    }
+
+    if (char === "{") {
+      const enclosed = readEnclosed("{", "}", "unit");
+      if ("message" in enclosed) return enclosed;
+      tokens.push({ kind: "unit", unit: enclosed.text, start: i, end: enclosed.end });
+      i = enclosed.end;
+      continue;
+    }
+
+    const comparisonMatch = rest.match(COMPARISON_PATTERN);
+    if (comparisonMatch) {
+      const op = comparisonMatch[0] as ComparisonOperator;
+      tokens.push({ kind: "op", op, start: i, end: i + op.length });
+      i += op.length;
+      continue;
+    }
+
+    if (char === "+" || char === "-" || char === "*" || char === "/" || char === "^") {
+      tokens.push({ kind: "op", op: char, start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+
+    if (char === "(") {
+      tokens.push({ kind: "lparen", start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+
+    if (char === ")") {
+      tokens.push({ kind: "rparen", start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+
+    if (char === ",") {
+      tokens.push({ kind: "comma", start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+
+    return { message: `Unexpected character '${char}'`, start: i, end: i + 1 };
+  }
+
+  tokens.push({ kind: "eof", start: source.length, end: source.length });
+  return tokens;
+}
+
+// ============================================================================
+// PARSER
+// ============================================================================
+
+const PRECEDENCE: Record<BinaryOperator, number> = {
+  "<": 1,
+  "<=": 1,
+  ">": 1,
+  ">=": 1,
+  "==": 1,
+  "!=": 1,
+  "+": 2,
+  "-": 2,
+  "*": 3,
+  "/": 3,
+  "^": 4,
+};
+
+export function isComparison(op: BinaryOperator): op is ComparisonOperator {
+  return PRECEDENCE[op] === 1;
+}
+
+/**
+ * Parse an equation into an expression tree.
+ * Uses precedence climbing; `^` is right-associative.
+ */
+export function parseEquation(source: string): ParseResult {
+  const tokenized = tokenize(source);
+  if (!Array.isArray(tokenized)) {
+    return { success: false, error: tokenized };
+  }
+  const tokens: Token[] = tokenized;
+
+  let pos = 0;
+  const peek = () => tokens[pos];
+
+  const fail = (message: string, token: Token): never => {
+    throw { message, start: token.start, end: Math.max(token.end, token.start + 1) };
+  };
+
+  function parseArguments(): { args: Expr[]; end: number } {
+    // Opening paren already consumed
+    const args: Expr[] = [];
+    if (peek().kind === "rparen") {
+      return { args, end: tokens[pos++].end };
+    }
+
+    while (true) {
+      args.push(parseExpression(0));
+      const token = peek();
+      if (token.kind === "comma") {
+        pos++;
+        continue;
+      }
+      if (token.kind === "rparen") {
+        pos++;
+        return { args, end: token.end };
+      }
+      return fail("Expected ',' or ')'", token);
+    }
+  }
+
+  function parsePrimary(): Expr {
+    const token = peek();
+
+    switch (token.kind) {
+      case "number": {
+        pos++;
+        const unitToken = peek();
+        if (unitToken.kind === "unit") {
+          pos++;
+          return { type: "number", value: token.value, unit: unitToken.unit, start: token.start, end: unitToken.end };
+        }
+        return { type: "number", value: token.value, start: token.start, end: token.end };
+      }
+      case "ident": {
+        pos++;
+        if (!token.bracketed && peek().kind === "lparen") {
+          pos++;
+          const { args, end } = parseArguments();
+          return { type: "call", name: token.name, args, nameEnd: token.end, start: token.start, end };
+        }
+        return { type: "ref", name: token.name, start: token.start, end: token.end };
+      }
+      case "lparen": {
+        pos++;
+        const inner = parseExpression(0);
+        const close = peek();
+        if (close.kind !== "rparen") fail("Expected ')'", close);
+        pos++;
+        return { ...inner, start: token.start, end: close.end };
+      }
+      case "op":
+        if (token.op === "-" || token.op === "+") {
+          pos++;
+          const operand = parseExpression(PRECEDENCE["*"]);
+          return { type: "unary", op: token.op, operand, start: token.start, end: operand.end };
+        }
+        return fail(`Unexpected operator '${token.op}'`, token);
+      case "unit":
+        return fail("A unit must follow a number", token);
+      case "comma":
+        return fail("Unexpected ','", token);
+      case "eof":
+        return fail("Unexpected end of equation", token);
+      default:
+        return fail("Unexpected ')'", token);
+    }
+  }
+
+  function parseExpression(minPrecedence: number): Expr {
+    let left = parsePrimary();
+
+    while (true) {
+      const token = peek();
+      if (token.kind !== "op") break;
+
+      const precedence = PRECEDENCE[token.op];
+      if (precedence <= minPrecedence) break;
+
+      pos++;
+      const right = parseExpression(token.op === "^" ? precedence - 1 : precedence);
+      left = { type: "binary", op: token.op, left, right, start: left.start, end: right.end };
+    }
+
+    return left;
+  }
+
+  try {
+    if (peek().kind === "eof") {
+      return { success: false, error: { message: "Equation is empty", start: 0, end: 0 } };
+    }
+
+    const expr = parseExpression(0);
+    const trailing = peek();
+    if (trailing.kind !== "eof") {
+      fail(trailing.kind === "rparen" ? "Unmatched ')'" : "Expected an operator", trailing);
+    }
+    return { success: true, expr };
+  } catch (error) {
+    return { success: false, error: error as EquationError };
+  }
+}
+
+/**
+ * Collect every identifier referenced by an expression.
+ */
+export function collectReferences(
+  expr: Expr,
+  into: Extract<Expr, { type: "ref" }>[] = []
+): Extract<Expr, { type: "ref" }>[] {
+  switch (expr.type) {
+    case "ref":
+      into.push(expr);
+      break;
+    case "unary":
+      collectReferences(expr.operand, into);
+      break;
+    case "binary":
+      collectReferences(expr.left, into);
+      collectReferences(expr.right, into);
+      break;
+    case "call":
+      for (const arg of expr.args) collectReferences(arg, into);
+      break;
+  }
+  return into;
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+/**
+ * Services the integrator provides to compiled equations.
+ */
+export interface CompileContext {
+  /** Map an identifier to a getter. Called once per reference at compile time. */
+  resolve: (name: string) => () => number;
+  /**
+   * Allocate a hidden state integrated alongside the stocks.
+   * Returns a getter for the state's current value.
+   */
+  addState: (initial: () => number, derivative: (value: number) => number) => () => number;
+  /** Track an input's history so its past values can be looked up. */
+  addHistory: (input: () => number, initial: () => number) => (delay: number) => number;
+}
+
+/**
+ * Compile an expression into a closure. Identifiers are resolved once, so
+ * evaluation inside the integration loop does no lookups.
+ */
+export function compileEquation(expr: Expr, context: CompileContext): () => number {
+  switch (expr.type) {
+    case "number": {
+      const value = expr.value;
+      return () => value;
+    }
+    case "ref":
+      return context.resolve(expr.name);
+    case "unary": {
+      const operand = compileEquation(expr.operand, context);
+      return expr.op === "-" ? () => -operand() : operand;
+    }
+    case "call":
+      return compileCall(expr, context);
+    case "binary": {
+      const left = compileEquation(expr.left, context);
+      const right = compileEquation(expr.right, context);
+      switch (expr.op) {
+        case "+": return () => left() + right();
+        case "-": return () => left() - right();
+        case "*": return () => left() * right();
+        case "/": return () => left() / right();
+        case "^": return () => Math.pow(left(), right());
+        case "<": return () => (left() < right() ? 1 : 0);
+        case "<=": return () => (left() <= right() ? 1 : 0);
+        case ">": return () => (left() > right() ? 1 : 0);
+        case ">=": return () => (left() >= right() ? 1 : 0);
+        case "==": return () => (left() === right() ? 1 : 0);
+        case "!=": return () => (left() !== right() ? 1 : 0);
+      }
+    }
+  }
+}
+
+function compileCall(expr: Extract<Expr, { type: "call" }>, context: CompileContext): () => number {
+  const args = expr.args.map((arg) => compileEquation(arg, context));
+
+  switch (expr.name.toLowerCase()) {
+    case "min":
+      return () => Math.min(...args.map((arg) => arg()));
+    case "max":
+      return () => Math.max(...args.map((arg) => arg()));
+    case "abs":
+      return () => Math.abs(args[0]());
+    case "if": {
+      const [condition, whenTrue, whenFalse] = args;
+      return () => (condition() !== 0 ? whenTrue() : whenFalse());
+    }
+    case "smooth": {
+      const [input, smoothTime, initial = input] = args;
+      return context.addState(initial, (value) => (input() - value) / smoothTime());
+    }
+    case "delay": {
+      const [input, delayTime, initial = input] = args;
+      const lookup = context.addHistory(input, initial);
+      return () => lookup(delayTime());
+    }
+    default:
+      // The checker rejects unknown functions before compilation
+      return () => NaN;
+  }
+}
@@ -0,0 +1,93 @@
+// ============================================================================
+// UNITS
+// ============================================================================
+// A unit is a product of named base units with integer exponents:
+//
+//   "people/month"     → { people: 1, month: -1 }
+//   "widgets*hour^-1"  → { widgets: 1, hour: -1 }
+//   "1/month"          → { month: -1 }
+//   "dmnl" or ""       → {} (dimensionless)
+
+export type Unit = Record<string, number>;
+
+export const DIMENSIONLESS: Unit = {};
+
+const DIMENSIONLESS_NAMES = new Set(["", "1", "dmnl", "dimensionless"]);
+const FACTOR_PATTERN = /^([A-Za-z_$%][A-Za-z0-9_$%]*|1)(\^(-?\d+))?$/;
+
+/**
+ * Parse a unit string. Returns null if the string is malformed.
+ */
+export function parseUnit(text: string): Unit | null {
+  const trimmed = text.trim();
+  if (DIMENSIONLESS_NAMES.has(trimmed.toLowerCase())) return {};
+
+  const unit: Unit = {};
+  // Split into "*"/"/" separated factors, remembering which side each is on
+  const parts = trimmed.split(/([*/])/).map((p) => p.trim());
+  let sign = 1;
+
+  for (let i = 0; i < parts.length; i++) {
+    const part = parts[i];
+    if (i % 2 === 1) {
+      sign = part === "/" ? -1 : 1;
+      continue;
+    }
+
+    const match = part.match(FACTOR_PATTERN);
+    if (!match) return null;
+
+    const [, name, , exponentText] = match;
+    if (name === "1") continue;
+
+    const exponent = sign * (exponentText ? parseInt(exponentText, 10) : 1);
+    unit[name] = (unit[name] ?? 0) + exponent;
+    if (unit[name] === 0) delete unit[name];
+  }
+
+  return unit;
+}
+
+/**
+ * Format a unit for display, e.g. "people/month".
+ */
+export function formatUnit(unit: Unit): string {
+  const names = Object.keys(unit).sort();
+  const format = (name: string, exponent: number) =>
+    exponent === 1 ? name : `${name}^${exponent}`;
+
+  const numerator = names.filter((n) => unit[n] > 0).map((n) => format(n, unit[n]));
+  const denominator = names.filter((n) => unit[n] < 0).map((n) => format(n, -unit[n]));
+
+  if (numerator.length === 0 && denominator.length === 0) return "dmnl";
+  const top = numerator.length > 0 ? numerator.join("*") : "1";
+  return denominator.length > 0 ? `${top}/${denominator.join("*")}` : top;
+}
+
+/**
+ * Multiply two units, raising the second to `power` first.
+ * Division is multiplication with power -1.
+ */
+export function multiplyUnits(a: Unit, b: Unit, power: number = 1): Unit {
+  const result: Unit = { ...a };
+  for (const [name, exponent] of Object.entries(b)) {
+    result[name] = (result[name] ?? 0) + exponent * power;
+    if (result[name] === 0) delete result[name];
+  }
+  return result;
+}
+
+/**
+ * Raise a unit to an integer power.
+ */
+export function powerUnit(unit: Unit, power: number): Unit {
+  return multiplyUnits({}, unit, power);
+}
+
+export function unitsEqual(a: Unit, b: Unit): boolean {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  for (const key of keys) {
+    if ((a[key] ?? 0) !== (b[key] ?? 0)) return false;
+  }
+  return true;
+}
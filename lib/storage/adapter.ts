@@ -0,0 +1,63 @@
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A key-value store for everything the app persists. Values are plain JSON;
+ * each backend decides how to lay them out.
+ */
+export interface StorageAdapter {
+  get: <T = unknown>(key: string) => Promise<T | undefined>;
+  set: (key: string, value: unknown) => Promise<void>;
+  del: (key: string) => Promise<void>;
+  keys: () => Promise<string[]>;
+}
+
+// ============================================================================
+// KEYS
+// ============================================================================
+
+export const DIAGRAMS_INDEX_KEY = "diagrams:index";
+export const PREFS_KEY = "prefs";
+
+// Per-diagram keys are a prefix followed by the diagram ID
+export const KEY_PREFIXES = {
+  diagram: "diagram:",
+  history: "history:",
+  snapshots: "snapshots:",
+} as const;
+
+export function diagramKey(id: string): string {
+  return `${KEY_PREFIXES.diagram}${id}`;
+}
+
+export function historyKey(id: string): string {
+  return `${KEY_PREFIXES.history}${id}`;
+}
+
+export function snapshotsKey(id: string): string {
+  return `${KEY_PREFIXES.snapshots}${id}`;
+}
+
+// ============================================================================
+// CURRENT ADAPTER
+// ============================================================================
+
+let storage: StorageAdapter | null = null;
+
+/**
+ * The adapter the stores read and write through. Set at startup by
+ * `initializeStorage`, or by `replaceStorage` in tests (see
+ * lib/store/storage.ts). Throws if neither has run yet: there's no safe
+ * default, since guessing IndexedDB would hide a chosen folder's systems.
+ */
+export function getStorage(): StorageAdapter {
+  if (!storage) {
+    throw new Error("Storage used before it was chosen: await initializeStorage() (or call replaceStorage()) first");
+  }
+  return storage;
+}
+
+export function setStorage(adapter: StorageAdapter) {
+  storage = adapter;
+}
@@ -0,0 +1,146 @@
+import { StorageAdapter, DIAGRAMS_INDEX_KEY, PREFS_KEY, KEY_PREFIXES } from "./adapter";
+import { CrdtDoc, toDiagram } from "@/lib/sync/crdt";
+
+// ============================================================================
+// LAYOUT
+// ============================================================================
+
+/*
+ * A folder holds one pretty-printed JSON file per key, so it reads well in
+ * a diff and can be served as static files:
+ *
+ *   index.json              diagrams:index
+ *   prefs.json              prefs
+ *   diagrams/<id>.json      diagram:<id>
+ *   history/<id>.json       history:<id>
+ *   snapshots/<id>.json     snapshots:<id>
+ *   other/<key>.json        anything else
+ */
+
+const FILES: Record<string, string> = {
+  [DIAGRAMS_INDEX_KEY]: "index.json",
+  [PREFS_KEY]: "prefs.json",
+};
+
+const DIRECTORIES: Record<string, string> = {
+  [KEY_PREFIXES.diagram]: "diagrams",
+  [KEY_PREFIXES.history]: "history",
+  [KEY_PREFIXES.snapshots]: "snapshots",
+};
+
+const OTHER_DIRECTORY = "other";
+
+/** Where `key` lives in the folder: a directory (or "" for the top) and file name. */
+export function keyToPath(key: string): { directory: string; file: string } {
+  if (FILES[key]) return { directory: "", file: FILES[key] };
+  for (const [prefix, directory] of Object.entries(DIRECTORIES)) {
+    if (key.startsWith(prefix)) {
+      return { directory, file: `${encodeURIComponent(key.slice(prefix.length))}.json` };
+    }
+  }
+  return { directory: OTHER_DIRECTORY, file: `${encodeURIComponent(key)}.json` };
+}
+
+/** The key stored at a path in the folder, or null for files that aren't ours. */
+export function pathToKey(directory: string, file: string): string | null {
+  if (!file.endsWith(".json")) return null;
+  const name = decodeURIComponent(file.slice(0, -".json".length));
+
+  if (directory === "") {
+    return Object.keys(FILES).find((key) => FILES[key] === file) ?? null;
+  }
+  if (directory === OTHER_DIRECTORY) return name;
+  const prefix = Object.keys(DIRECTORIES).find((p) => DIRECTORIES[p] === directory);
+  return prefix ? `${prefix}${name}` : null;
+}
+
+/**
+ * Diagrams are written as plain diagram JSON rather than CRDT documents, so
+ * the files are readable and hand-editable. They're read back like diagrams
+ * saved before CRDT storage, which drops edit stamps: nothing merges with a
+ * folder but the tab that has it open.
+ */
+function toFileValue(key: string, value: unknown): unknown {
+  const isCrdt = typeof value === "object" && value !== null && (value as { format?: unknown }).format === "crdt";
+  return key.startsWith(KEY_PREFIXES.diagram) && isCrdt ? toDiagram(value as CrdtDoc) : value;
+}
+
+// ============================================================================
+// ADAPTER
+// ============================================================================
+
+// Directory listing, which TypeScript's DOM types only include with the
+// async-iterable lib
+type ListableDirectory = FileSystemDirectoryHandle & { keys(): AsyncIterableIterator<string> };
+
+function isNotFound(error: unknown): boolean {
+  return error instanceof DOMException && (error.name === "NotFoundError" || error.name === "TypeMismatchError");
+}
+
+async function getDirectory(
+  root: FileSystemDirectoryHandle,
+  name: string,
+  create: boolean
+): Promise<FileSystemDirectoryHandle | null> {
+  if (name === "") return root;
+  try {
+    return await root.getDirectoryHandle(name, { create });
+  } catch (error) {
+    if (isNotFound(error)) return null;
+    throw error;
+  }
+}
+
+/**
+ * A local folder the user picked, through the File System Access API. Keep
+ * it in git to version systems as plain JSON files.
+ */
+export function createFolderAdapter(root: FileSystemDirectoryHandle): StorageAdapter {
+  return {
+    get: async <T>(key: string) => {
+      const { directory, file } = keyToPath(key);
+      const dir = await getDirectory(root, directory, false);
+      if (!dir) return undefined;
+
+      try {
+        const handle = await dir.getFileHandle(file);
+        return JSON.parse(await (await handle.getFile()).text()) as T;
+      } catch (error) {
+        if (isNotFound(error)) return undefined;
+        throw error;
+      }
+    },
+
+    set: async (key, value) => {
+      const { directory, file } = keyToPath(key);
+      const dir = await getDirectory(root, directory, true);
+      const handle = await dir!.getFileHandle(file, { create: true });
+      const writable = await handle.createWritable();
+      await writable.write(`${JSON.stringify(toFileValue(key, value), null, 2)}\n`);
+      await writable.close();
+    },
+
+    del: async (key) => {
+      const { directory, file } = keyToPath(key);
+      const dir = await getDirectory(root, directory, false);
+      try {
+        await dir?.removeEntry(file);
+      } catch (error) {
+        if (!isNotFound(error)) throw error;
+      }
+    },
+
+    keys: async () => {
+      const keys: string[] = [];
+      for (const directory of ["", ...Object.values(DIRECTORIES), OTHER_DIRECTORY]) {
+        const dir = await getDirectory(root, directory, false);
+        if (!dir) continue;
+        for await (const name of (dir as ListableDirectory).keys()) {
+          const key = pathToKey(directory, name);
+          if (key) keys.push(key);
+        }
+      }
+      return keys;
+    },
+  };
+}
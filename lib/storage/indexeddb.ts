@@ -0,0 +1,15 @@
+import { get, set, del, keys } from "idb-keyval";
+import { StorageAdapter } from "./adapter";
+
+/**
+ * The browser's IndexedDB, through idb-keyval's default store. Keys and
+ * values are stored as they are.
+ */
+export function createIndexedDBAdapter(): StorageAdapter {
+  return {
+    get: (key) => get(key),
+    set: (key, value) => set(key, value),
+    del: (key) => del(key),
+    keys: async () => (await keys()).filter((key): key is string => typeof key === "string"),
+  };
+}
@@ -0,0 +1,20 @@
+import { StorageAdapter } from "./adapter";
+
+/**
+ * A map in memory, for tests and for running without persistence. Values
+ * are cloned on the way in and out, as a real backend would.
+ */
+export function createMemoryAdapter(initial: Record<string, unknown> = {}): StorageAdapter {
+  const entries = new Map(Object.entries(structuredClone(initial)));
+
+  return {
+    get: async <T>(key: string) => structuredClone(entries.get(key)) as T | undefined,
+    set: async (key, value) => {
+      entries.set(key, structuredClone(value));
+    },
+    del: async (key) => {
+      entries.delete(key);
+    },
+    keys: async () => [...entries.keys()],
+  };
+}
@@ -2,21 +2,60 @@
 
 import { create } from "zustand";
 import { subscribeWithSelector } from "zustand/middleware";
-import { get as idbGet, set as idbSet, del as idbDel } from "idb-keyval";
 import {
   DiagramDoc,
-  DiagramDocSchema,
   Node,
   Edge,
   Frame,
+  Note,
+  ParentRef,
+  DEFAULT_NODE_WIDTH,
+  DEFAULT_NODE_HEIGHT,
   DEFAULT_VIEWPORT,
   Viewport,
   PropertyDefinition,
+  SimulationSettings,
+  DEFAULT_SIMULATION_SETTINGS,
+  DIAGRAM_VERSION,
+  StoredHistory,
+  StoredHistorySchema,
+  CrdtDocSchema,
 } from "@/lib/model/schema";
-import { generateDiagramId, generateNodeId, generateEdgeId, generateFrameId, generatePropertyId } from "@/lib/model/ids";
-
-const DIAGRAM_PREFIX = "diagram:";
-const DIAGRAMS_INDEX_KEY = "diagrams:index";
+import { FeedbackLoop } from "@/lib/analysis/loops";
+import { syncBoundaryStocks } from "@/lib/model/boundary";
+import { isDescendant } from "@/lib/model/hierarchy";
+import { Point, getNodesBoundingBox } from "@/lib/layout/geometry";
+import {
+  HistoryStep,
+  applyPatches,
+  describePatches,
+  diffDocs,
+  mergeSteps,
+  trimHistory,
+} from "@/lib/history/patches";
+import { CrdtConflict, CrdtDoc, CrdtOp, applyOps, createCrdt, recordChange, toDiagram } from "@/lib/sync/crdt";
+import { migrateDiagram } from "@/lib/model/migrations";
+import {
+  generateId,
+  generateDiagramId,
+  generateNodeId,
+  generateEdgeId,
+  generateFrameId,
+  generateNoteId,
+  generatePropertyId,
+} from "@/lib/model/ids";
+import {
+  getStorage,
+  diagramKey,
+  historyKey,
+  snapshotsKey,
+  DIAGRAMS_INDEX_KEY,
+} from "@/lib/storage/adapter";
+import { initializeStorage } from "./storage";
+
+// Undo history kept per diagram, in memory and across reloads, in
+// characters of JSON
+const MAX_HISTORY_SIZE = 1_000_000;
 
 interface DiagramIndex {
   [id: string]: {
@@ -24,14 +63,332 @@ interface DiagramIndex {
     title: string;
     updatedAt: number;
     pinned?: boolean;
+    /** Diagram this one was expanded from, mirroring `DiagramDoc.parent`. */
+    parentId?: string;
+    /** Stocks in the diagram, not counting boundary stocks. */
+    stockCount?: number;
+    /** Why the stored diagram can't be opened, if it can't. */
+    quarantine?: string;
+  };
+}
+
+/**
+ * Index fields derived from a diagram's content, for the sidebar.
+ */
+function getIndexFields(doc: DiagramDoc): { title: string; parentId?: string; stockCount: number } {
+  return {
+    title: doc.title,
+    parentId: doc.parent?.diagramId,
+    stockCount: Object.values(doc.nodes).filter((node) => !node.boundary).length,
+  };
+}
+
+/**
+ * Refresh a diagram's derived index fields, persisting only on change.
+ */
+function refreshIndexEntry(doc: DiagramDoc) {
+  const { diagrams } = useDiagramStore.getState();
+  const entry = diagrams[doc.id];
+  if (!entry) return;
+
+  const fields = getIndexFields(doc);
+  if (
+    entry.title === fields.title &&
+    entry.parentId === fields.parentId &&
+    entry.stockCount === fields.stockCount
+  ) {
+    return;
+  }
+
+  const newIndex = { ...diagrams, [doc.id]: { ...entry, ...fields } };
+  useDiagramStore.setState({ diagrams: newIndex });
+  getStorage().set(DIAGRAMS_INDEX_KEY, newIndex);
+}
+
+/**
+ * Mark a stored diagram that can't be opened, so the sidebar shows it as
+ * broken instead of it going missing. Its data is left as it is.
+ */
+function quarantineDiagram(id: string, reason: string, data: unknown) {
+  const { diagrams } = useDiagramStore.getState();
+  const entry = diagrams[id];
+  if (entry?.quarantine === reason) return;
+
+  const title =
+    typeof data === "object" && data !== null && "title" in data && typeof data.title === "string"
+      ? data.title
+      : "Untitled system";
+  const newIndex = {
+    ...diagrams,
+    [id]: entry ? { ...entry, quarantine: reason } : { id, title, updatedAt: Date.now(), quarantine: reason },
+  };
+  useDiagramStore.setState({ diagrams: newIndex });
+  getStorage().set(DIAGRAMS_INDEX_KEY, newIndex);
+}
+
+/**
+ * Clear the quarantine on a diagram that opens again, e.g. after a repair.
+ */
+function releaseDiagram(id: string) {
+  const { diagrams } = useDiagramStore.getState();
+  const entry = diagrams[id];
+  if (!entry?.quarantine) return;
+
+  const released = { ...entry };
+  delete released.quarantine;
+  const newIndex = { ...diagrams, [id]: released };
+  useDiagramStore.setState({ diagrams: newIndex });
+  getStorage().set(DIAGRAMS_INDEX_KEY, newIndex);
+}
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+/** Identifies this tab's writes to diagrams among those of other peers. */
+export const LOCAL_PEER_ID = generateId();
+
+type DiagramOpsListener = (diagramId: string, ops: CrdtOp[]) => void;
+
+const diagramOpsListeners = new Set<DiagramOpsListener>();
+
+/**
+ * Listen for writes this tab makes to any diagram, whether open or written
+ * straight to storage. Returns an unsubscribe function.
+ */
+export function onDiagramOps(listener: DiagramOpsListener): () => void {
+  diagramOpsListeners.add(listener);
+  return () => {
+    diagramOpsListeners.delete(listener);
+  };
+}
+
+function emitOps(diagramId: string, ops: CrdtOp[]) {
+  if (ops.length > 0) diagramOpsListeners.forEach((listener) => listener(diagramId, ops));
+}
+
+/**
+ * Stored diagram data as a CRDT document. Diagrams saved as plain JSON, before
+ * they were stored this way, are converted as they're read.
+ */
+function toCrdt(data: unknown): CrdtDoc | undefined {
+  if (typeof data !== "object" || data === null || Array.isArray(data)) return undefined;
+
+  const parsed = CrdtDocSchema.safeParse(data);
+  return parsed.success ? parsed.data : createCrdt(data as DiagramDoc);
+}
+
+async function readStoredCrdt(id: string): Promise<CrdtDoc | undefined> {
+  return toCrdt(await getStorage().get(diagramKey(id)));
+}
+
+/**
+ * A diagram's stored data exactly as it is, for exporting one that can't be
+ * opened.
+ */
+export async function readStoredData(id: string): Promise<unknown> {
+  return getStorage().get(diagramKey(id));
+}
+
+/**
+ * A stored diagram as a document, not yet validated.
+ */
+export async function readStoredDiagram(id: string): Promise<DiagramDoc | undefined> {
+  const crdt = await readStoredCrdt(id);
+  return crdt && toDiagram(crdt);
+}
+
+/**
+ * Store `doc`, recording what changed as writes by this tab so they merge
+ * with edits made elsewhere.
+ */
+async function writeStoredDiagram(doc: DiagramDoc): Promise<void> {
+  const crdt = await readStoredCrdt(doc.id);
+  if (!crdt) {
+    await getStorage().set(diagramKey(doc.id), createCrdt(doc));
+    return;
+  }
+
+  const ops = recordChange(crdt, toDiagram(crdt), doc, LOCAL_PEER_ID);
+  await getStorage().set(diagramKey(doc.id), crdt);
+  emitOps(doc.id, ops);
+}
+
+/**
+ * Apply an update to a stored diagram: in memory if it's the open diagram,
+ * otherwise read-modify-write in storage. Returning null skips the write.
+ */
+export async function updateStoredDiagram(
+  id: string,
+  update: (doc: DiagramDoc) => DiagramDoc | null
+): Promise<void> {
+  const { currentDiagram } = useDiagramStore.getState();
+  if (currentDiagram?.id === id) {
+    const updated = update(currentDiagram);
+    if (updated) {
+      useDiagramStore.setState({ currentDiagram: updated });
+      refreshIndexEntry(updated);
+    }
+    return;
+  }
+
+  const stored = await readStoredDiagram(id);
+  if (!stored) return;
+  const updated = update(stored);
+  if (updated) {
+    await writeStoredDiagram(updated);
+    refreshIndexEntry(updated);
+  }
+}
+
+/**
+ * Child diagrams whose stock was deleted become top-level diagrams rather
+ * than being deleted with it. Undoing the deletion relinks them on open.
+ */
+function detachChildDiagrams(parentId: string, stocks: Node[]) {
+  for (const stock of stocks) {
+    if (!stock.childDiagramId) continue;
+    void updateStoredDiagram(stock.childDiagramId, (child) =>
+      child.parent?.diagramId === parentId && child.parent.viaStockId === stock.id
+        ? { ...child, parent: undefined, updatedAt: Date.now() }
+        : null
+    );
+  }
+}
+
+/**
+ * Refresh the boundary stocks of every subsystem expanded from `doc`, so
+ * flows added or removed in the parent show up in its children.
+ */
+async function syncChildBoundaries(doc: DiagramDoc): Promise<void> {
+  for (const stock of Object.values(doc.nodes)) {
+    if (!stock.childDiagramId) continue;
+    await updateStoredDiagram(stock.childDiagramId, (child) => {
+      if (child.parent?.diagramId !== doc.id || child.parent.viaStockId !== stock.id) return null;
+      const synced = syncBoundaryStocks(child, doc, stock.id);
+      return synced ? { ...child, ...synced, updatedAt: Date.now() } : null;
+    });
+  }
+}
+
+// ============================================================================
+// HISTORY
+// ============================================================================
+
+// Untracked edits to the same values this close together undo as one step
+const COALESCE_MS = 1000;
+
+// Changes made while a transaction is open are recorded as a single step
+let transaction: { base: DiagramDoc; label?: string; depth: number } | null = null;
+
+// Set while loading or undoing, whose changes mustn't become steps themselves
+let recordingPaused = false;
+
+function withoutRecording(fn: () => void) {
+  const wasPaused = recordingPaused;
+  recordingPaused = true;
+  try {
+    fn();
+  } finally {
+    recordingPaused = wasPaused;
+  }
+}
+
+/**
+ * Record the change from `before` to `after` as an undo step, discarding
+ * any undone steps and, past MAX_HISTORY_SIZE, the oldest ones. Untracked
+ * edits may fold into the previous step.
+ */
+function recordStep(before: DiagramDoc, after: DiagramDoc, label?: string, coalesce = false) {
+  const { patches, inversePatches } = diffDocs(before, after);
+  if (patches.length === 0) return;
+
+  const step: HistoryStep = {
+    label: label ?? describePatches(patches),
+    patches,
+    inversePatches,
+    timestamp: Date.now(),
   };
+
+  const { history, historyIndex } = useDiagramStore.getState();
+  const newHistory = history.slice(0, historyIndex + 1);
+  const previous = newHistory[newHistory.length - 1];
+  const merged =
+    coalesce && previous?.label === step.label && step.timestamp - previous.timestamp < COALESCE_MS
+      ? mergeSteps(previous, step)
+      : null;
+
+  if (merged) {
+    newHistory[newHistory.length - 1] = merged;
+  } else {
+    newHistory.push(step);
+  }
+
+  const { steps, index } = trimHistory(newHistory, newHistory.length - 1, MAX_HISTORY_SIZE);
+  useDiagramStore.setState({ history: steps, historyIndex: index });
+}
+
+/**
+ * Undo history saved alongside `doc`, or an empty history if there is none
+ * or it was saved for a different version of the diagram.
+ */
+async function loadStoredHistory(doc: DiagramDoc): Promise<Pick<DiagramState, "history" | "historyIndex">> {
+  const empty = { history: [], historyIndex: -1 };
+  try {
+    const stored = StoredHistorySchema.safeParse(await getStorage().get(historyKey(doc.id)));
+    if (!stored.success || stored.data.diagramUpdatedAt !== doc.updatedAt) return empty;
+    if (stored.data.index >= stored.data.steps.length) return empty;
+    return { history: stored.data.steps, historyIndex: stored.data.index };
+  } catch (error) {
+    console.error("Failed to load undo history:", error);
+    return empty;
+  }
+}
+
+/**
+ * End the open transaction however deeply nested, recording what it changed.
+ */
+function closeTransaction() {
+  if (!transaction) return;
+  const { base, label } = transaction;
+  transaction = null;
+
+  const { currentDiagram } = useDiagramStore.getState();
+  if (currentDiagram?.id === base.id) {
+    recordStep(base, currentDiagram, label);
+  }
+}
+
+// ============================================================================
+// REPLICA
+// ============================================================================
+
+// The open diagram as a CRDT document, kept in step with `currentDiagram`
+let replica: CrdtDoc | null = null;
+
+// Set while loading or merging, whose changes aren't this tab's edits
+let replicaPaused = false;
+
+function withoutReplicating(fn: () => void) {
+  const wasPaused = replicaPaused;
+  replicaPaused = true;
+  try {
+    fn();
+  } finally {
+    replicaPaused = wasPaused;
+  }
 }
 
-// History for undo/redo
-interface HistoryEntry {
-  nodes: Record<string, Node>;
-  edges: Record<string, Edge>;
-  frames?: Record<string, Frame>;
+/**
+ * Make `crdt` the open diagram's replica, first storing the one it replaces
+ * so edits still waiting for autosave aren't lost.
+ */
+function replaceReplica(crdt: CrdtDoc | null) {
+  const { currentDiagramId } = useDiagramStore.getState();
+  if (replica && currentDiagramId && useDiagramStore.getState().diagrams[currentDiagramId]) {
+    getStorage().set(diagramKey(currentDiagramId), replica);
+  }
+  replica = crdt;
 }
 
 interface DiagramState {
@@ -44,9 +401,14 @@ interface DiagramState {
   // Selection
   selectedNodeIds: Set<string>;
   selectedEdgeIds: Set<string>;
+  selectedFrameIds: Set<string>;
+  selectedNoteIds: Set<string>;
 
-  // History
-  history: HistoryEntry[];
+  // Feedback loop highlighted on the canvas
+  highlightedLoop: FeedbackLoop | null;
+
+  // History: every step, and the index of the last one applied (-1 if none)
+  history: HistoryStep[];
   historyIndex: number;
 
   // Actions
@@ -56,12 +418,19 @@ interface DiagramState {
   updateDiagram: (id: string, updates: Partial<DiagramDoc>) => void;
   deleteDiagram: (id: string) => Promise<void>;
   duplicateDiagram: (id: string) => Promise<string>;
+  reparentDiagram: (id: string, newParentId: string | null) => Promise<boolean>;
 
   // Node actions
   addNode: (node: Omit<Node, "id">) => string;
   updateNode: (id: string, updates: Partial<Node>) => void;
+  /** Move many nodes at once, as layout does, without marking manual edits. */
+  moveNodes: (positions: Record<string, Point>) => void;
   deleteNode: (id: string) => void;
 
+  // Subsystems
+  expandStock: (stockId: string) => Promise<string>;
+  resolveSubsystem: (stockId: string) => Promise<string | null>;
+
   // Edge actions
   addEdge: (edge: Omit<Edge, "id">) => string;
   updateEdge: (id: string, updates: Partial<Edge>) => void;
@@ -72,10 +441,18 @@ interface DiagramState {
   updateFrame: (id: string, updates: Partial<Frame>) => void;
   deleteFrame: (id: string) => void;
 
+  // Note actions
+  addNote: (note: Omit<Note, "id">) => string;
+  updateNote: (id: string, updates: Partial<Note>) => void;
+  deleteNote: (id: string) => void;
+
   // Selection
   setSelectedNodeIds: (ids: Set<string>) => void;
   setSelectedEdgeIds: (ids: Set<string>) => void;
+  setSelectedFrameIds: (ids: Set<string>) => void;
+  setSelectedNoteIds: (ids: Set<string>) => void;
   clearSelection: () => void;
+  setHighlightedLoop: (loop: FeedbackLoop | null) => void;
   selectAll: () => void;
   deleteSelected: () => void;
 
@@ -83,12 +460,19 @@ interface DiagramState {
   setViewport: (viewport: Viewport) => void;
 
   // History
-  pushHistory: () => void;
+  beginTransaction: (label?: string) => void;
+  endTransaction: () => void;
+  transact: (fn: () => void, label?: string) => void;
   undo: () => void;
   redo: () => void;
+  goToHistory: (index: number) => void;
+  applyRemoteOps: (ops: CrdtOp[], detectConflicts?: boolean) => CrdtConflict[];
+  getReplicaOps: () => CrdtOp[];
+  applyServerDiagram: (doc: DiagramDoc) => Promise<void>;
 
   // Persistence
   saveDiagram: () => Promise<void>;
+  saveRepairedDiagram: (id: string, doc: DiagramDoc) => Promise<DiagramDoc | null>;
 
   // Property schema management
   addProperty: (prop: Omit<PropertyDefinition, "id">) => string;
@@ -96,6 +480,9 @@ interface DiagramState {
   deleteProperty: (id: string) => void;
   reorderProperties: (ids: string[]) => void;
 
+  // Simulation settings
+  updateSimulationSettings: (updates: Partial<SimulationSettings>) => void;
+
   // Pinned diagrams
   togglePinned: (id: string) => void;
 
@@ -111,13 +498,28 @@ export const useDiagramStore = create<DiagramState>()(
     currentDiagram: null,
     selectedNodeIds: new Set(),
     selectedEdgeIds: new Set(),
+    selectedFrameIds: new Set(),
+    selectedNoteIds: new Set(),
+    highlightedLoop: null,
     history: [],
     historyIndex: -1,
 
     initialize: async () => {
       try {
-        const indexData = await idbGet<DiagramIndex>(DIAGRAMS_INDEX_KEY);
-        set({ diagrams: indexData || {}, initialized: true });
+        await initializeStorage();
+        const indexData = (await getStorage().get<DiagramIndex>(DIAGRAMS_INDEX_KEY)) || {};
+
+        // Backfill tree fields for entries written before they existed
+        const stale = Object.values(indexData).filter((entry) => entry.stockCount === undefined);
+        if (stale.length > 0) {
+          for (const entry of stale) {
+            const doc = await readStoredDiagram(entry.id);
+            if (doc) indexData[entry.id] = { ...entry, ...getIndexFields(doc) };
+          }
+          await getStorage().set(DIAGRAMS_INDEX_KEY, indexData);
+        }
+
+        set({ diagrams: indexData, initialized: true });
       } catch (error) {
         console.error("Failed to initialize diagram store:", error);
         set({ diagrams: {}, initialized: true });
@@ -126,21 +528,48 @@ export const useDiagramStore = create<DiagramState>()(
 
     loadDiagram: async (id: string) => {
       try {
-        const data = await idbGet<DiagramDoc>(`${DIAGRAM_PREFIX}${id}`);
-        if (data) {
-          const validated = DiagramDocSchema.parse(data);
-          set({
-            currentDiagramId: id,
-            currentDiagram: validated,
-            selectedNodeIds: new Set(),
-            selectedEdgeIds: new Set(),
-            history: [{
-              nodes: { ...validated.nodes },
-              edges: { ...validated.edges },
-              frames: validated.frames ? { ...validated.frames } : undefined,
-            }],
-            historyIndex: 0,
-          });
+        const data = await getStorage().get(diagramKey(id));
+        if (data !== undefined) {
+          const crdt = toCrdt(data);
+          const migrated = migrateDiagram(crdt ? toDiagram(crdt) : data);
+          if (!crdt || !migrated.ok) {
+            quarantineDiagram(id, migrated.ok ? "Not a diagram" : migrated.error, data);
+            transaction = null;
+            replaceReplica(null);
+            withoutReplicating(() => withoutRecording(() =>
+              set({ currentDiagramId: id, currentDiagram: null, history: [], historyIndex: -1 })
+            ));
+            return null;
+          }
+          releaseDiagram(id);
+
+          let validated = migrated.value;
+          const { history, historyIndex } = await loadStoredHistory(validated);
+
+          // Pick up flow changes made in the parent since this was last open
+          if (validated.parent) {
+            const parent = await readStoredDiagram(validated.parent.diagramId);
+            const synced = parent && syncBoundaryStocks(validated, parent, validated.parent.viaStockId);
+            if (synced) validated = { ...validated, ...synced };
+          }
+          // Upgrades and boundary changes are stored with the next save
+          recordChange(crdt, toDiagram(crdt), validated, LOCAL_PEER_ID);
+
+          transaction = null;
+          replaceReplica(crdt);
+          withoutReplicating(() => withoutRecording(() =>
+            set({
+              currentDiagramId: id,
+              currentDiagram: validated,
+              selectedNodeIds: new Set(),
+              selectedEdgeIds: new Set(),
+              selectedFrameIds: new Set(),
+              selectedNoteIds: new Set(),
+              highlightedLoop: null,
+              history,
+              historyIndex,
+            })
+          ));
           return validated;
         }
         return null;
@@ -155,7 +584,7 @@ export const useDiagramStore = create<DiagramState>()(
       const now = Date.now();
 
       const diagram: DiagramDoc = {
-        version: 1,
+        version: DIAGRAM_VERSION,
         id,
         title,
         createdAt: now,
@@ -171,31 +600,37 @@ export const useDiagramStore = create<DiagramState>()(
         edges: initialContent?.edges ?? {},
         frames: initialContent?.frames ?? {},
         notes: initialContent?.notes ?? {},
+        propertySchema: initialContent?.propertySchema,
+        simulation: initialContent?.simulation,
+        loopNames: initialContent?.loopNames,
       };
 
       // Update index
       const newIndex = {
         ...get().diagrams,
-        [id]: { id, title, updatedAt: now },
+        [id]: { id, updatedAt: now, ...getIndexFields(diagram) },
       };
 
-      set({
-        diagrams: newIndex,
-        currentDiagramId: id,
-        currentDiagram: diagram,
-        selectedNodeIds: new Set(),
-        selectedEdgeIds: new Set(),
-        history: [{
-          nodes: initialContent?.nodes ?? {},
-          edges: initialContent?.edges ?? {},
-          frames: initialContent?.frames ?? {},
-        }],
-        historyIndex: 0,
-      });
+      transaction = null;
+      replaceReplica(createCrdt(diagram));
+      withoutReplicating(() => withoutRecording(() =>
+        set({
+          diagrams: newIndex,
+          currentDiagramId: id,
+          currentDiagram: diagram,
+          selectedNodeIds: new Set(),
+          selectedEdgeIds: new Set(),
+          selectedFrameIds: new Set(),
+          selectedNoteIds: new Set(),
+          highlightedLoop: null,
+          history: [],
+          historyIndex: -1,
+        })
+      ));
 
       // Persist
-      idbSet(`${DIAGRAM_PREFIX}${id}`, diagram);
-      idbSet(DIAGRAMS_INDEX_KEY, newIndex);
+      getStorage().set(diagramKey(id), replica);
+      getStorage().set(DIAGRAMS_INDEX_KEY, newIndex);
 
       return id;
     },
@@ -212,7 +647,7 @@ export const useDiagramStore = create<DiagramState>()(
 
       const newIndex = {
         ...diagrams,
-        [id]: { id, title: updated.title, updatedAt: updated.updatedAt },
+        [id]: { ...diagrams[id], id, updatedAt: updated.updatedAt, ...getIndexFields(updated) },
       };
 
       set({
@@ -226,8 +661,30 @@ export const useDiagramStore = create<DiagramState>()(
       const newIndex = { ...diagrams };
       delete newIndex[id];
 
-      await idbDel(`${DIAGRAM_PREFIX}${id}`);
-      await idbSet(DIAGRAMS_INDEX_KEY, newIndex);
+      // Unlink the stock this diagram expanded, and detach its own children
+      const { currentDiagram } = get();
+      const doc = currentDiagram?.id === id ? currentDiagram : await readStoredDiagram(id);
+      if (doc?.parent) {
+        const { viaStockId } = doc.parent;
+        await updateStoredDiagram(doc.parent.diagramId, (parent) =>
+          parent.nodes[viaStockId]?.childDiagramId === id
+            ? {
+                ...parent,
+                nodes: { ...parent.nodes, [viaStockId]: { ...parent.nodes[viaStockId], childDiagramId: undefined } },
+                updatedAt: Date.now(),
+              }
+            : null
+        );
+      }
+      if (doc) {
+        detachChildDiagrams(id, Object.values(doc.nodes));
+      }
+
+      if (get().currentDiagramId === id) replica = null;
+      await getStorage().del(diagramKey(id));
+      await getStorage().del(historyKey(id));
+      await getStorage().del(snapshotsKey(id));
+      await getStorage().set(DIAGRAMS_INDEX_KEY, newIndex);
 
       set({
         diagrams: newIndex,
@@ -237,7 +694,7 @@ export const useDiagramStore = create<DiagramState>()(
     },
 
     duplicateDiagram: async (id: string) => {
-      const data = await idbGet<DiagramDoc>(`${DIAGRAM_PREFIX}${id}`);
+      const data = await readStoredDiagram(id);
       if (!data) throw new Error("Diagram not found");
 
       const newId = generateDiagramId();
@@ -254,23 +711,80 @@ export const useDiagramStore = create<DiagramState>()(
 
       const newIndex = {
         ...get().diagrams,
-        [newId]: { id: newId, title: newDiagram.title, updatedAt: now },
+        [newId]: { id: newId, updatedAt: now, ...getIndexFields(newDiagram) },
       };
 
-      await idbSet(`${DIAGRAM_PREFIX}${newId}`, newDiagram);
-      await idbSet(DIAGRAMS_INDEX_KEY, newIndex);
+      await writeStoredDiagram(newDiagram);
+      await getStorage().set(DIAGRAMS_INDEX_KEY, newIndex);
 
       set({ diagrams: newIndex });
 
       return newId;
     },
 
+    reparentDiagram: async (id: string, newParentId: string | null) => {
+      const { diagrams, currentDiagram } = get();
+      if (!diagrams[id]) return false;
+      if (newParentId && (!diagrams[newParentId] || isDescendant(diagrams, newParentId, id))) return false;
+
+      const doc = currentDiagram?.id === id ? currentDiagram : await readStoredDiagram(id);
+      if (!doc) return false;
+      if ((doc.parent?.diagramId ?? null) === newParentId) return true;
+
+      // Unlink the stock it was expanded from
+      if (doc.parent) {
+        const { viaStockId } = doc.parent;
+        await updateStoredDiagram(doc.parent.diagramId, (parent) =>
+          parent.nodes[viaStockId]?.childDiagramId === id
+            ? {
+                ...parent,
+                nodes: { ...parent.nodes, [viaStockId]: { ...parent.nodes[viaStockId], childDiagramId: undefined } },
+                updatedAt: Date.now(),
+              }
+            : null
+        );
+      }
+
+      // Give the new parent a stock to drill down through
+      let parentRef: ParentRef | undefined;
+      if (newParentId) {
+        const stockId = generateNodeId();
+        parentRef = { diagramId: newParentId, viaStockId: stockId };
+        await updateStoredDiagram(newParentId, (parent) => {
+          const bounds = getNodesBoundingBox(Object.values(parent.nodes));
+          const stock: Node = {
+            id: stockId,
+            type: "stock",
+            kind: "internal",
+            label: doc.title,
+            x: bounds ? bounds.x + bounds.width + 80 : 0,
+            y: bounds ? bounds.y : 0,
+            width: DEFAULT_NODE_WIDTH,
+            height: DEFAULT_NODE_HEIGHT,
+            childDiagramId: id,
+          };
+          return { ...parent, nodes: { ...parent.nodes, [stockId]: stock }, updatedAt: Date.now() };
+        });
+      }
+
+      // Boundary stocks mirrored the old parent's flows; keep them as plain
+      // external stocks rather than letting the next sync remove them
+      await updateStoredDiagram(id, (current) => ({
+        ...current,
+        nodes: Object.fromEntries(
+          Object.entries(current.nodes).map(([nodeId, node]) => [nodeId, { ...node, boundary: undefined }])
+        ),
+        parent: parentRef,
+        updatedAt: Date.now(),
+      }));
+
+      return true;
+    },
+
     addNode: (nodeData: Omit<Node, "id">) => {
-      const { currentDiagram, pushHistory } = get();
+      const { currentDiagram } = get();
       if (!currentDiagram) return "";
 
-      pushHistory();
-
       const id = generateNodeId();
       const node: Node = { ...nodeData, id } as Node;
 
@@ -308,15 +822,29 @@ export const useDiagramStore = create<DiagramState>()(
       set({ currentDiagram: updated });
     },
 
-    deleteNode: (id: string) => {
-      const { currentDiagram, pushHistory } = get();
+    moveNodes: (positions: Record<string, Point>) => {
+      const { currentDiagram } = get();
       if (!currentDiagram) return;
 
-      pushHistory();
+      const nodes = { ...currentDiagram.nodes };
+      for (const [id, { x, y }] of Object.entries(positions)) {
+        if (nodes[id]) nodes[id] = { ...nodes[id], x, y };
+      }
+
+      set({ currentDiagram: { ...currentDiagram, nodes, updatedAt: Date.now() } });
+    },
+
+    deleteNode: (id: string) => {
+      const { currentDiagram } = get();
+      if (!currentDiagram) return;
 
       const newNodes = { ...currentDiagram.nodes };
       delete newNodes[id];
 
+      if (currentDiagram.nodes[id]) {
+        detachChildDiagrams(currentDiagram.id, [currentDiagram.nodes[id]]);
+      }
+
       // Also delete edges connected to this node
       const newEdges = { ...currentDiagram.edges };
       Object.keys(newEdges).forEach((edgeId) => {
@@ -336,11 +864,61 @@ export const useDiagramStore = create<DiagramState>()(
       set({ currentDiagram: updated });
     },
 
-    addEdge: (edgeData: Omit<Edge, "id">) => {
-      const { currentDiagram, pushHistory } = get();
+    expandStock: async (stockId: string) => {
+      const { currentDiagram, diagrams, createDiagram } = get();
       if (!currentDiagram) return "";
 
-      pushHistory();
+      const stock = currentDiagram.nodes[stockId];
+      if (!stock) return "";
+      if (stock.childDiagramId && diagrams[stock.childDiagramId]) return stock.childDiagramId;
+
+      const parent = currentDiagram;
+      const boundary = syncBoundaryStocks({ nodes: {}, edges: {} }, parent, stockId);
+      const childId = createDiagram(
+        stock.label || "Subsystem",
+        { diagramId: parent.id, viaStockId: stockId },
+        boundary ?? undefined
+      );
+
+      // createDiagram switched to the child, so write the link straight to
+      // storage; this also flushes any parent edits still waiting for autosave
+      const linkedParent: DiagramDoc = {
+        ...parent,
+        nodes: { ...parent.nodes, [stockId]: { ...stock, childDiagramId: childId } },
+        updatedAt: Date.now(),
+      };
+      await writeStoredDiagram(linkedParent);
+
+      return childId;
+    },
+
+    resolveSubsystem: async (stockId: string) => {
+      const { currentDiagram, updateNode } = get();
+      const stock = currentDiagram?.nodes[stockId];
+      if (!currentDiagram || !stock?.childDiagramId) return null;
+
+      const child = await readStoredDiagram(stock.childDiagramId);
+      if (!child) {
+        // The child diagram was deleted; drop the stale link
+        updateNode(stockId, { childDiagramId: undefined });
+        return null;
+      }
+
+      // Relink a child that was detached when this stock was deleted and
+      // then restored with undo
+      if (!child.parent) {
+        await writeStoredDiagram({
+          ...child,
+          parent: { diagramId: currentDiagram.id, viaStockId: stockId },
+        });
+      }
+
+      return child.id;
+    },
+
+    addEdge: (edgeData: Omit<Edge, "id">) => {
+      const { currentDiagram } = get();
+      if (!currentDiagram) return "";
 
       const id = generateEdgeId();
       const edge: Edge = { ...edgeData, id } as Edge;
@@ -373,11 +951,9 @@ export const useDiagramStore = create<DiagramState>()(
     },
 
     deleteEdge: (id: string) => {
-      const { currentDiagram, pushHistory } = get();
+      const { currentDiagram } = get();
       if (!currentDiagram) return;
 
-      pushHistory();
-
       const newEdges = { ...currentDiagram.edges };
       delete newEdges[id];
 
@@ -391,11 +967,9 @@ export const useDiagramStore = create<DiagramState>()(
     },
 
     addFrame: (frameData: Omit<Frame, "id">) => {
-      const { currentDiagram, pushHistory } = get();
+      const { currentDiagram } = get();
       if (!currentDiagram) return "";
 
-      pushHistory();
-
       const id = generateFrameId();
       const frame: Frame = { ...frameData, id } as Frame;
 
@@ -427,11 +1001,9 @@ export const useDiagramStore = create<DiagramState>()(
     },
 
     deleteFrame: (id: string) => {
-      const { currentDiagram, pushHistory } = get();
+      const { currentDiagram } = get();
       if (!currentDiagram) return;
 
-      pushHistory();
-
       const newFrames = { ...currentDiagram.frames };
       delete newFrames[id];
 
@@ -444,6 +1016,56 @@ export const useDiagramStore = create<DiagramState>()(
       set({ currentDiagram: updated });
     },
 
+    addNote: (noteData: Omit<Note, "id">) => {
+      const { currentDiagram } = get();
+      if (!currentDiagram) return "";
+
+      const id = generateNoteId();
+      const note: Note = { ...noteData, id };
+
+      const updated = {
+        ...currentDiagram,
+        notes: { ...currentDiagram.notes, [id]: note },
+        updatedAt: Date.now(),
+      };
+
+      set({ currentDiagram: updated });
+
+      return id;
+    },
+
+    updateNote: (id: string, updates: Partial<Note>) => {
+      const { currentDiagram } = get();
+      if (!currentDiagram || !currentDiagram.notes?.[id]) return;
+
+      const updated = {
+        ...currentDiagram,
+        notes: {
+          ...currentDiagram.notes,
+          [id]: { ...currentDiagram.notes[id], ...updates },
+        },
+        updatedAt: Date.now(),
+      };
+
+      set({ currentDiagram: updated });
+    },
+
+    deleteNote: (id: string) => {
+      const { currentDiagram } = get();
+      if (!currentDiagram) return;
+
+      const newNotes = { ...currentDiagram.notes };
+      delete newNotes[id];
+
+      const updated = {
+        ...currentDiagram,
+        notes: newNotes,
+        updatedAt: Date.now(),
+      };
+
+      set({ currentDiagram: updated });
+    },
+
     setSelectedNodeIds: (ids: Set<string>) => {
       set({ selectedNodeIds: ids });
     },
@@ -452,8 +1074,25 @@ export const useDiagramStore = create<DiagramState>()(
       set({ selectedEdgeIds: ids });
     },
 
+    setSelectedFrameIds: (ids: Set<string>) => {
+      set({ selectedFrameIds: ids });
+    },
+
+    setSelectedNoteIds: (ids: Set<string>) => {
+      set({ selectedNoteIds: ids });
+    },
+
     clearSelection: () => {
-      set({ selectedNodeIds: new Set(), selectedEdgeIds: new Set() });
+      set({
+        selectedNodeIds: new Set(),
+        selectedEdgeIds: new Set(),
+        selectedFrameIds: new Set(),
+        selectedNoteIds: new Set(),
+      });
+    },
+
+    setHighlightedLoop: (loop: FeedbackLoop | null) => {
+      set({ highlightedLoop: loop });
     },
 
     selectAll: () => {
@@ -463,24 +1102,43 @@ export const useDiagramStore = create<DiagramState>()(
       set({
         selectedNodeIds: new Set(Object.keys(currentDiagram.nodes)),
         selectedEdgeIds: new Set(Object.keys(currentDiagram.edges)),
+        selectedFrameIds: new Set(Object.keys(currentDiagram.frames ?? {})),
+        selectedNoteIds: new Set(Object.keys(currentDiagram.notes ?? {})),
       });
     },
 
     deleteSelected: () => {
-      const { currentDiagram, selectedNodeIds, selectedEdgeIds, pushHistory } = get();
+      const {
+        currentDiagram,
+        selectedNodeIds,
+        selectedEdgeIds,
+        selectedFrameIds,
+        selectedNoteIds,
+      } = get();
       if (!currentDiagram) return;
 
-      if (selectedNodeIds.size === 0 && selectedEdgeIds.size === 0) return;
-
-      pushHistory();
+      if (
+        selectedNodeIds.size === 0 &&
+        selectedEdgeIds.size === 0 &&
+        selectedFrameIds.size === 0 &&
+        selectedNoteIds.size === 0
+      ) {
+        return;
+      }
 
       const newNodes = { ...currentDiagram.nodes };
       const newEdges = { ...currentDiagram.edges };
+      const newFrames = { ...currentDiagram.frames };
+      const newNotes = { ...currentDiagram.notes };
 
       // Delete selected nodes
       selectedNodeIds.forEach((id) => {
         delete newNodes[id];
       });
+      detachChildDiagrams(
+        currentDiagram.id,
+        [...selectedNodeIds].map((id) => currentDiagram.nodes[id]).filter(Boolean)
+      );
 
       // Delete selected edges and edges connected to deleted nodes
       Object.keys(newEdges).forEach((edgeId) => {
@@ -494,10 +1152,21 @@ export const useDiagramStore = create<DiagramState>()(
         }
       });
 
+      // Deleting a frame leaves its contents in place
+      selectedFrameIds.forEach((id) => {
+        delete newFrames[id];
+      });
+
+      selectedNoteIds.forEach((id) => {
+        delete newNotes[id];
+      });
+
       const updated = {
         ...currentDiagram,
         nodes: newNodes,
         edges: newEdges,
+        frames: newFrames,
+        notes: newNotes,
         updatedAt: Date.now(),
       };
 
@@ -505,6 +1174,8 @@ export const useDiagramStore = create<DiagramState>()(
         currentDiagram: updated,
         selectedNodeIds: new Set(),
         selectedEdgeIds: new Set(),
+        selectedFrameIds: new Set(),
+        selectedNoteIds: new Set(),
       });
     },
 
@@ -521,76 +1192,145 @@ export const useDiagramStore = create<DiagramState>()(
       set({ currentDiagram: updated });
     },
 
-    pushHistory: () => {
-      const { currentDiagram, history, historyIndex } = get();
+    beginTransaction: (label?: string) => {
+      const { currentDiagram } = get();
       if (!currentDiagram) return;
 
-      // Truncate future history if we're not at the end
-      const newHistory = history.slice(0, historyIndex + 1);
+      if (transaction) {
+        transaction.depth++;
+        return;
+      }
+      transaction = { base: currentDiagram, label, depth: 1 };
+    },
 
-      newHistory.push({
-        nodes: JSON.parse(JSON.stringify(currentDiagram.nodes)),
-        edges: JSON.parse(JSON.stringify(currentDiagram.edges)),
-        frames: currentDiagram.frames ? JSON.parse(JSON.stringify(currentDiagram.frames)) : undefined,
-      });
+    endTransaction: () => {
+      if (!transaction) return;
+      transaction.depth--;
+      if (transaction.depth === 0) closeTransaction();
+    },
 
-      // Limit history size
-      if (newHistory.length > 50) {
-        newHistory.shift();
+    transact: (fn: () => void, label?: string) => {
+      const { beginTransaction, endTransaction } = get();
+      beginTransaction(label);
+      try {
+        fn();
+      } finally {
+        endTransaction();
       }
-
-      set({
-        history: newHistory,
-        historyIndex: newHistory.length - 1,
-      });
     },
 
     undo: () => {
+      closeTransaction();
+      const { historyIndex, goToHistory } = get();
+      goToHistory(historyIndex - 1);
+    },
+
+    redo: () => {
+      closeTransaction();
+      const { historyIndex, goToHistory } = get();
+      goToHistory(historyIndex + 1);
+    },
+
+    goToHistory: (index: number) => {
+      closeTransaction();
+
       const { currentDiagram, history, historyIndex } = get();
-      if (!currentDiagram || historyIndex <= 0) return;
+      if (!currentDiagram || index < -1 || index >= history.length || index === historyIndex) return;
 
-      const prevState = history[historyIndex - 1];
+      // Walk one step at a time, so the result matches repeated undo or redo
+      let doc = currentDiagram;
+      for (let i = historyIndex; i > index; i--) {
+        doc = applyPatches(doc, history[i].inversePatches);
+      }
+      for (let i = historyIndex + 1; i <= index; i++) {
+        doc = applyPatches(doc, history[i].patches);
+      }
 
-      const updated = {
-        ...currentDiagram,
-        nodes: JSON.parse(JSON.stringify(prevState.nodes)),
-        edges: JSON.parse(JSON.stringify(prevState.edges)),
-        frames: prevState.frames ? JSON.parse(JSON.stringify(prevState.frames)) : currentDiagram.frames,
-        updatedAt: Date.now(),
-      };
+      withoutRecording(() =>
+        set({
+          currentDiagram: { ...doc, updatedAt: Date.now() },
+          historyIndex: index,
+        })
+      );
+    },
 
-      set({
-        currentDiagram: updated,
-        historyIndex: historyIndex - 1,
-      });
+    applyRemoteOps: (ops: CrdtOp[], detectConflicts = true) => {
+      const { currentDiagram } = get();
+      if (!currentDiagram || !replica) return [];
+
+      const { applied, conflicts } = applyOps(replica, ops, LOCAL_PEER_ID, detectConflicts);
+      if (applied.length === 0) return conflicts;
+
+      const { patches } = diffDocs(currentDiagram, toDiagram(replica), new Set());
+
+      // Another peer's edit isn't this tab's to undo, so it also goes into the
+      // base of an open transaction rather than into the step it records
+      if (transaction) transaction.base = applyPatches(transaction.base, patches);
+      withoutReplicating(() => withoutRecording(() => set({ currentDiagram: applyPatches(currentDiagram, patches) })));
+      return conflicts;
     },
 
-    redo: () => {
-      const { currentDiagram, history, historyIndex } = get();
-      if (!currentDiagram || historyIndex >= history.length - 1) return;
+    getReplicaOps: () => (replica ? Object.values(replica.registers) : []),
 
-      const nextState = history[historyIndex + 1];
+    applyServerDiagram: async (doc: DiagramDoc) => {
+      const { currentDiagram } = get();
 
-      const updated = {
-        ...currentDiagram,
-        nodes: JSON.parse(JSON.stringify(nextState.nodes)),
-        edges: JSON.parse(JSON.stringify(nextState.edges)),
-        frames: nextState.frames ? JSON.parse(JSON.stringify(nextState.frames)) : currentDiagram.frames,
-        updatedAt: Date.now(),
-      };
+      // The view is each user's own, so the local one is kept
+      if (currentDiagram?.id === doc.id) {
+        const { patches } = diffDocs(currentDiagram, doc, new Set(["viewport"]));
+        if (patches.length === 0) return;
+
+        // Not an undo step, as with edits merged from other tabs; other
+        // tabs hear about it as this tab's edit
+        if (transaction) transaction.base = applyPatches(transaction.base, patches);
+        const updated = applyPatches(currentDiagram, patches);
+        withoutRecording(() => set({ currentDiagram: updated }));
+        refreshIndexEntry(updated);
+        return;
+      }
 
-      set({
-        currentDiagram: updated,
-        historyIndex: historyIndex + 1,
-      });
+      const stored = await readStoredDiagram(doc.id);
+      await writeStoredDiagram({ ...doc, viewport: stored?.viewport ?? doc.viewport });
+
+      const { diagrams } = get();
+      const newIndex = {
+        ...diagrams,
+        [doc.id]: { ...diagrams[doc.id], id: doc.id, updatedAt: doc.updatedAt, ...getIndexFields(doc) },
+      };
+      set({ diagrams: newIndex });
+      await getStorage().set(DIAGRAMS_INDEX_KEY, newIndex);
     },
 
     saveDiagram: async () => {
-      const { currentDiagram, diagrams } = get();
+      const { currentDiagram, diagrams, history, historyIndex } = get();
       if (!currentDiagram) return;
 
-      await idbSet(`${DIAGRAM_PREFIX}${currentDiagram.id}`, currentDiagram);
-      await idbSet(DIAGRAMS_INDEX_KEY, diagrams);
+      const { steps, index } = trimHistory(history, historyIndex, MAX_HISTORY_SIZE);
+      const storedHistory: StoredHistory = { diagramUpdatedAt: currentDiagram.updatedAt, steps, index };
+
+      if (replica) await getStorage().set(diagramKey(currentDiagram.id), replica);
+      await getStorage().set(historyKey(currentDiagram.id), storedHistory);
+      await getStorage().set(DIAGRAMS_INDEX_KEY, diagrams);
+      refreshIndexEntry(currentDiagram);
+      await syncChildBoundaries(currentDiagram);
+    },
+
+    saveRepairedDiagram: async (id: string, doc: DiagramDoc) => {
+      const repaired = { ...doc, id, updatedAt: Date.now() };
+
+      // Replaces the stored data outright: it couldn't be opened, so no
+      // peer has edits to it to merge
+      await getStorage().set(diagramKey(id), createCrdt(repaired));
+
+      const { diagrams } = get();
+      const newIndex = {
+        ...diagrams,
+        [id]: { ...diagrams[id], id, updatedAt: repaired.updatedAt, ...getIndexFields(repaired) },
+      };
+      set({ diagrams: newIndex });
+      await getStorage().set(DIAGRAMS_INDEX_KEY, newIndex);
+
+      return get().loadDiagram(id);
     },
 
     addProperty: (propData: Omit<PropertyDefinition, "id">) => {
@@ -667,6 +1407,23 @@ export const useDiagramStore = create<DiagramState>()(
       set({ currentDiagram: updated });
     },
 
+    updateSimulationSettings: (updates: Partial<SimulationSettings>) => {
+      const { currentDiagram } = get();
+      if (!currentDiagram) return;
+
+      const updated = {
+        ...currentDiagram,
+        simulation: {
+          ...DEFAULT_SIMULATION_SETTINGS,
+          ...currentDiagram.simulation,
+          ...updates,
+        },
+        updatedAt: Date.now(),
+      };
+
+      set({ currentDiagram: updated });
+    },
+
     togglePinned: (id: string) => {
       const { diagrams } = get();
       if (!diagrams[id]) return;
@@ -680,7 +1437,7 @@ export const useDiagramStore = create<DiagramState>()(
       };
 
       set({ diagrams: newIndex });
-      idbSet(DIAGRAMS_INDEX_KEY, newIndex);
+      getStorage().set(DIAGRAMS_INDEX_KEY, newIndex);
     },
 
     renameDiagram: (id: string, title: string) => {
@@ -703,16 +1460,38 @@ export const useDiagramStore = create<DiagramState>()(
           : currentDiagram;
 
       set({ diagrams: newIndex, currentDiagram: updatedCurrentDiagram });
-      idbSet(DIAGRAMS_INDEX_KEY, newIndex);
+      getStorage().set(DIAGRAMS_INDEX_KEY, newIndex);
 
       // Also update the full diagram in storage
-      if (updatedCurrentDiagram && updatedCurrentDiagram.id === id) {
-        idbSet(`${DIAGRAM_PREFIX}${id}`, updatedCurrentDiagram);
+      if (replica && updatedCurrentDiagram && updatedCurrentDiagram.id === id) {
+        getStorage().set(diagramKey(id), replica);
       }
     },
   }))
 );
 
+// Record edits made outside a transaction as their own undo steps
+useDiagramStore.subscribe(
+  (state) => state.currentDiagram,
+  (currentDiagram, previousDiagram) => {
+    if (!currentDiagram || !previousDiagram || currentDiagram.id !== previousDiagram.id) return;
+    if (transaction || recordingPaused) return;
+
+    recordStep(previousDiagram, currentDiagram, undefined, true);
+  }
+);
+
+// Record this tab's edits in the replica, for storage and other peers
+useDiagramStore.subscribe(
+  (state) => state.currentDiagram,
+  (currentDiagram, previousDiagram) => {
+    if (!replica || !currentDiagram || !previousDiagram || currentDiagram.id !== previousDiagram.id) return;
+    if (replicaPaused) return;
+
+    emitOps(currentDiagram.id, recordChange(replica, previousDiagram, currentDiagram, LOCAL_PEER_ID));
+  }
+);
+
 // Auto-save with debounce
 let saveTimeout: ReturnType<typeof setTimeout> | null = null;
 
@@ -0,0 +1,353 @@
+"use client";
+
+import { create } from "zustand";
+import { Edge, Node } from "@/lib/model/schema";
+import {
+  LayoutOptions,
+  LayoutResult,
+  applyFrameLayout,
+  applyLayout,
+  computeLayout,
+} from "@/lib/layout/autolayout";
+import { LAYOUT_TWEEN_MS, Tween, interpolatePositions, interpolateRect, tween } from "@/lib/layout/animation";
+import { EdgeRoute, Point, calculateAllEdgeEndpoints, getStraightEdgeRoute } from "@/lib/layout/geometry";
+import { LayoutRequest, LayoutResponse } from "@/lib/layout/layout-messages";
+import { PhysicsRequest, PhysicsResponse } from "@/lib/layout/physics-messages";
+import { useDiagramStore } from "./diagrams";
+
+interface LayoutState {
+  /** Whether dragging a stock pulls along what it's connected to. */
+  livePhysics: boolean;
+  /** Whether live physics is running, until it settles or is stopped. */
+  simulating: boolean;
+  /** How far the auto layout being worked out has got, from 0 to 1, or null if none is. */
+  layoutProgress: number | null;
+
+  setLivePhysics: (enabled: boolean) => void;
+}
+
+export const useLayoutStore = create<LayoutState>((set) => ({
+  livePhysics: false,
+  simulating: false,
+  layoutProgress: null,
+
+  setLivePhysics: (enabled: boolean) => {
+    if (!enabled) stopLivePhysics();
+    set({ livePhysics: enabled });
+  },
+}));
+
+// Auto layout and edge routing run in lib/layout/layout.worker.ts: one
+// worker for the layout being worked out, terminated to cancel it, and
+// another for routing, so cancelling doesn't hold up the edges
+let layoutWorker: Worker | null = null;
+let routingWorker: Worker | null = null;
+let requestId = 0;
+
+// The layout being worked out, and each routing request's answer
+let layoutRun: { id: number; options: LayoutOptions } | null = null;
+const routeRequests = new Map<number, (routes: Record<string, EdgeRoute> | null) => void>();
+
+// The last routes worked out, and the stocks they were worked out between
+let lastRoutes: { nodes: Record<string, Node>; routes: Record<string, EdgeRoute> } | null = null;
+
+// The auto layout moving stocks into place
+let animation: Tween | null = null;
+
+// The live physics run, whether a stock is held in it, and whether it's
+// stopped moving since last held
+let physics: Worker | null = null;
+let holding = false;
+let settled = false;
+
+function send(worker: Worker, message: LayoutRequest | PhysicsRequest) {
+  worker.postMessage(message);
+}
+
+function createLayoutWorker(): Worker | null {
+  return typeof Worker === "undefined" ? null : new Worker(new URL("../layout/layout.worker.ts", import.meta.url));
+}
+
+// ============================================================================
+// AUTO LAYOUT
+// ============================================================================
+
+function handleLayoutMessage(event: MessageEvent<LayoutResponse>) {
+  const message = event.data;
+  if (!layoutRun || message.id !== layoutRun.id) return;
+
+  switch (message.type) {
+    case "progress":
+      useLayoutStore.setState({ layoutProgress: message.fraction });
+      break;
+    case "layout": {
+      const { options } = layoutRun;
+      endLayoutRun();
+      animateLayout(message.layout, options);
+      break;
+    }
+    case "error":
+      endLayoutRun();
+      console.error("Auto layout failed:", message.message);
+      break;
+  }
+}
+
+function endLayoutRun() {
+  layoutRun = null;
+  useLayoutStore.setState({ layoutProgress: null });
+}
+
+/**
+ * Lay out the open diagram in the worker, with `layoutProgress` following
+ * along, then move everything into place. Where there are no workers it's
+ * worked out here instead.
+ */
+export function runAutoLayout(options: LayoutOptions): void {
+  stopLivePhysics();
+  cancelAutoLayout();
+  animation?.finish();
+
+  const diagram = useDiagramStore.getState().currentDiagram;
+  if (!diagram) return;
+  const edges = Object.values(diagram.edges);
+
+  if (!layoutWorker) {
+    layoutWorker = createLayoutWorker();
+    layoutWorker?.addEventListener("message", handleLayoutMessage);
+  }
+  if (!layoutWorker) {
+    animateLayout(computeLayout(diagram.nodes, edges, options, diagram.frames), options);
+    return;
+  }
+
+  layoutRun = { id: ++requestId, options };
+  useLayoutStore.setState({ layoutProgress: 0 });
+  send(layoutWorker, {
+    type: "layout",
+    id: layoutRun.id,
+    nodes: diagram.nodes,
+    edges,
+    options,
+    frames: diagram.frames,
+  });
+}
+
+/**
+ * Stop working out the layout under way, leaving the diagram as it is.
+ */
+export function cancelAutoLayout(): void {
+  if (!layoutRun) return;
+
+  // It's busy until it's done, so the only way to stop it is to end it
+  layoutWorker?.terminate();
+  layoutWorker = null;
+  endLayoutRun();
+}
+
+/**
+ * Move stocks, frames and the notes in them from where they are to where
+ * `layout` puts them over LAYOUT_TWEEN_MS. The whole move is one undo step,
+ * recorded when it lands.
+ */
+function animateLayout(layout: LayoutResult, options: LayoutOptions) {
+  const store = useDiagramStore.getState();
+  const diagram = store.currentDiagram;
+  if (!diagram) return;
+
+  const positioned = applyLayout(diagram.nodes, layout);
+  const framed = applyFrameLayout(diagram.frames ?? {}, diagram.notes ?? {}, layout);
+
+  // Only stocks the layout moved are animated: pinned stocks stay where
+  // they are, in either mode
+  const targets = Object.fromEntries(
+    Object.values(positioned)
+      .filter((node) => node.x !== diagram.nodes[node.id].x || node.y !== diagram.nodes[node.id].y)
+      .map((node) => [node.id, { x: node.x, y: node.y }])
+  );
+
+  store.beginTransaction("Auto layout");
+  animation = tween(
+    LAYOUT_TWEEN_MS,
+    (t) => {
+      store.moveNodes(interpolatePositions(diagram.nodes, targets, t));
+      for (const [frameId, frame] of Object.entries(framed.frames)) {
+        store.updateFrame(frameId, interpolateRect(diagram.frames![frameId], frame, t));
+      }
+      // Notes in a frame move with it
+      for (const [noteId, position] of Object.entries(interpolatePositions(diagram.notes ?? {}, framed.notes, t))) {
+        store.updateNote(noteId, position);
+      }
+    },
+    () => {
+      const { currentDiagram } = useDiagramStore.getState();
+      if (currentDiagram) {
+        store.updateDiagram(currentDiagram.id, {
+          ui: {
+            ...currentDiagram.ui,
+            hasRunInitialAutoLayout: true,
+            layoutMode: options.mode,
+            layoutDirection: options.direction,
+          },
+        });
+      }
+      store.endTransaction();
+    }
+  );
+}
+
+// ============================================================================
+// EDGE ROUTING
+// ============================================================================
+
+function createRoutingWorker(): Worker | null {
+  const worker = createLayoutWorker();
+  worker?.addEventListener("message", (event: MessageEvent<LayoutResponse>) => {
+    const message = event.data;
+    const resolve = routeRequests.get(message.id);
+    if (!resolve) return;
+
+    switch (message.type) {
+      case "routes":
+        resolve(message.routes);
+        break;
+      case "superseded":
+        resolve(null);
+        break;
+      case "error":
+        console.error("Edge routing failed:", message.message);
+        resolve(null);
+        break;
+      default:
+        return;
+    }
+    routeRequests.delete(message.id);
+  });
+  return worker;
+}
+
+/**
+ * Route `edges` between `nodes` in the worker, as `calculateAllEdgeEndpoints`
+ * does. Resolves to null if a newer request came in before this one was
+ * started, since only the newest is worth routing.
+ */
+export function routeEdges(edges: Edge[], nodes: Record<string, Node>): Promise<Record<string, EdgeRoute> | null> {
+  routingWorker ??= createRoutingWorker();
+  if (!routingWorker) {
+    lastRoutes = { nodes, routes: calculateAllEdgeEndpoints(edges, nodes) };
+    return Promise.resolve(lastRoutes.routes);
+  }
+
+  const worker = routingWorker;
+  const id = ++requestId;
+  return new Promise((resolve) => {
+    routeRequests.set(id, (routes) => {
+      if (routes) lastRoutes = { nodes, routes };
+      resolve(routes);
+    });
+    send(worker, { type: "routes", id, edges, nodes });
+  });
+}
+
+/**
+ * Routes to draw `edges` with while `routeEdges` works them out: the last
+ * route found for each edge whose stocks haven't changed since, and a
+ * straight one for the rest.
+ */
+export function provisionalRoutes(edges: Edge[], nodes: Record<string, Node>): Record<string, EdgeRoute> {
+  const routes: Record<string, EdgeRoute> = {};
+  for (const edge of edges) {
+    const source = nodes[edge.sourceId];
+    const target = nodes[edge.targetId];
+    if (!source || !target) continue;
+
+    const cached = lastRoutes?.routes[edge.id];
+    const unmoved = lastRoutes?.nodes[edge.sourceId] === source && lastRoutes?.nodes[edge.targetId] === target;
+    routes[edge.id] = cached && unmoved ? cached : getStraightEdgeRoute(source, target);
+  }
+  return routes;
+}
+
+// ============================================================================
+// LIVE PHYSICS
+// ============================================================================
+
+/**
+ * Start a run in lib/layout/physics.worker.ts, holding a transaction open
+ * so everything it moves, and the drags that stir it, undo as one step.
+ */
+function startLivePhysics(): Worker | null {
+  const { currentDiagram, beginTransaction } = useDiagramStore.getState();
+  if (!currentDiagram || typeof Worker === "undefined") return null;
+
+  const worker = new Worker(new URL("../layout/physics.worker.ts", import.meta.url));
+  worker.addEventListener("message", (event: MessageEvent<PhysicsResponse>) => {
+    if (worker !== physics) return;
+
+    const message = event.data;
+    switch (message.type) {
+      case "positions":
+        useDiagramStore.getState().moveNodes(message.positions);
+        break;
+      case "settled":
+        settled = true;
+        if (!holding) stopLivePhysics();
+        break;
+    }
+  });
+
+  send(worker, { type: "start", nodes: currentDiagram.nodes, edges: Object.values(currentDiagram.edges) });
+  beginTransaction("Live physics");
+  useLayoutStore.setState({ simulating: true });
+  return worker;
+}
+
+/**
+ * Tell live physics, if it's on, that stocks are being dragged to
+ * `positions`, starting a run if there isn't one.
+ */
+export function holdLivePhysics(positions: Record<string, Point>): void {
+  if (!useLayoutStore.getState().livePhysics) return;
+
+  physics ??= startLivePhysics();
+  if (!physics) return;
+
+  holding = true;
+  settled = false;
+  send(physics, { type: "hold", positions });
+}
+
+/**
+ * The drag is over: the run ends once nothing is moving.
+ */
+export function releaseLivePhysics(): void {
+  holding = false;
+  if (settled) stopLivePhysics();
+}
+
+/**
+ * End the run where things are now, recording it as one undo step.
+ */
+export function stopLivePhysics(): void {
+  if (!physics) return;
+
+  physics.terminate();
+  physics = null;
+  holding = false;
+  settled = false;
+  useDiagramStore.getState().endTransaction();
+  useLayoutStore.setState({ simulating: false });
+}
+
+// A move in progress has nothing to do with the next diagram opened
+useDiagramStore.subscribe(
+  (state) => state.currentDiagramId,
+  () => {
+    cancelAutoLayout();
+    if (animation?.running) {
+      animation.cancel();
+      useDiagramStore.getState().endTransaction();
+    }
+    stopLivePhysics();
+  }
+);
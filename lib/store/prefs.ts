@@ -1,10 +1,10 @@
 "use client";
 
 import { create } from "zustand";
-import { get as idbGet, set as idbSet } from "idb-keyval";
-import { UserPrefs, UserPrefsSchema, DEFAULT_USER_PREFS, GridStyle } from "@/lib/model/schema";
-
-const PREFS_KEY = "prefs";
+import { UserPrefs, DEFAULT_USER_PREFS, GridStyle, PREFS_VERSION } from "@/lib/model/schema";
+import { migratePrefs } from "@/lib/model/migrations";
+import { getStorage, PREFS_KEY } from "@/lib/storage/adapter";
+import { initializeStorage } from "./storage";
 
 interface PrefsState {
   initialized: boolean;
@@ -17,6 +17,7 @@ interface PrefsState {
   setGridStyle: (style: GridStyle) => void;
   toggleSidebar: () => void;
   setSidebarCollapsed: (collapsed: boolean) => void;
+  toggleDiagramCollapsed: (id: string) => void;
 }
 
 export const usePrefsStore = create<PrefsState>((set, get) => ({
@@ -25,13 +26,16 @@ export const usePrefsStore = create<PrefsState>((set, get) => ({
 
   initialize: async () => {
     try {
-      const data = await idbGet<UserPrefs>(PREFS_KEY);
+      await initializeStorage();
+      const data = await getStorage().get(PREFS_KEY);
       if (data) {
-        const validated = UserPrefsSchema.parse(data);
-        set({ prefs: validated, initialized: true });
+        const migrated = migratePrefs(data);
+        if (!migrated.ok) throw new Error(migrated.error);
+        set({ prefs: migrated.value, initialized: true });
+        if (migrated.fromVersion !== PREFS_VERSION) await getStorage().set(PREFS_KEY, migrated.value);
       } else {
         set({ prefs: DEFAULT_USER_PREFS, initialized: true });
-        await idbSet(PREFS_KEY, DEFAULT_USER_PREFS);
+        await getStorage().set(PREFS_KEY, DEFAULT_USER_PREFS);
       }
     } catch (error) {
       console.error("Failed to initialize prefs:", error);
@@ -42,14 +46,14 @@ export const usePrefsStore = create<PrefsState>((set, get) => ({
   updatePrefs: (updates: Partial<UserPrefs>) => {
     const newPrefs = { ...get().prefs, ...updates };
     set({ prefs: newPrefs });
-    idbSet(PREFS_KEY, newPrefs);
+    getStorage().set(PREFS_KEY, newPrefs);
   },
 
   setLabelMode: (mode: "hover" | "always") => {
     const { prefs } = get();
     const newPrefs = { ...prefs, labelModeDefault: mode };
     set({ prefs: newPrefs });
-    idbSet(PREFS_KEY, newPrefs);
+    getStorage().set(PREFS_KEY, newPrefs);
   },
 
   setFontFamily: (font: "inter" | "ibm-plex-mono" | "system") => {
@@ -59,7 +63,7 @@ export const usePrefsStore = create<PrefsState>((set, get) => ({
       theme: { ...prefs.theme, fontFamily: font },
     };
     set({ prefs: newPrefs });
-    idbSet(PREFS_KEY, newPrefs);
+    getStorage().set(PREFS_KEY, newPrefs);
   },
 
   setGridStyle: (style: GridStyle) => {
@@ -69,7 +73,7 @@ export const usePrefsStore = create<PrefsState>((set, get) => ({
       grid: { ...prefs.grid, style },
     };
     set({ prefs: newPrefs });
-    idbSet(PREFS_KEY, newPrefs);
+    getStorage().set(PREFS_KEY, newPrefs);
   },
 
   toggleSidebar: () => {
@@ -79,7 +83,7 @@ export const usePrefsStore = create<PrefsState>((set, get) => ({
       sidebarCollapsed: !prefs.sidebarCollapsed,
     };
     set({ prefs: newPrefs });
-    idbSet(PREFS_KEY, newPrefs);
+    getStorage().set(PREFS_KEY, newPrefs);
   },
 
   setSidebarCollapsed: (collapsed: boolean) => {
@@ -89,6 +93,19 @@ export const usePrefsStore = create<PrefsState>((set, get) => ({
       sidebarCollapsed: collapsed,
     };
     set({ prefs: newPrefs });
-    idbSet(PREFS_KEY, newPrefs);
+    getStorage().set(PREFS_KEY, newPrefs);
+  },
+
+  toggleDiagramCollapsed: (id: string) => {
+    const { prefs } = get();
+    const collapsed = prefs.collapsedDiagramIds ?? [];
+    const newPrefs = {
+      ...prefs,
+      collapsedDiagramIds: collapsed.includes(id)
+        ? collapsed.filter((other) => other !== id)
+        : [...collapsed, id],
+    };
+    set({ prefs: newPrefs });
+    getStorage().set(PREFS_KEY, newPrefs);
   },
 }));
@@ -0,0 +1,275 @@
+"use client";
+
+import { create } from "zustand";
+import { z } from "zod";
+import { DiagramDoc, DiagramDocSchema } from "@/lib/model/schema";
+import { migrateDiagram } from "@/lib/model/migrations";
+import { applyPatches, diffDocs } from "@/lib/history/patches";
+import { isEqual } from "@/lib/history/diff";
+import { SyncClient, createSyncClient } from "@/lib/sync/http";
+import { getStorage } from "@/lib/storage/adapter";
+import { useDiagramStore, onDiagramOps, readStoredDiagram } from "./diagrams";
+import { addSnapshot } from "./snapshots";
+
+// Each diagram's copy as of its last sync, to tell whose side changed since
+const BASE_PREFIX = "server-sync:";
+
+// Fields each user keeps to themselves, which never go to the server
+const LOCAL_KEYS = new Set(["viewport"]);
+
+// Syncs this often, and this soon after a local edit
+const SYNC_INTERVAL_MS = 30_000;
+const EDIT_DELAY_MS = 2_000;
+
+// Rounds in a row before leaving refused writes for the next sync
+const MAX_ROUNDS = 3;
+
+export type ServerSyncStatus = "off" | "syncing" | "synced" | "error";
+
+interface ServerSyncState {
+  url: string | null;
+  status: ServerSyncStatus;
+  lastSyncedAt: number | null;
+  error: string | null;
+
+  syncNow: () => Promise<void>;
+}
+
+const BaseSchema = z.object({
+  url: z.string(),
+  etag: z.string(),
+  doc: DiagramDocSchema,
+});
+
+type Base = z.infer<typeof BaseSchema>;
+
+// The sync in progress, and whether another was asked for meanwhile
+let running: Promise<void> | null = null;
+let requested = false;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** `doc` as it's sent to the server. */
+function sharedContent(doc: DiagramDoc): DiagramDoc {
+  return Object.fromEntries(Object.entries(doc).filter(([key]) => !LOCAL_KEYS.has(key))) as DiagramDoc;
+}
+
+/** Whether two copies differ in anything but the view and the edit time. */
+function differs(a: DiagramDoc, b: DiagramDoc): boolean {
+  return !isEqual({ ...sharedContent(a), updatedAt: 0 }, { ...sharedContent(b), updatedAt: 0 });
+}
+
+async function readBase(url: string, id: string): Promise<Base | undefined> {
+  const parsed = BaseSchema.safeParse(await getStorage().get(`${BASE_PREFIX}${id}`));
+  // Bases from another server say nothing about this one
+  return parsed.success && parsed.data.url === url ? parsed.data : undefined;
+}
+
+async function writeBase(url: string, etag: string, doc: DiagramDoc) {
+  await getStorage().set(`${BASE_PREFIX}${doc.id}`, { url, etag, doc: sharedContent(doc) });
+}
+
+async function deleteBase(id: string) {
+  await getStorage().del(`${BASE_PREFIX}${id}`);
+}
+
+/** The local copy, including edits to the open diagram not yet saved. */
+async function readLocal(id: string): Promise<DiagramDoc | undefined> {
+  const { currentDiagram } = useDiagramStore.getState();
+  return currentDiagram?.id === id ? currentDiagram : readStoredDiagram(id);
+}
+
+// ============================================================================
+// SYNC
+// ============================================================================
+
+/**
+ * Write `doc` over the server's copy with `etag` (null to create it).
+ * Returns false if the server's copy has moved on, leaving it for the next
+ * round to merge.
+ */
+async function push(client: SyncClient, url: string, doc: DiagramDoc, etag: string | null): Promise<boolean> {
+  const shared = sharedContent(doc);
+  const result = await client.putDiagram(shared, etag);
+  if (!result.ok || !result.etag) return false;
+  await writeBase(url, result.etag, shared);
+  return true;
+}
+
+async function pull(url: string, doc: DiagramDoc, etag: string): Promise<boolean> {
+  await useDiagramStore.getState().applyServerDiagram(doc);
+  await writeBase(url, etag, doc);
+  return true;
+}
+
+/**
+ * Bring one diagram into line with the server. Whichever side changed since
+ * the last sync wins. When both did, the local edits are replayed on the
+ * server's copy; if that doesn't make a valid diagram, the local copy wins
+ * and the server's is kept as a named version. Returns false if the server
+ * refused a write.
+ */
+async function syncDiagram(
+  client: SyncClient,
+  url: string,
+  id: string,
+  remoteEtag: string | undefined
+): Promise<boolean> {
+  const base = await readBase(url, id);
+  const listed = Boolean(useDiagramStore.getState().diagrams[id]);
+  const local = listed ? await readLocal(id) : undefined;
+  // Listed but not saved yet
+  if (listed && !local) return true;
+
+  if (!remoteEtag) {
+    if (!local) {
+      if (base) await deleteBase(id);
+      return true;
+    }
+    if (base && !differs(base.doc, local)) {
+      // Deleted on the server, and not edited here since
+      await useDiagramStore.getState().deleteDiagram(id);
+      await deleteBase(id);
+      return true;
+    }
+    return push(client, url, local, null);
+  }
+
+  if (base?.etag === remoteEtag) {
+    if (local) return differs(base.doc, local) ? push(client, url, local, remoteEtag) : true;
+
+    // Deleted here, and not edited on the server since
+    const result = await client.deleteDiagram(id, remoteEtag);
+    if (result.ok) await deleteBase(id);
+    return result.ok;
+  }
+
+  const remote = await client.getDiagram(id);
+  if (!remote) return false;
+  const migrated = migrateDiagram(remote.data);
+  if (!migrated.ok) {
+    console.error(`Skipping the server's copy of ${id}:`, migrated.error);
+    return true;
+  }
+  const remoteDoc = migrated.value;
+
+  if (!local || !differs(remoteDoc, local) || (base && !differs(base.doc, local))) {
+    return pull(url, remoteDoc, remote.etag);
+  }
+
+  if (base) {
+    const { patches } = diffDocs(base.doc, sharedContent(local), LOCAL_KEYS);
+    const merged = migrateDiagram(applyPatches(remoteDoc, patches));
+    if (merged.ok) {
+      await useDiagramStore.getState().applyServerDiagram(merged.value);
+      return push(client, url, merged.value, remote.etag);
+    }
+  }
+
+  await addSnapshot(id, `Server copy, ${new Date().toLocaleString()}`, remoteDoc);
+  return push(client, url, local, remote.etag);
+}
+
+/**
+ * One round of syncing every diagram with the server at `url`. Returns
+ * false if the server refused a write because its copy had moved on, which
+ * the next round merges.
+ */
+export async function syncWithServer(url: string): Promise<boolean> {
+  const client = createSyncClient(url);
+  const index = await client.getIndex();
+  const { diagrams } = useDiagramStore.getState();
+
+  const bases = (await getStorage().keys())
+    .filter((key) => key.startsWith(BASE_PREFIX))
+    .map((key) => key.slice(BASE_PREFIX.length));
+  const ids = new Set([...Object.keys(diagrams), ...Object.keys(index), ...bases]);
+
+  let settled = true;
+  for (const id of ids) {
+    // Left alone until repaired (see docs/schema-migrations.md)
+    if (diagrams[id]?.quarantine) continue;
+    if (!(await syncDiagram(client, url, id, index[id]?.etag))) settled = false;
+  }
+  return settled;
+}
+
+// ============================================================================
+// STORE
+// ============================================================================
+
+export const useServerSyncStore = create<ServerSyncState>((set, get) => ({
+  url: null,
+  status: "off",
+  lastSyncedAt: null,
+  error: null,
+
+  syncNow: async () => {
+    const { url } = get();
+    if (!url) return;
+    if (running) {
+      requested = true;
+      return running;
+    }
+
+    set({ status: "syncing" });
+    running = (async () => {
+      try {
+        // Again straight away if a write was refused or an edit came in
+        let settled = false;
+        for (let round = 0; round < MAX_ROUNDS && (!settled || requested) && get().url === url; round++) {
+          requested = false;
+          settled = await syncWithServer(url);
+        }
+        if (get().url === url) set({ status: "synced", lastSyncedAt: Date.now(), error: null });
+      } catch (error) {
+        console.error("Failed to sync with the server:", error);
+        if (get().url === url) {
+          set({ status: "error", error: error instanceof Error ? error.message : String(error) });
+        }
+      } finally {
+        running = null;
+      }
+    })();
+    return running;
+  },
+}));
+
+/**
+ * Keep every diagram in step with the sync server at `url`: now, soon after
+ * each local edit, every so often, and on reconnecting. Edits are still
+ * made and saved locally first, so the server being away only delays
+ * syncing. Returns a function that stops syncing.
+ */
+export function startServerSync(url: string): () => void {
+  useServerSyncStore.setState({ url, error: null });
+  const { syncNow } = useServerSyncStore.getState();
+
+  let editTimeout: ReturnType<typeof setTimeout> | null = null;
+  const syncSoon = () => {
+    if (editTimeout) clearTimeout(editTimeout);
+    editTimeout = setTimeout(syncNow, EDIT_DELAY_MS);
+  };
+
+  const unsubscribers = [
+    onDiagramOps((_diagramId, ops) => {
+      if (ops.some((op) => !LOCAL_KEYS.has(op.path[0]))) syncSoon();
+    }),
+    // Diagrams created or deleted
+    useDiagramStore.subscribe((state) => Object.keys(state.diagrams).sort().join(), syncSoon),
+  ];
+
+  window.addEventListener("online", syncNow);
+  const interval = setInterval(syncNow, SYNC_INTERVAL_MS);
+  void syncNow();
+
+  return () => {
+    if (editTimeout) clearTimeout(editTimeout);
+    clearInterval(interval);
+    window.removeEventListener("online", syncNow);
+    unsubscribers.forEach((unsubscribe) => unsubscribe());
+    useServerSyncStore.setState({ url: null, status: "off", error: null });
+  };
+}
@@ -0,0 +1,116 @@
+"use client";
+
+import { create } from "zustand";
+import { DiagramDoc, Snapshot, SnapshotSchema } from "@/lib/model/schema";
+import { generateSnapshotId } from "@/lib/model/ids";
+import { getStorage, snapshotsKey } from "@/lib/storage/adapter";
+import { useDiagramStore } from "./diagrams";
+
+interface SnapshotState {
+  diagramId: string | null;
+  // Named versions of `diagramId`, newest first
+  snapshots: Snapshot[];
+  // Version the canvas is showing differences against
+  comparing: Snapshot | null;
+
+  loadSnapshots: (diagramId: string) => Promise<void>;
+  createSnapshot: (name: string) => Promise<Snapshot | null>;
+  deleteSnapshot: (id: string) => Promise<void>;
+  restoreSnapshot: (id: string) => string | null;
+  setComparing: (snapshot: Snapshot | null) => void;
+}
+
+async function readSnapshots(diagramId: string): Promise<Snapshot[]> {
+  const data = (await getStorage().get<unknown[]>(snapshotsKey(diagramId))) ?? [];
+  // Skip entries that no longer validate rather than losing every version
+  return data.flatMap((entry) => {
+    const parsed = SnapshotSchema.safeParse(entry);
+    return parsed.success ? [parsed.data] : [];
+  });
+}
+
+/**
+ * Save `doc` as a named version of `diagramId`, whether or not it's open.
+ */
+export async function addSnapshot(diagramId: string, name: string, doc: DiagramDoc): Promise<Snapshot> {
+  const snapshot: Snapshot = {
+    id: generateSnapshotId(),
+    diagramId,
+    name: name.trim() || new Date().toLocaleString(),
+    createdAt: Date.now(),
+    doc,
+  };
+
+  const stored = await readSnapshots(diagramId);
+  await getStorage().set(snapshotsKey(diagramId), [...stored, snapshot]);
+
+  const state = useSnapshotStore.getState();
+  if (state.diagramId === diagramId) {
+    useSnapshotStore.setState({ snapshots: [snapshot, ...state.snapshots] });
+  }
+  return snapshot;
+}
+
+export const useSnapshotStore = create<SnapshotState>((set, get) => ({
+  diagramId: null,
+  snapshots: [],
+  comparing: null,
+
+  loadSnapshots: async (diagramId: string) => {
+    if (get().diagramId !== diagramId) {
+      set({ diagramId, snapshots: [], comparing: null });
+    }
+
+    try {
+      const snapshots = await readSnapshots(diagramId);
+      if (get().diagramId === diagramId) {
+        set({ snapshots: snapshots.sort((a, b) => b.createdAt - a.createdAt) });
+      }
+    } catch (error) {
+      console.error("Failed to load snapshots:", error);
+    }
+  },
+
+  createSnapshot: async (name: string) => {
+    const { currentDiagram } = useDiagramStore.getState();
+    if (!currentDiagram) return null;
+
+    return addSnapshot(currentDiagram.id, name, currentDiagram);
+  },
+
+  deleteSnapshot: async (id: string) => {
+    const { diagramId, snapshots, comparing } = get();
+    if (!diagramId) return;
+
+    const stored = await readSnapshots(diagramId);
+    await getStorage().set(
+      snapshotsKey(diagramId),
+      stored.filter((snapshot) => snapshot.id !== id)
+    );
+
+    set({
+      snapshots: snapshots.filter((snapshot) => snapshot.id !== id),
+      comparing: comparing?.id === id ? null : comparing,
+    });
+  },
+
+  restoreSnapshot: (id: string) => {
+    const snapshot = get().snapshots.find((s) => s.id === id);
+    if (!snapshot) return null;
+
+    // The copy is a new top-level system; subsystems stay with the original
+    const { doc } = snapshot;
+    const nodes = Object.fromEntries(
+      Object.entries(doc.nodes).map(([nodeId, node]) => [nodeId, { ...node, childDiagramId: undefined }])
+    );
+
+    return useDiagramStore.getState().createDiagram(`${doc.title} (${snapshot.name})`, undefined, {
+      ...doc,
+      nodes,
+    });
+  },
+
+  setComparing: (snapshot: Snapshot | null) => {
+    set({ comparing: snapshot });
+  },
+}));
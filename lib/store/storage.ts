@@ -0,0 +1,138 @@
+"use client";
+
+import { create } from "zustand";
+import { get as idbGet, set as idbSet, del as idbDel } from "idb-keyval";
+import { StorageAdapter, getStorage, setStorage } from "@/lib/storage/adapter";
+import { createIndexedDBAdapter } from "@/lib/storage/indexeddb";
+import { createFolderAdapter } from "@/lib/storage/folder";
+
+// The chosen folder's handle. It always lives in IndexedDB: it's how the
+// folder is found again.
+const FOLDER_HANDLE_KEY = "storage:folder";
+
+export type StorageBackend = "indexeddb" | "folder";
+
+// Permission checks on a directory handle, which TypeScript's DOM types
+// don't include yet
+type PermissionedHandle = FileSystemDirectoryHandle & {
+  queryPermission: (options: { mode: "readwrite" }) => Promise<PermissionState>;
+  requestPermission: (options: { mode: "readwrite" }) => Promise<PermissionState>;
+};
+
+type DirectoryPicker = (options: { mode: "readwrite"; id?: string }) => Promise<FileSystemDirectoryHandle>;
+
+interface StorageState {
+  backend: StorageBackend;
+  // Name of the chosen folder, if any
+  folderName: string | null;
+  // A folder is chosen but the browser needs the user's say-so to use it
+  // again; until then browser storage is used
+  needsPermission: boolean;
+
+  chooseFolder: () => Promise<void>;
+  reconnectFolder: () => Promise<void>;
+  switchToBrowserStorage: () => Promise<void>;
+}
+
+let initialization: Promise<StorageAdapter> | null = null;
+
+/**
+ * Whether this browser can store systems in a local folder.
+ */
+export function canUseFolders(): boolean {
+  return typeof window !== "undefined" && "showDirectoryPicker" in window;
+}
+
+async function openStorage(): Promise<StorageAdapter> {
+  let handle: PermissionedHandle | undefined;
+  try {
+    handle = canUseFolders() ? await idbGet<PermissionedHandle>(FOLDER_HANDLE_KEY) : undefined;
+  } catch (error) {
+    console.error("Failed to read the storage folder:", error);
+  }
+  if (!handle) return createIndexedDBAdapter();
+
+  useStorageStore.setState({ folderName: handle.name });
+  if ((await handle.queryPermission({ mode: "readwrite" })) === "granted") {
+    useStorageStore.setState({ backend: "folder" });
+    return createFolderAdapter(handle);
+  }
+
+  useStorageStore.setState({ needsPermission: true });
+  return createIndexedDBAdapter();
+}
+
+/**
+ * Pick the storage backend: the chosen folder if there is one and it may be
+ * used, otherwise IndexedDB. Only the first call decides, unless
+ * `replaceStorage` has already; stores await it before their first read.
+ */
+export function initializeStorage(): Promise<StorageAdapter> {
+  if (!initialization) {
+    initialization = openStorage().then((adapter) => {
+      setStorage(adapter);
+      return adapter;
+    });
+  }
+  return initialization;
+}
+
+/**
+ * Use `adapter` from now on, whatever was picked before, e.g. fresh memory
+ * storage for each test. Stores that have already read from the old one
+ * need initializing again.
+ */
+export function replaceStorage(adapter: StorageAdapter): void {
+  initialization = Promise.resolve(adapter);
+  setStorage(adapter);
+}
+
+/** Copy everything in `from` that `to` doesn't have yet. */
+async function copyMissing(from: StorageAdapter, to: StorageAdapter) {
+  const existing = new Set(await to.keys());
+  for (const key of await from.keys()) {
+    if (existing.has(key) || key === FOLDER_HANDLE_KEY) continue;
+    await to.set(key, await from.get(key));
+  }
+}
+
+export const useStorageStore = create<StorageState>(() => ({
+  backend: "indexeddb",
+  folderName: null,
+  needsPermission: false,
+
+  // Switching reloads the page so every store starts again from the new backend
+
+  chooseFolder: async () => {
+    const picker = (window as unknown as { showDirectoryPicker?: DirectoryPicker }).showDirectoryPicker;
+    if (!picker) return;
+
+    let handle: FileSystemDirectoryHandle;
+    try {
+      handle = await picker({ mode: "readwrite", id: "system-builder" });
+    } catch {
+      return; // Cancelled
+    }
+
+    // Systems already in the folder are kept; the rest are copied in
+    await copyMissing(getStorage(), createFolderAdapter(handle));
+    await idbSet(FOLDER_HANDLE_KEY, handle);
+    window.location.reload();
+  },
+
+  reconnectFolder: async () => {
+    const handle = await idbGet<PermissionedHandle>(FOLDER_HANDLE_KEY);
+    if (!handle) return;
+    if ((await handle.requestPermission({ mode: "readwrite" })) === "granted") {
+      window.location.reload();
+    }
+  },
+
+  switchToBrowserStorage: async () => {
+    if (useStorageStore.getState().backend === "folder") {
+      await copyMissing(getStorage(), createIndexedDBAdapter());
+    }
+    await idbDel(FOLDER_HANDLE_KEY);
+    window.location.reload();
+  },
+}));
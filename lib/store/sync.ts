@@ -0,0 +1,303 @@
+"use client";
+
+import { create } from "zustand";
+import { COLOR_PALETTE, Edge } from "@/lib/model/schema";
+import { applyPatches, pathKey, valueAt } from "@/lib/history/patches";
+import { CrdtConflict, CrdtOp } from "@/lib/sync/crdt";
+import { Transport, createBroadcastTransport, createWebSocketTransport } from "@/lib/sync/transport";
+import { generateId } from "@/lib/model/ids";
+import { useDiagramStore, onDiagramOps, LOCAL_PEER_ID } from "./diagrams";
+
+const CHANNEL_NAME = "system-builder:sync";
+
+// Fields each peer keeps to itself
+const LOCAL_KEYS = new Set(["viewport"]);
+
+// Presence is re-sent this often, and peers not heard from for a while are dropped
+const HEARTBEAT_MS = 10_000;
+const PEER_TIMEOUT_MS = 30_000;
+
+// Cursor moves are sent at most this often
+const CURSOR_THROTTLE_MS = 50;
+
+// Peer colors, skipping the neutral ones
+const PEER_COLORS = Object.keys(COLOR_PALETTE).filter((color) => color !== "default" && color !== "gray");
+
+type DiagramIndex = ReturnType<typeof useDiagramStore.getState>["diagrams"];
+
+export interface PeerSelection {
+  nodeIds: string[];
+  edgeIds: string[];
+  frameIds: string[];
+  noteIds: string[];
+}
+
+export interface PeerPresence {
+  peer: string;
+  diagramId: string | null;
+  /** Pointer position in canvas coordinates, or null when off the canvas. */
+  cursor: { x: number; y: number } | null;
+  selection: PeerSelection;
+}
+
+export type SyncMessage =
+  | { type: "ops"; diagramId: string; ops: CrdtOp[] }
+  // Everything a peer has of a diagram, sent on opening it and in reply
+  | { type: "state"; diagramId: string; ops: CrdtOp[]; reply: boolean }
+  | { type: "presence"; presence: PeerPresence }
+  | { type: "leave"; peer: string }
+  // Index entries a tab added, changed or deleted
+  | { type: "index"; changed: DiagramIndex; deleted: string[] };
+
+export interface SyncConflict extends CrdtConflict {
+  id: string;
+}
+
+interface SyncState {
+  // Edits of this tab's that a concurrent edit elsewhere replaced
+  conflicts: SyncConflict[];
+  // Other peers, keyed by peer ID, with when each was last heard from
+  peers: Record<string, PeerPresence & { lastSeen: number }>;
+
+  resolveConflict: (id: string, keep: "mine" | "theirs") => void;
+  updateCursor: (cursor: { x: number; y: number } | null) => void;
+}
+
+let transport: Transport<SyncMessage> | null = null;
+let indexTransport: Transport<SyncMessage> | null = null;
+
+// Set while applying another tab's index, so it isn't sent back
+let applyingRemoteIndex = false;
+
+let cursor: PeerPresence["cursor"] = null;
+let cursorTimeout: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * A peer's color name in `COLOR_PALETTE`, the same in every tab.
+ */
+export function peerColor(peer: string): string {
+  let hash = 0;
+  for (const char of peer) hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  return PEER_COLORS[Math.abs(hash) % PEER_COLORS.length];
+}
+
+function sharedOps(ops: CrdtOp[]): CrdtOp[] {
+  return ops.filter((op) => !LOCAL_KEYS.has(op.path[0]));
+}
+
+function localPresence(): PeerPresence {
+  const { currentDiagramId, selectedNodeIds, selectedEdgeIds, selectedFrameIds, selectedNoteIds } =
+    useDiagramStore.getState();
+  return {
+    peer: LOCAL_PEER_ID,
+    diagramId: currentDiagramId,
+    cursor,
+    selection: {
+      nodeIds: [...selectedNodeIds],
+      edgeIds: [...selectedEdgeIds],
+      frameIds: [...selectedFrameIds],
+      noteIds: [...selectedNoteIds],
+    },
+  };
+}
+
+function sendPresence() {
+  transport?.send({ type: "presence", presence: localPresence() });
+}
+
+function sendState(reply: boolean) {
+  const { currentDiagramId, getReplicaOps } = useDiagramStore.getState();
+  if (!currentDiagramId) return;
+  transport?.send({ type: "state", diagramId: currentDiagramId, ops: sharedOps(getReplicaOps()), reply });
+}
+
+function mergeOps(ops: CrdtOp[], detectConflicts: boolean) {
+  const conflicts = useDiagramStore.getState().applyRemoteOps(ops, detectConflicts);
+
+  // A later write to a path supersedes an earlier conflict on it
+  const written = new Set(ops.map((op) => pathKey(op.path)));
+  useSyncStore.setState((state) => ({
+    conflicts: [
+      ...state.conflicts.filter((conflict) => !written.has(pathKey(conflict.path))),
+      ...conflicts.map((conflict) => ({ ...conflict, id: generateId() })),
+    ],
+  }));
+}
+
+/**
+ * `local` with another tab's index changes applied, entry by entry, so
+ * diagrams this tab created or changed meanwhile aren't lost. Of two edits
+ * to one entry, the one made to the newer diagram wins.
+ */
+function mergeIndex(local: DiagramIndex, changed: DiagramIndex, deleted: string[]): DiagramIndex {
+  const merged = { ...local };
+  for (const [id, entry] of Object.entries(changed)) {
+    if (!merged[id] || merged[id].updatedAt <= entry.updatedAt) merged[id] = entry;
+  }
+  for (const id of deleted) delete merged[id];
+  return merged;
+}
+
+function handleMessage(message: SyncMessage) {
+  const { currentDiagramId } = useDiagramStore.getState();
+
+  switch (message.type) {
+    case "index":
+      applyingRemoteIndex = true;
+      try {
+        useDiagramStore.setState((state) => ({
+          diagrams: mergeIndex(state.diagrams, message.changed, message.deleted),
+        }));
+      } finally {
+        applyingRemoteIndex = false;
+      }
+      break;
+
+    case "ops":
+      if (message.diagramId === currentDiagramId) mergeOps(message.ops, true);
+      break;
+
+    case "state":
+      if (message.diagramId !== currentDiagramId) break;
+      mergeOps(message.ops, false);
+      if (!message.reply) {
+        sendState(true);
+        sendPresence();
+      }
+      break;
+
+    case "presence":
+      useSyncStore.setState((state) => ({
+        peers: { ...state.peers, [message.presence.peer]: { ...message.presence, lastSeen: Date.now() } },
+      }));
+      break;
+
+    case "leave":
+      useSyncStore.setState((state) => {
+        const peers = { ...state.peers };
+        delete peers[message.peer];
+        return { peers };
+      });
+      break;
+  }
+}
+
+export const useSyncStore = create<SyncState>((set, get) => ({
+  conflicts: [],
+  peers: {},
+
+  resolveConflict: (id: string, keep: "mine" | "theirs") => {
+    const conflict = get().conflicts.find((c) => c.id === id);
+    set({ conflicts: get().conflicts.filter((c) => c.id !== id) });
+    if (!conflict || keep === "theirs") return;
+
+    const { currentDiagram } = useDiagramStore.getState();
+    if (!currentDiagram) return;
+
+    // The element holding the value may have been deleted since
+    if (conflict.path.length > 1 && valueAt(currentDiagram, conflict.path.slice(0, -1)) === undefined) return;
+    // A flow can't come back without both its stocks
+    if (conflict.path.length === 2 && conflict.path[0] === "edges" && conflict.local) {
+      const { sourceId, targetId } = conflict.local as Edge;
+      if (!currentDiagram.nodes[sourceId] || !currentDiagram.nodes[targetId]) return;
+    }
+
+    // Writing it again is an ordinary edit: undoable, and later than theirs
+    const patch = conflict.local === undefined ? { path: conflict.path } : { path: conflict.path, value: conflict.local };
+    useDiagramStore.setState({
+      currentDiagram: { ...applyPatches(currentDiagram, [patch]), updatedAt: Date.now() },
+    });
+  },
+
+  updateCursor: (position: { x: number; y: number } | null) => {
+    cursor = position;
+    if (cursorTimeout) return;
+    cursorTimeout = setTimeout(() => {
+      cursorTimeout = null;
+      sendPresence();
+    }, CURSOR_THROTTLE_MS);
+  },
+}));
+
+/**
+ * The transport for collaborating: a relay server when `NEXT_PUBLIC_SYNC_URL`
+ * is set, otherwise the other tabs of this browser.
+ */
+export function createSyncTransport(): Transport<SyncMessage> | null {
+  const url = process.env.NEXT_PUBLIC_SYNC_URL;
+  if (url && typeof WebSocket !== "undefined") return createWebSocketTransport(url);
+  if (typeof BroadcastChannel !== "undefined") return createBroadcastTransport(CHANNEL_NAME);
+  return null;
+}
+
+/**
+ * Collaborate on the open diagram over `transport`: edits merge as they
+ * happen, and each peer's cursor and selection are shared. The diagram index
+ * is shared with the other tabs of this browser, which use the same storage.
+ * Returns a function that stops syncing.
+ */
+export function startSync(syncTransport: Transport<SyncMessage>): () => void {
+  transport = syncTransport;
+  indexTransport = typeof BroadcastChannel !== "undefined" ? createBroadcastTransport(`${CHANNEL_NAME}:index`) : null;
+
+  const unsubscribers = [
+    syncTransport.subscribe(handleMessage),
+    indexTransport?.subscribe(handleMessage) ?? (() => {}),
+    onDiagramOps((diagramId, ops) => {
+      const shared = sharedOps(ops);
+      if (shared.length > 0) transport?.send({ type: "ops", diagramId, ops: shared });
+    }),
+    useDiagramStore.subscribe(
+      (state) => state.currentDiagramId,
+      (currentDiagramId) => {
+        useSyncStore.setState({ conflicts: [] });
+        sendPresence();
+        if (currentDiagramId) sendState(false);
+      }
+    ),
+    useDiagramStore.subscribe(
+      (state) => [state.selectedNodeIds, state.selectedEdgeIds, state.selectedFrameIds, state.selectedNoteIds],
+      sendPresence,
+      { equalityFn: (a, b) => a.every((ids, i) => ids === b[i]) }
+    ),
+    useDiagramStore.subscribe(
+      (state) => state.diagrams,
+      (diagrams, previous) => {
+        if (applyingRemoteIndex) return;
+        // Store actions replace only the entries they change
+        const changed = Object.fromEntries(Object.entries(diagrams).filter(([id, entry]) => entry !== previous[id]));
+        const deleted = Object.keys(previous).filter((id) => !diagrams[id]);
+        indexTransport?.send({ type: "index", changed, deleted });
+      }
+    ),
+  ];
+
+  const leave = () => transport?.send({ type: "leave", peer: LOCAL_PEER_ID });
+  window.addEventListener("pagehide", leave);
+
+  const heartbeat = setInterval(() => {
+    sendPresence();
+    const cutoff = Date.now() - PEER_TIMEOUT_MS;
+    const { peers } = useSyncStore.getState();
+    if (Object.values(peers).some((peer) => peer.lastSeen < cutoff)) {
+      useSyncStore.setState({
+        peers: Object.fromEntries(Object.entries(peers).filter(([, peer]) => peer.lastSeen >= cutoff)),
+      });
+    }
+  }, HEARTBEAT_MS);
+
+  sendState(false);
+  sendPresence();
+
+  return () => {
+    leave();
+    window.removeEventListener("pagehide", leave);
+    clearInterval(heartbeat);
+    unsubscribers.forEach((unsubscribe) => unsubscribe());
+    syncTransport.close();
+    indexTransport?.close();
+    transport = null;
+    indexTransport = null;
+    useSyncStore.setState({ conflicts: [], peers: {} });
+  };
+}
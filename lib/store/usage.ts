@@ -0,0 +1,147 @@
+"use client";
+
+import { CompactionChange, compactDiagram, findOrphanedDiagrams } from "@/lib/model/compaction";
+import { DiagramDoc } from "@/lib/model/schema";
+import { getStorage, KEY_PREFIXES } from "@/lib/storage/adapter";
+import { useDiagramStore, readStoredDiagram, updateStoredDiagram } from "./diagrams";
+
+// Share of the browser's quota past which the settings panel warns
+export const QUOTA_WARNING_RATIO = 0.8;
+
+export interface DiagramUsage {
+  id: string;
+  title: string;
+  /** Bytes of JSON stored for the diagram, its undo history and its named versions. */
+  diagram: number;
+  history: number;
+  snapshots: number;
+  total: number;
+}
+
+export interface StorageUsage {
+  /** Largest first. */
+  diagrams: DiagramUsage[];
+  /** Everything else: the index, preferences, sync state and leftovers. */
+  other: number;
+  total: number;
+  /** What the browser says this site uses and may use, if it says. */
+  estimate: { usage: number; quota: number } | null;
+}
+
+export interface CompactionPlan {
+  orphans: { id: string; title: string }[];
+  diagrams: { id: string; title: string; changes: CompactionChange[] }[];
+}
+
+const encoder = new TextEncoder();
+
+function sizeOf(value: unknown): number {
+  return value === undefined ? 0 : encoder.encode(JSON.stringify(value)).length;
+}
+
+async function estimateQuota(): Promise<StorageUsage["estimate"]> {
+  if (typeof navigator === "undefined" || !navigator.storage?.estimate) return null;
+  try {
+    const { usage, quota } = await navigator.storage.estimate();
+    return usage !== undefined && quota ? { usage, quota } : null;
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// USAGE
+// ============================================================================
+
+/**
+ * How much each diagram takes up in storage, measured as the JSON it's
+ * stored as. Backends add their own overhead, so this is close to what
+ * they use rather than exact.
+ */
+export async function measureStorage(): Promise<StorageUsage> {
+  const storage = getStorage();
+  const { diagrams } = useDiagramStore.getState();
+  const usage = new Map<string, DiagramUsage>(
+    Object.values(diagrams).map((entry) => [
+      entry.id,
+      { id: entry.id, title: entry.title, diagram: 0, history: 0, snapshots: 0, total: 0 },
+    ])
+  );
+  let other = 0;
+
+  for (const key of await storage.keys()) {
+    const size = sizeOf(await storage.get(key));
+    const kind = (Object.keys(KEY_PREFIXES) as (keyof typeof KEY_PREFIXES)[]).find((name) =>
+      key.startsWith(KEY_PREFIXES[name])
+    );
+    const entry = kind && usage.get(key.slice(KEY_PREFIXES[kind].length));
+    if (kind && entry) {
+      entry[kind] += size;
+      entry.total += size;
+    } else {
+      other += size;
+    }
+  }
+
+  const sorted = [...usage.values()].sort((a, b) => b.total - a.total);
+  return {
+    diagrams: sorted,
+    other,
+    total: sorted.reduce((sum, entry) => sum + entry.total, other),
+    estimate: await estimateQuota(),
+  };
+}
+
+// ============================================================================
+// COMPACTION
+// ============================================================================
+
+/** Every diagram that can be read, with the open one as it is in memory. */
+async function readAllDiagrams(): Promise<DiagramDoc[]> {
+  const { diagrams, currentDiagram } = useDiagramStore.getState();
+  const docs: DiagramDoc[] = [];
+  for (const entry of Object.values(diagrams)) {
+    // Left as they are until repaired (see docs/schema-migrations.md)
+    if (entry.quarantine) continue;
+    const doc = currentDiagram?.id === entry.id ? currentDiagram : await readStoredDiagram(entry.id);
+    if (doc) docs.push(doc);
+  }
+  return docs;
+}
+
+/**
+ * What `compactStorage` would remove, without removing it.
+ */
+export async function planCompaction(): Promise<CompactionPlan> {
+  const docs = await readAllDiagrams();
+  const titles = new Map(docs.map((doc) => [doc.id, doc.title]));
+  // Quarantined and unreadable diagrams still count as there
+  const orphans = findOrphanedDiagrams(docs, Object.keys(useDiagramStore.getState().diagrams));
+  const orphanIds = new Set(orphans);
+
+  return {
+    orphans: orphans.map((id) => ({ id, title: titles.get(id) ?? id })),
+    diagrams: docs.flatMap((doc) => {
+      if (orphanIds.has(doc.id)) return [];
+      const result = compactDiagram(doc);
+      return result ? [{ id: doc.id, title: doc.title, changes: result.changes }] : [];
+    }),
+  };
+}
+
+/**
+ * Delete the plan's orphaned diagrams, subsystems first, and compact its
+ * diagrams as they are now. The open diagram's compaction can be undone.
+ */
+export async function compactStorage(plan: CompactionPlan): Promise<void> {
+  const { deleteDiagram } = useDiagramStore.getState();
+  for (const { id } of plan.orphans) {
+    await deleteDiagram(id);
+  }
+  for (const { id } of plan.diagrams) {
+    await updateStoredDiagram(id, (doc) => {
+      const result = compactDiagram(doc);
+      return result && { ...result.doc, updatedAt: Date.now() };
+    });
+  }
+}
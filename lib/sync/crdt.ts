@@ -0,0 +1,310 @@
+import { DiagramDoc } from "@/lib/model/schema";
+import { diffDocs, pathKey, valueAt } from "@/lib/history/patches";
+import { isEqual } from "@/lib/history/diff";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Lamport timestamp of a write. Higher clocks win; ties go to the higher peer
+ * ID, so every replica picks the same winner.
+ */
+export interface Stamp {
+  clock: number;
+  peer: string;
+}
+
+/**
+ * One value of the document and the write that set it. Maps (collections,
+ * elements and property values) hold `true` while they exist; a missing
+ * `value` means deleted.
+ */
+export interface Register {
+  path: string[];
+  value?: unknown;
+  stamp: Stamp;
+}
+
+/** A write to send to other replicas, with the write it overwrote there. */
+export interface CrdtOp extends Register {
+  replaces?: Stamp;
+}
+
+/**
+ * A diagram as last-writer-wins registers: one per element field and per
+ * property value, so edits to different fields of the same stock merge.
+ */
+export interface CrdtDoc {
+  format: "crdt";
+  clock: number;
+  registers: Record<string, Register>;
+}
+
+/** A value this replica wrote that a concurrent write from another peer replaced. */
+export interface CrdtConflict {
+  path: string[];
+  local: unknown;
+  remote: unknown;
+}
+
+// Stamp of everything in a document that was created or migrated rather
+// than edited, so replicas that create it independently agree
+const ORIGIN: Stamp = { clock: 0, peer: "" };
+
+const COLLECTIONS = new Set(["nodes", "edges", "frames", "notes"]);
+
+// ============================================================================
+// REGISTERS
+// ============================================================================
+
+/**
+ * Whether `path` is a map, whose keys have registers of their own, rather
+ * than a value stored whole.
+ */
+function isMapPath(path: string[]): boolean {
+  if (path.length === 0) return true;
+  if (!COLLECTIONS.has(path[0])) return false;
+  return path.length <= 2 || (path.length === 3 && path[2] === "attributes");
+}
+
+/**
+ * The register that holds `path`: the path itself, or the value stored
+ * whole that contains it.
+ */
+function registerPathFor(path: string[]): string[] {
+  for (let i = 1; i <= path.length; i++) {
+    if (!isMapPath(path.slice(0, i))) return path.slice(0, i);
+  }
+  return path;
+}
+
+export function compareStamps(a: Stamp, b: Stamp): number {
+  if (a.clock !== b.clock) return a.clock - b.clock;
+  return a.peer < b.peer ? -1 : a.peer > b.peer ? 1 : 0;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Registers for `value` at `path` and everything inside it.
+ */
+function* flatten(path: string[], value: unknown): Generator<[string[], unknown]> {
+  if (!isMapPath(path) || !isObject(value)) {
+    yield [path, value];
+    return;
+  }
+  if (path.length > 0) yield [path, true];
+  for (const [key, child] of Object.entries(value)) {
+    if (child !== undefined) yield* flatten([...path, key], child);
+  }
+}
+
+function isInside(path: string[], ancestor: string[]): boolean {
+  return path.length > ancestor.length && ancestor.every((key, i) => path[i] === key);
+}
+
+// ============================================================================
+// DOCUMENT
+// ============================================================================
+
+/**
+ * A CRDT document holding `doc`, as if it had always been that way.
+ */
+export function createCrdt(doc: DiagramDoc): CrdtDoc {
+  const registers: Record<string, Register> = {};
+  for (const [path, value] of flatten([], doc)) {
+    registers[pathKey(path)] = { path, value, stamp: ORIGIN };
+  }
+  return { format: "crdt", clock: 0, registers };
+}
+
+/**
+ * The object at `base` built from registers inside it. Anything inside a
+ * deleted map is left out.
+ */
+function build(registers: Register[], base: string[]): Record<string, unknown> {
+  const root: Record<string, unknown> = {};
+  const sorted = [...registers].sort((a, b) => a.path.length - b.path.length);
+
+  for (const { path, value } of sorted) {
+    if (value === undefined) continue;
+    const relative = path.slice(base.length);
+    const parent = relative.length === 1 ? root : valueAt(root as DiagramDoc, relative.slice(0, -1));
+    if (!isObject(parent)) continue;
+    parent[relative[relative.length - 1]] = isMapPath(path) ? {} : value;
+  }
+
+  return root;
+}
+
+/**
+ * The diagram a CRDT document currently holds. Registers inside a deleted
+ * map are kept, so a concurrent edit can't bring back half an element.
+ */
+export function toDiagram(crdt: CrdtDoc): DiagramDoc {
+  return build(Object.values(crdt.registers), []) as DiagramDoc;
+}
+
+/**
+ * The value at `path`, assembled from its registers if it's a map.
+ */
+function readPath(crdt: CrdtDoc, path: string[]): unknown {
+  const register = crdt.registers[pathKey(path)];
+  if (register?.value === undefined || !isMapPath(path)) return register?.value;
+  return build(
+    Object.values(crdt.registers).filter((r) => isInside(r.path, path)),
+    path
+  );
+}
+
+// ============================================================================
+// CHANGES
+// ============================================================================
+
+function write(crdt: CrdtDoc, path: string[], value: unknown, peer: string): CrdtOp {
+  const key = pathKey(path);
+  const previous = crdt.registers[key];
+  crdt.clock++;
+
+  const register: Register =
+    value === undefined ? { path, stamp: { clock: crdt.clock, peer } } : { path, value, stamp: { clock: crdt.clock, peer } };
+  crdt.registers[key] = register;
+  return previous ? { ...register, replaces: previous.stamp } : register;
+}
+
+/**
+ * Record the edit from `before` to `after` as writes by `peer`, updating
+ * `crdt` in place. Returns the writes, for sending to other replicas.
+ */
+export function recordChange(crdt: CrdtDoc, before: DiagramDoc, after: DiagramDoc, peer: string): CrdtOp[] {
+  const { patches } = diffDocs(before, after, new Set());
+  const written = new Set<string>();
+  const ops: CrdtOp[] = [];
+
+  const writeOnce = (path: string[], value: unknown) => {
+    const key = pathKey(path);
+    if (written.has(key)) return;
+    written.add(key);
+    if (crdt.registers[key]?.value === undefined && value === undefined) return;
+    ops.push(write(crdt, path, value, peer));
+  };
+
+  for (const patch of patches) {
+    const path = registerPathFor(patch.path);
+    const value = valueAt(after, path);
+
+    if (isMapPath(path) && value !== undefined) {
+      // A whole element, added or restored: clear anything it no longer has
+      const fresh = new Map([...flatten(path, value)].map(([p, v]) => [pathKey(p), [p, v] as const]));
+      for (const register of Object.values(crdt.registers)) {
+        if (isInside(register.path, path) && !fresh.has(pathKey(register.path))) {
+          writeOnce(register.path, undefined);
+        }
+      }
+      for (const [p, v] of fresh.values()) {
+        if (crdt.registers[pathKey(p)]?.value !== v || isMapPath(p)) writeOnce(p, v);
+      }
+    } else {
+      writeOnce(path, value);
+    }
+  }
+
+  return ops;
+}
+
+function exists(crdt: CrdtDoc, path: string[]): boolean {
+  return crdt.registers[pathKey(path)]?.value !== undefined;
+}
+
+/**
+ * Edges whose source or target stock no longer exists. A merge leaves these
+ * when one replica deletes a stock while another adds a flow to it.
+ */
+function danglingEdges(crdt: CrdtDoc): string[] {
+  return Object.values(crdt.registers)
+    .filter(({ path, value }) => path.length === 2 && path[0] === "edges" && value !== undefined)
+    .map(({ path }) => path[1])
+    .filter((edgeId) =>
+      ["sourceId", "targetId"].some((end) => {
+        const nodeId = crdt.registers[pathKey(["edges", edgeId, end])]?.value;
+        return typeof nodeId !== "string" || !exists(crdt, ["nodes", nodeId]);
+      })
+    );
+}
+
+/**
+ * Merge writes from other replicas into `crdt`, in place; the later write to
+ * each register wins. Returns the writes that took effect, and conflicts:
+ * values `peer` (this replica) wrote that a write made without seeing them
+ * has replaced. Full-state syncs pass `detectConflicts` false.
+ *
+ * Edges left pointing at a deleted stock are deleted too, by a write of
+ * `peer`'s own. Every replica merging the same writes deletes the same
+ * edges, so they agree without sending it; losing an edge `peer` wrote
+ * counts as a conflict.
+ */
+export function applyOps(
+  crdt: CrdtDoc,
+  ops: CrdtOp[],
+  peer: string,
+  detectConflicts = true
+): { applied: CrdtOp[]; conflicts: CrdtConflict[] } {
+  const applied: CrdtOp[] = [];
+  const conflicts: Omit<CrdtConflict, "remote">[] = [];
+
+  for (const op of ops) {
+    crdt.clock = Math.max(crdt.clock, op.stamp.clock);
+
+    const key = pathKey(op.path);
+    const current = crdt.registers[key];
+    if (current && compareStamps(op.stamp, current.stamp) <= 0) continue;
+
+    if (detectConflicts && current) {
+      const overwrote =
+        current.stamp.peer === peer && (!op.replaces || compareStamps(op.replaces, current.stamp) !== 0);
+      // Deleting an element also discards edits made inside it since; a
+      // Lamport clock no higher than the edit's means the edit wasn't seen
+      const discarded =
+        op.value === undefined &&
+        isMapPath(op.path) &&
+        Object.values(crdt.registers).some(
+          (register) =>
+            isInside(register.path, op.path) && register.stamp.peer === peer && register.stamp.clock >= op.stamp.clock
+        );
+
+      if ((overwrote || discarded) && !isEqual(current.value, op.value)) {
+        conflicts.push({ path: op.path, local: readPath(crdt, op.path) });
+      }
+    }
+
+    crdt.registers[key] =
+      op.value === undefined ? { path: op.path, stamp: op.stamp } : { path: op.path, value: op.value, stamp: op.stamp };
+    applied.push(op);
+  }
+
+  if (applied.length > 0) {
+    for (const edgeId of danglingEdges(crdt)) {
+      const path = ["edges", edgeId];
+      const wrote = Object.values(crdt.registers).some(
+        (register) => register.stamp.peer === peer && pathKey(register.path.slice(0, 2)) === pathKey(path)
+      );
+      if (detectConflicts && wrote) conflicts.push({ path, local: readPath(crdt, path) });
+      write(crdt, path, undefined, peer);
+    }
+  }
+
+  return {
+    applied,
+    conflicts: conflicts.map((conflict) => ({ ...conflict, remote: readPath(crdt, conflict.path) })),
+  };
+}
+
+/**
+ * Every register, for bringing a new replica up to date.
+ */
+export function allOps(crdt: CrdtDoc): CrdtOp[] {
+  return Object.values(crdt.registers);
+}
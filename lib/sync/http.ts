@@ -0,0 +1,103 @@
+import { DiagramDoc } from "@/lib/model/schema";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** A diagram's entry in a sync server's index (see server/sync-server.mjs). */
+export interface ServerIndexEntry {
+  id: string;
+  title: string;
+  updatedAt: number;
+  parentId?: string;
+  etag: string;
+}
+
+export type ServerIndex = Record<string, ServerIndexEntry>;
+
+/**
+ * A diagram as the server has it, not yet validated, with the ETag to
+ * write it back with.
+ */
+export interface ServerDiagram {
+  data: unknown;
+  etag: string;
+}
+
+/**
+ * What a write came to: done, or refused because the server's copy isn't
+ * the one it was based on. `current` is the server's copy, or null if it
+ * has none.
+ */
+export type WriteResult = { ok: true; etag: string | null } | { ok: false; current: ServerDiagram | null };
+
+export interface SyncClient {
+  getIndex: () => Promise<ServerIndex>;
+  getDiagram: (id: string) => Promise<ServerDiagram | null>;
+  /** Write `doc` over the copy with `etag`, or create it if `etag` is null. */
+  putDiagram: (doc: DiagramDoc, etag: string | null) => Promise<WriteResult>;
+  /** Delete the copy with `etag`. */
+  deleteDiagram: (id: string, etag: string) => Promise<WriteResult>;
+}
+
+// ============================================================================
+// CLIENT
+// ============================================================================
+
+async function fail(response: Response): Promise<never> {
+  const body = (await response.json().catch(() => null)) as { error?: string } | null;
+  throw new Error(`Sync server: ${body?.error ?? response.statusText} (${response.status})`);
+}
+
+async function conflict(response: Response): Promise<WriteResult> {
+  const etag = response.headers.get("ETag");
+  const data: unknown = await response.json();
+  return { ok: false, current: etag ? { data, etag } : null };
+}
+
+/**
+ * A client for the sync server at `baseUrl`. Every write carries the ETag
+ * of the copy it replaces, so one based on a stale copy is refused rather
+ * than overwriting someone else's changes.
+ */
+export function createSyncClient(baseUrl: string): SyncClient {
+  const root = baseUrl.replace(/\/+$/, "");
+  const diagramUrl = (id: string) => `${root}/api/diagrams/${encodeURIComponent(id)}`;
+
+  return {
+    getIndex: async () => {
+      const response = await fetch(`${root}/api/index`, { cache: "no-store" });
+      if (!response.ok) return fail(response);
+      return (await response.json()) as ServerIndex;
+    },
+
+    getDiagram: async (id) => {
+      const response = await fetch(diagramUrl(id), { cache: "no-store" });
+      if (response.status === 404) return null;
+      if (!response.ok) return fail(response);
+      return { data: await response.json(), etag: response.headers.get("ETag") ?? "" };
+    },
+
+    putDiagram: async (doc, etag) => {
+      const response = await fetch(diagramUrl(doc.id), {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          ...(etag ? { "If-Match": etag } : { "If-None-Match": "*" }),
+        },
+        body: JSON.stringify(doc),
+      });
+      if (response.status === 412) return conflict(response);
+      if (!response.ok) return fail(response);
+      return { ok: true, etag: response.headers.get("ETag") };
+    },
+
+    deleteDiagram: async (id, etag) => {
+      const response = await fetch(diagramUrl(id), { method: "DELETE", headers: { "If-Match": etag } });
+      if (response.status === 404) return { ok: false, current: null };
+      if (response.status === 412) return conflict(response);
+      if (!response.ok) return fail(response);
+      return { ok: true, etag: null };
+    },
+  };
+}
@@ -0,0 +1,136 @@
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Carries messages between replicas. Messages are delivered to every other
+ * endpoint, never back to the sender, and must survive structured cloning
+ * or JSON.
+ */
+export interface Transport<T> {
+  send: (message: T) => void;
+  /** Returns a function that stops listening. */
+  subscribe: (listener: (message: T) => void) => () => void;
+  close: () => void;
+}
+
+function createListeners<T>() {
+  const listeners = new Set<(message: T) => void>();
+  return {
+    add(listener: (message: T) => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    emit(message: T) {
+      listeners.forEach((listener) => listener(message));
+    },
+    clear() {
+      listeners.clear();
+    },
+  };
+}
+
+// ============================================================================
+// TRANSPORTS
+// ============================================================================
+
+/**
+ * Tabs of the app in the same browser, over a `BroadcastChannel`.
+ */
+export function createBroadcastTransport<T>(name: string): Transport<T> {
+  const channel = new BroadcastChannel(name);
+  const listeners = createListeners<T>();
+  channel.onmessage = (event: MessageEvent<T>) => listeners.emit(event.data);
+
+  return {
+    send: (message) => channel.postMessage(message),
+    subscribe: listeners.add,
+    close: () => {
+      listeners.clear();
+      channel.close();
+    },
+  };
+}
+
+/**
+ * Peers connected to a relay server that forwards each JSON message to every
+ * other client. Messages sent before the socket opens are queued, and the
+ * connection is retried with backoff if it drops.
+ */
+export function createWebSocketTransport<T>(url: string): Transport<T> {
+  const listeners = createListeners<T>();
+  const queue: string[] = [];
+  let socket: WebSocket | null = null;
+  let retryDelay = 1000;
+  let retryTimeout: ReturnType<typeof setTimeout> | null = null;
+  let closed = false;
+
+  const connect = () => {
+    socket = new WebSocket(url);
+    socket.onopen = () => {
+      retryDelay = 1000;
+      queue.splice(0).forEach((data) => socket?.send(data));
+    };
+    socket.onmessage = (event: MessageEvent<string>) => {
+      try {
+        listeners.emit(JSON.parse(event.data) as T);
+      } catch (error) {
+        console.error("Ignoring malformed sync message:", error);
+      }
+    };
+    socket.onclose = () => {
+      if (closed) return;
+      retryTimeout = setTimeout(connect, retryDelay);
+      retryDelay = Math.min(retryDelay * 2, 30_000);
+    };
+  };
+  connect();
+
+  return {
+    send: (message) => {
+      const data = JSON.stringify(message);
+      if (socket?.readyState === WebSocket.OPEN) {
+        socket.send(data);
+      } else {
+        queue.push(data);
+      }
+    },
+    subscribe: listeners.add,
+    close: () => {
+      closed = true;
+      if (retryTimeout) clearTimeout(retryTimeout);
+      listeners.clear();
+      socket?.close();
+    },
+  };
+}
+
+/**
+ * Endpoints that deliver to each other synchronously in the same process,
+ * for tests. Messages are cloned, as they would be on the wire.
+ */
+export function createLocalHub<T>(): { connect: () => Transport<T> } {
+  const endpoints = new Set<ReturnType<typeof createListeners<T>>>();
+
+  return {
+    connect: () => {
+      const listeners = createListeners<T>();
+      endpoints.add(listeners);
+
+      return {
+        send: (message) => {
+          for (const endpoint of endpoints) {
+            if (endpoint !== listeners) endpoint.emit(structuredClone(message));
+          }
+        },
+        subscribe: listeners.add,
+        close: () => {
+          endpoints.delete(listeners);
+          listeners.clear();
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,329 @@
+// Sync server: a shared source of truth for diagrams, for teams that want one
+// without giving up local-first editing. Plain Node, no dependencies, so it
+// runs without a build step:
+//
+//   node server/sync-server.mjs [--port 4100] [--data ./systems]
+//
+// See docs/sync-server.md for the API.
+
+import { createServer } from "node:http";
+import { createHash, randomUUID } from "node:crypto";
+import { mkdir, readdir, readFile, rename, unlink, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { pathToFileURL } from "node:url";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * @typedef {Record<string, unknown> & { id: string }} Diagram
+ * @typedef {{ id: string, title: string, updatedAt: number, parentId?: string, etag: string }} IndexEntry
+ * @typedef {{ doc: Diagram, etag: string }} Stored
+ */
+
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+// Same layout as a local storage folder (see lib/storage/folder.ts), so the
+// server can be pointed at one
+const DIAGRAMS_DIRECTORY = "diagrams";
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * JSON with object keys sorted, so equal documents hash equally whatever
+ * order their fields were written in.
+ * @param {unknown} value
+ * @returns {string}
+ */
+function canonicalJson(value) {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value)
+      .filter((key) => value[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(value[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * @param {unknown} doc
+ * @returns {string}
+ */
+export function computeEtag(doc) {
+  return `"${createHash("sha1").update(canonicalJson(doc)).digest("base64url")}"`;
+}
+
+/**
+ * @param {Diagram} doc
+ * @param {string} etag
+ * @returns {IndexEntry}
+ */
+function toIndexEntry(doc, etag) {
+  const parent = /** @type {{ diagramId?: string } | undefined} */ (doc.parent);
+  return {
+    id: doc.id,
+    title: typeof doc.title === "string" ? doc.title : "Untitled system",
+    updatedAt: typeof doc.updatedAt === "number" ? doc.updatedAt : 0,
+    ...(parent?.diagramId ? { parentId: parent.diagramId } : {}),
+    etag,
+  };
+}
+
+/**
+ * Whether an `If-Match` or `If-None-Match` header matches `etag`, which is
+ * undefined for a missing document.
+ * @param {string} header
+ * @param {string | undefined} etag
+ */
+function matches(header, etag) {
+  if (header.trim() === "*") return etag !== undefined;
+  return etag !== undefined && header.split(",").some((tag) => tag.trim().replace(/^W\//, "") === etag);
+}
+
+/**
+ * @param {import("node:http").IncomingMessage} request
+ * @returns {Promise<unknown>}
+ */
+async function readJson(request) {
+  const chunks = [];
+  let size = 0;
+  for await (const chunk of request) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw Object.assign(new Error("Body too large"), { status: 413 });
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+  } catch {
+    throw Object.assign(new Error("Body is not JSON"), { status: 400 });
+  }
+}
+
+// ============================================================================
+// STORE
+// ============================================================================
+
+/**
+ * Documents in memory, written through to `dataDir` if there is one.
+ * @param {string | undefined} dataDir
+ */
+async function openStore(dataDir) {
+  /** @type {Map<string, Stored>} */
+  const diagrams = new Map();
+  const directory = dataDir && join(dataDir, DIAGRAMS_DIRECTORY);
+
+  if (directory) {
+    await mkdir(directory, { recursive: true });
+    for (const file of await readdir(directory)) {
+      if (!file.endsWith(".json")) continue;
+      try {
+        const doc = JSON.parse(await readFile(join(directory, file), "utf-8"));
+        const id = decodeURIComponent(file.slice(0, -".json".length));
+        if (doc && typeof doc === "object" && doc.id === id) diagrams.set(id, { doc, etag: computeEtag(doc) });
+      } catch (error) {
+        console.error(`Skipping ${file}:`, error);
+      }
+    }
+  }
+
+  /** @param {string} id */
+  const fileFor = (id) => join(/** @type {string} */ (directory), `${encodeURIComponent(id)}.json`);
+
+  // The end of each diagram's queue of changes
+  /** @type {Map<string, Promise<void>>} */
+  const queues = new Map();
+
+  return {
+    diagrams,
+
+    /**
+     * Run `task` once every change queued before it for `id` is done, so a
+     * write's precondition check and its landing happen together.
+     * @template T
+     * @param {string} id
+     * @param {() => Promise<T>} task
+     * @returns {Promise<T>}
+     */
+    exclusive(id, task) {
+      const result = (queues.get(id) ?? Promise.resolve()).then(task);
+      const done = result.then(
+        () => {},
+        () => {}
+      );
+      queues.set(id, done);
+      done.then(() => {
+        if (queues.get(id) === done) queues.delete(id);
+      });
+      return result;
+    },
+
+    /**
+     * Write `doc` through, then keep it: memory never gets ahead of disk.
+     * Call it from `exclusive`.
+     * @param {Diagram} doc
+     */
+    async put(doc) {
+      const stored = { doc, etag: computeEtag(doc) };
+      if (directory) {
+        // Write then rename, so a crash never leaves half a file
+        const temporary = `${fileFor(doc.id)}.${randomUUID()}.tmp`;
+        try {
+          await writeFile(temporary, `${JSON.stringify(doc, null, 2)}\n`);
+          await rename(temporary, fileFor(doc.id));
+        } catch (error) {
+          await unlink(temporary).catch(() => {});
+          throw error;
+        }
+      }
+      diagrams.set(doc.id, stored);
+      return stored;
+    },
+
+    /**
+     * Call it from `exclusive`.
+     * @param {string} id
+     */
+    async delete(id) {
+      if (directory) await unlink(fileFor(id)).catch(() => {});
+      diagrams.delete(id);
+    },
+  };
+}
+
+// ============================================================================
+// SERVER
+// ============================================================================
+
+/**
+ * An HTTP server for the sync API. Call `listen` on it to start. With
+ * `dataDir`, diagrams are kept as JSON files there; otherwise in memory.
+ * @param {{ dataDir?: string }} [options]
+ */
+export async function createSyncServer({ dataDir } = {}) {
+  const store = await openStore(dataDir);
+
+  return createServer(async (request, response) => {
+    /**
+     * @param {number} status
+     * @param {unknown} [body]
+     * @param {Record<string, string>} [headers]
+     */
+    const send = (status, body, headers = {}) => {
+      response.writeHead(status, {
+        "Access-Control-Allow-Origin": "*",
+        "Access-Control-Allow-Methods": "GET, PUT, DELETE, OPTIONS",
+        "Access-Control-Allow-Headers": "Content-Type, If-Match, If-None-Match",
+        "Access-Control-Expose-Headers": "ETag",
+        ...(body === undefined ? {} : { "Content-Type": "application/json" }),
+        ...headers,
+      });
+      response.end(body === undefined ? undefined : JSON.stringify(body));
+    };
+
+    try {
+      const url = new URL(request.url ?? "/", "http://localhost");
+      const method = request.method ?? "GET";
+      if (method === "OPTIONS") return send(204);
+
+      if (url.pathname === "/api/index") {
+        if (method !== "GET") return send(405, { error: "Method not allowed" });
+        /** @type {Record<string, IndexEntry>} */
+        const index = {};
+        for (const [id, { doc, etag }] of store.diagrams) index[id] = toIndexEntry(doc, etag);
+        const etag = computeEtag(index);
+        if (matches(request.headers["if-none-match"] ?? "", etag)) return send(304, undefined, { ETag: etag });
+        return send(200, index, { ETag: etag });
+      }
+
+      const match = /^\/api\/diagrams\/([^/]+)$/.exec(url.pathname);
+      if (!match) return send(404, { error: "Not found" });
+
+      const id = decodeURIComponent(match[1]);
+      const current = store.diagrams.get(id);
+      const ifMatch = request.headers["if-match"];
+      const ifNoneMatch = request.headers["if-none-match"];
+
+      switch (method) {
+        case "GET": {
+          if (!current) return send(404, { error: "No such diagram" });
+          if (ifNoneMatch && matches(ifNoneMatch, current.etag)) return send(304, undefined, { ETag: current.etag });
+          return send(200, current.doc, { ETag: current.etag });
+        }
+
+        case "PUT": {
+          // Every write states what it expects to replace: If-Match for an
+          // existing diagram, If-None-Match: * for a new one
+          if (!ifMatch && ifNoneMatch?.trim() !== "*") {
+            return send(428, { error: "Send If-Match, or If-None-Match: * to create" });
+          }
+
+          const doc = await readJson(request);
+          if (!doc || typeof doc !== "object" || Array.isArray(doc) || /** @type {Diagram} */ (doc).id !== id) {
+            return send(400, { error: "Body must be a diagram with this ID" });
+          }
+
+          // Checked against the diagram as it is once the body is in, and
+          // the writes before this one have landed, so of two writes
+          // expecting the same version only the first lands
+          return await store.exclusive(id, async () => {
+            const latest = store.diagrams.get(id);
+            if ((ifMatch && !matches(ifMatch, latest?.etag)) || (!ifMatch && latest)) {
+              return latest
+                ? send(412, latest.doc, { ETag: latest.etag })
+                : send(412, { error: "No such diagram" });
+            }
+            const stored = await store.put(/** @type {Diagram} */ (doc));
+            return send(latest ? 200 : 201, toIndexEntry(stored.doc, stored.etag), { ETag: stored.etag });
+          });
+        }
+
+        case "DELETE": {
+          if (!current) return send(404, { error: "No such diagram" });
+          if (!ifMatch) return send(428, { error: "Send If-Match" });
+          return await store.exclusive(id, async () => {
+            const latest = store.diagrams.get(id);
+            if (!latest) return send(404, { error: "No such diagram" });
+            if (!matches(ifMatch, latest.etag)) return send(412, latest.doc, { ETag: latest.etag });
+            await store.delete(id);
+            return send(204);
+          });
+        }
+
+        default:
+          return send(405, { error: "Method not allowed" });
+      }
+    } catch (error) {
+      const status = /** @type {{ status?: number }} */ (error).status ?? 500;
+      if (status === 500) console.error(error);
+      send(status, { error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+}
+
+// ============================================================================
+// COMMAND LINE
+// ============================================================================
+
+/** @param {string[]} args */
+function parseArgs(args) {
+  /** @type {{ port: number, dataDir?: string }} */
+  const options = { port: Number(process.env.SYNC_SERVER_PORT ?? 4100), dataDir: process.env.SYNC_SERVER_DATA };
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--port") options.port = Number(args[++i]);
+    else if (args[i] === "--data") options.dataDir = args[++i];
+  }
+  return options;
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const { port, dataDir } = parseArgs(process.argv.slice(2));
+  const server = await createSyncServer({ dataDir });
+  server.listen(port, "127.0.0.1", () => {
+    console.log(`Sync server on http://localhost:${port}, ${dataDir ? `storing diagrams in ${dataDir}` : "in memory"}`);
+  });
+}
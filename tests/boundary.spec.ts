@@ -0,0 +1,86 @@
+import { test, expect } from "@playwright/test";
+import { DiagramDoc } from "@/lib/model/schema";
+import { getBoundaryFlows, syncBoundaryStocks } from "@/lib/model/boundary";
+import { getFixtureJson } from "./helpers";
+
+/**
+ * Boundary stock sync tests. These exercise lib/model directly and don't
+ * need a browser page.
+ */
+
+function fixture(name: string): DiagramDoc {
+  return getFixtureJson(name) as unknown as DiagramDoc;
+}
+
+const empty = { nodes: {}, edges: {} };
+
+test.describe("Boundary stocks", () => {
+  test("should find flows entering and leaving a stock", () => {
+    const flows = getBoundaryFlows(fixture("linear-chain"), "stock-b");
+
+    expect(flows.map((f) => [f.edge.id, f.direction, f.label])).toEqual([
+      ["flow-ab", "in", "Stage A"],
+      ["flow-bc", "out", "Stage C"],
+    ]);
+  });
+
+  test("should create external stocks on either side of the child", () => {
+    const child = syncBoundaryStocks(empty, fixture("linear-chain"), "stock-b")!;
+    const nodes = Object.values(child.nodes);
+
+    expect(nodes).toHaveLength(2);
+    const inflow = nodes.find((n) => n.boundary?.direction === "in")!;
+    const outflow = nodes.find((n) => n.boundary?.direction === "out")!;
+    expect(inflow).toMatchObject({ kind: "external", label: "Stage A", boundary: { parentEdgeId: "flow-ab" } });
+    expect(outflow).toMatchObject({ kind: "external", label: "Stage C", boundary: { parentEdgeId: "flow-bc" } });
+    expect(inflow.x).toBeLessThan(outflow.x);
+  });
+
+  test("should be a no-op when already in sync", () => {
+    const parent = fixture("linear-chain");
+    const child = syncBoundaryStocks(empty, parent, "stock-b")!;
+
+    expect(syncBoundaryStocks(child, parent, "stock-b")).toBeNull();
+  });
+
+  test("should follow flows added, removed and relabelled in the parent", () => {
+    const parent = fixture("linear-chain");
+    const child = syncBoundaryStocks(empty, parent, "stock-b")!;
+
+    // Keep a child flow attached to the inflow stock, which must go with it
+    const inflowId = Object.values(child.nodes).find((n) => n.boundary?.direction === "in")!.id;
+    child.edges["inner"] = { id: "inner", type: "flow", sourceId: inflowId, targetId: "x", label: "" };
+
+    const edges = { ...parent.edges };
+    delete edges["flow-ab"];
+    edges["flow-db"] = { id: "flow-db", type: "flow", sourceId: "stock-d", targetId: "stock-b", label: "" };
+    const nodes = { ...parent.nodes, "stock-c": { ...parent.nodes["stock-c"], label: "Review" } };
+
+    const synced = syncBoundaryStocks(child, { nodes, edges }, "stock-b")!;
+    const labels = Object.values(synced.nodes).map((n) => [n.boundary?.parentEdgeId, n.label]);
+
+    expect(labels).toEqual(
+      expect.arrayContaining([
+        ["flow-bc", "Review"],
+        ["flow-db", "Stage D"],
+      ])
+    );
+    expect(labels).toHaveLength(2);
+    expect(synced.edges["inner"]).toBeUndefined();
+  });
+
+  test("should leave the child's own stocks alone", () => {
+    const child = {
+      nodes: {
+        own: { id: "own", type: "stock" as const, label: "Own", x: 500, y: 300, width: 160, height: 48 },
+      },
+      edges: {},
+    };
+    const synced = syncBoundaryStocks(child, fixture("linear-chain"), "stock-b")!;
+
+    expect(synced.nodes["own"]).toEqual(child.nodes["own"]);
+    const inflow = Object.values(synced.nodes).find((n) => n.boundary?.direction === "in")!;
+    expect(inflow.x).toBeLessThan(500);
+    expect(inflow.y).toBe(300);
+  });
+});
@@ -8,6 +8,7 @@ import {
   selectNode,
   deleteSelected,
   autoLayout,
+  waitForLayout,
   zoomToFit,
   clearIndexedDB,
 } from "./helpers";
@@ -104,6 +105,88 @@ test.describe("Canvas Interactions", () => {
     expect(nodeCount).toBe(6);
   });
 
+  test("should arrange a pipeline in layers from the layout mode menu", async ({ page }) => {
+    await importFixture(page, "linear-chain");
+
+    await page.locator('[data-testid="layout-mode-button"]').click();
+    await page.locator('[data-testid="layout-mode-layered-left-right"]').click();
+    await waitForLayout(page);
+
+    const boxes = await Promise.all(
+      ["stock-a", "stock-b", "stock-c", "stock-d"].map((id) =>
+        page.locator(`[data-node-id="${id}"]`).first().boundingBox()
+      )
+    );
+    for (let i = 1; i < boxes.length; i++) {
+      expect(boxes[i]!.x).toBeGreaterThan(boxes[i - 1]!.x);
+      expect(boxes[i]!.y).toBeCloseTo(boxes[0]!.y, 0);
+    }
+
+    // The main button remembers the mode
+    await expect(page.locator('[title*="Auto Layout"]')).toHaveAttribute("title", /Layered, left-right/);
+  });
+
+  test("should pin a dragged stock so auto-layout leaves it in place", async ({ page }) => {
+    await importFixture(page, "complex-system");
+
+    const backlog = page.locator('[data-node-id="backlog"]').first();
+    const start = (await backlog.boundingBox())!;
+    await page.mouse.move(start.x + 20, start.y + 20);
+    await page.mouse.down();
+    await page.mouse.move(start.x + 120, start.y + 80, { steps: 5 });
+    await page.mouse.up();
+    await expect(backlog.locator('[data-testid="pin-indicator"]')).toHaveCount(1);
+
+    const dragged = await backlog.boundingBox();
+    await autoLayout(page);
+    expect(await backlog.boundingBox()).toEqual(dragged);
+
+    // Unpinned, it's free to move again
+    await page.locator('[data-testid="layout-mode-button"]').click();
+    await page.locator('[data-testid="layout-unpin-all"]').click();
+    await expect(backlog.locator('[data-testid="pin-indicator"]')).toHaveCount(0);
+  });
+
+  test("should keep a frame's stocks inside it during auto-layout", async ({ page }) => {
+    await importFixture(page, "framed-system");
+    await autoLayout(page);
+
+    const frame = (await page.locator('[data-testid="canvas-frame"]').first().boundingBox())!;
+    for (const id of ["stock-inventory", "stock-shipped"]) {
+      const stock = (await page.locator(`[data-node-id="${id}"]`).first().boundingBox())!;
+      expect(stock.x).toBeGreaterThanOrEqual(frame.x);
+      expect(stock.y).toBeGreaterThanOrEqual(frame.y);
+      expect(stock.x + stock.width).toBeLessThanOrEqual(frame.x + frame.width);
+      expect(stock.y + stock.height).toBeLessThanOrEqual(frame.y + frame.height);
+    }
+  });
+
+  test("should pull connected stocks along with live physics and undo it in one step", async ({ page }) => {
+    await importFixture(page, "complex-system");
+    await page.locator('[data-testid="layout-mode-button"]').click();
+    await page.locator('[data-testid="layout-live-physics"]').click();
+    await page.keyboard.press("Escape");
+
+    const backlog = page.locator('[data-node-id="backlog"]').first();
+    const inProgress = page.locator('[data-node-id="in-progress"]').first();
+    const backlogBefore = (await backlog.boundingBox())!;
+    const inProgressBefore = (await inProgress.boundingBox())!;
+
+    await page.mouse.move(backlogBefore.x + 20, backlogBefore.y + 20);
+    await page.mouse.down();
+    await page.mouse.move(backlogBefore.x - 280, backlogBefore.y + 20, { steps: 10 });
+    await expect(page.locator('[data-testid="live-physics-stop"]')).toBeVisible();
+    await page.mouse.up();
+
+    // Runs until it settles, then records a single step
+    await expect(page.locator('[data-testid="live-physics-stop"]')).toBeHidden({ timeout: 10000 });
+    expect(await inProgress.boundingBox()).not.toEqual(inProgressBefore);
+
+    await page.keyboard.press("Meta+z");
+    expect(await backlog.boundingBox()).toEqual(backlogBefore);
+    expect(await inProgress.boundingBox()).toEqual(inProgressBefore);
+  });
+
   test("should zoom to fit", async ({ page }) => {
     await importFixture(page, "complex-system");
 
@@ -144,4 +227,164 @@ test.describe("Canvas Interactions", () => {
     // All nodes should be deleted
     expect(await getNodeCount(page)).toBe(0);
   });
+
+  test("should draw influence links with polarity and delay marks", async ({ page }) => {
+    await importFixture(page, "causal-loop");
+
+    const polarities = page.locator('[data-testid="edge-polarity"]');
+    await expect(polarities).toHaveCount(3);
+    await expect(page.locator('[data-edge-id="link-births"] [data-testid="edge-polarity"]')).toHaveText("−");
+    await expect(page.locator('[data-testid="edge-delay"]')).toHaveCount(1);
+  });
+
+  test("should change an edge to an influence link from the context menu", async ({ page }) => {
+    await importFixture(page, "simple-flow");
+
+    await page.locator("[data-edge-id]").first().click({ button: "right" });
+    const options = page.locator('[data-testid="edge-link-options"]');
+    await options.getByRole("button", { name: "Influence" }).click();
+    await options.getByRole("button", { name: "−" }).click();
+
+    await expect(page.locator('[data-testid="edge-polarity"]')).toHaveText("−");
+  });
+
+  test("should render frames behind stocks and rename them", async ({ page }) => {
+    await importFixture(page, "framed-system");
+
+    const frame = page.locator('[data-frame-id="frame-warehouse"]');
+    await expect(frame).toBeVisible();
+
+    await frame.locator('[data-testid="frame-title"]').dblclick();
+    await page.keyboard.press("Meta+a");
+    await page.keyboard.type("Depot");
+    await page.keyboard.press("Enter");
+
+    await expect(frame.locator('[data-testid="frame-title"]')).toHaveText("Depot");
+  });
+
+  test("should move contained stocks when dragging a frame", async ({ page }) => {
+    await importFixture(page, "framed-system");
+
+    const title = page.locator('[data-frame-id="frame-warehouse"] [data-testid="frame-title"]');
+    const inside = page.locator('[data-node-id="stock-inventory"]');
+    const outside = page.locator('[data-node-id="stock-customers"]');
+    const insideBefore = await inside.boundingBox();
+    const outsideBefore = await outside.boundingBox();
+
+    const box = (await title.boundingBox())!;
+    await page.mouse.move(box.x + 5, box.y + 5);
+    await page.mouse.down();
+    await page.mouse.move(box.x + 105, box.y + 55, { steps: 5 });
+    await page.mouse.up();
+
+    const insideAfter = await inside.boundingBox();
+    const outsideAfter = await outside.boundingBox();
+    expect(insideAfter!.x - insideBefore!.x).toBeCloseTo(100, 0);
+    expect(insideAfter!.y - insideBefore!.y).toBeCloseTo(50, 0);
+    expect(outsideAfter).toEqual(outsideBefore);
+
+    // Carried along, not placed by hand, so auto-layout may still move them
+    await expect(inside.locator('[data-testid="pin-indicator"]')).toHaveCount(0);
+  });
+
+  test("should select and delete frames with the marquee", async ({ page }) => {
+    await importFixture(page, "framed-system");
+
+    const canvas = page.locator('[data-testid="canvas-svg"]');
+    await canvas.dragTo(canvas, {
+      sourcePosition: { x: 20, y: 40 },
+      targetPosition: { x: 500, y: 300 },
+    });
+    await deleteSelected(page);
+
+    await expect(page.locator("[data-frame-id]")).toHaveCount(0);
+    expect(await getNodeCount(page)).toBe(1);
+  });
+
+  test("should add a sticky note that renders markdown and is not a stock", async ({ page }) => {
+    await importFixture(page, "simple-flow");
+
+    await page.keyboard.press("Meta+k");
+    await page.getByText("Add Note").click();
+
+    const note = page.locator('[data-testid="canvas-note"]');
+    await expect(note).toHaveCount(1);
+    expect(await getNodeCount(page)).toBe(2);
+
+    await note.locator("foreignObject div").first().dblclick();
+    await page.keyboard.type("# Ideas\n- **check** delays");
+    await page.keyboard.press("Meta+Enter");
+
+    await expect(note.locator("strong")).toHaveText("check");
+    await expect(note.locator("li")).toHaveCount(1);
+  });
+
+  test("should leave notes in place during auto-layout and undo note deletion", async ({ page }) => {
+    await importFixture(page, "simple-flow");
+
+    await page.keyboard.press("Meta+k");
+    await page.getByText("Add Note").click();
+
+    const note = page.locator('[data-testid="canvas-note"]');
+    const before = await note.boundingBox();
+    await autoLayout(page);
+    expect(await note.boundingBox()).toEqual(before);
+
+    await note.click();
+    await deleteSelected(page);
+    await expect(note).toHaveCount(0);
+
+    await page.keyboard.press("Meta+z");
+    await expect(note).toHaveCount(1);
+  });
+
+  test("should undo and redo dragging several stocks as one step", async ({ page }) => {
+    await importFixture(page, "simple-flow");
+
+    const source = page.locator('[data-node-id="stock-source"]').first();
+    const sink = page.locator('[data-node-id="stock-sink"]').first();
+    const sourceBefore = (await source.boundingBox())!;
+    const sinkBefore = (await sink.boundingBox())!;
+
+    await page.keyboard.press("Meta+a");
+    await page.mouse.move(sourceBefore.x + 20, sourceBefore.y + 20);
+    await page.mouse.down();
+    await page.mouse.move(sourceBefore.x + 80, sourceBefore.y + 60, { steps: 5 });
+    await page.mouse.up();
+    const sinkMoved = (await sink.boundingBox())!;
+    expect(sinkMoved.x - sinkBefore.x).toBeCloseTo(60, 0);
+
+    await page.keyboard.press("Meta+z");
+    expect(await source.boundingBox()).toEqual(sourceBefore);
+    expect(await sink.boundingBox()).toEqual(sinkBefore);
+
+    await page.keyboard.press("Meta+Shift+z");
+    expect(await sink.boundingBox()).toEqual(sinkMoved);
+  });
+
+  test("should keep undo history across reloads and jump back from the history panel", async ({ page }) => {
+    await importFixture(page, "single-stock");
+
+    await createNodeAt(page, 300, 300);
+    await createNodeAt(page, 500, 300);
+    expect(await getNodeCount(page)).toBe(3);
+
+    // Let auto-save write the diagram and its history
+    await page.waitForTimeout(800);
+    await page.reload();
+    await waitForCanvas(page);
+
+    await page.keyboard.press("Meta+z");
+    await expect.poll(() => getNodeCount(page)).toBe(2);
+
+    await page.getByTestId("history-button").click();
+    const items = page.getByTestId("history-item");
+    await expect(items.filter({ hasText: "Add stock" })).toHaveCount(2);
+
+    // Jump back past both additions, then forward to the last
+    await items.first().click();
+    await expect.poll(() => getNodeCount(page)).toBe(1);
+    await items.last().click();
+    await expect.poll(() => getNodeCount(page)).toBe(3);
+  });
 });
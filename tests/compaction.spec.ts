@@ -0,0 +1,173 @@
+import { test, expect } from "@playwright/test";
+import { compactDiagram, findOrphanedDiagrams } from "@/lib/model/compaction";
+import { DiagramDoc } from "@/lib/model/schema";
+import { createMemoryAdapter } from "@/lib/storage/memory";
+import { replaceStorage } from "@/lib/store/storage";
+import { useDiagramStore, readStoredDiagram } from "@/lib/store/diagrams";
+import { measureStorage, planCompaction, compactStorage } from "@/lib/store/usage";
+import { getFixtureJson } from "./helpers";
+
+/**
+ * Storage usage and compaction tests. These exercise lib/model/compaction.ts
+ * and lib/store/usage.ts directly and don't need a browser page.
+ */
+
+function fixture(name = "simple-flow"): DiagramDoc {
+  return getFixtureJson(name) as DiagramDoc;
+}
+
+function child(id: string, parentId: string, viaStockId: string): DiagramDoc {
+  return { ...fixture("empty-diagram"), id, title: id, parent: { diagramId: parentId, viaStockId } };
+}
+
+/** `doc` with `stockId` drilling down into `childId`. */
+function linked(doc: DiagramDoc, stockId: string, childId: string): DiagramDoc {
+  return { ...doc, nodes: { ...doc.nodes, [stockId]: { ...doc.nodes[stockId], childDiagramId: childId } } };
+}
+
+test.describe("Compacting a diagram", () => {
+  test("should leave a tidy diagram alone", () => {
+    const doc = fixture();
+    delete doc.frames;
+    delete doc.notes;
+    expect(compactDiagram(doc)).toBeNull();
+  });
+
+  test("should remove empty frames and notes maps", () => {
+    const doc = { ...fixture(), frames: {}, notes: {} };
+    const result = compactDiagram(doc);
+
+    expect(result?.doc).not.toHaveProperty("frames");
+    expect(result?.doc).not.toHaveProperty("notes");
+    expect(result?.changes.map((change) => change.path)).toEqual(["frames", "notes"]);
+  });
+
+  test("should keep frames and notes that have something in them", () => {
+    const doc = fixture("framed-system");
+    const result = compactDiagram(doc);
+    expect(result?.doc.frames ?? doc.frames).toEqual(doc.frames);
+  });
+
+  test("should remove values of deleted properties, keeping the rest", () => {
+    const doc = fixture();
+    delete doc.frames;
+    delete doc.notes;
+    doc.propertySchema = { properties: [{ id: "prop_kept", name: "Owner", propertyType: { type: "text" } }] };
+    doc.nodes["stock-source"].attributes = {
+      prop_kept: "Ops",
+      prop_deleted: "Stale",
+      simulation: { initial: "10" },
+    };
+    doc.edges["flow-1"].attributes = { prop_deleted: 3 };
+
+    const result = compactDiagram(doc);
+    expect(result?.doc.nodes["stock-source"].attributes).toEqual({ prop_kept: "Ops", simulation: { initial: "10" } });
+    expect(result?.doc.edges["flow-1"].attributes).toBeUndefined();
+    expect(result?.changes.map((change) => change.path)).toEqual([
+      "nodes.stock-source.attributes",
+      "edges.flow-1.attributes",
+    ]);
+    // The original is untouched
+    expect(doc.nodes["stock-source"].attributes).toHaveProperty("prop_deleted");
+  });
+});
+
+test.describe("Finding orphaned diagrams", () => {
+  test("should keep subsystems their parent links to", () => {
+    const parent = linked(fixture(), "stock-source", "child");
+    expect(findOrphanedDiagrams([parent, child("child", parent.id, "stock-source")])).toEqual([]);
+  });
+
+  test("should find subsystems whose parent is gone", () => {
+    expect(findOrphanedDiagrams([fixture(), child("child", "missing", "stock-source")])).toEqual(["child"]);
+  });
+
+  test("should find subsystems whose stock no longer links to them", () => {
+    const parent = fixture();
+    expect(findOrphanedDiagrams([parent, child("child", parent.id, "stock-source")])).toEqual(["child"]);
+  });
+
+  test("should include an orphan's subsystems, listed first", () => {
+    const orphan = linked(child("orphan", "missing", "stock-source"), "stock-source", "grandchild");
+    orphan.nodes = { ...fixture().nodes, ...orphan.nodes };
+    const grandchild = child("grandchild", "orphan", "stock-source");
+
+    expect(findOrphanedDiagrams([orphan, grandchild])).toEqual(["grandchild", "orphan"]);
+  });
+
+  test("should keep subsystems of a parent that exists but can't be read", () => {
+    const docs = [child("child", "broken", "stock-source")];
+    expect(findOrphanedDiagrams(docs, ["broken", "child"])).toEqual([]);
+  });
+});
+
+test.describe("Storage usage and compaction", () => {
+  test.beforeEach(async () => {
+    replaceStorage(createMemoryAdapter());
+    await useDiagramStore.getState().initialize();
+  });
+
+  test("should measure each diagram, largest first", async () => {
+    const store = useDiagramStore.getState();
+    const small = store.createDiagram("Small");
+    const large = store.createDiagram("Large", undefined, fixture("complex-system"));
+    await useDiagramStore.getState().saveDiagram();
+
+    const usage = await measureStorage();
+    const ids = usage.diagrams.map((diagram) => diagram.id);
+    expect(ids.indexOf(large)).toBeLessThan(ids.indexOf(small));
+
+    const entry = usage.diagrams.find((diagram) => diagram.id === large)!;
+    expect(entry.diagram).toBeGreaterThan(0);
+    expect(entry.total).toBe(entry.diagram + entry.history + entry.snapshots);
+    expect(usage.total).toBeGreaterThanOrEqual(usage.diagrams.reduce((sum, d) => sum + d.total, 0));
+  });
+
+  test("should plan, then compact, diagrams and orphans", async () => {
+    const store = useDiagramStore.getState();
+    const orphan = store.createDiagram("Orphan", { diagramId: "missing", viaStockId: "stock-source" });
+    const tidy = store.createDiagram("Untidy", undefined, {
+      ...fixture(),
+      propertySchema: { properties: [] },
+      nodes: {
+        ...fixture().nodes,
+        "stock-source": { ...fixture().nodes["stock-source"], attributes: { prop_deleted: "Stale" } },
+      },
+    });
+    await useDiagramStore.getState().saveDiagram();
+
+    const plan = await planCompaction();
+    expect(plan.orphans).toEqual([{ id: orphan, title: "Orphan" }]);
+    expect(plan.diagrams.find((diagram) => diagram.id === tidy)?.changes.length).toBe(3);
+
+    await compactStorage(plan);
+    expect(useDiagramStore.getState().diagrams[orphan]).toBeUndefined();
+
+    const compacted = useDiagramStore.getState().currentDiagram!;
+    expect(compacted.id).toBe(tidy);
+    expect(compacted.nodes["stock-source"].attributes).toBeUndefined();
+    expect(compacted).not.toHaveProperty("frames");
+
+    // Nothing left to do
+    const again = await planCompaction();
+    expect(again.orphans).toEqual([]);
+    expect(again.diagrams).toEqual([]);
+    expect(await readStoredDiagram(orphan)).toBeUndefined();
+  });
+
+  test("should not count subsystems of a quarantined diagram as orphans", async () => {
+    const store = useDiagramStore.getState();
+    const parent = store.createDiagram("Parent", undefined, fixture());
+    await useDiagramStore.getState().saveDiagram();
+    const subsystem = store.createDiagram("Subsystem", { diagramId: parent, viaStockId: "stock-source" });
+    await useDiagramStore.getState().saveDiagram();
+
+    const { diagrams } = useDiagramStore.getState();
+    useDiagramStore.setState({ diagrams: { ...diagrams, [parent]: { ...diagrams[parent], quarantine: "Broken" } } });
+
+    const plan = await planCompaction();
+    expect(plan.orphans).toEqual([]);
+    await compactStorage(plan);
+    expect(await readStoredDiagram(subsystem)).toBeDefined();
+  });
+});
@@ -0,0 +1,60 @@
+import { test, expect } from "@playwright/test";
+import { diffDiagrams, countDiff } from "@/lib/history/diff";
+import { DiagramDoc } from "@/lib/model/schema";
+import { getFixtureJson } from "./helpers";
+
+/**
+ * Version diff tests. These exercise lib/history/diff directly and don't
+ * need a browser page.
+ */
+
+const base = getFixtureJson("simple-flow") as DiagramDoc;
+
+test.describe("Version diff", () => {
+  test("should report nothing for identical content", () => {
+    const diff = diffDiagrams(base, structuredClone(base));
+
+    expect(countDiff(diff)).toEqual({ added: 0, removed: 0, changed: 0 });
+  });
+
+  test("should report added, removed and changed elements by ID", () => {
+    const { "stock-sink": sink, ...keptNodes } = base.nodes;
+    const after: DiagramDoc = {
+      ...base,
+      nodes: {
+        ...keptNodes,
+        "stock-source": { ...base.nodes["stock-source"], label: "Tap", x: 0 },
+        "stock-new": { ...sink, id: "stock-new", label: "New" },
+      },
+      edges: {},
+    };
+
+    const diff = diffDiagrams(base, after);
+
+    expect(diff.nodes.added).toEqual(["stock-new"]);
+    expect(diff.nodes.removed).toEqual(["stock-sink"]);
+    expect(diff.nodes.changed).toEqual([{ id: "stock-source", fields: ["label", "x"], properties: [] }]);
+    expect(diff.edges.removed).toEqual(Object.keys(base.edges).sort());
+    expect(countDiff(diff)).toEqual({ added: 1, removed: 1 + Object.keys(base.edges).length, changed: 1 });
+  });
+
+  test("should compare property values one by one", () => {
+    const source = base.nodes["stock-source"];
+    const before = {
+      ...base,
+      nodes: { ...base.nodes, "stock-source": { ...source, attributes: { prop_owner: "Ana", prop_tags: ["a"] } } },
+    };
+    const after = {
+      ...base,
+      nodes: { ...base.nodes, "stock-source": { ...source, attributes: { prop_tags: ["a"], prop_done: true } } },
+    };
+
+    const [change] = diffDiagrams(before, after).nodes.changed;
+
+    expect(change.fields).toEqual([]);
+    expect(change.properties).toEqual([
+      { propertyId: "prop_done", before: undefined, after: true },
+      { propertyId: "prop_owner", before: "Ana", after: undefined },
+    ]);
+  });
+});
@@ -154,7 +154,16 @@ export async function deleteSelected(page: Page): Promise<void> {
  */
 export async function autoLayout(page: Page): Promise<void> {
   await page.click('[title*="Auto Layout"]');
-  await page.waitForTimeout(500);
+  await waitForLayout(page);
+}
+
+/**
+ * Wait for the layout worker to finish and stocks to glide into place.
+ */
+export async function waitForLayout(page: Page): Promise<void> {
+  await expect(page.locator('[data-testid="layout-progress"]')).toHaveCount(0);
+  // Stocks glide into place over LAYOUT_TWEEN_MS
+  await page.waitForTimeout(600);
 }
 
 /**
@@ -0,0 +1,49 @@
+import { test, expect } from "@playwright/test";
+import { buildDiagramTree, isDescendant } from "@/lib/model/hierarchy";
+
+/**
+ * Sidebar tree tests. These exercise lib/model directly and don't need a
+ * browser page.
+ */
+
+const index = {
+  root: { id: "root", updatedAt: 1 },
+  older: { id: "older", updatedAt: 2, parentId: "root" },
+  newer: { id: "newer", updatedAt: 3, parentId: "root" },
+  leaf: { id: "leaf", updatedAt: 4, parentId: "newer" },
+  other: { id: "other", updatedAt: 5 },
+};
+
+test.describe("System tree", () => {
+  test("should nest children under parents, newest first", () => {
+    const tree = buildDiagramTree(Object.values(index));
+
+    expect(tree.map((n) => n.entry.id)).toEqual(["other", "root"]);
+    expect(tree[1].children.map((n) => n.entry.id)).toEqual(["newer", "older"]);
+    expect(tree[1].children[0].children[0]).toMatchObject({ entry: { id: "leaf" }, depth: 2 });
+  });
+
+  test("should treat entries with a missing parent as roots", () => {
+    const tree = buildDiagramTree([{ id: "orphan", updatedAt: 1, parentId: "gone" }]);
+    expect(tree).toEqual([{ entry: expect.objectContaining({ id: "orphan" }), depth: 0, children: [] }]);
+  });
+
+  test("should survive a parent cycle", () => {
+    const cyclic = [
+      { id: "a", updatedAt: 1, parentId: "b" },
+      { id: "b", updatedAt: 2, parentId: "a" },
+    ];
+    const tree = buildDiagramTree(cyclic);
+
+    expect(tree.map((n) => n.entry.id)).toEqual(["b"]);
+    expect(tree[0].children.map((n) => n.entry.id)).toEqual(["a"]);
+    expect(isDescendant({ a: cyclic[0], b: cyclic[1] }, "a", "c")).toBe(false);
+  });
+
+  test("should detect descendants for re-parenting", () => {
+    expect(isDescendant(index, "leaf", "root")).toBe(true);
+    expect(isDescendant(index, "root", "root")).toBe(true);
+    expect(isDescendant(index, "root", "leaf")).toBe(false);
+    expect(isDescendant(index, "other", "root")).toBe(false);
+  });
+});
@@ -0,0 +1,135 @@
+import { test, expect } from "@playwright/test";
+import { applyPatches, describePatches, diffDocs, mergeSteps, trimHistory, HistoryStep } from "@/lib/history/patches";
+import { DiagramDoc } from "@/lib/model/schema";
+import { createMemoryAdapter } from "@/lib/storage/memory";
+import { replaceStorage } from "@/lib/store/storage";
+import { useDiagramStore } from "@/lib/store/diagrams";
+import { getFixtureJson } from "./helpers";
+
+/**
+ * Undo history tests. These exercise lib/history and the diagram store
+ * directly and don't need a browser page.
+ */
+
+const base = getFixtureJson("simple-flow") as DiagramDoc;
+
+function step(before: DiagramDoc, after: DiagramDoc, timestamp = 0): HistoryStep {
+  const { patches, inversePatches } = diffDocs(before, after);
+  return { label: describePatches(patches), patches, inversePatches, timestamp };
+}
+
+test.describe("History patches", () => {
+  test("should round-trip every document field through patches", () => {
+    const after: DiagramDoc = {
+      ...base,
+      title: "Renamed",
+      viewport: { x: 40, y: -20, zoom: 1.5 },
+      propertySchema: { properties: [{ id: "prop-1", name: "Owner", propertyType: { type: "text" } }] },
+      notes: { "note-1": { id: "note-1", content: "hi", x: 0, y: 0, width: 200, height: 150 } },
+      nodes: { ...base.nodes, "stock-source": { ...base.nodes["stock-source"], label: "Tap" } },
+      updatedAt: base.updatedAt + 1000,
+    };
+
+    const { patches, inversePatches } = diffDocs(base, after);
+
+    expect(applyPatches(base, patches)).toEqual({ ...after, updatedAt: base.updatedAt });
+    expect(applyPatches(after, inversePatches)).toEqual({ ...base, updatedAt: after.updatedAt });
+  });
+
+  test("should record only what changed and leave both documents untouched", () => {
+    const snapshot = JSON.stringify(base);
+    const moved = {
+      ...base,
+      nodes: { ...base.nodes, "stock-sink": { ...base.nodes["stock-sink"], x: 500 } },
+    };
+
+    const { patches, inversePatches } = diffDocs(base, moved);
+    expect(patches).toEqual([{ path: ["nodes", "stock-sink", "x"], value: 500 }]);
+    expect(inversePatches).toEqual([{ path: ["nodes", "stock-sink", "x"], value: 400 }]);
+
+    // Untouched objects are shared rather than copied
+    const undone = applyPatches(moved, inversePatches);
+    expect(undone.nodes["stock-source"]).toBe(base.nodes["stock-source"]);
+    expect(undone.edges).toBe(base.edges);
+    expect(JSON.stringify(base)).toBe(snapshot);
+  });
+
+  test("should delete keys that didn't exist before", () => {
+    const frame = { id: "frame-1", label: "Group", x: 0, y: 0, width: 200, height: 100 };
+    const withFrame = { ...base, frames: { "frame-1": frame } };
+
+    const { inversePatches } = diffDocs(base, withFrame);
+    const undone = applyPatches(withFrame, inversePatches);
+
+    expect(undone.frames).toEqual({});
+    expect("frame-1" in undone.frames!).toBe(false);
+  });
+
+  test("should label steps from what they touched", () => {
+    const nodes = Object.fromEntries(
+      Object.entries(base.nodes).map(([id, node]) => [id, { ...node, x: node.x + 10 }])
+    );
+    expect(step(base, { ...base, nodes }).label).toBe("Move 2 stocks");
+    expect(step(base, { ...base, edges: {} }).label).toBe("Delete flow");
+    expect(step(base, { ...base, title: "Other" }).label).toBe("Rename system");
+    expect(step(base, { ...base, viewport: { x: 5, y: 5, zoom: 1 } }).label).toBe("Change view");
+
+    const sink = base.nodes["stock-sink"];
+    const mixed = { ...base, nodes: { ...base.nodes, "stock-sink": { ...sink, x: 0, label: "Drain" } }, edges: {} };
+    expect(step(base, mixed).label).toBe("Edit 2 items");
+  });
+
+  test("should merge repeated edits to the same values into one step", () => {
+    const sink = base.nodes["stock-sink"];
+    const first = { ...base, nodes: { ...base.nodes, "stock-sink": { ...sink, label: "D" } } };
+    const second = { ...base, nodes: { ...base.nodes, "stock-sink": { ...sink, label: "Drain" } } };
+
+    const merged = mergeSteps(step(base, first, 0), step(first, second, 100))!;
+    expect(merged.timestamp).toBe(100);
+    expect(applyPatches(base, merged.patches).nodes["stock-sink"].label).toBe("Drain");
+    expect(applyPatches(second, merged.inversePatches).nodes["stock-sink"].label).toBe("Sink");
+
+    // A step touching anything new stays separate
+    const third = { ...second, nodes: { ...second.nodes, "stock-sink": { ...second.nodes["stock-sink"], x: 0 } } };
+    expect(mergeSteps(merged, step(second, third))).toBeNull();
+  });
+
+  test("should trim stored history to a size budget around the current step", () => {
+    const steps = [0, 1, 2, 3, 4].map((i) => step(base, { ...base, title: `Title ${i}` }, i));
+    const size = JSON.stringify(steps[0]).length;
+
+    // Everything fits
+    expect(trimHistory(steps, 2, size * 10)).toEqual({ steps, index: 2 });
+
+    // Undo steps nearest the current one are kept before redo steps
+    const trimmed = trimHistory(steps, 2, size * 2 + 1);
+    expect(trimmed.steps.map((s) => s.timestamp)).toEqual([1, 2]);
+    expect(trimmed.index).toBe(1);
+
+    // Nothing to undo keeps the redo steps that fit
+    expect(trimHistory(steps, -1, size * 2 + 1)).toEqual({ steps: steps.slice(0, 2), index: -1 });
+  });
+});
+
+test.describe("Diagram store history", () => {
+  test.beforeEach(async () => {
+    replaceStorage(createMemoryAdapter());
+    await useDiagramStore.getState().initialize();
+  });
+
+  test("should drop the oldest steps once history outgrows its budget", () => {
+    const store = useDiagramStore.getState();
+    store.createDiagram("Long session", undefined, base);
+
+    // Each rename is its own step of about 200,000 characters
+    for (let i = 0; i < 10; i++) {
+      store.transact(() => store.updateNode("stock-source", { label: String(i).repeat(100_000) }), `Rename ${i}`);
+    }
+
+    const { history, historyIndex } = useDiagramStore.getState();
+    expect(history.length).toBeLessThan(10);
+    expect(historyIndex).toBe(history.length - 1);
+    expect(history[historyIndex].label).toBe("Rename 9");
+    expect(JSON.stringify(history).length).toBeLessThanOrEqual(1_000_000);
+  });
+});
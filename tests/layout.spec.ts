@@ -0,0 +1,429 @@
+import { test, expect } from "@playwright/test";
+import { DiagramDoc, Edge, Frame, Node } from "@/lib/model/schema";
+import {
+  LayoutResult,
+  applyFrameLayout,
+  applyLayout,
+  autoLayout,
+  computeLayout,
+  createLiveSimulation,
+  layeredLayout,
+} from "@/lib/layout/autolayout";
+import { easeInOutCubic, interpolatePositions, interpolateRect, tween } from "@/lib/layout/animation";
+import { rectContains, rectsIntersect } from "@/lib/layout/geometry";
+import { getFixtureJson } from "./helpers";
+
+/**
+ * Layered, incremental, frame-aware, animated and live auto layout tests. These exercise
+ * lib/layout/autolayout.ts and lib/layout/animation.ts directly and don't need a browser page.
+ */
+
+function fixture(name: string): DiagramDoc {
+  return getFixtureJson(name) as unknown as DiagramDoc;
+}
+
+function layered(name: string, direction: "top-down" | "left-right" = "top-down"): LayoutResult {
+  const doc = fixture(name);
+  return layeredLayout(doc.nodes, Object.values(doc.edges), direction);
+}
+
+function center(result: LayoutResult, id: string) {
+  const node = result.nodes[id];
+  return { x: node.x + node.width / 2, y: node.y + node.height / 2 };
+}
+
+function expectNoOverlaps(result: LayoutResult) {
+  const nodes = Object.values(result.nodes);
+  for (let i = 0; i < nodes.length; i++) {
+    for (let j = i + 1; j < nodes.length; j++) {
+      const a = nodes[i];
+      const b = nodes[j];
+      const apart =
+        a.x + a.width <= b.x || b.x + b.width <= a.x || a.y + a.height <= b.y || b.y + b.height <= a.y;
+      expect(apart, `${a.id} overlaps ${b.id}`).toBe(true);
+    }
+  }
+}
+
+function stock(id: string): Node {
+  return { id, type: "stock", label: id, x: 0, y: 0, width: 120, height: 60 } as Node;
+}
+
+function flow(sourceId: string, targetId: string): Edge {
+  return { id: `${sourceId}-${targetId}`, type: "flow", sourceId, targetId, label: "" } as Edge;
+}
+
+test.describe("Layered layout", () => {
+  test("should put each step of a pipeline in its own layer, top-down", () => {
+    const result = layered("linear-chain");
+    const ys = ["stock-a", "stock-b", "stock-c", "stock-d"].map((id) => center(result, id).y);
+
+    for (let i = 1; i < ys.length; i++) {
+      expect(ys[i]).toBeGreaterThan(ys[i - 1]);
+    }
+    // A straight chain stays straight
+    expect(new Set(["stock-a", "stock-b", "stock-c", "stock-d"].map((id) => center(result, id).x)).size).toBe(1);
+  });
+
+  test("should run layers left to right when asked", () => {
+    const result = layered("linear-chain", "left-right");
+    const xs = ["stock-a", "stock-b", "stock-c", "stock-d"].map((id) => center(result, id).x);
+
+    for (let i = 1; i < xs.length; i++) {
+      expect(xs[i]).toBeGreaterThan(xs[i - 1]);
+    }
+    expect(new Set(["stock-a", "stock-b", "stock-c", "stock-d"].map((id) => center(result, id).y)).size).toBe(1);
+  });
+
+  test("should lay out cycles by reversing the feedback", () => {
+    const result = layered("complex-system");
+
+    expect(Object.keys(result.nodes).sort()).toEqual(Object.keys(fixture("complex-system").nodes).sort());
+    // The pipeline runs down; review → in-progress and bugs → in-progress are feedback
+    const order = ["backlog", "in-progress", "review", "done", "bugs"].map((id) => center(result, id).y);
+    for (let i = 1; i < order.length; i++) {
+      expect(order[i]).toBeGreaterThan(order[i - 1]);
+    }
+    expectNoOverlaps(result);
+    expectNoOverlaps(layered("complex-system", "left-right"));
+  });
+
+  test("should put inputs above a hub and outputs below it", () => {
+    const result = layered("hub-node");
+    const hub = center(result, "hub").y;
+
+    for (const id of ["input-1", "input-2", "input-3"]) {
+      expect(center(result, id).y).toBeLessThan(hub);
+    }
+    for (const id of ["output-1", "output-2"]) {
+      expect(center(result, id).y).toBeGreaterThan(hub);
+    }
+    expectNoOverlaps(result);
+  });
+
+  test("should reorder layers to remove crossings", () => {
+    const nodes = Object.fromEntries(["a1", "a2", "a3", "b1", "b2", "b3"].map((id) => [id, stock(id)]));
+    const targets: Record<string, string> = { a1: "b3", a2: "b2", a3: "b1" };
+    const result = layeredLayout(nodes, Object.entries(targets).map(([source, target]) => flow(source, target)));
+    const byX = (ids: string[]) => ids.sort((a, b) => center(result, a).x - center(result, b).x);
+
+    // Sorted by ID the flows all cross; untangled, targets are in their sources' order
+    expect(byX(["b1", "b2", "b3"])).toEqual(byX(["a1", "a2", "a3"]).map((id) => targets[id]));
+  });
+
+  test("should route long edges around nodes in between", () => {
+    const nodes = Object.fromEntries(["a", "b", "c"].map((id) => [id, stock(id)]));
+    const result = layeredLayout(nodes, [flow("a", "b"), flow("b", "c"), flow("a", "c")]);
+
+    expect(center(result, "a").y).toBeLessThan(center(result, "b").y);
+    expect(center(result, "b").y).toBeLessThan(center(result, "c").y);
+    expectNoOverlaps(result);
+  });
+
+  test("should place disconnected parts side by side", () => {
+    const doc = fixture("simple-flows-unconnected");
+    const result = layeredLayout(doc.nodes, Object.values(doc.edges));
+
+    expect(Object.keys(result.nodes)).toHaveLength(Object.keys(doc.nodes).length);
+    expectNoOverlaps(result);
+  });
+
+  test("should be deterministic regardless of key order", () => {
+    const doc = fixture("complex-system");
+    const edges = Object.values(doc.edges);
+    const reversed = Object.fromEntries(Object.entries(doc.nodes).reverse());
+
+    const first = layeredLayout(doc.nodes, edges);
+    expect(layeredLayout(doc.nodes, edges)).toEqual(first);
+    expect(layeredLayout(reversed, [...edges].reverse()).nodes).toEqual(first.nodes);
+  });
+});
+
+test.describe("Pinned nodes", () => {
+  function pinned(doc: DiagramDoc, ids: string[]): Record<string, Node> {
+    return Object.fromEntries(
+      Object.entries(doc.nodes).map(([id, node]) => [id, ids.includes(id) ? { ...node, pinned: true } : node])
+    );
+  }
+
+  test("should leave pinned nodes exactly where they are", () => {
+    const doc = fixture("complex-system");
+    const nodes = pinned(doc, ["backlog", "done", "team"]);
+    const result = autoLayout(nodes, Object.values(doc.edges));
+
+    for (const id of ["backlog", "done", "team"]) {
+      expect({ x: result.nodes[id].x, y: result.nodes[id].y }).toEqual({ x: nodes[id].x, y: nodes[id].y });
+    }
+    expect(Object.keys(result.nodes).sort()).toEqual(Object.keys(nodes).sort());
+  });
+
+  test("should change nothing when every node is pinned", () => {
+    const doc = fixture("complex-system");
+    const nodes = pinned(doc, Object.keys(doc.nodes));
+    const applied = applyLayout(nodes, autoLayout(nodes, Object.values(doc.edges)));
+
+    for (const [id, node] of Object.entries(applied)) {
+      expect({ x: node.x, y: node.y }).toEqual({ x: nodes[id].x, y: nodes[id].y });
+    }
+  });
+
+  test("should place a new stock near the pinned stock it's connected to", () => {
+    const nodes = {
+      left: { ...stock("left"), x: -1000, y: 0, pinned: true },
+      right: { ...stock("right"), x: 1000, y: 0, pinned: true },
+      added: stock("added"),
+    };
+    const result = autoLayout(nodes, [flow("left", "added")]);
+
+    const added = center(result, "added");
+    const distanceTo = (id: string) => Math.hypot(added.x - center(result, id).x, added.y - center(result, id).y);
+    expect(distanceTo("left")).toBeLessThan(distanceTo("right"));
+  });
+
+  test("should put unconnected new stocks below the pinned ones", () => {
+    const doc = fixture("linear-chain");
+    const nodes: Record<string, Node> = {
+      ...pinned(doc, Object.keys(doc.nodes)),
+      x1: stock("x1"),
+      x2: stock("x2"),
+      lone: stock("lone"),
+    };
+    const result = autoLayout(nodes, [...Object.values(doc.edges), flow("x1", "x2")]);
+
+    const bottom = Math.max(...Object.keys(doc.nodes).map((id) => nodes[id].y + nodes[id].height));
+    for (const id of ["x1", "x2", "lone"]) {
+      expect(result.nodes[id].y).toBeGreaterThan(bottom);
+    }
+    expectNoOverlaps(result);
+  });
+
+  test("should keep pinned nodes where they are when layered mode is asked for", () => {
+    const doc = fixture("complex-system");
+    const nodes = pinned(doc, ["backlog", "done"]);
+    const edges = Object.values(doc.edges);
+    const result = computeLayout(nodes, edges, { mode: "layered", direction: "left-right" });
+
+    for (const id of ["backlog", "done"]) {
+      expect({ x: result.nodes[id].x, y: result.nodes[id].y }).toEqual({ x: nodes[id].x, y: nodes[id].y });
+    }
+    expect(result).toEqual(autoLayout(nodes, edges));
+  });
+
+  test("should place unpinned nodes deterministically", () => {
+    const doc = fixture("complex-system");
+    const nodes = pinned(doc, ["backlog", "review"]);
+    const edges = Object.values(doc.edges);
+    expect(autoLayout(nodes, edges)).toEqual(autoLayout(nodes, edges));
+  });
+});
+
+test.describe("Frames", () => {
+  function frame(id: string, x: number, y: number, width: number, height: number): Frame {
+    return { id, label: id, x, y, width, height };
+  }
+
+  /** Two frames of two connected stocks each, a flow between them, and a stock outside. */
+  function twoFrames() {
+    const at = (id: string, x: number, y: number): Node => ({ ...stock(id), x, y });
+    return {
+      nodes: {
+        a1: at("a1", 20, 40),
+        a2: at("a2", 200, 40),
+        b1: at("b1", 20, 340),
+        b2: at("b2", 200, 340),
+        outside: at("outside", 600, 600),
+      },
+      edges: [flow("a1", "a2"), flow("b1", "b2"), flow("a2", "b1"), flow("b2", "outside")],
+      frames: { fa: frame("fa", 0, 0, 400, 200), fb: frame("fb", 0, 300, 400, 200) },
+    };
+  }
+
+  test("should keep a frame's stocks inside it and fit the frame around them", () => {
+    const doc = fixture("framed-system");
+    const result = autoLayout(doc.nodes, Object.values(doc.edges), undefined, doc.frames);
+    const warehouse = result.frames!["frame-warehouse"];
+
+    expect(rectContains(warehouse, result.nodes["stock-inventory"])).toBe(true);
+    expect(rectContains(warehouse, result.nodes["stock-shipped"])).toBe(true);
+    expect(rectsIntersect(warehouse, result.nodes["stock-customers"])).toBe(false);
+
+    // Fitted: the padding around the contents, plus the title
+    const inventory = result.nodes["stock-inventory"];
+    const shipped = result.nodes["stock-shipped"];
+    const contentWidth = Math.max(inventory.x + inventory.width, shipped.x + shipped.width) - Math.min(inventory.x, shipped.x);
+    expect(warehouse.width).toBeCloseTo(contentWidth + 48);
+  });
+
+  test("should keep frames apart as blocks", () => {
+    const { nodes, edges, frames } = twoFrames();
+
+    for (const result of [
+      autoLayout(nodes, edges, undefined, frames),
+      layeredLayout(nodes, edges, "left-right", frames),
+    ]) {
+      const { fa, fb } = result.frames!;
+      expect(rectsIntersect(fa, fb)).toBe(false);
+      expect(rectContains(fa, result.nodes.a1) && rectContains(fa, result.nodes.a2)).toBe(true);
+      expect(rectContains(fb, result.nodes.b1) && rectContains(fb, result.nodes.b2)).toBe(true);
+      expect(rectsIntersect(fa, result.nodes.outside) || rectsIntersect(fb, result.nodes.outside)).toBe(false);
+    }
+  });
+
+  test("should keep a frame with a pinned stock where its contents are", () => {
+    const { nodes, edges, frames } = twoFrames();
+    nodes.a1 = { ...nodes.a1, pinned: true };
+    const result = autoLayout(nodes, edges, undefined, frames);
+
+    expect({ x: result.nodes.a1.x, y: result.nodes.a1.y }).toEqual({ x: 20, y: 40 });
+    expect(rectContains(result.frames!.fa, result.nodes.a1)).toBe(true);
+    expect(rectContains(result.frames!.fa, result.nodes.a2)).toBe(true);
+    expect(rectsIntersect(result.frames!.fa, result.frames!.fb)).toBe(false);
+  });
+
+  test("should lay out as before when no stock is in a frame", () => {
+    const doc = fixture("complex-system");
+    const edges = Object.values(doc.edges);
+    const empty = { empty: frame("empty", 5000, 5000, 200, 100) };
+
+    expect(autoLayout(doc.nodes, edges, undefined, empty).nodes).toEqual(autoLayout(doc.nodes, edges).nodes);
+  });
+
+  test("should move the notes inside a frame along with it", () => {
+    const frames = { f: frame("f", 0, 0, 400, 200) };
+    const notes = {
+      inside: { id: "inside", content: "", x: 10, y: 30, width: 100, height: 50 },
+      outside: { id: "outside", content: "", x: 500, y: 30, width: 100, height: 50 },
+    };
+    const layout: LayoutResult = { nodes: {}, frames: { f: { id: "f", x: 100, y: 50, width: 300, height: 150 } } };
+    const applied = applyFrameLayout(frames, notes, layout);
+
+    expect(applied.frames.f).toMatchObject({ x: 100, y: 50, width: 300, height: 150, label: "f" });
+    expect(applied.notes).toEqual({ inside: { ...notes.inside, x: 110, y: 80 } });
+  });
+});
+
+test.describe("Choosing a layout mode", () => {
+  test("should run the force-directed model by default", () => {
+    const doc = fixture("complex-system");
+    const edges = Object.values(doc.edges);
+    expect(computeLayout(doc.nodes, edges, { mode: "force" })).toEqual(autoLayout(doc.nodes, edges));
+  });
+
+  test("should report progress as it goes without changing the result", () => {
+    const doc = fixture("complex-system");
+    const edges = Object.values(doc.edges);
+
+    for (const options of [{ mode: "force" }, { mode: "layered", direction: "left-right" }] as const) {
+      const fractions: number[] = [];
+      const layout = computeLayout(doc.nodes, edges, options, undefined, (fraction) => fractions.push(fraction));
+
+      expect(layout).toEqual(computeLayout(doc.nodes, edges, options));
+      expect(fractions.length).toBeGreaterThan(0);
+      expect(fractions).toEqual([...fractions].sort((a, b) => a - b));
+      expect(fractions[fractions.length - 1]).toBe(1);
+    }
+  });
+
+  test("should apply either mode's positions the same way", () => {
+    const doc = fixture("linear-chain");
+    const edges = Object.values(doc.edges);
+    const layout = computeLayout(doc.nodes, edges, { mode: "layered", direction: "left-right" });
+    const applied = applyLayout(doc.nodes, layout);
+
+    for (const [id, node] of Object.entries(applied)) {
+      expect({ x: node.x, y: node.y }).toEqual({ x: layout.nodes[id].x, y: layout.nodes[id].y });
+      expect(node.label).toBe(doc.nodes[id].label);
+    }
+  });
+});
+
+test.describe("Animating auto layout", () => {
+  test("should ease from start to end", () => {
+    expect(easeInOutCubic(0)).toBe(0);
+    expect(easeInOutCubic(0.5)).toBe(0.5);
+    expect(easeInOutCubic(1)).toBe(1);
+    expect(easeInOutCubic(0.1)).toBeLessThan(0.1);
+  });
+
+  test("should move positions and rectangles part of the way", () => {
+    const from = { a: { x: 0, y: 0 }, b: { x: 100, y: 100 } };
+    const to = { a: { x: 100, y: 50 }, c: { x: 10, y: 10 } };
+
+    // Only what's going somewhere; anything new is already there
+    expect(interpolatePositions(from, to, 0.5)).toEqual({ a: { x: 50, y: 25 }, c: { x: 10, y: 10 } });
+    expect(interpolateRect({ x: 0, y: 0, width: 100, height: 100 }, { x: 50, y: 50, width: 200, height: 0 }, 0.5))
+      .toEqual({ x: 25, y: 25, width: 150, height: 50 });
+  });
+
+  test("should go straight to the end without animation frames", () => {
+    const frames: number[] = [];
+    let done = false;
+    const running = tween(400, (t) => frames.push(t), () => (done = true));
+
+    expect(frames).toEqual([1]);
+    expect(done).toBe(true);
+    expect(running.running).toBe(false);
+  });
+});
+
+test.describe("Live physics", () => {
+  function chain(): { nodes: Record<string, Node>; edges: Edge[] } {
+    const nodes: Record<string, Node> = {
+      a: { ...stock("a"), x: 0, y: 0 },
+      b: { ...stock("b"), x: 300, y: 0 },
+      c: { ...stock("c"), x: 600, y: 0 },
+      alone: { ...stock("alone"), x: 0, y: 400 },
+    };
+    return { nodes, edges: [flow("a", "b"), flow("b", "c")] };
+  }
+
+  function settle(simulation: ReturnType<typeof createLiveSimulation>): number {
+    let steps = 0;
+    while (simulation.step()) steps++;
+    return steps;
+  }
+
+  test("should leave everything at rest until a stock is held", () => {
+    const { nodes, edges } = chain();
+    const simulation = createLiveSimulation(nodes, edges);
+
+    expect(simulation.step()).toBe(false);
+    expect(simulation.positions()).toEqual({});
+  });
+
+  test("should pull what a dragged stock is connected to, and only that", () => {
+    const { nodes, edges } = chain();
+    const simulation = createLiveSimulation(nodes, edges);
+
+    simulation.hold({ a: { x: -800, y: 0 } });
+    settle(simulation);
+    const positions = simulation.positions();
+
+    expect(Object.keys(positions).sort()).toEqual(["b", "c"]);
+    expect(positions.b.x).toBeLessThan(nodes.b.x);
+    expect(positions.c.x).toBeLessThan(nodes.c.x);
+  });
+
+  test("should keep pinned stocks where they are", () => {
+    const { nodes, edges } = chain();
+    nodes.c.pinned = true;
+    const simulation = createLiveSimulation(nodes, edges);
+
+    simulation.hold({ a: { x: -800, y: 0 } });
+    settle(simulation);
+
+    expect(Object.keys(simulation.positions())).toEqual(["b"]);
+  });
+
+  test("should settle, and start again when held again", () => {
+    const { nodes, edges } = chain();
+    const simulation = createLiveSimulation(nodes, edges);
+
+    simulation.hold({ a: { x: -100, y: 0 } });
+    expect(settle(simulation)).toBeGreaterThan(0);
+    expect(simulation.step()).toBe(false);
+
+    simulation.hold({ a: { x: -200, y: 0 } });
+    expect(simulation.step()).toBe(true);
+  });
+});
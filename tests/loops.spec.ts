@@ -0,0 +1,115 @@
+import { test, expect } from "@playwright/test";
+import { DiagramDoc, Edge } from "@/lib/model/schema";
+import { findFeedbackLoops, findElementaryCycles } from "@/lib/analysis/loops";
+import { getFixtureJson } from "./helpers";
+
+/**
+ * Feedback loop analysis tests. These exercise lib/analysis directly and
+ * don't need a browser page.
+ */
+
+function fixture(name: string): DiagramDoc {
+  return getFixtureJson(name) as unknown as DiagramDoc;
+}
+
+function withEdges(doc: DiagramDoc, edges: Partial<Edge>[]): DiagramDoc {
+  const next = { ...doc.edges };
+  for (const edge of edges) {
+    const existing: Partial<Edge> | undefined = next[edge.id!];
+    next[edge.id!] = { type: "flow", label: "", ...existing, ...edge } as Edge;
+  }
+  return { ...doc, edges: next };
+}
+
+test.describe("Feedback loops", () => {
+  test("should find a single reinforcing loop in a cycle of flows", () => {
+    const { loops, truncated } = findFeedbackLoops(fixture("cycle"));
+
+    expect(truncated).toBe(false);
+    expect(loops).toHaveLength(1);
+    expect(loops[0]).toMatchObject({
+      label: "R1",
+      polarity: "reinforcing",
+      nodeIds: ["stock-1", "stock-2", "stock-3"],
+      edgeIds: ["flow-12", "flow-23", "flow-31"],
+    });
+  });
+
+  test("should number loops shortest first", () => {
+    const { loops } = findFeedbackLoops(fixture("complex-system"));
+
+    expect(loops.map((l) => [l.label, l.edgeIds.length])).toEqual([
+      ["R1", 2],
+      ["R2", 4],
+    ]);
+  });
+
+  test("should classify loops from edge polarity", () => {
+    const doc = withEdges(fixture("cycle"), [{ id: "flow-23", polarity: "negative" }]);
+    expect(findFeedbackLoops(doc).loops[0]).toMatchObject({ label: "B1", polarity: "balancing" });
+
+    const twoNegatives = withEdges(doc, [{ id: "flow-31", polarity: "negative" }]);
+    expect(findFeedbackLoops(twoNegatives).loops[0].polarity).toBe("reinforcing");
+
+    const influence = withEdges(fixture("cycle"), [{ id: "flow-12", kind: "influence" }]);
+    expect(findFeedbackLoops(influence).loops[0]).toMatchObject({ label: "?1", polarity: "unknown" });
+  });
+
+  test("should find reinforcing loops in an unmodified stock-and-flow diagram", () => {
+    // No flow in the fixture has a polarity set
+    const doc = fixture("simple-loop");
+    expect(Object.values(doc.edges).every((edge) => edge.polarity === undefined)).toBe(true);
+
+    expect(findFeedbackLoops(doc).loops).toMatchObject([{ label: "R1", polarity: "reinforcing" }]);
+  });
+
+  test("should give parallel edges and self-loops their own loops", () => {
+    const doc = withEdges(fixture("cycle"), [
+      { id: "flow-31b", sourceId: "stock-3", targetId: "stock-1", polarity: "negative" },
+      { id: "flow-self", sourceId: "stock-2", targetId: "stock-2" },
+    ]);
+
+    const { loops } = findFeedbackLoops(doc);
+    expect(loops.map((l) => l.label)).toEqual(["R1", "R2", "B1"]);
+    expect(loops[0].edgeIds).toEqual(["flow-self"]);
+  });
+
+  test("should ignore relationship and undirected edges", () => {
+    const doc = withEdges(fixture("cycle"), [{ id: "flow-31", kind: "relationship" }]);
+    expect(findFeedbackLoops(doc).loops).toHaveLength(0);
+
+    const undirected = withEdges(fixture("cycle"), [{ id: "flow-31", directionality: "undirected" }]);
+    expect(findFeedbackLoops(undirected).loops).toHaveLength(0);
+  });
+
+  test("should enumerate every elementary cycle of a complete graph", () => {
+    const nodes = ["a", "b", "c", "d"];
+    const successors = new Map(nodes.map((n) => [n, nodes.filter((m) => m !== n)]));
+
+    // Σ C(4, k) · (k − 1)! for k = 2..4
+    expect(findElementaryCycles(nodes, successors).cycles).toHaveLength(20);
+
+    const limited = findElementaryCycles(nodes, successors, 5);
+    expect(limited.cycles).toHaveLength(5);
+    expect(limited.truncated).toBe(true);
+  });
+
+  test("should stop at the limit while expanding parallel edges", () => {
+    // A ring of 20 stocks, three edges between each: 3^20 loops in one cycle
+    const ids = Array.from({ length: 20 }, (_, i) => `s${String(i).padStart(2, "0")}`);
+    const edges = ids.flatMap((id, i) =>
+      [0, 1, 2].map((n) => ({ id: `${id}-${n}`, sourceId: id, targetId: ids[(i + 1) % ids.length] }))
+    );
+    const doc = withEdges({ nodes: Object.fromEntries(ids.map((id) => [id, {}])), edges: {} } as DiagramDoc, edges);
+
+    const { loops, truncated } = findFeedbackLoops(doc, 50);
+    expect(loops).toHaveLength(50);
+    expect(truncated).toBe(true);
+  });
+
+  test("should classify a causal loop diagram drawn with influence links", () => {
+    const { loops } = findFeedbackLoops(fixture("causal-loop"));
+    expect(loops).toHaveLength(1);
+    expect(loops[0]).toMatchObject({ label: "B1", polarity: "balancing" });
+  });
+});
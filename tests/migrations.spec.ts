@@ -0,0 +1,169 @@
+import { test, expect } from "@playwright/test";
+import {
+  DIAGRAM_MIGRATIONS,
+  Migration,
+  migrateDiagram,
+  migratePrefs,
+  runMigrations,
+} from "@/lib/model/migrations";
+import { DEFAULT_USER_PREFS, DIAGRAM_VERSION, DiagramDocSchema } from "@/lib/model/schema";
+import { getFixtureJson, listFixtures } from "./helpers";
+
+/**
+ * Schema migration tests. These exercise lib/model/migrations directly and
+ * don't need a browser page.
+ */
+
+test.describe("Diagram migrations", () => {
+  for (const name of listFixtures()) {
+    test(`should read fixture ${name} at the current version`, () => {
+      const fixture = getFixtureJson(name);
+      const result = migrateDiagram(fixture);
+
+      expect(result.ok).toBe(true);
+      if (!result.ok) return;
+      expect(result.fromVersion).toBe(DIAGRAM_VERSION);
+      expect(result.value).toEqual(DiagramDocSchema.parse(fixture));
+    });
+
+    test(`should upgrade fixture ${name} saved without a version`, () => {
+      const fixture = getFixtureJson(name);
+      const legacy = { ...fixture };
+      delete legacy.version;
+
+      const result = migrateDiagram(legacy);
+
+      expect(result.ok).toBe(true);
+      if (!result.ok) return;
+      expect(result.fromVersion).toBe(0);
+      expect(result.value.version).toBe(DIAGRAM_VERSION);
+      expect(result.value.nodes).toEqual(DiagramDocSchema.parse(fixture).nodes);
+    });
+  }
+
+  test("should fill in fields unversioned diagrams could be missing", () => {
+    const result = migrateDiagram({ id: "d_old", title: "Old", updatedAt: 1000 });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value).toMatchObject({ version: DIAGRAM_VERSION, createdAt: 1000, updatedAt: 1000, nodes: {}, edges: {} });
+  });
+
+  test("should reject a diagram from a newer version", () => {
+    const fixture = getFixtureJson("simple-flow");
+    const result = migrateDiagram({ ...fixture, version: DIAGRAM_VERSION + 1 });
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.error).toContain("newer version");
+  });
+
+  test("should report where an invalid diagram fails validation", () => {
+    const fixture = getFixtureJson("simple-flow");
+    const result = migrateDiagram({ ...fixture, viewport: { x: 0, y: 0, zoom: "far" } });
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.error).toMatch(/^viewport\.zoom: /);
+    expect(result.issues.length).toBeGreaterThan(0);
+  });
+
+  test("should reject data that isn't an object", () => {
+    expect(migrateDiagram(null).ok).toBe(false);
+    expect(migrateDiagram([1, 2]).ok).toBe(false);
+    expect(migrateDiagram("diagram").ok).toBe(false);
+  });
+
+  test("should not modify the data it migrates", () => {
+    const legacy = { ...getFixtureJson("simple-loop") };
+    delete legacy.version;
+    const copy = structuredClone(legacy);
+
+    migrateDiagram(legacy);
+
+    expect(legacy).toEqual(copy);
+  });
+});
+
+test.describe("Migration pipeline", () => {
+  const fixture = getFixtureJson("simple-flow");
+
+  test("should run each step in order", () => {
+    const steps: number[] = [];
+    const migrations: Migration[] = [
+      ...DIAGRAM_MIGRATIONS,
+      {
+        from: 1,
+        description: "Copy title to name",
+        up: (data) => {
+          steps.push(1);
+          return { ...data, version: 2, name: data.title };
+        },
+      },
+      {
+        from: 2,
+        description: "Drop title",
+        up: (data) => {
+          steps.push(2);
+          return { ...data, version: 3, title: undefined };
+        },
+      },
+    ];
+
+    const result = runMigrations({ ...fixture, version: 1 }, {
+      migrations: [...migrations].reverse(),
+      schema: DiagramDocSchema.omit({ version: true, title: true }).passthrough(),
+      version: 3,
+    });
+
+    expect(result.ok).toBe(true);
+    expect(steps).toEqual([1, 2]);
+    if (!result.ok) return;
+    expect(result.value).toMatchObject({ version: 3, name: fixture.title });
+  });
+
+  test("should fail when a step is missing", () => {
+    const result = runMigrations(fixture, { migrations: DIAGRAM_MIGRATIONS, schema: DiagramDocSchema, version: 2 });
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.error).toBe("No migration from version 1");
+  });
+
+  test("should report a step that throws", () => {
+    const migrations: Migration[] = [
+      {
+        from: 1,
+        description: "Broken",
+        up: () => {
+          throw new Error("bad data");
+        },
+      },
+    ];
+    const result = runMigrations(fixture, { migrations, schema: DiagramDocSchema, version: 2 });
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.error).toBe("Migration from version 1 failed: bad data");
+  });
+});
+
+test.describe("Preference migrations", () => {
+  test("should read current preferences unchanged", () => {
+    const result = migratePrefs(DEFAULT_USER_PREFS);
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value).toEqual(DEFAULT_USER_PREFS);
+  });
+
+  test("should upgrade unversioned preferences, keeping what was set", () => {
+    const result = migratePrefs({ labelModeDefault: "always" });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.fromVersion).toBe(0);
+    expect(result.value.labelModeDefault).toBe("always");
+    expect(result.value.theme).toEqual(DEFAULT_USER_PREFS.theme);
+  });
+});
@@ -0,0 +1,61 @@
+import { test, expect } from "@playwright/test";
+import {
+  importFixture,
+  waitForCanvas,
+  getNodeCount,
+  selectNode,
+  deleteSelected,
+  createNodeAt,
+  clearIndexedDB,
+} from "./helpers";
+
+test.describe("Multi-tab sync", () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto("/");
+    await clearIndexedDB(page);
+    await page.reload();
+    await waitForCanvas(page);
+  });
+
+  test("should show edits from another tab on the same diagram", async ({ page, context }) => {
+    await importFixture(page, "simple-flow");
+
+    const other = await context.newPage();
+    await other.goto(page.url());
+    await waitForCanvas(other);
+    expect(await getNodeCount(other)).toBe(2);
+
+    await selectNode(page, "stock-sink");
+    await deleteSelected(page);
+    await expect(other.locator('[data-node-id="stock-sink"]:not([data-handle])')).toHaveCount(0);
+
+    // And back the other way, keeping both edits
+    await createNodeAt(other, 300, 400);
+    await expect.poll(() => getNodeCount(page)).toBe(2);
+    expect(await getNodeCount(other)).toBe(2);
+  });
+
+  test("should show another tab's cursor and selection", async ({ page, context }) => {
+    await importFixture(page, "simple-flow");
+
+    const other = await context.newPage();
+    await other.goto(page.url());
+    await waitForCanvas(other);
+
+    await selectNode(page, "stock-sink");
+    await page.locator('[data-testid="canvas-svg"]').hover({ position: { x: 200, y: 300 } });
+
+    await expect(other.locator("[data-peer-cursor]")).toHaveCount(1);
+    await expect(other.locator('[data-peer-selection="stock-sink"]')).toHaveCount(1);
+  });
+
+  test("should list a system created in another tab in the sidebar", async ({ page, context }) => {
+    const other = await context.newPage();
+    await other.goto(page.url());
+    await waitForCanvas(other);
+
+    await importFixture(page, "simple-flow");
+
+    await expect(other.getByTestId("system-list-item").filter({ hasText: "Simple Flow" })).toBeVisible();
+  });
+});
@@ -0,0 +1,54 @@
+import { test, expect } from "@playwright/test";
+import { parseMarkdown, parseInline } from "@/lib/notes/markdown";
+
+/**
+ * Sticky note markdown tests. These exercise lib/notes directly and don't
+ * need a browser page.
+ */
+
+test.describe("Note markdown", () => {
+  test("should parse headings, lists and paragraphs", () => {
+    const blocks = parseMarkdown("# Goals\n- grow\n- retain\n\n1. first\n2. second\nplain text");
+
+    expect(blocks.map((b) => b.type)).toEqual(["heading", "list", "list", "paragraph"]);
+    expect(blocks[0]).toMatchObject({ level: 1, children: [{ type: "text", text: "Goals" }] });
+    expect(blocks[1]).toMatchObject({ ordered: false, items: [[{ text: "grow" }], [{ text: "retain" }]] });
+    expect(blocks[2]).toMatchObject({ ordered: true });
+  });
+
+  test("should keep line breaks inside a paragraph", () => {
+    const [paragraph] = parseMarkdown("line one\nline two");
+
+    expect(paragraph).toEqual({
+      type: "paragraph",
+      children: [
+        { type: "text", text: "line one" },
+        { type: "break" },
+        { type: "text", text: "line two" },
+      ],
+    });
+  });
+
+  test("should parse inline emphasis, code and links", () => {
+    expect(parseInline("a **bold** and *em* `x*y`")).toEqual([
+      { type: "text", text: "a " },
+      { type: "strong", children: [{ type: "text", text: "bold" }] },
+      { type: "text", text: " and " },
+      { type: "emphasis", children: [{ type: "text", text: "em" }] },
+      { type: "text", text: " " },
+      { type: "code", text: "x*y" },
+    ]);
+
+    expect(parseInline("[docs](https://example.com)")).toEqual([
+      { type: "link", href: "https://example.com", children: [{ type: "text", text: "docs" }] },
+    ]);
+  });
+
+  test("should leave unsafe links and unmatched markers as text", () => {
+    expect(parseInline("[x](javascript:alert(1))")).toEqual([
+      { type: "text", text: "[x](javascript:alert(1))" },
+    ]);
+    expect(parseInline("2 * 3 = 6")).toEqual([{ type: "text", text: "2 * 3 = 6" }]);
+    expect(parseInline("\\*literal\\*")).toEqual([{ type: "text", text: "*literal*" }]);
+  });
+});
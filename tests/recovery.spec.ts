@@ -0,0 +1,92 @@
+import { test, expect, Page } from "@playwright/test";
+import { clearIndexedDB, getFixtureJson, waitForCanvas, getNodeCount, getEdgeCount } from "./helpers";
+
+/**
+ * Write a diagram's data and index entry straight into storage (idb-keyval's
+ * default database), as an older or damaged copy of the app might have.
+ */
+async function storeDiagram(page: Page, data: Record<string, unknown>) {
+  await page.evaluate(async (diagram) => {
+    const db = await new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open("keyval-store");
+      request.onupgradeneeded = () => request.result.createObjectStore("keyval");
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    const tx = db.transaction("keyval", "readwrite");
+    const store = tx.objectStore("keyval");
+    const index = await new Promise<Record<string, unknown>>((resolve) => {
+      const request = store.get("diagrams:index");
+      request.onsuccess = () => resolve(request.result ?? {});
+    });
+    store.put(diagram, `diagram:${diagram.id}`);
+    store.put(
+      { ...index, [diagram.id as string]: { id: diagram.id, title: diagram.title, updatedAt: Date.now() } },
+      "diagrams:index"
+    );
+    await new Promise((resolve) => (tx.oncomplete = resolve));
+    db.close();
+  }, data);
+}
+
+function brokenFlow(): Record<string, any> {
+  const doc = structuredClone(getFixtureJson("linear-chain")) as Record<string, any>;
+  const [edgeId] = Object.keys(doc.edges);
+  doc.edges[edgeId].sourceId = "stock-gone";
+  doc.viewport = { x: 0, y: 0, zoom: 40 };
+  return doc;
+}
+
+test.describe("Recovering diagrams that fail validation", () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto("/");
+    await clearIndexedDB(page);
+    await page.reload();
+    await waitForCanvas(page);
+  });
+
+  test("should quarantine the diagram instead of replacing it", async ({ page }) => {
+    const doc = brokenFlow();
+    await storeDiagram(page, doc);
+    await page.goto(`/d/${doc.id}`);
+
+    await expect(page.locator('[data-testid="quarantine-notice"]')).toBeVisible();
+    await expect(page.locator('[data-testid="quarantine-issues"]')).toContainText("stock-gone");
+    await expect(page.locator('[data-testid="quarantine-issues"]')).toContainText("viewport.zoom");
+    await expect(page).toHaveURL(new RegExp(`/d/${doc.id}$`));
+
+    const item = page.locator('[data-testid="system-list-item"]', { hasText: doc.title });
+    await expect(item.locator('[data-testid="system-quarantined"]')).toBeVisible();
+  });
+
+  test("should preview and save the repaired diagram", async ({ page }) => {
+    const doc = brokenFlow();
+    await storeDiagram(page, doc);
+    await page.goto(`/d/${doc.id}`);
+
+    await expect(page.locator('[data-testid="repair-fixes"] li')).toHaveCount(2);
+    await expect(page.locator("[data-preview-node-id]")).toHaveCount(Object.keys(doc.nodes).length);
+
+    await page.click('[data-testid="quarantine-repair"]');
+    await waitForCanvas(page);
+
+    expect(await getNodeCount(page)).toBe(Object.keys(doc.nodes).length);
+    expect(await getEdgeCount(page)).toBe(Object.keys(doc.edges).length - 1);
+    await expect(page.locator('[data-testid="system-quarantined"]')).toHaveCount(0);
+  });
+
+  test("should export the stored data as it is", async ({ page }) => {
+    const doc = brokenFlow();
+    await storeDiagram(page, doc);
+    await page.goto(`/d/${doc.id}`);
+
+    const downloadPromise = page.waitForEvent("download");
+    await page.click('[data-testid="quarantine-export"]');
+    const download = await downloadPromise;
+
+    const stream = await download.createReadStream();
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) chunks.push(chunk as Buffer);
+    expect(JSON.parse(Buffer.concat(chunks).toString("utf-8"))).toEqual(doc);
+  });
+});
@@ -0,0 +1,139 @@
+import { test, expect } from "@playwright/test";
+import { repairDiagram } from "@/lib/model/repair";
+import { migrateDiagram } from "@/lib/model/migrations";
+import { DIAGRAM_VERSION } from "@/lib/model/schema";
+import { getFixtureJson, listFixtures } from "./helpers";
+
+/**
+ * Diagram repair tests. These exercise lib/model/repair directly and don't
+ * need a browser page.
+ */
+
+type Data = Record<string, any>;
+
+function broken(update: (doc: Data) => void): Data {
+  const doc = structuredClone(getFixtureJson("simple-flow")) as Data;
+  update(doc);
+  return doc;
+}
+
+function repair(data: Data) {
+  const result = repairDiagram(data, data.id);
+  if (!result.ok) throw new Error(result.error);
+  expect(migrateDiagram(result.doc).ok).toBe(true);
+  return result;
+}
+
+test.describe("Diagram repair", () => {
+  for (const name of listFixtures()) {
+    test(`should leave fixture ${name} alone`, () => {
+      const fixture = getFixtureJson(name);
+      const { doc, fixes } = repair(fixture);
+
+      expect(fixes).toEqual([]);
+      expect(migrateDiagram(fixture)).toMatchObject({ ok: true, value: doc });
+    });
+  }
+
+  test("should remove flows whose stocks are missing", () => {
+    const data = broken((doc) => {
+      doc.edges["flow-1"].sourceId = "stock-gone";
+    });
+    expect(migrateDiagram(data)).toMatchObject({ ok: false, error: expect.stringContaining("edges.flow-1.sourceId") });
+
+    const { doc, fixes } = repair(data);
+
+    expect(doc.edges).toEqual({});
+    expect(Object.keys(doc.nodes)).toHaveLength(2);
+    expect(fixes).toEqual([{ path: "edges.flow-1", description: expect.stringContaining("stock-gone") }]);
+  });
+
+  test("should clamp an out-of-range zoom", () => {
+    const { doc, fixes } = repair(broken((doc) => {
+      doc.viewport = { x: 10, y: 20, zoom: 12 };
+    }));
+
+    expect(doc.viewport).toEqual({ x: 10, y: 20, zoom: 4 });
+    expect(fixes).toEqual([{ path: "viewport.zoom", description: "Changed zoom 12 to 4" }]);
+  });
+
+  test("should reset a viewport it can't clamp", () => {
+    const { doc, fixes } = repair(broken((doc) => {
+      doc.viewport = { zoom: "far" };
+    }));
+
+    expect(doc.viewport).toEqual({ x: 0, y: 0, zoom: 1 });
+    expect(fixes.map((fix) => fix.path)).toEqual(["viewport"]);
+  });
+
+  test("should remove unknown colors", () => {
+    const { doc, fixes } = repair(broken((doc) => {
+      doc.nodes["stock-source"].color = "teal";
+      doc.edges["flow-1"].color = "blue";
+    }));
+
+    expect(doc.nodes["stock-source"].color).toBeUndefined();
+    expect(doc.edges["flow-1"].color).toBe("blue");
+    expect(fixes).toEqual([{ path: "nodes.stock-source.color", description: 'Removed invalid color "teal"' }]);
+  });
+
+  test("should remove stocks it can't fix, and their flows", () => {
+    const { doc, fixes } = repair(broken((doc) => {
+      doc.nodes["stock-source"].x = "left";
+    }));
+
+    expect(doc.nodes["stock-source"]).toBeUndefined();
+    expect(doc.edges).toEqual({});
+    expect(fixes.map((fix) => fix.path)).toEqual(["nodes.stock-source", "edges.flow-1"]);
+    expect(fixes[0].description).toContain("x: Expected number");
+  });
+
+  test("should give elements the ID they're stored under", () => {
+    const { doc, fixes } = repair(broken((doc) => {
+      doc.nodes["stock-source"].id = "stock-other";
+    }));
+
+    expect(doc.nodes["stock-source"].id).toBe("stock-source");
+    expect(fixes.map((fix) => fix.path)).toEqual(["nodes.stock-source.id"]);
+  });
+
+  test("should keep properties whose options have unknown colors", () => {
+    const { doc, fixes } = repair(broken((doc) => {
+      doc.propertySchema = {
+        properties: [
+          {
+            id: "prop-status",
+            name: "Status",
+            propertyType: { type: "select", options: [{ id: "opt-1", label: "Open", color: "brown" }] },
+          },
+          { id: "prop-broken", name: "Broken", propertyType: { type: "date" } },
+        ],
+      };
+    }));
+
+    expect(doc.propertySchema?.properties).toEqual([
+      { id: "prop-status", name: "Status", propertyType: { type: "select", options: [{ id: "opt-1", label: "Open" }] } },
+    ]);
+    expect(fixes.map((fix) => fix.path)).toEqual([
+      "propertySchema.properties.0.options.0.color",
+      "propertySchema.properties.1",
+    ]);
+  });
+
+  test("should fill in a missing title and collections", () => {
+    const { doc, fixes } = repair({ id: "d_bare", version: DIAGRAM_VERSION, createdAt: 1, updatedAt: 2, nodes: [] });
+
+    expect(doc).toMatchObject({ id: "d_bare", title: "Untitled system", nodes: {}, edges: {} });
+    expect(fixes.map((fix) => fix.path)).toEqual(["title", "nodes", "edges"]);
+  });
+
+  test("should not repair data from a newer version", () => {
+    const result = repairDiagram({ ...getFixtureJson("simple-flow"), version: DIAGRAM_VERSION + 1 }, "d_new");
+
+    expect(result.ok).toBe(false);
+  });
+
+  test("should not repair data that isn't an object", () => {
+    expect(repairDiagram("diagram", "d_text").ok).toBe(false);
+  });
+});
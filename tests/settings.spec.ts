@@ -103,4 +103,16 @@ test.describe("Settings", () => {
     await expect(page.locator('text="Double-click"')).toBeVisible();
     await expect(page.locator('text="Backspace"')).toBeVisible();
   });
+
+  test("should list each system's size and offer compaction", async ({ page }) => {
+    await importFixture(page, "framed-system");
+    await openSettings(page);
+
+    const dashboard = page.locator('[data-testid="storage-dashboard"]');
+    await expect(dashboard.locator('[data-testid="storage-usage-row"]').first()).toBeVisible();
+    await expect(dashboard.locator('[data-testid="storage-total"]')).toHaveText(/\d/);
+
+    await dashboard.locator('[data-testid="compaction-start"]').click();
+    await expect(dashboard.locator('[data-testid="compaction-plan"]')).toBeVisible();
+  });
 });
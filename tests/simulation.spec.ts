@@ -0,0 +1,218 @@
+import { test, expect } from "@playwright/test";
+import { DiagramDoc, SimulationSettings } from "@/lib/model/schema";
+import { runSimulation } from "@/lib/simulation/engine";
+import { parseEquation } from "@/lib/simulation/equation";
+import { simulationResultToCsv } from "@/lib/simulation/csv";
+import { getFixtureJson } from "./helpers";
+
+/**
+ * Simulation engine tests. These exercise lib/simulation directly and
+ * don't need a browser page.
+ */
+
+function withSimulation(
+  doc: DiagramDoc,
+  stocks: Record<string, number>,
+  flows: Record<string, string>
+): DiagramDoc {
+  const nodes = { ...doc.nodes };
+  for (const [id, initialValue] of Object.entries(stocks)) {
+    nodes[id] = { ...nodes[id], attributes: { simulation: { initialValue } } };
+  }
+  const edges = { ...doc.edges };
+  for (const [id, rate] of Object.entries(flows)) {
+    edges[id] = { ...edges[id], attributes: { simulation: { rate } } };
+  }
+  return { ...doc, nodes, edges };
+}
+
+function simpleFlow(rate: string, settings?: Partial<SimulationSettings>): DiagramDoc {
+  const doc = withSimulation(
+    getFixtureJson("simple-flow") as unknown as DiagramDoc,
+    { "stock-source": 100, "stock-sink": 0 },
+    { "flow-1": rate }
+  );
+  return { ...doc, simulation: { method: "euler", dt: 1, startTime: 0, horizon: 10, ...settings } };
+}
+
+test.describe("Simulation engine", () => {
+  test("should conserve material moving along a flow", () => {
+    const doc = withSimulation(
+      getFixtureJson("simple-flow") as unknown as DiagramDoc,
+      { "stock-source": 100, "stock-sink": 0 },
+      { "flow-1": "0.1 * Source" }
+    );
+
+    const run = runSimulation(doc, { horizon: 10, dt: 0.5 });
+    expect(run.success).toBe(true);
+    if (!run.success) return;
+
+    const { times, stocks } = run.result;
+    expect(times).toHaveLength(21);
+    for (let i = 0; i < times.length; i++) {
+      expect(stocks["stock-source"][i] + stocks["stock-sink"][i]).toBeCloseTo(100, 6);
+    }
+  });
+
+  test("should integrate exponential decay more accurately with RK4", () => {
+    const doc = withSimulation(
+      getFixtureJson("simple-flow") as unknown as DiagramDoc,
+      { "stock-source": 100 },
+      { "flow-1": "0.5 * [Source]" }
+    );
+
+    const exact = 100 * Math.exp(-0.5 * 10);
+    const euler = runSimulation(doc, { method: "euler", horizon: 10, dt: 0.5 });
+    const rk4 = runSimulation(doc, { method: "rk4", horizon: 10, dt: 0.5 });
+    if (!euler.success || !rk4.success) throw new Error("simulation failed");
+
+    const eulerError = Math.abs(euler.result.stocks["stock-source"].at(-1)! - exact);
+    const rk4Error = Math.abs(rk4.result.stocks["stock-source"].at(-1)! - exact);
+    expect(rk4Error).toBeLessThan(0.01);
+    expect(rk4Error).toBeLessThan(eulerError);
+  });
+
+  test("should report unknown references with their location", () => {
+    const doc = withSimulation(
+      getFixtureJson("simple-flow") as unknown as DiagramDoc,
+      {},
+      { "flow-1": "2 * Reservoir" }
+    );
+
+    const run = runSimulation(doc);
+    expect(run.success).toBe(false);
+    if (run.success) return;
+
+    expect(run.issues).toHaveLength(1);
+    expect(run.issues[0]).toMatchObject({ elementId: "flow-1", start: 4, end: 13 });
+  });
+
+  test("should report syntax errors with their location", () => {
+    const parsed = parseEquation("3 * (Source + ");
+    expect(parsed.success).toBe(false);
+    if (parsed.success) return;
+    expect(parsed.error.start).toBe(14);
+  });
+
+  test("should evaluate auxiliaries and if()", () => {
+    const doc = simpleFlow("inflow_rate", {
+      auxiliaries: [{ id: "aux-1", name: "inflow_rate", equation: "if(time < 5, 2, 0)" }],
+    });
+
+    const run = runSimulation(doc);
+    if (!run.success) throw new Error(run.issues[0].message);
+    expect(run.result.stocks["stock-sink"].at(-1)).toBeCloseTo(10, 6);
+  });
+
+  test("should integrate smooth() as a hidden state", () => {
+    const run = runSimulation(simpleFlow("smooth(4, 2, 0)", { method: "rk4", dt: 0.1 }));
+    if (!run.success) throw new Error(run.issues[0].message);
+
+    // ∫ 4 (1 - e^(-t/2)) dt from 0 to 10
+    const exact = 40 - 8 * (1 - Math.exp(-5));
+    expect(run.result.stocks["stock-sink"].at(-1)).toBeCloseTo(exact, 3);
+  });
+
+  test("should look up past values with delay()", () => {
+    const run = runSimulation(simpleFlow("delay(time, 3)"));
+    if (!run.success) throw new Error(run.issues[0].message);
+
+    const { times, flows } = run.result;
+    expect(flows["flow-1"][times.indexOf(2)]).toBe(0);
+    expect(flows["flow-1"][times.indexOf(5)]).toBe(2);
+  });
+
+  test("should warn about unit mismatches without blocking the run", () => {
+    const base = simpleFlow("Source + 1 {month}", { timeUnit: "month" });
+    const doc: DiagramDoc = {
+      ...base,
+      nodes: {
+        ...base.nodes,
+        "stock-source": {
+          ...base.nodes["stock-source"],
+          attributes: { simulation: { initialValue: 100, unit: "people" } },
+        },
+      },
+    };
+
+    const run = runSimulation(doc);
+    expect(run.success).toBe(true);
+    expect(run.issues.map((i) => i.message)).toEqual([
+      "Cannot add people and month",
+      "Equation has units people, expected people/month",
+    ]);
+
+    const fixed = runSimulation({ ...doc, edges: simpleFlow("0.1 {1/month} * Source").edges });
+    expect(fixed.issues).toEqual([]);
+  });
+
+  test("should warn about stocks the flow is not connected to", () => {
+    const base = simpleFlow("0.1 * Other");
+    const doc: DiagramDoc = {
+      ...base,
+      nodes: { ...base.nodes, "stock-other": { ...base.nodes["stock-sink"], id: "stock-other", label: "Other" } },
+    };
+
+    const run = runSimulation(doc);
+    expect(run.success).toBe(true);
+    expect(run.issues).toHaveLength(1);
+    expect(run.issues[0]).toMatchObject({ severity: "warning", start: 6, end: 11 });
+  });
+
+  test("should reject circular auxiliary definitions", () => {
+    const doc = simpleFlow("a", {
+      auxiliaries: [
+        { id: "aux-a", name: "a", equation: "b + 1" },
+        { id: "aux-b", name: "b", equation: "a * 2" },
+      ],
+    });
+
+    const run = runSimulation(doc);
+    expect(run.success).toBe(false);
+    expect(run.issues.map((i) => i.message)).toEqual([
+      "Circular definition: a → b → a",
+      "Circular definition: b → a → b",
+    ]);
+  });
+
+  test("should report unknown functions and wrong argument counts", () => {
+    const run = runSimulation(simpleFlow("clamp(Source) + min()"));
+    expect(run.success).toBe(false);
+    expect(run.issues.map((i) => [i.message, i.start, i.end])).toEqual([
+      ["Unknown function 'clamp'", 0, 5],
+      ["Expected min(a, b, ...)", 16, 21],
+    ]);
+  });
+
+  test("should refuse runs with too many steps", () => {
+    const run = runSimulation(simpleFlow("1", { horizon: 1000, dt: 0.001 }));
+    expect(run.success).toBe(false);
+    expect(run.issues).toEqual([
+      expect.objectContaining({ elementType: "settings", severity: "error", message: expect.stringContaining("1,000,000 steps") }),
+    ]);
+  });
+
+  test("should refuse overrides the stored settings couldn't have", () => {
+    for (const overrides of [{ dt: 0 }, { dt: -0.5 }, { horizon: -10 }, { dt: Number.NaN }]) {
+      const run = runSimulation(simpleFlow("1", { horizon: 10 }), overrides);
+      expect(run.success).toBe(false);
+      expect(run.issues).toEqual([
+        expect.objectContaining({ elementType: "settings", severity: "error", message: expect.stringMatching(/^Invalid (dt|horizon)/) }),
+      ]);
+    }
+  });
+
+  test("should export a run as CSV", () => {
+    const run = runSimulation(simpleFlow("10", { horizon: 2 }));
+    if (!run.success) throw new Error(run.issues[0].message);
+
+    const csv = simulationResultToCsv(run.result, [
+      { id: "stock-source", label: "Source", kind: "stock" },
+      { id: "stock-sink", label: 'Sink, "final"', kind: "stock" },
+      { id: "flow-1", label: "transfer", kind: "flow" },
+    ]);
+    expect(csv).toBe(
+      'time,Source,"Sink, ""final""",transfer\n0,100,0,10\n1,90,10,10\n2,80,20,10\n'
+    );
+  });
+});
@@ -0,0 +1,174 @@
+import { test, expect } from "@playwright/test";
+import { StorageAdapter, diagramKey, historyKey, DIAGRAMS_INDEX_KEY, PREFS_KEY } from "@/lib/storage/adapter";
+import { createMemoryAdapter } from "@/lib/storage/memory";
+import { createFolderAdapter, keyToPath, pathToKey } from "@/lib/storage/folder";
+import { createCrdt } from "@/lib/sync/crdt";
+import { replaceStorage } from "@/lib/store/storage";
+import { useDiagramStore } from "@/lib/store/diagrams";
+import { DiagramDoc } from "@/lib/model/schema";
+import { getFixtureJson } from "./helpers";
+
+/**
+ * Storage backend tests. These exercise lib/storage directly and don't need
+ * a browser page.
+ */
+
+/**
+ * Just enough of a File System Access directory, in memory, to run the
+ * folder adapter against.
+ */
+class FakeDirectory {
+  readonly kind = "directory";
+  files = new Map<string, string>();
+  directories = new Map<string, FakeDirectory>();
+
+  constructor(readonly name: string) {}
+
+  async getDirectoryHandle(name: string, { create = false } = {}) {
+    if (!this.directories.has(name)) {
+      if (!create) throw new DOMException("Not found", "NotFoundError");
+      this.directories.set(name, new FakeDirectory(name));
+    }
+    return this.directories.get(name)!;
+  }
+
+  async getFileHandle(name: string, { create = false } = {}) {
+    if (!this.files.has(name)) {
+      if (!create) throw new DOMException("Not found", "NotFoundError");
+      this.files.set(name, "");
+    }
+    return {
+      getFile: async () => ({ text: async () => this.files.get(name)! }),
+      createWritable: async () => {
+        let contents = "";
+        return {
+          write: async (data: string) => {
+            contents += data;
+          },
+          close: async () => {
+            this.files.set(name, contents);
+          },
+        };
+      },
+    };
+  }
+
+  async removeEntry(name: string) {
+    if (!this.files.delete(name)) throw new DOMException("Not found", "NotFoundError");
+  }
+
+  async *keys() {
+    yield* this.files.keys();
+    yield* this.directories.keys();
+  }
+}
+
+function folder() {
+  const root = new FakeDirectory("systems");
+  return { root, adapter: createFolderAdapter(root as unknown as FileSystemDirectoryHandle) };
+}
+
+const doc = getFixtureJson("simple-flow") as DiagramDoc;
+
+/** Behaviour every backend shares. */
+function describeAdapter(name: string, create: () => StorageAdapter) {
+  test.describe(`${name} storage`, () => {
+    test("should read back what was written", async () => {
+      const storage = create();
+      await storage.set(PREFS_KEY, { version: 1 });
+      await storage.set(historyKey(doc.id), { steps: [] });
+
+      expect(await storage.get(PREFS_KEY)).toEqual({ version: 1 });
+      expect(await storage.get(historyKey(doc.id))).toEqual({ steps: [] });
+      expect(await storage.get(historyKey("missing"))).toBeUndefined();
+    });
+
+    test("should list and delete keys", async () => {
+      const storage = create();
+      await storage.set(DIAGRAMS_INDEX_KEY, {});
+      await storage.set(diagramKey(doc.id), doc);
+      await storage.set("custom:key", 1);
+
+      expect((await storage.keys()).sort()).toEqual([DIAGRAMS_INDEX_KEY, "custom:key", diagramKey(doc.id)].sort());
+
+      await storage.del(diagramKey(doc.id));
+      await storage.del(diagramKey("missing"));
+      expect(await storage.get(diagramKey(doc.id))).toBeUndefined();
+      expect(await storage.keys()).not.toContain(diagramKey(doc.id));
+    });
+
+    test("should not share objects with callers", async () => {
+      const storage = create();
+      const value = { nested: { count: 1 } };
+      await storage.set("custom:key", value);
+      value.nested.count = 2;
+
+      const read = await storage.get<typeof value>("custom:key");
+      expect(read?.nested.count).toBe(1);
+    });
+  });
+}
+
+describeAdapter("Memory", () => createMemoryAdapter());
+describeAdapter("Folder", () => folder().adapter);
+
+test.describe("Folder layout", () => {
+  test("should map keys to files and back", () => {
+    const cases: [string, string, string][] = [
+      [DIAGRAMS_INDEX_KEY, "", "index.json"],
+      [PREFS_KEY, "", "prefs.json"],
+      [diagramKey("d_1"), "diagrams", "d_1.json"],
+      [historyKey("d_1"), "history", "d_1.json"],
+      ["custom:key", "other", "custom%3Akey.json"],
+    ];
+    for (const [key, directory, file] of cases) {
+      expect(keyToPath(key)).toEqual({ directory, file });
+      expect(pathToKey(directory, file)).toBe(key);
+    }
+  });
+
+  test("should ignore files that aren't ours", () => {
+    expect(pathToKey("", "README.md")).toBeNull();
+    expect(pathToKey("", "notes.json")).toBeNull();
+    expect(pathToKey("images", "a.json")).toBeNull();
+  });
+
+  test("should write diagrams as plain, pretty-printed JSON", async () => {
+    const { root, adapter } = folder();
+    await adapter.set(diagramKey(doc.id), createCrdt(doc));
+
+    const text = root.directories.get("diagrams")!.files.get(`${doc.id}.json`)!;
+    expect(text).toBe(`${JSON.stringify(doc, null, 2)}\n`);
+    expect(await adapter.get(diagramKey(doc.id))).toEqual(doc);
+  });
+});
+
+test.describe("Diagram store on memory storage", () => {
+  let storage: StorageAdapter;
+
+  test.beforeEach(async () => {
+    storage = createMemoryAdapter();
+    replaceStorage(storage);
+    await useDiagramStore.getState().initialize();
+  });
+
+  test("should persist diagrams through the adapter", async () => {
+    const id = useDiagramStore.getState().createDiagram("Stored");
+    await useDiagramStore.getState().saveDiagram();
+
+    expect(await storage.get(DIAGRAMS_INDEX_KEY)).toMatchObject({ [id]: { title: "Stored" } });
+    expect(await storage.get(diagramKey(id))).toMatchObject({ format: "crdt" });
+    expect(await storage.keys()).toContain(historyKey(id));
+  });
+
+  test("should set aside a diagram with a flow to a missing stock, leaving it as stored", async () => {
+    const broken = structuredClone(doc);
+    broken.edges["flow-1"].targetId = "stock-gone";
+    const stored = createCrdt(broken);
+    await storage.set(diagramKey(broken.id), stored);
+
+    expect(await useDiagramStore.getState().loadDiagram(broken.id)).toBeNull();
+    expect(useDiagramStore.getState().diagrams[broken.id].quarantine).toContain("stock-gone");
+    expect(await storage.get(diagramKey(broken.id))).toEqual(stored);
+  });
+});
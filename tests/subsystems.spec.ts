@@ -0,0 +1,122 @@
+import { test, expect } from "@playwright/test";
+import {
+  importFixture,
+  waitForCanvas,
+  getNodeCount,
+  createNodeAt,
+  deleteSelected,
+  clearIndexedDB,
+} from "./helpers";
+
+test.describe("Subsystems", () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto("/");
+    await clearIndexedDB(page);
+    await page.reload();
+    await waitForCanvas(page);
+  });
+
+  async function expandSource(page: import("@playwright/test").Page) {
+    await page.locator('[data-node-id="stock-source"] rect').first().click({ button: "right" });
+    await page.getByTestId("stock-subsystem-action").click();
+    await page.waitForURL((url) => !url.pathname.endsWith("test-simple-flow"));
+    await waitForCanvas(page);
+  }
+
+  test("should expand a stock into a child diagram and navigate back", async ({ page }) => {
+    await importFixture(page, "simple-flow");
+    const parentUrl = page.url();
+
+    await expandSource(page);
+
+    expect(page.url()).not.toBe(parentUrl);
+    await expect(page.getByText("Source → Source")).toBeVisible();
+
+    // The outgoing flow shows up as an external boundary stock
+    expect(await getNodeCount(page)).toBe(1);
+    await expect(page.locator("[data-node-id]")).toContainText("Sink");
+
+    // Back to the parent via the breadcrumb
+    await page.getByRole("button", { name: "Simple Flow" }).click();
+    await page.waitForURL(parentUrl);
+    await waitForCanvas(page);
+
+    // The stock is now linked and its indicator opens the child
+    await page.getByTestId("subsystem-indicator").click();
+    await expect(page.getByText("Source → Source")).toBeVisible();
+  });
+
+  test("should add boundary stocks for flows drawn in the parent later", async ({ page }) => {
+    await importFixture(page, "simple-flow");
+    const parentUrl = page.url();
+
+    await expandSource(page);
+    const childUrl = page.url();
+
+    // Add a second flow out of Source in the parent
+    await page.goto(parentUrl);
+    await waitForCanvas(page);
+    await createNodeAt(page, 250, 400);
+    await page.keyboard.type("Waste");
+    await page.keyboard.press("Enter");
+    const handle = page.locator('[data-node-id="stock-source"] [data-handle]').first();
+    const target = page.locator("[data-node-id]", { hasText: "Waste" }).first();
+    await handle.dragTo(target);
+    await page.keyboard.press("Escape");
+    await page.waitForTimeout(600);
+
+    await page.goto(childUrl);
+    await waitForCanvas(page);
+    expect(await getNodeCount(page)).toBe(2);
+    await expect(page.locator("[data-node-id]", { hasText: "Waste" })).toHaveCount(1);
+  });
+
+  test("should detach the child diagram when its stock is deleted", async ({ page }) => {
+    await importFixture(page, "simple-flow");
+    const parentUrl = page.url();
+
+    await expandSource(page);
+    const childUrl = page.url();
+
+    await page.goto(parentUrl);
+    await waitForCanvas(page);
+    await page.locator('[data-node-id="stock-source"] rect').first().click();
+    await deleteSelected(page);
+
+    // The child survives as a top-level diagram without a breadcrumb
+    await page.waitForTimeout(600);
+    await page.goto(childUrl);
+    await waitForCanvas(page);
+    await expect(page.getByText("Source → Source")).toHaveCount(0);
+  });
+
+  test("should nest subsystems in the sidebar tree and collapse them", async ({ page }) => {
+    await importFixture(page, "simple-flow");
+    await expandSource(page);
+
+    const items = page.getByTestId("system-list-item");
+    const child = items.filter({ hasText: "Source" });
+    await expect(child).toBeVisible();
+
+    // The parent row has a toggle; collapsing hides the child
+    const parent = items.filter({ hasText: "Simple Flow" });
+    await parent.getByTestId("system-tree-toggle").click();
+    await expect(child).toHaveCount(0);
+
+    // Collapse state survives a reload
+    await page.reload();
+    await waitForCanvas(page);
+    await expect(items.filter({ hasText: "Source" })).toHaveCount(0);
+  });
+
+  test("should make a system top-level by dropping it on empty sidebar space", async ({ page }) => {
+    await importFixture(page, "simple-flow");
+    await expandSource(page);
+
+    const child = page.getByTestId("system-list-item").filter({ hasText: "Source" });
+    await child.dragTo(page.getByTestId("system-tree"), { targetPosition: { x: 20, y: 150 } });
+
+    // No longer a subsystem, so no breadcrumb
+    await expect(page.getByText("Source → Source")).toHaveCount(0);
+  });
+});
@@ -0,0 +1,318 @@
+import { test, expect } from "@playwright/test";
+import { request, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createMemoryAdapter } from "@/lib/storage/memory";
+import { getStorage, snapshotsKey } from "@/lib/storage/adapter";
+import { createSyncClient } from "@/lib/sync/http";
+import { replaceStorage } from "@/lib/store/storage";
+import { useDiagramStore, readStoredDiagram } from "@/lib/store/diagrams";
+import { syncWithServer } from "@/lib/store/server";
+import { DiagramDoc } from "@/lib/model/schema";
+import { getFixtureJson } from "./helpers";
+
+/**
+ * Sync server tests. These run server/sync-server.mjs on localhost and
+ * exercise lib/sync/http.ts and lib/store/server.ts directly, so they don't
+ * need a browser page.
+ */
+
+interface SyncServerModule {
+  createSyncServer: (options?: { dataDir?: string }) => Promise<Server>;
+}
+
+async function startServer(dataDir?: string): Promise<{ url: string; close: () => Promise<void> }> {
+  const { createSyncServer } = (await import("../server/sync-server.mjs")) as SyncServerModule;
+  const server = await createSyncServer({ dataDir });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
+
+function fixture(): DiagramDoc {
+  return getFixtureJson("simple-flow") as DiagramDoc;
+}
+
+test.describe("Sync server", () => {
+  let server: Awaited<ReturnType<typeof startServer>>;
+
+  test.beforeEach(async () => {
+    server = await startServer();
+  });
+
+  test.afterEach(async () => {
+    await server.close();
+  });
+
+  test("should create a diagram and list it in the index", async () => {
+    const doc = fixture();
+    const created = await fetch(`${server.url}/api/diagrams/${doc.id}`, {
+      method: "PUT",
+      headers: { "If-None-Match": "*" },
+      body: JSON.stringify(doc),
+    });
+    expect(created.status).toBe(201);
+    const etag = created.headers.get("ETag");
+    expect(etag).toMatch(/^".+"$/);
+
+    const index = await (await fetch(`${server.url}/api/index`)).json();
+    expect(index).toEqual({ [doc.id]: { id: doc.id, title: doc.title, updatedAt: doc.updatedAt, etag } });
+
+    const read = await fetch(`${server.url}/api/diagrams/${doc.id}`);
+    expect(read.headers.get("ETag")).toBe(etag);
+    expect(await read.json()).toEqual(doc);
+  });
+
+  test("should answer 304 when the copy hasn't changed", async () => {
+    const doc = fixture();
+    const client = createSyncClient(server.url);
+    const put = await client.putDiagram(doc, null);
+    if (!put.ok) throw new Error("Create failed");
+
+    const response = await fetch(`${server.url}/api/diagrams/${doc.id}`, {
+      headers: { "If-None-Match": put.etag ?? "" },
+    });
+    expect(response.status).toBe(304);
+  });
+
+  test("should require a precondition on every write", async () => {
+    const doc = fixture();
+    const url = `${server.url}/api/diagrams/${doc.id}`;
+    expect((await fetch(url, { method: "PUT", body: JSON.stringify(doc) })).status).toBe(428);
+
+    await createSyncClient(server.url).putDiagram(doc, null);
+    expect((await fetch(url, { method: "DELETE" })).status).toBe(428);
+  });
+
+  test("should refuse writes based on a stale copy", async () => {
+    const doc = fixture();
+    const client = createSyncClient(server.url);
+    const first = await client.putDiagram(doc, null);
+    if (!first.ok || !first.etag) throw new Error("Create failed");
+
+    const second = await client.putDiagram({ ...doc, title: "Theirs" }, first.etag);
+    expect(second.ok).toBe(true);
+
+    // Still based on the first copy
+    const stale = await client.putDiagram({ ...doc, title: "Mine" }, first.etag);
+    expect(stale.ok).toBe(false);
+    if (stale.ok) return;
+    expect(stale.current?.data).toMatchObject({ title: "Theirs" });
+
+    // Creating it again is refused too
+    expect((await client.putDiagram(doc, null)).ok).toBe(false);
+    expect((await client.deleteDiagram(doc.id, first.etag)).ok).toBe(false);
+  });
+
+  test("should let only one of two concurrent writes on the same copy land", async () => {
+    const doc = fixture();
+    const put = await createSyncClient(server.url).putDiagram(doc, null);
+    if (!put.ok || !put.etag) throw new Error("Create failed");
+
+    // Both send their headers before either sends its body
+    const writes = ["First", "Second"].map((title) => {
+      const write = request(`${server.url}/api/diagrams/${doc.id}`, {
+        method: "PUT",
+        headers: { "If-Match": put.etag! },
+      });
+      write.flushHeaders();
+      const status = new Promise<number>((resolve) =>
+        write.on("response", (response) => {
+          response.resume();
+          resolve(response.statusCode ?? 0);
+        })
+      );
+      return { send: () => write.end(JSON.stringify({ ...doc, title })), status };
+    });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    writes.forEach((write) => write.send());
+    const statuses = await Promise.all(writes.map((write) => write.status));
+
+    expect([...statuses].sort()).toEqual([200, 412]);
+    const landed = statuses[0] === 200 ? "First" : "Second";
+    expect(await (await fetch(`${server.url}/api/diagrams/${doc.id}`)).json()).toMatchObject({ title: landed });
+  });
+
+  test("should delete only the expected copy", async () => {
+    const doc = fixture();
+    const client = createSyncClient(server.url);
+    const put = await client.putDiagram(doc, null);
+    if (!put.ok || !put.etag) throw new Error("Create failed");
+
+    expect((await client.deleteDiagram(doc.id, put.etag)).ok).toBe(true);
+    expect(await client.getDiagram(doc.id)).toBeNull();
+    expect(await client.getIndex()).toEqual({});
+  });
+
+  test("should reject bodies that aren't this diagram", async () => {
+    const response = await fetch(`${server.url}/api/diagrams/other`, {
+      method: "PUT",
+      headers: { "If-None-Match": "*" },
+      body: JSON.stringify(fixture()),
+    });
+    expect(response.status).toBe(400);
+  });
+});
+
+test.describe("Sync server data folder", () => {
+  test("should keep diagrams as files across restarts", async () => {
+    const dataDir = await mkdtemp(join(tmpdir(), "sync-server-"));
+    try {
+      const doc = fixture();
+      const first = await startServer(dataDir);
+      const put = await createSyncClient(first.url).putDiagram(doc, null);
+      await first.close();
+
+      const text = await readFile(join(dataDir, "diagrams", `${doc.id}.json`), "utf-8");
+      expect(JSON.parse(text)).toEqual(doc);
+
+      const second = await startServer(dataDir);
+      const read = await createSyncClient(second.url).getDiagram(doc.id);
+      await second.close();
+      expect(read).toEqual({ data: doc, etag: put.ok ? put.etag : null });
+    } finally {
+      await rm(dataDir, { recursive: true, force: true });
+    }
+  });
+
+  test("should write overlapping saves of one diagram in order, leaving the last on disk", async () => {
+    const dataDir = await mkdtemp(join(tmpdir(), "sync-server-"));
+    try {
+      const server = await startServer(dataDir);
+      const doc = fixture();
+      const url = `${server.url}/api/diagrams/${doc.id}`;
+      await fetch(url, { method: "PUT", headers: { "If-None-Match": "*" }, body: JSON.stringify(doc) });
+
+      // If-Match: * replaces whatever is there, so none of these wait on another
+      const statuses = await Promise.all(
+        Array.from({ length: 20 }, (_, i) =>
+          fetch(url, {
+            method: "PUT",
+            headers: { "If-Match": "*" },
+            body: JSON.stringify({ ...doc, title: `Save ${i}` }),
+          }).then((response) => response.status)
+        )
+      );
+      const latest = await (await fetch(url)).json();
+      await server.close();
+
+      expect(statuses).toEqual(Array(20).fill(200));
+      const text = await readFile(join(dataDir, "diagrams", `${doc.id}.json`), "utf-8");
+      expect(JSON.parse(text)).toEqual(latest);
+    } finally {
+      await rm(dataDir, { recursive: true, force: true });
+    }
+  });
+});
+
+test.describe("Syncing the diagram store", () => {
+  let server: Awaited<ReturnType<typeof startServer>>;
+
+  test.beforeEach(async () => {
+    replaceStorage(createMemoryAdapter());
+    await useDiagramStore.getState().initialize();
+    server = await startServer();
+  });
+
+  test.afterEach(async () => {
+    await server.close();
+  });
+
+  /** Create and open a diagram, saved as it would be by autosave. */
+  async function createLocal(title: string): Promise<string> {
+    const id = useDiagramStore.getState().createDiagram(title);
+    await useDiagramStore.getState().saveDiagram();
+    return id;
+  }
+
+  test("should push new diagrams, without the view", async () => {
+    const id = await createLocal("Pushed");
+    expect(await syncWithServer(server.url)).toBe(true);
+
+    const remote = await createSyncClient(server.url).getDiagram(id);
+    expect(remote?.data).toMatchObject({ id, title: "Pushed" });
+    expect(remote?.data).not.toHaveProperty("viewport");
+  });
+
+  test("should pull diagrams from the server", async () => {
+    const doc = { ...fixture(), id: "pulled-diagram" };
+    await createSyncClient(server.url).putDiagram(doc, null);
+
+    await syncWithServer(server.url);
+    expect(useDiagramStore.getState().diagrams[doc.id]).toMatchObject({ title: doc.title });
+    expect((await readStoredDiagram(doc.id))?.nodes).toEqual(doc.nodes);
+  });
+
+  test("should pull changes into the open diagram", async () => {
+    const id = await createLocal("Before");
+    await syncWithServer(server.url);
+
+    const client = createSyncClient(server.url);
+    const remote = await client.getDiagram(id);
+    await client.putDiagram({ ...(remote!.data as DiagramDoc), title: "After" }, remote!.etag);
+
+    await syncWithServer(server.url);
+    expect(useDiagramStore.getState().currentDiagram?.title).toBe("After");
+    expect(useDiagramStore.getState().diagrams[id].title).toBe("After");
+  });
+
+  test("should merge edits made on both sides since the last sync", async () => {
+    const id = await createLocal("Shared");
+    await syncWithServer(server.url);
+
+    const client = createSyncClient(server.url);
+    const remote = await client.getDiagram(id);
+    await client.putDiagram({ ...(remote!.data as DiagramDoc), title: "Renamed elsewhere" }, remote!.etag);
+
+    const nodeId = useDiagramStore.getState().addNode({
+      type: "stock",
+      label: "Added here",
+      x: 0,
+      y: 0,
+      width: 120,
+      height: 60,
+      color: "default",
+    });
+
+    expect(await syncWithServer(server.url)).toBe(true);
+
+    const merged = useDiagramStore.getState().currentDiagram!;
+    expect(merged.title).toBe("Renamed elsewhere");
+    expect(merged.nodes[nodeId]?.label).toBe("Added here");
+    const pushed = (await client.getDiagram(id))!.data as DiagramDoc;
+    expect(pushed.title).toBe("Renamed elsewhere");
+    expect(pushed.nodes[nodeId]).toBeDefined();
+  });
+
+  test("should keep the server's copy as a version when there's nothing to merge against", async () => {
+    const id = await createLocal("Mine");
+    const client = createSyncClient(server.url);
+    const theirs = { ...useDiagramStore.getState().currentDiagram!, title: "Theirs" };
+    await client.putDiagram(theirs, null);
+
+    await syncWithServer(server.url);
+    expect(((await client.getDiagram(id))!.data as DiagramDoc).title).toBe("Mine");
+    const snapshots = (await getStorage().get<{ doc: DiagramDoc }[]>(snapshotsKey(id))) ?? [];
+    expect(snapshots.map((snapshot) => snapshot.doc.title)).toEqual(["Theirs"]);
+  });
+
+  test("should carry deletions both ways", async () => {
+    const client = createSyncClient(server.url);
+    const deletedHere = await createLocal("Deleted here");
+    const deletedThere = await createLocal("Deleted there");
+    await syncWithServer(server.url);
+
+    await useDiagramStore.getState().deleteDiagram(deletedHere);
+    const remote = await client.getDiagram(deletedThere);
+    await client.deleteDiagram(deletedThere, remote!.etag);
+
+    await syncWithServer(server.url);
+    expect(await client.getDiagram(deletedHere)).toBeNull();
+    expect(useDiagramStore.getState().diagrams[deletedThere]).toBeUndefined();
+  });
+});
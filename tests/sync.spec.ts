@@ -0,0 +1,183 @@
+import { test, expect } from "@playwright/test";
+import { CrdtDoc, CrdtOp, applyOps, createCrdt, recordChange, toDiagram } from "@/lib/sync/crdt";
+import { createLocalHub } from "@/lib/sync/transport";
+import { DiagramDoc } from "@/lib/model/schema";
+import { getFixtureJson } from "./helpers";
+
+/**
+ * Collaboration tests. These exercise lib/sync directly and don't need a
+ * browser page.
+ */
+
+const base = getFixtureJson("simple-flow") as DiagramDoc;
+
+function withNode(doc: DiagramDoc, id: string, updates: Partial<DiagramDoc["nodes"][string]>): DiagramDoc {
+  return { ...doc, nodes: { ...doc.nodes, [id]: { ...doc.nodes[id], ...updates } } };
+}
+
+function withoutNode(doc: DiagramDoc, id: string): DiagramDoc {
+  const nodes = { ...doc.nodes };
+  delete nodes[id];
+  return { ...doc, nodes };
+}
+
+/** A replica that records edits to its own copy of the diagram. */
+function replica(peer: string) {
+  const crdt: CrdtDoc = createCrdt(base);
+  return {
+    crdt,
+    edit(update: (doc: DiagramDoc) => DiagramDoc): CrdtOp[] {
+      const before = toDiagram(crdt);
+      return recordChange(crdt, before, update(before), peer);
+    },
+    receive(ops: CrdtOp[]) {
+      return applyOps(crdt, structuredClone(ops), peer);
+    },
+  };
+}
+
+test.describe("CRDT document", () => {
+  test("should round-trip a diagram", () => {
+    expect(toDiagram(createCrdt(base))).toEqual(base);
+  });
+
+  test("should merge edits to different fields of the same stock", () => {
+    const alice = replica("alice");
+    const bob = replica("bob");
+
+    const fromAlice = alice.edit((doc) => withNode(doc, "stock-sink", { label: "Tank" }));
+    const fromBob = bob.edit((doc) =>
+      withNode(doc, "stock-sink", { x: 500, attributes: { owner: "Bob" } })
+    );
+    expect(alice.receive(fromBob).conflicts).toEqual([]);
+    expect(bob.receive(fromAlice).conflicts).toEqual([]);
+
+    const merged = toDiagram(alice.crdt);
+    expect(merged).toEqual(toDiagram(bob.crdt));
+    expect(merged.nodes["stock-sink"]).toMatchObject({ label: "Tank", x: 500, attributes: { owner: "Bob" } });
+  });
+
+  test("should converge on one value and flag it on the side that lost", () => {
+    const alice = replica("alice");
+    const bob = replica("bob");
+
+    const fromAlice = alice.edit((doc) => withNode(doc, "stock-sink", { label: "Alice's" }));
+    const fromBob = bob.edit((doc) => withNode(doc, "stock-sink", { label: "Bob's" }));
+    const atAlice = alice.receive(fromBob);
+    const atBob = bob.receive(fromAlice);
+
+    // Same clock, so the higher peer ID wins everywhere
+    expect(toDiagram(alice.crdt).nodes["stock-sink"].label).toBe("Bob's");
+    expect(toDiagram(bob.crdt).nodes["stock-sink"].label).toBe("Bob's");
+    expect(atAlice.conflicts).toEqual([
+      { path: ["nodes", "stock-sink", "label"], local: "Alice's", remote: "Bob's" },
+    ]);
+    expect(atBob.conflicts).toEqual([]);
+  });
+
+  test("should not flag an edit made after seeing the other one", () => {
+    const alice = replica("alice");
+    const bob = replica("bob");
+
+    bob.receive(alice.edit((doc) => withNode(doc, "stock-sink", { label: "First" })));
+    const reply = bob.edit((doc) => withNode(doc, "stock-sink", { label: "Second" }));
+
+    expect(alice.receive(reply).conflicts).toEqual([]);
+    expect(toDiagram(alice.crdt).nodes["stock-sink"].label).toBe("Second");
+  });
+
+  test("should flag deleting a stock someone else was editing, and restore it whole", () => {
+    const alice = replica("alice");
+    const bob = replica("bob");
+
+    const edit = alice.edit((doc) => withNode(doc, "stock-sink", { label: "Edited" }));
+    const deletion = bob.edit((doc) => withoutNode(doc, "stock-sink"));
+    bob.receive(edit);
+    const { conflicts } = alice.receive(deletion);
+
+    expect(toDiagram(alice.crdt).nodes["stock-sink"]).toBeUndefined();
+    expect(toDiagram(bob.crdt).nodes["stock-sink"]).toBeUndefined();
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({ path: ["nodes", "stock-sink"], remote: undefined });
+    expect((conflicts[0].local as { label: string }).label).toBe("Edited");
+
+    // Keeping it writes the whole stock again, without stale fields
+    const restore = alice.edit((doc) => ({
+      ...doc,
+      nodes: { ...doc.nodes, "stock-sink": conflicts[0].local as DiagramDoc["nodes"][string] },
+    }));
+    bob.receive(restore);
+    expect(toDiagram(bob.crdt).nodes["stock-sink"]).toEqual({ ...base.nodes["stock-sink"], label: "Edited" });
+  });
+
+  test("should drop a flow added to a stock deleted at the same time, and flag it for its author", () => {
+    const alice = replica("alice");
+    const bob = replica("bob");
+
+    const deletion = alice.edit((doc) => {
+      const edges = { ...doc.edges };
+      delete edges["flow-1"];
+      return { ...withoutNode(doc, "stock-sink"), edges };
+    });
+    const flow = { id: "flow-2", type: "flow", sourceId: "stock-source", targetId: "stock-sink", label: "" };
+    const addition = bob.edit((doc) => ({ ...doc, edges: { ...doc.edges, "flow-2": flow } as DiagramDoc["edges"] }));
+
+    const atAlice = alice.receive(addition);
+    const atBob = bob.receive(deletion);
+
+    for (const merged of [toDiagram(alice.crdt), toDiagram(bob.crdt)]) {
+      expect(merged.nodes["stock-sink"]).toBeUndefined();
+      expect(merged.edges).toEqual({});
+    }
+    expect(atAlice.conflicts).toEqual([]);
+    expect(atBob.conflicts).toEqual([{ path: ["edges", "flow-2"], local: flow, remote: undefined }]);
+  });
+
+  test("should bring a replica up to date from another's full state", () => {
+    const alice = replica("alice");
+    alice.edit((doc) => ({ ...withNode(doc, "stock-source", { y: 20 }), title: "Renamed" }));
+
+    const late = replica("carol");
+    const { conflicts } = applyOps(late.crdt, Object.values(alice.crdt.registers), "carol", false);
+
+    expect(conflicts).toEqual([]);
+    expect(toDiagram(late.crdt)).toEqual(toDiagram(alice.crdt));
+  });
+});
+
+test.describe("Local transport", () => {
+  test("should deliver copies to every other endpoint", () => {
+    const hub = createLocalHub<{ text: string }>();
+    const a = hub.connect();
+    const b = hub.connect();
+    const c = hub.connect();
+    const received: string[] = [];
+    a.subscribe((message) => received.push(`a:${message.text}`));
+    b.subscribe((message) => received.push(`b:${message.text}`));
+    c.subscribe((message) => received.push(`c:${message.text}`));
+
+    const message = { text: "hi" };
+    a.send(message);
+    c.close();
+    b.send({ text: "bye" });
+
+    expect(received).toEqual(["b:hi", "c:hi", "a:bye"]);
+  });
+
+  test("should keep replicas in step when wired through it", () => {
+    const hub = createLocalHub<CrdtOp[]>();
+    const alice = replica("alice");
+    const bob = replica("bob");
+    const aliceLink = hub.connect();
+    const bobLink = hub.connect();
+    aliceLink.subscribe((ops) => alice.receive(ops));
+    bobLink.subscribe((ops) => bob.receive(ops));
+
+    aliceLink.send(alice.edit((doc) => withoutNode(doc, "stock-source")));
+    bobLink.send(bob.edit((doc) => ({ ...doc, title: "Shared" })));
+
+    expect(toDiagram(alice.crdt)).toEqual(toDiagram(bob.crdt));
+    expect(toDiagram(bob.crdt).nodes["stock-source"]).toBeUndefined();
+    expect(toDiagram(alice.crdt).title).toBe("Shared");
+  });
+});
@@ -0,0 +1,67 @@
+import { test, expect } from "@playwright/test";
+import {
+  importFixture,
+  waitForCanvas,
+  getNodeCount,
+  selectNode,
+  deleteSelected,
+  createNodeAt,
+  clearIndexedDB,
+} from "./helpers";
+
+test.describe("Named versions", () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto("/");
+    await clearIndexedDB(page);
+    await page.reload();
+    await waitForCanvas(page);
+  });
+
+  async function saveVersion(page: import("@playwright/test").Page, name: string) {
+    await page.getByTestId("history-button").click();
+    await page.getByTestId("snapshot-name-input").fill(name);
+    await page.getByTestId("save-snapshot-button").click();
+    await expect(page.getByTestId("snapshot-item").filter({ hasText: name })).toBeVisible();
+  }
+
+  test("should show added and removed stocks when comparing with a version", async ({ page }) => {
+    await importFixture(page, "simple-flow");
+    await saveVersion(page, "Before workshop");
+
+    await selectNode(page, "stock-sink");
+    await deleteSelected(page);
+    await createNodeAt(page, 300, 400);
+
+    await page.getByTestId("snapshot-compare").click();
+
+    await expect(page.getByTestId("diff-banner")).toContainText("Before workshop");
+    await expect(page.getByTestId("diff-banner")).toContainText("1 added");
+    await expect(page.locator('[data-diff-node-id="stock-sink"][data-diff-status="removed"]')).toHaveCount(1);
+    await expect(page.locator('[data-diff-status="added"]')).toHaveCount(1);
+
+    await page.getByTestId("diff-banner").getByText("Done").click();
+    await expect(page.getByTestId("diff-banner")).toHaveCount(0);
+  });
+
+  test("should keep versions across reloads and restore one as a new system", async ({ page }) => {
+    await importFixture(page, "simple-flow");
+    await saveVersion(page, "Baseline");
+
+    await selectNode(page, "stock-sink");
+    await deleteSelected(page);
+    expect(await getNodeCount(page)).toBe(1);
+
+    await page.reload();
+    await waitForCanvas(page);
+    await page.getByTestId("history-button").click();
+    await expect(page.getByTestId("snapshot-item")).toHaveCount(1);
+
+    const originalUrl = page.url();
+    await page.getByTestId("snapshot-restore").click();
+    await page.waitForURL((url) => url.href !== originalUrl);
+    await waitForCanvas(page);
+
+    expect(await getNodeCount(page)).toBe(2);
+    await expect(page.getByTestId("system-list-item").filter({ hasText: "Simple Flow (Baseline)" })).toBeVisible();
+  });
+});